@@ -60,4 +60,25 @@ export const ERROR_MESSAGES = {
   QUERY_TIMEOUT: 'Query timeout',
   UNKNOWN_METHOD: 'Unknown method',
   BRIDGE_NOT_RUNNING: 'MCP Bridge is not running',
-} as const;
\ No newline at end of file
+} as const;
+/**
+ * Wall restriction presets (Foundry CONST.WALL_SENSE_TYPES / WALL_MOVEMENT_TYPES values)
+ */
+export const WALL_PRESETS = {
+  wall: { move: 20, sight: 20, light: 20, sound: 20, door: 0 },
+  door: { move: 20, sight: 20, light: 20, sound: 20, door: 1 },
+  'secret-door': { move: 20, sight: 20, light: 20, sound: 20, door: 2 },
+  window: { move: 20, sight: 0, light: 0, sound: 10, door: 0 },
+  invisible: { move: 20, sight: 0, light: 0, sound: 0, door: 0 },
+  terrain: { move: 20, sight: 10, light: 10, sound: 10, door: 0 },
+  ethereal: { move: 0, sight: 20, light: 20, sound: 20, door: 0 },
+} as const;
+
+/**
+ * Door states (Foundry CONST.WALL_DOOR_STATES)
+ */
+export const DOOR_STATES = {
+  closed: 0,
+  open: 1,
+  locked: 2,
+} as const;
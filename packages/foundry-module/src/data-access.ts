@@ -1,6 +1,10 @@
-import { MODULE_ID, ERROR_MESSAGES, TOKEN_DISPOSITIONS } from './constants.js';
-import { permissionManager } from './permissions.js';
-import { transactionManager } from './transaction-manager.js';
+import { MODULE_ID, ERROR_MESSAGES, TOKEN_DISPOSITIONS, WALL_PRESETS, DOOR_STATES } from './constants.js';
+import { permissionManager, PermissionCheck } from './permissions.js';
+import { transactionManager, Transaction, TransactionAction } from './transaction-manager.js';
+import { CompendiumSearchIndex } from './search-index.js';
+import { tokenize } from './text-search.js';
+import { restoreFailedPack } from './index-storage.js';
+import { EnhancedItemIndexStore, type EnhancedItemIndex, type ItemCriteria } from './item-index.js';
 // Local type definitions to avoid shared package import issues
 interface CharacterInfo {
   id: string;
@@ -114,25 +118,67 @@ interface PF2eCreatureIndex {
   img?: string;
 }
 
-// Union type for both systems
-type EnhancedCreatureIndex = DnD5eCreatureIndex | PF2eCreatureIndex;
+// Starfinder Enhanced Creature Index
+interface SFRPGCreatureIndex {
+  id: string;
+  name: string;
+  type: string;
+  pack: string;
+  packLabel: string;
+  challengeRating?: number;         // NPCs (npc, npc2)
+  level?: number;                   // Characters and drones
+  creatureType: string;
+  subtypes: string[];               // "Humanoid (ysoki)" -> ['ysoki']
+  size: string;
+  hitPoints: number;
+  eac: number;                      // Energy Armor Class
+  kac: number;                      // Kinetic Armor Class
+  hasSpells: boolean;
+  alignment: string;
+  description?: string;
+  img?: string;
+}
+
+// Union type for all supported systems
+type EnhancedCreatureIndex = DnD5eCreatureIndex | PF2eCreatureIndex | SFRPGCreatureIndex;
+
+/**
+ * Starfinder creatures have no single AC; EAC/KAC tell them apart from D&D 5e and PF2e ones
+ */
+function isSFRPGCreature(creature: EnhancedCreatureIndex): creature is SFRPGCreatureIndex {
+  return 'kac' in creature;
+}
 
 interface PersistentIndexMetadata {
   version: string;
   timestamp: number;
   packFingerprints: Map<string, PackFingerprint>;
   totalCreatures: number;
-  gameSystem: string;  // 'dnd5e' or 'pf2e'
+  gameSystem: string;  // 'dnd5e', 'pf2e' or 'sfrpg'
 }
 
 interface PackFingerprint {
   packId: string;
   packLabel: string;
-  lastModified: number;
+  packageVersion: string;           // Version of the system or module shipping the pack ('' for world packs)
+  lastModified: number;             // Latest _stats.modifiedTime of the pack's documents
   documentCount: number;
   checksum: string;
 }
 
+// Creature index build progress, pushed to the MCP server over the bridge as 'index-progress'
+export interface IndexProgress {
+  index: 'creatures';
+  phase: 'start' | 'pack' | 'complete' | 'error';
+  mode: 'full' | 'partial';
+  packsDone: number;
+  packsTotal: number;
+  pack?: string | undefined;
+  creatures: number;
+  message: string;
+  timestamp: number;
+}
+
 interface PersistentEnhancedIndex {
   metadata: PersistentIndexMetadata;
   creatures: EnhancedCreatureIndex[];
@@ -207,6 +253,8 @@ interface ActorCreationResult {
   tokensPlaced?: number;
   totalRequested: number;
   totalCreated: number;
+  dryRun?: boolean | undefined;
+  changes?: DryRunChange[] | undefined;
 }
 
 interface CreatedActorInfo {
@@ -253,6 +301,7 @@ interface SceneTokenPlacement {
   placement: 'random' | 'grid' | 'center' | 'coordinates';
   hidden: boolean;
   coordinates?: { x: number; y: number }[];
+  dryRun?: boolean | undefined;
 }
 
 interface TokenPlacementResult {
@@ -260,19 +309,70 @@ interface TokenPlacementResult {
   tokensCreated: number;
   tokenIds: string[];
   errors?: string[] | undefined;
+  dryRun?: boolean | undefined;
+  changes?: DryRunChange[] | undefined;
+}
+
+// Dry run: a document change that a write operation would make
+interface DryRunChange {
+  action: 'create' | 'update' | 'delete';
+  documentType: string;
+  id: string | null;
+  name: string | null;
+  parent?: string | undefined;
+  data?: Record<string, unknown> | undefined;
+  changes?: Record<string, { from: unknown; to: unknown }> | undefined;
+  validationError?: string | undefined;
+}
+
+// Outcome of a player's roll button click, stored in the roll request message flags
+interface RollButtonResult {
+  formula: string;
+  total: number;
+  natural?: number; // Kept d20 result, when the roll has one
+  dice: Array<{ faces: number; number: number; results: number[]; discarded?: number[] }>;
+}
+
+// Raw actor update paths allowed by update-actor; document structure (_id, type, items, ownership) is off limits
+const RAW_ACTOR_UPDATE_PATTERN = /^(system|flags|prototypeToken)\.[\w.-]+$/;
+
+// Actor types that make it into the creature index
+const INDEXED_CREATURE_TYPES = ['npc', 'character', 'creature'];
+
+// Outcome of bringing the creature index up to date
+interface CreatureIndexUpdate {
+  creatures: EnhancedCreatureIndex[];
+  mode: 'full' | 'partial' | 'unchanged';
+  packsUpdated: number;
+  packsTotal: number;
+}
+
+// Version of the enhanced creature index, compared by the MCP server's cached copy
+interface CreatureIndexVersion {
+  hash: string;
+  gameSystem: string;
+  totalCreatures: number;
+  timestamp: number;
 }
 
 /**
  * Persistent Enhanced Creature Index System
  * Stores pre-computed creature data in JSON file within Foundry world directory for instant filtering
  * Uses file-based storage following Foundry best practices for large data sets
+ * Updated per pack: only packs whose fingerprint changed are extracted again
  */
 class PersistentCreatureIndex {
   private moduleId: string = MODULE_ID;
-  private readonly INDEX_VERSION = '1.0.0';
+  private readonly INDEX_VERSION = '1.1.0';
   private readonly INDEX_FILENAME = 'enhanced-creature-index.json';
-  private buildInProgress = false;
+  private readonly PARTIAL_REBUILD_DELAY_MS = 2000; // Let a burst of compendium edits settle first
   private hooksRegistered = false;
+  private cachedIndex: PersistentEnhancedIndex | null = null;
+  private needsCheck = true; // Pack fingerprints not compared yet, or packs may have come and gone
+  private dirtyPacks = new Set<string>();
+  private rebuildTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentUpdate: Promise<CreatureIndexUpdate> | null = null;
+  private progressReporter: ((progress: IndexProgress) => void) | null = null;
 
   constructor() {
     this.registerFoundryHooks();
@@ -287,25 +387,70 @@ class PersistentCreatureIndex {
   }
 
   /**
-   * Get or build the enhanced creature index
+   * Receive build progress, e.g. to forward it over the bridge
+   */
+  setProgressReporter(reporter: ((progress: IndexProgress) => void) | null): void {
+    this.progressReporter = reporter;
+  }
+
+  /**
+   * Get the enhanced creature index, extracting any packs that changed since it was saved
    */
   async getEnhancedIndex(): Promise<EnhancedCreatureIndex[]> {
-    // Check if we have a valid persistent index
-    const existingIndex = await this.loadPersistedIndex();
-    
-    if (existingIndex && this.isIndexValid(existingIndex)) {
-      return existingIndex.creatures;
+    if (this.cachedIndex && !this.needsCheck && this.dirtyPacks.size === 0) {
+      return this.cachedIndex.creatures;
     }
-    
-    // Build new index if needed
-    return await this.buildEnhancedIndex();
+
+    const update = await this.updateIndex();
+    return update.creatures;
+  }
+
+  /**
+   * Version of the up-to-date index: a hash over its format, system, save time and pack fingerprints.
+   * Lets the MCP server keep its own copy and pull the creatures again only when this changes.
+   */
+  async getIndexVersion(): Promise<CreatureIndexVersion> {
+    const creatures = await this.getEnhancedIndex();
+    const metadata = this.cachedIndex!.metadata;
+
+    const fingerprints = Array.from(metadata.packFingerprints.values())
+      .map(fp => `${fp.packId}:${fp.packageVersion}:${fp.lastModified}:${fp.documentCount}`)
+      .sort()
+      .join(',');
+
+    return {
+      hash: this.hashString(`${metadata.version}|${metadata.gameSystem}|${metadata.timestamp}|${creatures.length}|${fingerprints}`),
+      gameSystem: metadata.gameSystem,
+      totalCreatures: creatures.length,
+      timestamp: metadata.timestamp
+    };
+  }
+
+  /**
+   * FNV-1a hash as hex; only needs to change when the input does
+   */
+  private hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Compare every pack with its saved fingerprint and extract the ones that changed
+   */
+  async refreshIndex(): Promise<CreatureIndexUpdate> {
+    this.needsCheck = true;
+    return await this.updateIndex();
   }
 
   /**
    * Force rebuild of the enhanced index
    */
-  async rebuildIndex(): Promise<EnhancedCreatureIndex[]> {
-    return await this.buildEnhancedIndex(true);
+  async rebuildIndex(): Promise<CreatureIndexUpdate> {
+    return await this.updateIndex(true);
   }
 
   /**
@@ -314,7 +459,7 @@ class PersistentCreatureIndex {
   private async loadPersistedIndex(): Promise<PersistentEnhancedIndex | null> {
     try {
       const filePath = this.getIndexFilePath();
-      
+
       // Check if file exists using Foundry's FilePicker
       let fileExists = false;
       try {
@@ -337,7 +482,7 @@ class PersistentCreatureIndex {
       }
 
       const rawData = await response.json();
-      
+
 
       // Convert Map data back from JSON
       const metadata = rawData.metadata;
@@ -370,7 +515,7 @@ class PersistentCreatureIndex {
 
       // Create a File object and upload it using Foundry's file system
       const file = new File([jsonContent], this.INDEX_FILENAME, { type: 'application/json' });
-      
+
       // Upload the file to the world directory
       const uploadResponse = await (foundry as any).applications.apps.FilePicker.implementation.upload('data', `worlds/${game.world.id}`, file);
 
@@ -384,83 +529,47 @@ class PersistentCreatureIndex {
     }
   }
 
-  /**
-   * Check if existing index is valid (all packs unchanged)
-   */
-  private isIndexValid(existingIndex: PersistentEnhancedIndex): boolean {
-    // Check version
-    if (existingIndex.metadata.version !== this.INDEX_VERSION) {
-      return false;
-    }
-
-    // NEW: Check system compatibility
-    const currentSystem = (game as any).system.id;
-    if (existingIndex.metadata.gameSystem !== currentSystem) {
-      console.log(`[${this.moduleId}] System changed from ${existingIndex.metadata.gameSystem} to ${currentSystem}, index invalidated`);
-      return false;
-    }
-
-    // Check each pack fingerprint
-    const actorPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Actor');
-    
-    for (const pack of actorPacks) {
-      const currentFingerprint = this.generatePackFingerprint(pack);
-      const savedFingerprint = existingIndex.metadata.packFingerprints.get(pack.metadata.id);
-      
-      if (!savedFingerprint) {
-        return false;
-      }
-      
-      if (!this.fingerprintsMatch(currentFingerprint, savedFingerprint)) {
-        return false;
-      }
-    }
-
-    // Check if any saved packs no longer exist
-    for (const [packId] of existingIndex.metadata.packFingerprints) {
-      if (!game.packs.get(packId)) {
-        return false;
-      }
-    }
-
-    return true;
-  }
-
   /**
    * Register Foundry hooks for real-time pack change detection
    */
   private registerFoundryHooks(): void {
     if (this.hooksRegistered) return;
 
-    // Listen for compendium document changes
-    Hooks.on('createDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character' || document.type === 'creature')) {
-        this.invalidateIndex();
+    // Compendium documents created, updated or deleted
+    Hooks.on('updateCompendium', (pack: any) => {
+      if (pack?.metadata?.type === 'Actor') {
+        this.markPackDirty(pack.metadata.id);
       }
     });
 
-    Hooks.on('updateDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character' || document.type === 'creature')) {
-        this.invalidateIndex();
-      }
-    });
-
-    Hooks.on('deleteDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character' || document.type === 'creature')) {
-        this.invalidateIndex();
-      }
-    });
+    for (const hook of ['createActor', 'updateActor', 'deleteActor']) {
+      Hooks.on(hook, (document: any) => {
+        if (document.pack && INDEXED_CREATURE_TYPES.includes(document.type)) {
+          this.markPackDirty(document.pack);
+        }
+      });
+    }
 
     // Listen for pack creation/deletion
     Hooks.on('createCompendium', (pack: any) => {
       if (pack.metadata.type === 'Actor') {
-        this.invalidateIndex();
+        this.needsCheck = true;
+        this.schedulePartialRebuild();
       }
     });
 
     Hooks.on('deleteCompendium', (pack: any) => {
       if (pack.metadata.type === 'Actor') {
-        this.invalidateIndex();
+        this.needsCheck = true;
+        this.schedulePartialRebuild();
+      }
+    });
+
+    // Modules enabled or disabled; packs they add or remove after the world reloads are caught by the ready check
+    Hooks.on('updateSetting', (setting: any) => {
+      if (setting?.key === 'core.moduleConfiguration') {
+        this.needsCheck = true;
+        this.schedulePartialRebuild();
       }
     });
 
@@ -468,57 +577,81 @@ class PersistentCreatureIndex {
   }
 
   /**
-   * Invalidate the current index (mark for rebuild on next access)
+   * Mark a pack for extraction on the next update
+   */
+  private markPackDirty(packId: string): void {
+    this.dirtyPacks.add(packId);
+    this.schedulePartialRebuild();
+  }
+
+  /**
+   * Update the index shortly after pack changes, when it is in use and auto-rebuild is on
+   * Otherwise the changes are picked up on next access
    */
-  private async invalidateIndex(): Promise<void> {
+  private schedulePartialRebuild(): void {
+    if (!this.cachedIndex || !game.user?.isGM) return;
+
     try {
-      // Check if auto-rebuild is enabled
-      const autoRebuild = game.settings.get(this.moduleId, 'autoRebuildIndex');
-      
-      if (!autoRebuild) {
+      if (!game.settings.get(this.moduleId, 'autoRebuildIndex') || !game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex')) {
         return;
       }
-
-      // Delete the index file to force rebuild
-      const filePath = this.getIndexFilePath();
-      
-      try {
-        // Check if file exists first by trying to browse to the world directory
-        const browseResult = await (foundry as any).applications.apps.FilePicker.implementation.browse('data', `worlds/${game.world.id}`);
-        const fileExists = browseResult.files.some((f: any) => f.endsWith(this.INDEX_FILENAME));
-        
-        if (fileExists) {
-          // File exists, delete it using fetch with DELETE method
-          await fetch(filePath, { method: 'DELETE' });
-          // File deletion completed (or failed silently)
-        }
-      } catch (error) {
-        // File doesn't exist or deletion failed - that's okay
-      }
     } catch (error) {
-      console.warn(`[${this.moduleId}] Failed to invalidate index:`, error);
+      // Settings not registered yet
+      return;
+    }
+
+    if (this.rebuildTimer) {
+      clearTimeout(this.rebuildTimer);
     }
+
+    this.rebuildTimer = setTimeout(() => {
+      this.rebuildTimer = null;
+      this.updateIndex().catch(error => {
+        console.warn(`[${this.moduleId}] Partial creature index rebuild failed:`, error);
+      });
+    }, this.PARTIAL_REBUILD_DELAY_MS);
   }
 
   /**
-   * Generate fingerprint for pack change detection with improved accuracy
+   * Generate fingerprint for pack change detection
+   * The last modified time comes from the documents' _stats, so edits are caught even when the count is unchanged
    */
-  private generatePackFingerprint(pack: any): PackFingerprint {
-    // Get actual modification time if available
-    let lastModified = Date.now();
-    if (pack.metadata.lastModified) {
-      lastModified = new Date(pack.metadata.lastModified).getTime();
+  private async generatePackFingerprint(pack: any): Promise<PackFingerprint> {
+    let lastModified = 0;
+    try {
+      await pack.getIndex({ fields: ['_stats.modifiedTime'] });
+      for (const entry of pack.index.values()) {
+        lastModified = Math.max(lastModified, entry._stats?.modifiedTime || 0);
+      }
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to read modification times for pack ${pack.metadata.label}:`, error);
     }
 
     return {
       packId: pack.metadata.id,
       packLabel: pack.metadata.label,
-      lastModified: lastModified,
+      packageVersion: this.getPackageVersion(pack),
+      lastModified,
       documentCount: pack.index?.size || 0,
       checksum: this.generatePackChecksum(pack)
     };
   }
 
+  /**
+   * Version of the system or module that ships a pack, so updating it re-extracts the pack
+   */
+  private getPackageVersion(pack: any): string {
+    const { packageType, packageName } = pack.metadata;
+
+    if (packageType === 'system') {
+      return (game as any).system.version || '';
+    }
+    if (packageType === 'module') {
+      return (game as any).modules.get(packageName)?.version || '';
+    }
+    return '';
+  }
+
   /**
    * Generate checksum for pack contents
    */
@@ -532,163 +665,224 @@ class PersistentCreatureIndex {
    * Compare two pack fingerprints
    */
   private fingerprintsMatch(current: PackFingerprint, saved: PackFingerprint): boolean {
-    return current.documentCount === saved.documentCount && 
-           current.checksum === saved.checksum;
+    return current.documentCount === saved.documentCount &&
+           current.checksum === saved.checksum &&
+           current.packageVersion === saved.packageVersion &&
+           current.lastModified === saved.lastModified;
   }
 
   /**
-   * Build enhanced creature index from all Actor packs with detailed progress tracking
+   * Run one index update at a time; later callers wait for it and then check again
    */
-  private async buildEnhancedIndex(force = false): Promise<EnhancedCreatureIndex[]> {
-    if (this.buildInProgress && !force) {
-      throw new Error('Index build already in progress');
+  private async updateIndex(force = false): Promise<CreatureIndexUpdate> {
+    while (this.currentUpdate) {
+      try {
+        await this.currentUpdate;
+      } catch (error) {
+        // Reported to whoever started that update
+      }
     }
 
-    // Detect game system ONCE at build time
-    const gameSystem = (game as any).system.id;
-
-    console.log(`[${this.moduleId}] Building enhanced creature index for system: ${gameSystem}`);
-
-    // Route to system-specific builder
-    if (gameSystem === 'pf2e') {
-      return await this.buildPF2eIndex(force);
-    } else if (gameSystem === 'dnd5e') {
-      return await this.buildDnD5eIndex(force);
-    } else {
-      throw new Error(`Enhanced creature index not supported for system: ${gameSystem}. Only D&D 5e and Pathfinder 2e are currently supported.`);
+    this.currentUpdate = this.runIndexUpdate(force);
+    try {
+      return await this.currentUpdate;
+    } finally {
+      this.currentUpdate = null;
     }
   }
 
   /**
-   * Build D&D 5e enhanced creature index
+   * Bring the enhanced index up to date: keep creatures from unchanged packs, extract new, changed
+   * and dirty packs again, and drop removed ones. Without a usable saved index every pack is extracted.
    */
-  private async buildDnD5eIndex(_force = false): Promise<DnD5eCreatureIndex[]> {
-    this.buildInProgress = true;
+  private async runIndexUpdate(force: boolean): Promise<CreatureIndexUpdate> {
+    if (!force && this.cachedIndex && !this.needsCheck && this.dirtyPacks.size === 0) {
+      return { creatures: this.cachedIndex.creatures, mode: 'unchanged', packsUpdated: 0, packsTotal: this.cachedIndex.metadata.packFingerprints.size };
+    }
+
+    // Detect game system ONCE at build time
+    const gameSystem = (game as any).system.id;
+    if (gameSystem !== 'pf2e' && gameSystem !== 'dnd5e' && gameSystem !== 'sfrpg') {
+      throw new Error(`Enhanced creature index not supported for system: ${gameSystem}. Only D&D 5e, Pathfinder 2e and Starfinder are currently supported.`);
+    }
+
+    const dirtyPacks = new Set(this.dirtyPacks);
+    this.dirtyPacks.clear();
+    this.needsCheck = false;
 
     const startTime = Date.now();
     let progressNotification: any = null;
-    let totalErrors = 0; // Track extraction errors
+    let totalErrors = 0;
+    let mode: 'full' | 'partial' = 'full';
 
     try {
+      const savedIndex = force ? null : (this.cachedIndex ?? await this.loadPersistedIndex());
+      let reusableIndex: PersistentEnhancedIndex | null = null;
+
+      if (savedIndex && savedIndex.metadata.version !== this.INDEX_VERSION) {
+        console.log(`[${this.moduleId}] Creature index format changed from ${savedIndex.metadata.version} to ${this.INDEX_VERSION}, rebuilding`);
+      } else if (savedIndex && savedIndex.metadata.gameSystem !== gameSystem) {
+        console.log(`[${this.moduleId}] System changed from ${savedIndex.metadata.gameSystem} to ${gameSystem}, index invalidated`);
+      } else {
+        reusableIndex = savedIndex;
+      }
 
+      // Fingerprint every Actor pack and collect the ones to extract
       const actorPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Actor');
-      const enhancedCreatures: DnD5eCreatureIndex[] = [];
       const packFingerprints = new Map<string, PackFingerprint>();
+      const changedPacks: any[] = [];
 
-      // Show initial progress notification
-      ui.notifications?.info(`Starting enhanced creature index build from ${actorPacks.length} packs...`);
+      for (const pack of actorPacks) {
+        const fingerprint = await this.generatePackFingerprint(pack);
+        packFingerprints.set(pack.metadata.id, fingerprint);
 
-      for (let i = 0; i < actorPacks.length; i++) {
-        const pack = actorPacks[i];
-        const progressPercent = Math.round((i / actorPacks.length) * 100);
-        
-        // Update progress notification every few packs or for important packs
-        if (i % 3 === 0 || pack.metadata.label.toLowerCase().includes('monster')) {
-          if (progressNotification) {
-            progressNotification.remove();
-          }
-          progressNotification = ui.notifications?.info(
-            `Building creature index... ${progressPercent}% (${i + 1}/${actorPacks.length}) Processing: ${pack.metadata.label}`
-          );
+        const savedFingerprint = reusableIndex?.metadata.packFingerprints.get(pack.metadata.id);
+        if (!savedFingerprint || dirtyPacks.has(pack.metadata.id) || !this.fingerprintsMatch(fingerprint, savedFingerprint)) {
+          changedPacks.push(pack);
         }
+      }
 
+      const removedPacks = reusableIndex
+        ? Array.from(reusableIndex.metadata.packFingerprints.keys()).filter(packId => !packFingerprints.has(packId))
+        : [];
 
-        try {
-          // Ensure pack index is loaded
-          if (!pack.indexed) {
-            await pack.getIndex({});
-          }
+      if (reusableIndex && changedPacks.length === 0 && removedPacks.length === 0) {
+        this.cachedIndex = reusableIndex;
+        return { creatures: reusableIndex.creatures, mode: 'unchanged', packsUpdated: 0, packsTotal: actorPacks.length };
+      }
 
-          // Generate pack fingerprint for change detection
-          packFingerprints.set(pack.metadata.id, this.generatePackFingerprint(pack));
+      mode = reusableIndex ? 'partial' : 'full';
+      const changedPackIds = new Set(changedPacks.map(pack => pack.metadata.id));
+      const enhancedCreatures: EnhancedCreatureIndex[] = reusableIndex
+        ? reusableIndex.creatures.filter(creature => packFingerprints.has(creature.pack) && !changedPackIds.has(creature.pack))
+        : [];
 
-          // Show pack processing details for large packs
-          const packSize = pack.index?.size || 0;
-          if (packSize > 50) {
-            if (progressNotification) {
-              progressNotification.remove();
-            }
-            progressNotification = ui.notifications?.info(
-              `Processing large pack: ${pack.metadata.label} (${packSize} documents)...`
-            );
-          }
+      console.log(`[${this.moduleId}] Updating ${gameSystem} creature index (${mode}): ${changedPacks.length} of ${actorPacks.length} packs to extract, ${removedPacks.length} removed`);
 
-          // Process creatures in this pack
-          const packResult = await this.extractDnD5eDataFromPack(pack);
-          enhancedCreatures.push(...packResult.creatures);
-          totalErrors += packResult.errors;
+      // Partial updates run in the background while the GM works; only full builds show notifications
+      if (mode === 'full') {
+        ui.notifications?.info(`Starting enhanced creature index build from ${actorPacks.length} packs...`);
+      }
+      this.reportProgress({
+        phase: 'start',
+        mode,
+        packsDone: 0,
+        packsTotal: changedPacks.length,
+        creatures: enhancedCreatures.length,
+        message: `Creature index ${mode === 'full' ? 'build' : 'update'} started: ${changedPacks.length} packs to extract`
+      });
 
-          // Pack processing completed: ${pack.metadata.label} - ${packResult.creatures.length} creatures extracted
+      for (let i = 0; i < changedPacks.length; i++) {
+        const pack = changedPacks[i];
 
-          // Show milestone notifications for significant progress
-          if (i === 0 || (i + 1) % 5 === 0 || i === actorPacks.length - 1) {
-            const totalCreaturesSoFar = enhancedCreatures.length;
-            if (progressNotification) {
-              progressNotification.remove();
-            }
-            progressNotification = ui.notifications?.info(
-              `Index Progress: ${i + 1}/${actorPacks.length} packs complete, ${totalCreaturesSoFar} creatures indexed`
-            );
+        if (mode === 'full') {
+          if (progressNotification) {
+            progressNotification.remove();
           }
+          progressNotification = ui.notifications?.info(
+            `Building creature index... ${Math.round((i / changedPacks.length) * 100)}% (${i + 1}/${changedPacks.length}) Processing: ${pack.metadata.label}`
+          );
+        }
 
+        try {
+          const packResult = gameSystem === 'pf2e'
+            ? await this.extractPF2eDataFromPack(pack)
+            : gameSystem === 'sfrpg'
+              ? await this.extractSFRPGDataFromPack(pack)
+              : await this.extractDnD5eDataFromPack(pack);
+          enhancedCreatures.push(...packResult.creatures);
+          totalErrors += packResult.errors;
         } catch (error) {
           console.warn(`[${this.moduleId}] Failed to process pack ${pack.metadata.label}:`, error);
-          // Show error notification for pack failures
           ui.notifications?.warn(`Warning: Failed to index pack "${pack.metadata.label}" - continuing with other packs`);
+          // Keep what the pack had and extract it again on the next update
+          enhancedCreatures.push(...restoreFailedPack(pack.metadata.id, packFingerprints, reusableIndex?.creatures ?? []));
         }
+
+        this.reportProgress({
+          phase: 'pack',
+          mode,
+          packsDone: i + 1,
+          packsTotal: changedPacks.length,
+          pack: pack.metadata.label,
+          creatures: enhancedCreatures.length,
+          message: `Creature index: ${i + 1}/${changedPacks.length} packs extracted (${pack.metadata.label}), ${enhancedCreatures.length} creatures`
+        });
       }
 
-      // Clear progress notification and show final processing step
       if (progressNotification) {
         progressNotification.remove();
+        progressNotification = null;
       }
-      ui.notifications?.info(`Saving enhanced index to world database... (${enhancedCreatures.length} creatures)`);
 
-      // Create persistent index structure
       const persistentIndex: PersistentEnhancedIndex = {
         metadata: {
           version: this.INDEX_VERSION,
           timestamp: Date.now(),
           packFingerprints,
           totalCreatures: enhancedCreatures.length,
-          gameSystem: 'dnd5e'  // Mark as D&D 5e index
+          gameSystem
         },
         creatures: enhancedCreatures
       };
 
-      // Save to world flags
       await this.savePersistedIndex(persistentIndex);
+      this.cachedIndex = persistentIndex;
 
       const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
       const errorText = totalErrors > 0 ? ` (${totalErrors} extraction errors)` : '';
-      const successMessage = `Enhanced creature index complete! ${enhancedCreatures.length} creatures indexed from ${actorPacks.length} packs in ${buildTimeSeconds}s${errorText}`;
-      
-      ui.notifications?.info(successMessage);
+      const message = mode === 'full'
+        ? `Enhanced creature index complete! ${enhancedCreatures.length} creatures indexed from ${actorPacks.length} packs in ${buildTimeSeconds}s${errorText}`
+        : `Enhanced creature index updated: ${changedPacks.length} changed and ${removedPacks.length} removed packs, ${enhancedCreatures.length} creatures in ${buildTimeSeconds}s${errorText}`;
+
+      if (mode === 'full') {
+        ui.notifications?.info(message);
+      } else {
+        console.log(`[${this.moduleId}] ${message}`);
+      }
+      this.reportProgress({
+        phase: 'complete',
+        mode,
+        packsDone: changedPacks.length,
+        packsTotal: changedPacks.length,
+        creatures: enhancedCreatures.length,
+        message
+      });
 
-      return enhancedCreatures;
+      return { creatures: enhancedCreatures, mode, packsUpdated: changedPacks.length, packsTotal: actorPacks.length };
 
     } catch (error) {
-      // Clear any progress notifications on error
-      if (progressNotification) {
-        progressNotification.remove();
-      }
-      
+      // Extract the same packs again next time
+      dirtyPacks.forEach(packId => this.dirtyPacks.add(packId));
+      this.needsCheck = true;
+
       const errorMessage = `Failed to build enhanced creature index: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(`[${this.moduleId}] ${errorMessage}`);
       ui.notifications?.error(errorMessage);
-      
+      this.reportProgress({ phase: 'error', mode, packsDone: 0, packsTotal: 0, creatures: 0, message: errorMessage });
+
       throw error;
-      
+
     } finally {
-      this.buildInProgress = false;
-      
-      // Ensure progress notification is cleared
       if (progressNotification) {
         progressNotification.remove();
       }
     }
   }
 
+  /**
+   * Forward build progress to the reporter, if any
+   */
+  private reportProgress(progress: Omit<IndexProgress, 'index' | 'timestamp'>): void {
+    if (!this.progressReporter) return;
+
+    try {
+      this.progressReporter({ index: 'creatures', ...progress, timestamp: Date.now() });
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to report index progress:`, error);
+    }
+  }
+
   /**
    * Extract D&D 5e data from all documents in a pack
    */
@@ -874,123 +1068,41 @@ class PersistentCreatureIndex {
   }
 
   /**
-   * Build Pathfinder 2e enhanced creature index
+   * Extract PF2e creature data from all documents in a pack
    */
-  private async buildPF2eIndex(_force = false): Promise<PF2eCreatureIndex[]> {
-    this.buildInProgress = true;
-
-    const startTime = Date.now();
-    let progressNotification: any = null;
-    let totalErrors = 0;
+  private async extractPF2eDataFromPack(pack: any): Promise<{ creatures: PF2eCreatureIndex[], errors: number }> {
+    const creatures: PF2eCreatureIndex[] = [];
+    let errors = 0;
 
     try {
-      const actorPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Actor');
-      const enhancedCreatures: PF2eCreatureIndex[] = [];
-      const packFingerprints = new Map<string, PackFingerprint>();
+      const documents = await pack.getDocuments();
 
-      ui.notifications?.info(`Starting PF2e creature index build from ${actorPacks.length} packs...`);
+      for (const doc of documents) {
+        try {
+          // Support NPCs, characters, and creatures
+          if (doc.type !== 'npc' && doc.type !== 'character' && doc.type !== 'creature') {
+            continue;
+          }
 
-      let currentPack = 0;
-      for (const pack of actorPacks) {
-        currentPack++;
+          const result = this.extractPF2eCreatureData(doc, pack);
+          if (result) {
+            creatures.push(result.creature);
+            errors += result.errors;
+          }
 
-        if (progressNotification) {
-          progressNotification.remove();
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Failed to extract PF2e data from ${doc.name} in ${pack.metadata.label}:`, error);
+          errors++;
         }
-        progressNotification = ui.notifications?.info(
-          `Building PF2e index: Pack ${currentPack}/${actorPacks.length} (${pack.metadata.label})...`
-        );
-
-        const fingerprint = await this.generatePackFingerprint(pack);
-        packFingerprints.set(pack.metadata.id, fingerprint);
-
-        const result = await this.extractPF2eDataFromPack(pack);
-        enhancedCreatures.push(...result.creatures);
-        totalErrors += result.errors;
-      }
-
-      if (progressNotification) {
-        progressNotification.remove();
       }
-      ui.notifications?.info(`Saving PF2e index to world database... (${enhancedCreatures.length} creatures)`);
-
-      const persistentIndex: PersistentEnhancedIndex = {
-        metadata: {
-          version: this.INDEX_VERSION,
-          timestamp: Date.now(),
-          packFingerprints,
-          totalCreatures: enhancedCreatures.length,
-          gameSystem: 'pf2e'  // Mark as PF2e index
-        },
-        creatures: enhancedCreatures
-      };
 
-      await this.savePersistedIndex(persistentIndex);
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to load documents from ${pack.metadata.label}:`, error);
+      errors++;
+    }
 
-      const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
-      const errorText = totalErrors > 0 ? ` (${totalErrors} extraction errors)` : '';
-      const successMessage = `PF2e creature index complete! ${enhancedCreatures.length} creatures indexed from ${actorPacks.length} packs in ${buildTimeSeconds}s${errorText}`;
-
-      ui.notifications?.info(successMessage);
-
-      return enhancedCreatures;
-
-    } catch (error) {
-      if (progressNotification) {
-        progressNotification.remove();
-      }
-
-      const errorMessage = `Failed to build PF2e creature index: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      console.error(`[${this.moduleId}] ${errorMessage}`);
-      ui.notifications?.error(errorMessage);
-
-      throw error;
-
-    } finally {
-      this.buildInProgress = false;
-
-      if (progressNotification) {
-        progressNotification.remove();
-      }
-    }
-  }
-
-  /**
-   * Extract PF2e creature data from all documents in a pack
-   */
-  private async extractPF2eDataFromPack(pack: any): Promise<{ creatures: PF2eCreatureIndex[], errors: number }> {
-    const creatures: PF2eCreatureIndex[] = [];
-    let errors = 0;
-
-    try {
-      const documents = await pack.getDocuments();
-
-      for (const doc of documents) {
-        try {
-          // Support NPCs, characters, and creatures
-          if (doc.type !== 'npc' && doc.type !== 'character' && doc.type !== 'creature') {
-            continue;
-          }
-
-          const result = this.extractPF2eCreatureData(doc, pack);
-          if (result) {
-            creatures.push(result.creature);
-            errors += result.errors;
-          }
-
-        } catch (error) {
-          console.warn(`[${this.moduleId}] Failed to extract PF2e data from ${doc.name} in ${pack.metadata.label}:`, error);
-          errors++;
-        }
-      }
-
-    } catch (error) {
-      console.warn(`[${this.moduleId}] Failed to load documents from ${pack.metadata.label}:`, error);
-      errors++;
-    }
-
-    return { creatures, errors };
-  }
+    return { creatures, errors };
+  }
 
   /**
    * Extract Pathfinder 2e creature data from a single document
@@ -1097,11 +1209,142 @@ class PersistentCreatureIndex {
       };
     }
   }
+  /**
+   * Extract Starfinder creature data from all documents in a pack
+   */
+  private async extractSFRPGDataFromPack(pack: any): Promise<{ creatures: SFRPGCreatureIndex[], errors: number }> {
+    const creatures: SFRPGCreatureIndex[] = [];
+    let errors = 0;
+
+    try {
+      const documents = await pack.getDocuments();
+
+      for (const doc of documents) {
+        try {
+          // npc2 is the current NPC type, npc the legacy one; starships, vehicles and hazards are not creatures
+          if (doc.type !== 'npc' && doc.type !== 'npc2' && doc.type !== 'character' && doc.type !== 'drone') {
+            continue;
+          }
+
+          const result = this.extractSFRPGCreatureData(doc, pack);
+          if (result) {
+            creatures.push(result.creature);
+            errors += result.errors;
+          }
+
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Failed to extract Starfinder data from ${doc.name} in ${pack.metadata.label}:`, error);
+          errors++;
+        }
+      }
+
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to load documents from ${pack.metadata.label}:`, error);
+      errors++;
+    }
+
+    return { creatures, errors };
+  }
+
+  /**
+   * Extract Starfinder creature data from a single document
+   * Same fields as the MCP server's Starfinder index builder
+   */
+  private extractSFRPGCreatureData(doc: any, pack: any): { creature: SFRPGCreatureIndex, errors: number } | null {
+    try {
+      const system = doc.system || {};
+      const isNpc = doc.type === 'npc' || doc.type === 'npc2';
+
+      // Type is free text on NPCs, e.g. "Humanoid (human, ysoki)", with more subtypes in details.subtype
+      const creatureTypes = ['aberration', 'animal', 'construct', 'dragon', 'fey', 'humanoid', 'magical beast',
+                             'monstrous humanoid', 'ooze', 'outsider', 'plant', 'undead', 'vermin'];
+      const typeText = String(system.details?.type ?? '');
+      const typeMatch = typeText.match(/^([^(]*)\(([^)]*)\)/);
+      const baseType = (typeMatch ? typeMatch[1] : typeText).trim().toLowerCase();
+      const creatureType = creatureTypes.find(type => type === baseType) ?? (baseType || 'unknown');
+      const subtypes = [typeMatch?.[2] ?? '', String(system.details?.subtype ?? '')].join(',')
+        .split(',')
+        .map(subtype => subtype.trim().toLowerCase())
+        .filter(Boolean);
+
+      const size = String(system.traits?.size || 'medium').toLowerCase();
+
+      // Hit Points and the two armor classes
+      const hitPoints = Number(system.attributes?.hp?.max ?? 0);
+      const eac = Number(system.attributes?.eac?.value ?? 10);
+      const kac = Number(system.attributes?.kac?.value ?? 10);
+
+      // Spellcasting: spell items, or spells per day in any spell level
+      const items = doc.items ? Array.from(doc.items as Iterable<any>) : [];
+      const spellLevels = Object.values(system.spells ?? {}) as any[];
+      const hasSpells = items.some(item => item.type === 'spell') ||
+        spellLevels.some(spellLevel => Number(spellLevel?.max ?? spellLevel?.perDay ?? 0) > 0);
+
+      // Alignment
+      let alignment = system.details?.alignment || 'N';
+      if (typeof alignment !== 'string') {
+        alignment = String(alignment || 'N');
+      }
+
+      return {
+        creature: {
+          id: doc._id,
+          name: doc.name,
+          type: doc.type,
+          pack: pack.metadata.id,
+          packLabel: pack.metadata.label,
+          // NPCs are rated by CR, characters and drones by level
+          ...(isNpc
+            ? { challengeRating: Number(system.details?.cr ?? 0) || 0 }
+            : { level: Number(system.details?.level?.value ?? 1) || 1 }),
+          creatureType: creatureType,
+          subtypes: subtypes,
+          size: size,
+          hitPoints: hitPoints,
+          eac: eac,
+          kac: kac,
+          hasSpells: hasSpells,
+          alignment: alignment.toUpperCase(),
+          description: system.details?.biography?.value || system.details?.description || '',
+          img: doc.img
+        },
+        errors: 0
+      };
+
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to extract Starfinder data from ${doc.name}:`, error);
+
+      // Fallback with error count
+      return {
+        creature: {
+          id: doc._id,
+          name: doc.name,
+          type: doc.type,
+          pack: pack.metadata.id,
+          packLabel: pack.metadata.label,
+          challengeRating: 0,
+          creatureType: 'unknown',
+          subtypes: [],
+          size: 'medium',
+          hitPoints: 1,
+          eac: 10,
+          kac: 10,
+          hasSpells: false,
+          alignment: 'N',
+          description: 'Data extraction failed',
+          img: doc.img || ''
+        },
+        errors: 1
+      };
+    }
+  }
 }
 
 export class FoundryDataAccess {
   private moduleId: string = MODULE_ID;
   private persistentIndex: PersistentCreatureIndex = new PersistentCreatureIndex();
+  private searchIndex: CompendiumSearchIndex = new CompendiumSearchIndex();
+  private itemIndex: EnhancedItemIndexStore = new EnhancedItemIndexStore();
 
   constructor() {}
 
@@ -1110,7 +1353,7 @@ export class FoundryDataAccess {
    */
   async rebuildEnhancedCreatureIndex(): Promise<{ success: boolean; totalCreatures: number; message: string }> {
     try {
-      const creatures = await this.persistentIndex.rebuildIndex();
+      const { creatures } = await this.persistentIndex.rebuildIndex();
       return {
         success: true,
         totalCreatures: creatures.length,
@@ -1126,6 +1369,38 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * Bring the enhanced creature index up to date, extracting only packs that changed since it was saved
+   */
+  async updateEnhancedCreatureIndex(): Promise<{ success: boolean; totalCreatures: number; packsUpdated: number; message: string }> {
+    try {
+      const update = await this.persistentIndex.refreshIndex();
+      return {
+        success: true,
+        totalCreatures: update.creatures.length,
+        packsUpdated: update.packsUpdated,
+        message: update.mode === 'unchanged'
+          ? `Enhanced creature index up to date: ${update.creatures.length} creatures from ${update.packsTotal} packs`
+          : `Enhanced creature index updated: ${update.packsUpdated} of ${update.packsTotal} packs extracted, ${update.creatures.length} creatures`
+      };
+    } catch (error) {
+      console.error(`[${this.moduleId}] Failed to update enhanced creature index:`, error);
+      return {
+        success: false,
+        totalCreatures: 0,
+        packsUpdated: 0,
+        message: `Failed to update index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Receive creature index build progress (the bridge forwards it to the MCP server)
+   */
+  setIndexProgressReporter(reporter: ((progress: IndexProgress) => void) | null): void {
+    this.persistentIndex.setProgressReporter(reporter);
+  }
+
 
   /**
    * Get character/actor information by name or ID
@@ -2001,14 +2276,26 @@ export class FoundryDataAccess {
       throw new Error('Search query must be a string with at least 2 characters');
     }
 
+    // FULL-TEXT SEARCH: BM25 over names, descriptions and traits; creature filters use the enhanced creature index
+    const hasFilters = !!filters && Object.values(filters).some(value => value !== undefined);
+    const enhancedIndexEnabled = game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex');
+
+    // Other pack types (journals, tables) are not in the full-text index and keep the name search below,
+    // as do queries of only stopwords or single characters, which have no terms to rank
+    const hasSearchTerms = tokenize(query).length > 0;
+    if ((!packType || packType === 'Item' || packType === 'Actor') && (!hasFilters || enhancedIndexEnabled) && hasSearchTerms) {
+      try {
+        return await this.fullTextSearch(query, packType, hasFilters ? filters : undefined);
+      } catch (error) {
+        console.warn(`[${this.moduleId}] Full-text search failed, falling back to name search:`, error);
+      }
+    }
+
     // ENHANCED SEARCH: If we have creature-specific filters and Actor packType, use enhanced index
     if (filters && packType === 'Actor' && 
         (filters.challengeRating || filters.creatureType || filters.hasLegendaryActions)) {
       
       
-      // Check if enhanced creature index is enabled
-      const enhancedIndexEnabled = game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex');
-      
       if (enhancedIndexEnabled) {
         try {
           // Convert search criteria and use enhanced search
@@ -2190,6 +2477,68 @@ export class FoundryDataAccess {
     return results.slice(0, 50); // Final limit
   }
 
+  /**
+   * Rank compendium documents with the full-text index, keeping only creatures that pass any filters
+   */
+  private async fullTextSearch(query: string, packType: string | undefined, filters: any): Promise<CompendiumSearchResult[]> {
+    let hits = await this.searchIndex.search(query, { packType, limit: filters ? 1000 : 100 });
+
+    let creatures: Map<string, EnhancedCreatureIndex> | null = null;
+    if (filters) {
+      const index = await this.persistentIndex.getEnhancedIndex();
+      creatures = new Map(index.map(creature => [`${creature.pack}.${creature.id}`, creature]));
+
+      const criteria = { ...filters, hasSpells: filters.hasSpells ?? filters.spellcaster };
+      hits = hits.filter(hit => {
+        const creature = creatures!.get(`${hit.pack}.${hit.id}`);
+        return !!creature && this.passesEnhancedCriteria(creature, criteria);
+      });
+    }
+
+    // Exact name matches first, then by score
+    const cleanQuery = query.toLowerCase().trim();
+    hits.sort((a, b) => Number(b.name.toLowerCase() === cleanQuery) - Number(a.name.toLowerCase() === cleanQuery) || b.score - a.score);
+
+    return hits.slice(0, 50).map(hit => {
+      const creature = creatures?.get(`${hit.pack}.${hit.id}`);
+      return {
+        id: hit.id,
+        name: hit.name,
+        type: hit.type,
+        img: hit.img,
+        pack: hit.pack,
+        packLabel: hit.packLabel,
+        description: creature?.description || hit.snippet || '',
+        hasImage: !!hit.img,
+        summary: `${hit.type} from ${hit.packLabel}`,
+        // Ranking details (not part of interface but will be included)
+        score: hit.score,
+        matchedTerms: hit.matchedTerms,
+      } as CompendiumSearchResult & { score: number; matchedTerms: string[] };
+    });
+  }
+
+  /**
+   * Force rebuild of the full-text compendium search index
+   */
+  async rebuildCompendiumSearchIndex(): Promise<{ success: boolean; totalDocuments: number; message: string }> {
+    try {
+      const totalDocuments = await this.searchIndex.rebuild();
+      return {
+        success: true,
+        totalDocuments,
+        message: `Compendium search index rebuilt: ${totalDocuments} documents indexed from Item and Actor packs`
+      };
+    } catch (error) {
+      console.error(`[${this.moduleId}] Failed to rebuild compendium search index:`, error);
+      return {
+        success: false,
+        totalDocuments: 0,
+        message: `Failed to rebuild search index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Check if filters should be applied to this entry
    */
@@ -2378,9 +2727,12 @@ export class FoundryDataAccess {
 
       // Sort by Level/CR then name for consistent ordering (system-aware)
       filteredCreatures.sort((a, b) => {
-        // Get power level (CR for D&D 5e, Level for PF2e)
-        const powerA = 'level' in a ? (a as PF2eCreatureIndex).level : (a as DnD5eCreatureIndex).challengeRating;
-        const powerB = 'level' in b ? (b as PF2eCreatureIndex).level : (b as DnD5eCreatureIndex).challengeRating;
+        // Get power level (CR for D&D 5e, Level for PF2e, CR or level for Starfinder)
+        const powerOf = (creature: EnhancedCreatureIndex) => isSFRPGCreature(creature)
+          ? creature.challengeRating ?? creature.level ?? 0
+          : 'level' in creature ? creature.level : creature.challengeRating;
+        const powerA = powerOf(a);
+        const powerB = powerOf(b);
 
         if (powerA !== powerB) {
           return powerA - powerB; // Lower power first
@@ -2395,6 +2747,10 @@ export class FoundryDataAccess {
 
       // Convert enhanced creatures to result format (system-aware)
       const results = filteredCreatures.map(creature => {
+        if (isSFRPGCreature(creature)) {
+          return this.formatSFRPGCreatureResult(creature);
+        }
+
         // Type guard for result formatting
         const isPF2e = 'level' in creature;
 
@@ -2475,10 +2831,71 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * List compendium items matching per-system criteria using the enhanced item index
+   */
+  async listItemsByCriteria(criteria: ItemCriteria & { limit?: number }): Promise<{ items: any[]; searchSummary: any }> {
+    const limit = criteria.limit || 200;
+    const indexedItems = await this.itemIndex.getItems();
+
+    const matches = indexedItems.filter(item => this.itemIndex.matchesCriteria(item, criteria));
+
+    // Sort by spell level / item level, then name
+    const levelOf = (item: EnhancedItemIndex) => item.system === 'pf2e' ? item.level : item.system === 'dnd5e' ? item.spellLevel ?? 0 : 0;
+    matches.sort((a, b) => levelOf(a) - levelOf(b) || a.name.localeCompare(b.name));
+
+    const resultsByPack: Record<string, number> = {};
+    const resultsByType: Record<string, number> = {};
+    for (const item of matches) {
+      resultsByPack[item.packLabel] = (resultsByPack[item.packLabel] ?? 0) + 1;
+      resultsByType[item.type] = (resultsByType[item.type] ?? 0) + 1;
+    }
+
+    return {
+      items: matches.slice(0, limit),
+      searchSummary: {
+        totalItemsFound: matches.length,
+        returned: Math.min(matches.length, limit),
+        resultsByPack,
+        resultsByType,
+        criteria,
+        indexMetadata: {
+          totalIndexedItems: indexedItems.length,
+          searchMethod: 'enhanced_item_index'
+        }
+      }
+    };
+  }
+
+  /**
+   * Force rebuild of the enhanced item index
+   */
+  async rebuildEnhancedItemIndex(): Promise<{ success: boolean; totalItems: number; message: string }> {
+    try {
+      const items = await this.itemIndex.rebuild();
+      return {
+        success: true,
+        totalItems: items.length,
+        message: `Enhanced item index rebuilt: ${items.length} items indexed from all Item packs`
+      };
+    } catch (error) {
+      console.error(`[${this.moduleId}] Failed to rebuild enhanced item index:`, error);
+      return {
+        success: false,
+        totalItems: 0,
+        message: `Failed to rebuild item index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Check if enhanced creature passes all specified criteria (system-aware routing)
    */
   private passesEnhancedCriteria(creature: EnhancedCreatureIndex, criteria: any): boolean {
+    if (isSFRPGCreature(creature)) {
+      return this.passesSFRPGCriteria(creature, criteria);
+    }
+
     // Type guard for PF2e creatures - check for level property
     if ('level' in creature) {
       return this.passesPF2eCriteria(creature as PF2eCreatureIndex, criteria);
@@ -2607,37 +3024,114 @@ export class FoundryDataAccess {
   }
 
   /**
-   * Fallback to basic creature search if enhanced index fails
+   * Check if Starfinder creature passes all specified criteria
+   * CR and level filters are compared against the CR of NPCs and the level of characters and drones
    */
-  private async fallbackBasicCreatureSearch(criteria: any, limit: number): Promise<{creatures: any[], searchSummary: any}> {
-    console.warn(`[${this.moduleId}] Falling back to basic search due to enhanced index failure`);
-    
-    // Use a simple text-based search as fallback
-    const searchTerms: string[] = [];
-    
-    if (criteria.creatureType) {
-      searchTerms.push(criteria.creatureType);
-    }
-    
-    if (criteria.challengeRating) {
-      if (typeof criteria.challengeRating === 'number') {
-        // Add CR-based name patterns as fallback
-        if (criteria.challengeRating >= 15) searchTerms.push('ancient', 'legendary');
-        else if (criteria.challengeRating >= 10) searchTerms.push('adult', 'champion');
-        else if (criteria.challengeRating >= 5) searchTerms.push('captain', 'knight');
+  private passesSFRPGCriteria(creature: SFRPGCreatureIndex, criteria: {
+    challengeRating?: number | { min?: number; max?: number };
+    level?: number | { min?: number; max?: number };
+    creatureType?: string;
+    subtype?: string;
+    size?: string;
+    hasSpells?: boolean;
+  }): boolean {
+
+    // CR / level filter
+    const power = creature.challengeRating ?? creature.level ?? 0;
+    for (const range of [criteria.challengeRating, criteria.level]) {
+      if (typeof range === 'number' && Math.abs(power - range) > 0.01) {
+        return false;
+      }
+      if (typeof range === 'object' && ((range.min !== undefined && power < range.min) || (range.max !== undefined && power > range.max))) {
+        return false;
       }
     }
-    
-    const searchQuery = searchTerms.join(' ') || 'monster';
-    const basicResults = await this.searchCompendium(searchQuery, 'Actor');
-    
-    return {
-      creatures: basicResults.slice(0, limit),
-      searchSummary: {
-        packsSearched: 0,
-        topPacks: [],
-        totalCreaturesFound: basicResults.length,
-        resultsByPack: {},
+
+    // Creature type filter
+    if (criteria.creatureType &&
+        creature.creatureType.toLowerCase() !== criteria.creatureType.toLowerCase()) {
+      return false;
+    }
+
+    // Subtype filter
+    if (criteria.subtype && !creature.subtypes.includes(criteria.subtype.toLowerCase())) {
+      return false;
+    }
+
+    // Size filter
+    if (criteria.size && creature.size.toLowerCase() !== criteria.size.toLowerCase()) {
+      return false;
+    }
+
+    // Spellcasting filter
+    if (criteria.hasSpells !== undefined && creature.hasSpells !== criteria.hasSpells) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Result format of a Starfinder creature in creature listings
+   */
+  private formatSFRPGCreatureResult(creature: SFRPGCreatureIndex): Record<string, unknown> {
+    const power = creature.challengeRating !== undefined ? `CR ${creature.challengeRating}` : `Level ${creature.level ?? 1}`;
+    const subtypes = creature.subtypes.length > 0 ? ` (${creature.subtypes.join(', ')})` : '';
+
+    return {
+      id: creature.id,
+      name: creature.name,
+      type: creature.type,
+      pack: creature.pack,
+      packLabel: creature.packLabel,
+      description: creature.description || '',
+      hasImage: !!creature.img,
+      summary: `${power} ${creature.creatureType}${subtypes} from ${creature.packLabel}`,
+      challengeRating: creature.challengeRating,
+      level: creature.level,
+      creatureType: creature.creatureType,
+      subtypes: creature.subtypes,
+      size: creature.size,
+      hitPoints: creature.hitPoints,
+      eac: creature.eac,
+      kac: creature.kac,
+      hasSpells: creature.hasSpells,
+      alignment: creature.alignment
+    };
+  }
+
+  /**
+   * Fallback to basic creature search if enhanced index fails
+   */
+  private async fallbackBasicCreatureSearch(criteria: any, limit: number): Promise<{creatures: any[], searchSummary: any}> {
+    console.warn(`[${this.moduleId}] Falling back to basic search due to enhanced index failure`);
+    
+    // Use a simple text-based search as fallback
+    const searchTerms: string[] = [];
+    
+    if (criteria.creatureType) {
+      searchTerms.push(criteria.creatureType);
+    }
+    
+    if (criteria.challengeRating) {
+      if (typeof criteria.challengeRating === 'number') {
+        // Add CR-based name patterns as fallback
+        if (criteria.challengeRating >= 15) searchTerms.push('ancient', 'legendary');
+        else if (criteria.challengeRating >= 10) searchTerms.push('adult', 'champion');
+        else if (criteria.challengeRating >= 5) searchTerms.push('captain', 'knight');
+      }
+    }
+    
+    const searchQuery = searchTerms.join(' ') || 'monster';
+    const basicResults = await this.searchCompendium(searchQuery, 'Actor');
+    
+    return {
+      creatures: basicResults.slice(0, limit),
+      searchSummary: {
+        packsSearched: 0,
+        topPacks: [],
+        totalCreaturesFound: basicResults.length,
+        resultsByPack: {},
         criteria: criteria,
         fallback: true,
         searchMethod: 'basic_fallback'
@@ -2955,6 +3449,11 @@ export class FoundryDataAccess {
         return obj.map(item => this.removeSensitiveFields(item, visited, depth + 1));
       }
 
+      // Sets (e.g. dnd5e damage traits) serialize to {} otherwise
+      if (obj instanceof Set) {
+        return Array.from(obj).map(item => this.removeSensitiveFields(item, visited, depth + 1));
+      }
+
       // Create a new sanitized object
       const sanitized: any = {};
 
@@ -3103,6 +3602,57 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * Result of a dry run: the permission outcome plus the changes that would have been made
+   */
+  private buildDryRunResult(permissionCheck: PermissionCheck, changes: DryRunChange[], extra: Record<string, unknown> = {}): any {
+    const invalid = changes.filter(change => change.validationError);
+
+    return {
+      success: invalid.length === 0,
+      dryRun: true,
+      ...extra,
+      requiresConfirmation: !!permissionCheck.requiresConfirmation,
+      ...(permissionCheck.warnings?.length ? { warnings: permissionCheck.warnings } : {}),
+      changes,
+      message: invalid.length > 0
+        ? `Dry run: ${invalid.length} of ${changes.length} change(s) would fail validation. Nothing was changed.`
+        : `Dry run: ${changes.length} change(s) would be made. Nothing was changed.`,
+    };
+  }
+
+  /**
+   * Describe an update as field-level before/after values, validating it against the document schema
+   */
+  private diffDocumentUpdate(document: any, updates: Record<string, any>, parent?: string): DryRunChange {
+    const utils = (foundry as any).utils;
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const [path, to] of Object.entries(utils.flattenObject(updates))) {
+      const from = utils.getProperty(document._source ?? document, path);
+      if (!utils.objectsEqual({ value: from }, { value: to })) {
+        changes[path] = { from: from ?? null, to };
+      }
+    }
+
+    let validationError: string | undefined;
+    try {
+      document.validate({ changes: utils.expandObject(utils.deepClone(updates)), clean: true, strict: true });
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : 'Invalid update';
+    }
+
+    return {
+      action: 'update',
+      documentType: document.documentName,
+      id: document.id,
+      name: document.name ?? null,
+      ...(parent ? { parent } : {}),
+      changes,
+      ...(validationError ? { validationError } : {}),
+    };
+  }
+
   // ===== PHASE 2 & 3: WRITE OPERATIONS =====
 
   /**
@@ -3156,6 +3706,10 @@ export class FoundryDataAccess {
         throw new Error('Failed to create journal entry');
       }
 
+      transactionManager.recordTransaction(`Create journal "${journal.name}"`, [
+        transactionManager.createDocumentCreationAction(journal),
+      ]);
+
       const result = {
         id: journal.id,
         name: journal.name || request.name,
@@ -3255,7 +3809,7 @@ export class FoundryDataAccess {
    * - With pageId: update that specific page
    * - With newPageName (no pageId): create a new page
    */
-  async updateJournalContent(request: { journalId: string; content: string; pageId?: string | undefined; newPageName?: string | undefined }): Promise<{ success: boolean; pageId?: string | undefined; pageName?: string | undefined }> {
+  async updateJournalContent(request: { journalId: string; content: string; pageId?: string | undefined; newPageName?: string | undefined; dryRun?: boolean | undefined }): Promise<{ success: boolean; pageId?: string | undefined; pageName?: string | undefined; dryRun?: boolean; changes?: DryRunChange[] }> {
     this.validateFoundryState();
 
     // Use permission system for journal updates - treating as createActor permission level
@@ -3274,6 +3828,10 @@ export class FoundryDataAccess {
         throw new Error('Journal entry not found');
       }
 
+      if (request.dryRun) {
+        return this.planJournalContentUpdate(journal, request, permissionCheck);
+      }
+
       // Mode 1: Create a new page
       if (request.newPageName) {
         const created = await journal.createEmbeddedDocuments('JournalEntryPage', [{
@@ -3284,6 +3842,11 @@ export class FoundryDataAccess {
           },
         }]);
         const newPage = created?.[0];
+        if (newPage) {
+          transactionManager.recordTransaction(`Add page "${request.newPageName}" to journal "${journal.name}"`, [
+            transactionManager.createDocumentCreationAction(newPage),
+          ]);
+        }
         this.auditLog('updateJournalContent', request, 'success');
         return { success: true, pageId: newPage?.id || '', pageName: request.newPageName };
       }
@@ -3294,9 +3857,10 @@ export class FoundryDataAccess {
         if (!page) {
           throw new Error(`Page not found: ${request.pageId}`);
         }
-        await page.update({
-          'text.content': request.content,
-        });
+        const changes = { 'text.content': request.content };
+        const action = transactionManager.createDocumentUpdateAction(page, changes);
+        await page.update(changes);
+        transactionManager.recordTransaction(`Update page "${page.name}" of journal "${journal.name}"`, [action]);
         this.auditLog('updateJournalContent', request, 'success');
         return { success: true, pageId: page.id, pageName: page.name };
       }
@@ -3306,9 +3870,10 @@ export class FoundryDataAccess {
 
       if (firstPage) {
         // Update existing page
-        await firstPage.update({
-          'text.content': request.content,
-        });
+        const changes = { 'text.content': request.content };
+        const action = transactionManager.createDocumentUpdateAction(firstPage, changes);
+        await firstPage.update(changes);
+        transactionManager.recordTransaction(`Update page "${firstPage.name}" of journal "${journal.name}"`, [action]);
         this.auditLog('updateJournalContent', request, 'success');
         return { success: true, pageId: firstPage.id, pageName: firstPage.name };
       } else {
@@ -3321,6 +3886,11 @@ export class FoundryDataAccess {
           },
         }]);
         const newPage = created?.[0];
+        if (newPage) {
+          transactionManager.recordTransaction(`Add page "Quest Details" to journal "${journal.name}"`, [
+            transactionManager.createDocumentCreationAction(newPage),
+          ]);
+        }
         this.auditLog('updateJournalContent', request, 'success');
         return { success: true, pageId: newPage?.id || '', pageName: 'Quest Details' };
       }
@@ -3331,6 +3901,38 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * Describe the page a journal content update would create or change, following the same modes
+   */
+  private planJournalContentUpdate(journal: any, request: { content: string; pageId?: string | undefined; newPageName?: string | undefined }, permissionCheck: PermissionCheck): any {
+    const parent = `JournalEntry: ${journal.name}`;
+    const page = request.newPageName
+      ? null
+      : request.pageId
+        ? journal.pages.get(request.pageId)
+        : journal.pages.find((p: any) => p.type === 'text');
+
+    if (request.pageId && !page) {
+      throw new Error(`Page not found: ${request.pageId}`);
+    }
+
+    if (!page) {
+      const pageName = request.newPageName || 'Quest Details';
+      return this.buildDryRunResult(permissionCheck, [{
+        action: 'create',
+        documentType: 'JournalEntryPage',
+        id: null,
+        name: pageName,
+        parent,
+        data: { type: 'text', 'text.content': request.content },
+      }], { pageName });
+    }
+
+    return this.buildDryRunResult(permissionCheck, [
+      this.diffDocumentUpdate(page, { 'text.content': request.content }, parent),
+    ], { pageId: page.id, pageName: page.name });
+  }
+
   /**
    * Create actors from compendium entries with custom names
    */
@@ -3476,9 +4078,20 @@ export class FoundryDataAccess {
       type: 'random' | 'grid' | 'center' | 'coordinates';
       coordinates?: { x: number; y: number }[];
     };
+    dryRun?: boolean;
   }): Promise<ActorCreationResult> {
     this.validateFoundryState();
 
+    const permissionCheck = permissionManager.checkWritePermission('createActor', {
+      quantity: request.quantity || 1,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    let transactionId: string | null = null;
+
     try {
       const { packId, itemId, customNames, quantity = 1, addToScene = false, placement } = request;
 
@@ -3516,6 +4129,14 @@ export class FoundryDataAccess {
       const names = customNames.length > 0 ? customNames : [`${sourceActor.name} Copy`];
       const finalQuantity = Math.min(quantity, names.length);
 
+      if (request.dryRun) {
+        return this.planActorCreation(sourceActor, pack, names.slice(0, finalQuantity), addToScene, placement, permissionCheck);
+      }
+
+      transactionId = transactionManager.startTransaction(
+        `Create ${finalQuantity} actor(s) from compendium: ${sourceActor.name}`
+      );
+
       const createdActors: any[] = [];
       const errors: string[] = [];
 
@@ -3555,6 +4176,10 @@ export class FoundryDataAccess {
             throw new Error(`Failed to create actor "${customName}"`);
           }
 
+          transactionManager.addAction(transactionId,
+            transactionManager.createActorCreationAction(newActor.id)
+          );
+
           createdActors.push({
             id: newActor.id,
             name: newActor.name,
@@ -3579,7 +4204,7 @@ export class FoundryDataAccess {
             placement: placement?.type || 'grid',
             hidden: false,
             ...(placement?.coordinates && { coordinates: placement.coordinates })
-          });
+          }, transactionId);
           tokensPlaced = sceneResult.success ? sceneResult.tokensCreated : 0;
         } catch (error) {
           errors.push(`Failed to add actors to scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -3595,16 +4220,81 @@ export class FoundryDataAccess {
         errors: errors.length > 0 ? errors : undefined,
       };
 
+      transactionManager.commitTransaction(transactionId);
+
       this.auditLog('createActorFromCompendiumEntry', request, 'success');
       return result;
 
     } catch (error) {
+      if (transactionId) {
+        transactionManager.cancelTransaction(transactionId);
+      }
       console.error(`[${MODULE_ID}] Failed to create actor from compendium entry`, error);
       this.auditLog('createActorFromCompendiumEntry', request, 'failure', error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
   }
 
+  /**
+   * Describe the actors (and tokens) a compendium creation would make, without creating them
+   */
+  private planActorCreation(
+    sourceActor: any,
+    pack: any,
+    names: string[],
+    addToScene: boolean,
+    placement: { type: 'random' | 'grid' | 'center' | 'coordinates'; coordinates?: { x: number; y: number }[] } | undefined,
+    permissionCheck: PermissionCheck
+  ): ActorCreationResult {
+    const changes: DryRunChange[] = names.map(name => ({
+      action: 'create',
+      documentType: 'Actor',
+      id: null,
+      name,
+      data: {
+        type: sourceActor.type,
+        img: sourceActor.img,
+        source: `${pack.collection}.${sourceActor.id}`,
+        sourceName: sourceActor.name,
+        folder: 'Foundry MCP Creatures',
+        itemCount: sourceActor.items?.size ?? 0,
+      },
+    }));
+
+    const errors: string[] = [];
+    if (addToScene) {
+      const scenePermissionCheck = permissionManager.checkWritePermission('modifyScene', {});
+      const scene = (game.scenes as any).current;
+
+      if (!scenePermissionCheck.allowed) {
+        errors.push(`Cannot add to scene: ${scenePermissionCheck.reason}`);
+      } else if (!scene) {
+        errors.push('Cannot add to scene: no active scene found');
+      } else {
+        names.forEach((name, index) => {
+          const position = this.calculateTokenPosition(placement?.type || 'grid', scene, index, placement?.coordinates);
+          changes.push({
+            action: 'create',
+            documentType: 'Token',
+            id: null,
+            name,
+            parent: `Scene: ${scene.name}`,
+            data: { x: position.x, y: position.y, hidden: false },
+          });
+        });
+      }
+    }
+
+    return {
+      ...this.buildDryRunResult(permissionCheck, changes),
+      actors: [],
+      totalRequested: names.length,
+      totalCreated: 0,
+      tokensPlaced: 0,
+      ...(errors.length > 0 ? { errors } : {}),
+    };
+  }
+
   /**
    * Get full compendium document with all embedded data
    */
@@ -3680,8 +4370,6 @@ export class FoundryDataAccess {
       throw new Error('No active scene found');
     }
 
-    this.auditLog('addActorsToScene', placement, 'success');
-
     try {
       const tokenData: any[] = [];
       const errors: string[] = [];
@@ -3716,15 +4404,32 @@ export class FoundryDataAccess {
         }
       }
 
+      if (placement.dryRun) {
+        const changes: DryRunChange[] = tokenData.map(token => ({
+          action: 'create',
+          documentType: 'Token',
+          id: null,
+          name: token.name ?? null,
+          parent: `Scene: ${scene.name}`,
+          data: { actorId: token.actorId, x: token.x, y: token.y, hidden: token.hidden },
+        }));
+
+        return {
+          ...this.buildDryRunResult(permissionCheck, changes, { tokensCreated: 0, tokenIds: [] }),
+          ...(errors.length > 0 ? { errors } : {}),
+        };
+      }
+
       const createdTokens = await scene.createEmbeddedDocuments('Token', tokenData);
 
-      // Track token creation for rollback if transaction is active
-      if (transactionId && createdTokens.length > 0) {
-        for (const token of createdTokens) {
-          transactionManager.addAction(transactionId, 
-            transactionManager.createTokenCreationAction(token.id)
-          );
+      // Track token creation for rollback, as part of the caller's transaction when there is one
+      const tokenActions = createdTokens.map((token: any) => transactionManager.createDocumentCreationAction(token));
+      if (transactionId) {
+        for (const action of tokenActions) {
+          transactionManager.addAction(transactionId, action);
         }
+      } else {
+        transactionManager.recordTransaction(`Add ${createdTokens.length} token(s) to scene "${scene.name}"`, tokenActions);
       }
 
       const result: TokenPlacementResult = {
@@ -3888,7 +4593,8 @@ export class FoundryDataAccess {
     isPublic: boolean;
     rollModifier: string;
     flavor: string;
-  }): Promise<{ success: boolean; message: string; error?: string }> {
+    dc?: number;
+  }): Promise<{ success: boolean; message: string; rollId?: string; error?: string }> {
     this.validateFoundryState();
 
     try {
@@ -3977,7 +4683,13 @@ export class FoundryDataAccess {
                 rollLabel: buttonLabel,
                 isPublic: data.isPublic,
                 characterId: playerInfo.character?.id || '',
-                targetUserId: playerInfo.user?.id || ''
+                targetUserId: playerInfo.user?.id || '',
+                // Kept so get-roll-results can report who was asked for what
+                rollType: data.rollType,
+                rollTarget: data.rollTarget,
+                targetName: playerInfo.character?.name || playerInfo.targetName,
+                requestedAt: Date.now(),
+                ...(data.dc !== undefined ? { dc: data.dc } : {})
               }
             }
           }
@@ -3994,6 +4706,7 @@ export class FoundryDataAccess {
 
       return {
         success: true,
+        rollId: buttonId,
         message: `Roll request sent to ${playerInfo.targetName}. ${data.isPublic ? 'Public roll' : 'Private roll'} button created in chat.`
       };
 
@@ -4407,6 +5120,7 @@ export class FoundryDataAccess {
         // Create and evaluate the roll
         const roll = new Roll(rollFormula);
         await roll.evaluate();
+        const rollResult = this.summarizeRollResult(roll);
 
 
         // Get the character for speaker info
@@ -4449,7 +5163,7 @@ export class FoundryDataAccess {
         const buttonId = button.data('button-id');
         if (buttonId && game.user?.id) {
           try {
-            await this.updateRollButtonMessage(buttonId, game.user.id, rollLabel);
+            await this.updateRollButtonMessage(buttonId, game.user.id, rollLabel, rollResult);
           } catch (updateError) {
             console.error(`[${MODULE_ID}] Failed to update chat message:`, updateError);
             console.error(`[${MODULE_ID}] Error details:`, updateError instanceof Error ? updateError.stack : updateError);
@@ -4491,16 +5205,30 @@ export class FoundryDataAccess {
     return enhancedCreatures || [];
   }
 
+  /**
+   * Get the enhanced creature index version, so the MCP server knows when its cached copy is stale
+   */
+  async getEnhancedCreatureIndexVersion(): Promise<(CreatureIndexVersion & { enabled: true }) | { enabled: false }> {
+    this.validateFoundryState();
+
+    if (!game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex')) {
+      return { enabled: false };
+    }
+
+    const version = await this.persistentIndex.getIndexVersion();
+    return { enabled: true, ...version };
+  }
+
   /**
    * Save roll button state to persistent storage
    */
-  async saveRollState(buttonId: string, userId: string): Promise<void> {
+  async saveRollState(buttonId: string, userId: string, rollResult?: RollButtonResult): Promise<void> {
     // LEGACY METHOD - Redirecting to new ChatMessage.update() system
     
     try {
       // Use the new ChatMessage.update() approach instead
       const rollLabel = 'Legacy Roll'; // We don't have the label here, use generic
-      await this.updateRollButtonMessage(buttonId, userId, rollLabel);
+      await this.updateRollButtonMessage(buttonId, userId, rollLabel, rollResult);
     } catch (error) {
       console.error(`[${MODULE_ID}] Legacy saveRollState redirect failed:`, error);
       // Don't throw - we don't want to break the old system completely
@@ -4561,10 +5289,73 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * Reduce an evaluated roll to what get-roll-results reports: total, kept natural d20 and dice
+   */
+  private summarizeRollResult(roll: any): RollButtonResult {
+    const parsed = this.parseChatRoll(roll);
+    const d20 = parsed.dice.find((die: any) => die.faces === 20);
+
+    return {
+      formula: parsed.formula,
+      total: parsed.total,
+      ...(d20?.results.length === 1 ? { natural: d20.results[0] } : {}),
+      dice: parsed.dice,
+    };
+  }
+
+  /**
+   * Requested player rolls with their results, newest first
+   * Reads the roll button flags on recent chat messages, or the given roll IDs
+   */
+  async getRollResults(data: { rollIds?: string[]; limit?: number }): Promise<any> {
+    this.validateFoundryState();
+
+    const wanted = data.rollIds?.length ? new Set(data.rollIds) : null;
+    const limit = Math.min(Math.max(data.limit ?? 20, 1), 100);
+    const rolls: any[] = [];
+
+    const messages = wanted
+      ? Array.from(wanted).map(rollId => game.messages?.get(this.getRollButtonMessageId(rollId) || '')).filter(Boolean)
+      : (Array.from((game as any).messages?.contents ?? []) as any[]).slice(-200).reverse();
+
+    for (const message of messages as any[]) {
+      const rollButtons = message.getFlag?.(MODULE_ID, 'rollButtons') || {};
+      for (const [rollId, state] of Object.entries(rollButtons) as Array<[string, any]>) {
+        if (wanted && !wanted.has(rollId)) continue;
+        rolls.push({
+          rollId,
+          label: state.rollLabel,
+          rollType: state.rollType ?? null,
+          rollTarget: state.rollTarget ?? null,
+          target: state.targetName ?? null,
+          characterId: state.characterId || null,
+          requestedAt: state.requestedAt ? new Date(state.requestedAt).toISOString() : null,
+          dc: state.dc ?? null,
+          status: state.rolled ? 'rolled' : 'pending',
+          ...(state.rolled ? {
+            rolledBy: state.rolledByName ?? null,
+            rolledAt: state.timestamp ? new Date(state.timestamp).toISOString() : null,
+            result: state.result ?? null,
+          } : {}),
+        });
+      }
+    }
+
+    const found = new Set(rolls.map(roll => roll.rollId));
+    const missing = wanted ? Array.from(wanted).filter(rollId => !found.has(rollId)) : [];
+
+    return {
+      success: true,
+      rolls: wanted ? rolls : rolls.slice(0, limit),
+      ...(missing.length > 0 ? { notFound: missing } : {}),
+    };
+  }
+
   /**
    * Update the ChatMessage to replace button with rolled state
    */
-  async updateRollButtonMessage(buttonId: string, userId: string, rollLabel: string): Promise<void> {
+  async updateRollButtonMessage(buttonId: string, userId: string, rollLabel: string, rollResult?: RollButtonResult): Promise<void> {
     try {
 
       // Get the message ID for this button
@@ -4603,6 +5394,7 @@ export class FoundryDataAccess {
             buttonId: buttonId,
             userId: userId,
             rollLabel: rollLabel,
+            rollResult: rollResult,
             messageId: messageId,
             fromUserId: game.user.id,
             targetGM: onlineGM.id
@@ -4623,7 +5415,8 @@ export class FoundryDataAccess {
         rolled: true,
         rolledBy: userId,
         rolledByName: rolledByName,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...(rollResult ? { result: rollResult } : {})
       };
 
       // Create the rolled state HTML
@@ -4721,9 +5514,17 @@ export class FoundryDataAccess {
   /**
    * Set actor ownership permission for a user
    */
-  async setActorOwnership(data: { actorId: string; userId: string; permission: number }): Promise<{ success: boolean; message: string; error?: string }> {
+  async setActorOwnership(data: { actorId: string; userId: string; permission: number; dryRun?: boolean }): Promise<{ success: boolean; message: string; error?: string; dryRun?: boolean; changes?: DryRunChange[] }> {
     this.validateFoundryState();
 
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      return { success: false, error: `${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`, message: '' };
+    }
+
     try {
       const actor = game.actors?.get(data.actorId);
       if (!actor) {
@@ -4742,8 +5543,17 @@ export class FoundryDataAccess {
       // Set the new permission level
       newOwnership[data.userId] = data.permission;
 
+      if (data.dryRun) {
+        return this.buildDryRunResult(permissionCheck, [
+          this.diffDocumentUpdate(actor, { [`ownership.${data.userId}`]: data.permission }),
+        ]);
+      }
+
       // Update the actor
-      await actor.update({ ownership: newOwnership });
+      const changes = { ownership: newOwnership };
+      const action = transactionManager.createDocumentUpdateAction(actor, changes);
+      await actor.update(changes);
+      transactionManager.recordTransaction(`Set ownership of "${actor.name}" for ${user.name}`, [action]);
 
       const permissionNames = { 0: 'NONE', 1: 'LIMITED', 2: 'OBSERVER', 3: 'OWNER' };
       const permissionName = permissionNames[data.permission as keyof typeof permissionNames] || data.permission.toString();
@@ -5244,10 +6054,10 @@ export class FoundryDataAccess {
       }
 
       // Update token position
-      await token.update({
-        x: data.x,
-        y: data.y
-      }, { animate: data.animate !== false });
+      const changes = { x: data.x, y: data.y };
+      const action = transactionManager.createDocumentUpdateAction(token, changes);
+      await token.update(changes, { animate: data.animate !== false });
+      transactionManager.recordTransaction(`Move token "${token.name}"`, [action]);
 
       this.auditLog('moveToken', data, 'success');
 
@@ -5267,7 +6077,7 @@ export class FoundryDataAccess {
   /**
    * Update token properties
    */
-  async updateToken(data: { tokenId: string; updates: Record<string, any> }): Promise<any> {
+  async updateToken(data: { tokenId: string; updates: Record<string, any>; dryRun?: boolean }): Promise<any> {
     this.validateFoundryState();
 
     // Use permission system
@@ -5295,8 +6105,16 @@ export class FoundryDataAccess {
         Object.entries(data.updates).filter(([_, v]) => v !== undefined)
       );
 
+      if (data.dryRun) {
+        return this.buildDryRunResult(permissionCheck, [
+          this.diffDocumentUpdate(token, cleanUpdates, `Scene: ${scene.name}`),
+        ], { tokenId: token.id, tokenName: token.name });
+      }
+
       // Apply updates
+      const action = transactionManager.createDocumentUpdateAction(token, cleanUpdates);
       await token.update(cleanUpdates);
+      transactionManager.recordTransaction(`Update token "${token.name}"`, [action]);
 
       this.auditLog('updateToken', { tokenId: data.tokenId, updates: cleanUpdates }, 'success');
 
@@ -5315,7 +6133,7 @@ export class FoundryDataAccess {
   /**
    * Delete one or more tokens from the scene
    */
-  async deleteTokens(data: { tokenIds: string[] }): Promise<any> {
+  async deleteTokens(data: { tokenIds: string[]; dryRun?: boolean }): Promise<any> {
     this.validateFoundryState();
 
     // Use permission system
@@ -5333,14 +6151,34 @@ export class FoundryDataAccess {
         throw new Error('No active scene found');
       }
 
+      if (data.dryRun) {
+        const tokens = data.tokenIds.map(id => scene.tokens.get(id)).filter(Boolean);
+        const missing = data.tokenIds.filter(id => !scene.tokens.get(id));
+
+        return this.buildDryRunResult(permissionCheck, tokens.map((token: any) => ({
+          action: 'delete',
+          documentType: 'Token',
+          id: token.id,
+          name: token.name ?? null,
+          parent: `Scene: ${scene.name}`,
+          data: { actorId: token.actorId, x: token.x, y: token.y },
+        })), {
+          deletedCount: 0,
+          failedTokens: missing.length > 0 ? missing : undefined,
+        });
+      }
+
       const deletedTokens: string[] = [];
       const failedTokens: string[] = [];
+      const deleteActions: TransactionAction[] = [];
 
       for (const tokenId of data.tokenIds) {
         try {
           const token = scene.tokens.get(tokenId);
           if (token) {
+            const action = transactionManager.createDocumentDeletionAction(token);
             await token.delete();
+            deleteActions.push(action);
             deletedTokens.push(tokenId);
           } else {
             failedTokens.push(tokenId);
@@ -5350,6 +6188,8 @@ export class FoundryDataAccess {
         }
       }
 
+      transactionManager.recordTransaction(`Delete ${deletedTokens.length} token(s) from scene "${scene.name}"`, deleteActions);
+
       this.auditLog('deleteTokens', { tokenIds: data.tokenIds, deletedCount: deletedTokens.length }, 'success');
 
       return {
@@ -5477,7 +6317,10 @@ export class FoundryDataAccess {
           });
         }
 
-        await actor.createEmbeddedDocuments('ActiveEffect', [effectData]);
+        const created = await actor.createEmbeddedDocuments('ActiveEffect', [effectData]);
+        transactionManager.recordTransaction(`Apply ${data.conditionId} to "${token.name}"`,
+          created.map((effect: any) => transactionManager.createDocumentCreationAction(effect))
+        );
       } else {
         // Remove the condition
         const effects = actor.effects?.contents || [];
@@ -5498,7 +6341,9 @@ export class FoundryDataAccess {
         });
 
         if (effectsToRemove.length > 0) {
+          const actions = effectsToRemove.map((effect: any) => transactionManager.createDocumentDeletionAction(effect));
           await actor.deleteEmbeddedDocuments('ActiveEffect', effectsToRemove.map((e: any) => e.id));
+          transactionManager.recordTransaction(`Remove ${data.conditionId} from "${token.name}"`, actions);
         }
       }
 
@@ -5777,4 +6622,1938 @@ export class FoundryDataAccess {
     }
   }
 
+  // ===== COMBAT TRACKER METHODS =====
+
+  /**
+   * Resolve the combat encounter to operate on (explicit ID, otherwise the active combat)
+   */
+  private getCombatOrThrow(combatId?: string): any {
+    const combats = (game as any).combats;
+    const combat = combatId ? combats?.get(combatId) : (game as any).combat;
+    if (!combat) {
+      throw new Error(combatId ? `Combat ${combatId} not found` : 'No active combat encounter');
+    }
+    return combat;
+  }
+
+  /**
+   * Read hit points from an actor in a system-agnostic way (D&D 5e/PF2e hp, DSA5 LeP)
+   */
+  private getCombatantHitPoints(actor: any): { value: number; max: number } | null {
+    const hp = actor?.system?.attributes?.hp ?? actor?.system?.status?.wounds;
+    if (!hp || typeof hp.value !== 'number') {
+      return null;
+    }
+    return { value: hp.value, max: typeof hp.max === 'number' ? hp.max : hp.value };
+  }
+
+  /**
+   * Build a serializable snapshot of a combat encounter in turn order
+   */
+  private formatCombatState(combat: any): any {
+    const turns: any[] = Array.from(combat.turns || []);
+    const current = combat.combatant;
+
+    return {
+      combatId: combat.id,
+      sceneId: combat.scene?.id ?? null,
+      sceneName: combat.scene?.name ?? null,
+      started: !!combat.started,
+      round: combat.round ?? 0,
+      turn: combat.turn ?? null,
+      currentCombatant: current ? { id: current.id, name: current.name, tokenId: current.tokenId } : null,
+      combatants: turns.map((c: any, index: number) => ({
+        id: c.id,
+        name: c.name,
+        tokenId: c.tokenId,
+        actorId: c.actorId,
+        initiative: c.initiative ?? null,
+        isNPC: !!c.isNPC,
+        hidden: !!c.hidden,
+        defeated: !!c.isDefeated,
+        isCurrentTurn: index === combat.turn,
+        hitPoints: this.getCombatantHitPoints(c.actor),
+      })),
+    };
+  }
+
+  /**
+   * Create a combat encounter on the active scene from its tokens
+   */
+  async createCombat(data: {
+    tokenIds?: string[] | undefined;
+    includeHidden?: boolean | undefined;
+    rollInitiative?: 'none' | 'npcs' | 'all' | undefined;
+    startCombat?: boolean | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      targetIds: data.tokenIds ?? [],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = (game.scenes as any).current;
+      if (!scene) {
+        throw new Error('No active scene found');
+      }
+
+      let tokens: any[] = Array.from(scene.tokens || []);
+      if (data.tokenIds && data.tokenIds.length > 0) {
+        const missing = data.tokenIds.filter(id => !scene.tokens.get(id));
+        if (missing.length > 0) {
+          throw new Error(`Tokens not found in current scene: ${missing.join(', ')}`);
+        }
+        tokens = tokens.filter((t: any) => data.tokenIds!.includes(t.id));
+      } else if (!data.includeHidden) {
+        tokens = tokens.filter((t: any) => !t.hidden);
+      }
+
+      // Only tokens with an actor can take part in combat
+      tokens = tokens.filter((t: any) => t.actor);
+      if (tokens.length === 0) {
+        throw new Error('No eligible tokens with actors found on the active scene');
+      }
+
+      const CombatClass = (globalThis as any).Combat;
+      const combat = await CombatClass.create({ scene: scene.id, active: true });
+
+      await combat.createEmbeddedDocuments('Combatant', tokens.map((t: any) => ({
+        tokenId: t.id,
+        sceneId: scene.id,
+        actorId: t.actorId,
+        hidden: t.hidden,
+      })));
+
+      if (data.rollInitiative === 'all') {
+        await combat.rollAll();
+      } else if (data.rollInitiative === 'npcs') {
+        await combat.rollNPC();
+      }
+
+      if (data.startCombat) {
+        await combat.startCombat();
+      }
+
+      transactionManager.recordTransaction(`Create combat on scene "${scene.name}"`, [
+        transactionManager.createDocumentCreationAction(combat),
+      ]);
+
+      this.auditLog('createCombat', { combatId: combat.id, combatantCount: tokens.length }, 'success');
+
+      return {
+        success: true,
+        ...this.formatCombatState(combat),
+      };
+    } catch (error) {
+      this.auditLog('createCombat', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to create combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the current state of a combat encounter
+   */
+  async getCombatState(data: { combatId?: string | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const combat = this.getCombatOrThrow(data.combatId);
+
+    return {
+      success: true,
+      ...this.formatCombatState(combat),
+    };
+  }
+
+  /**
+   * Roll initiative for NPCs, every combatant, or combatants without initiative yet
+   */
+  async rollCombatInitiative(data: {
+    combatId?: string | undefined;
+    scope?: 'npcs' | 'all' | 'unrolled' | undefined;
+    combatantIds?: string[] | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      targetIds: data.combatantIds ?? [],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    const combat = this.getCombatOrThrow(data.combatId);
+
+    try {
+      let ids: string[];
+      const combatants: any[] = Array.from(combat.combatants || []);
+
+      if (data.combatantIds && data.combatantIds.length > 0) {
+        ids = data.combatantIds;
+      } else if (data.scope === 'all') {
+        ids = combatants.map((c: any) => c.id);
+      } else if (data.scope === 'unrolled') {
+        ids = combatants.filter((c: any) => c.initiative === null || c.initiative === undefined).map((c: any) => c.id);
+      } else {
+        ids = combatants.filter((c: any) => c.isNPC && (c.initiative === null || c.initiative === undefined)).map((c: any) => c.id);
+      }
+
+      if (ids.length > 0) {
+        await combat.rollInitiative(ids);
+      }
+
+      const rolled = ids.map(id => {
+        const combatant = combat.combatants.get(id);
+        return { id, name: combatant?.name, initiative: combatant?.initiative ?? null };
+      });
+
+      this.auditLog('rollCombatInitiative', { combatId: combat.id, rolledCount: ids.length }, 'success');
+
+      return {
+        success: true,
+        rolled,
+        ...this.formatCombatState(combat),
+      };
+    } catch (error) {
+      this.auditLog('rollCombatInitiative', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to roll initiative: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Advance or rewind the combat turn/round order
+   */
+  async advanceCombat(data: {
+    combatId?: string | undefined;
+    action: 'next-turn' | 'previous-turn' | 'next-round' | 'previous-round';
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {});
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    const combat = this.getCombatOrThrow(data.combatId);
+
+    try {
+      // Advancing an encounter that has not started begins it at round 1
+      if (!combat.started && (data.action === 'next-turn' || data.action === 'next-round')) {
+        await combat.startCombat();
+      } else {
+        switch (data.action) {
+          case 'next-turn':
+            await combat.nextTurn();
+            break;
+          case 'previous-turn':
+            await combat.previousTurn();
+            break;
+          case 'next-round':
+            await combat.nextRound();
+            break;
+          case 'previous-round':
+            await combat.previousRound();
+            break;
+          default:
+            throw new Error(`Unknown combat action: ${data.action}`);
+        }
+      }
+
+      this.auditLog('advanceCombat', { combatId: combat.id, action: data.action, round: combat.round, turn: combat.turn }, 'success');
+
+      return {
+        success: true,
+        action: data.action,
+        ...this.formatCombatState(combat),
+      };
+    } catch (error) {
+      this.auditLog('advanceCombat', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to advance combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * End a combat encounter and return a summary of how it went
+   */
+  async endCombat(data: { combatId?: string | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {});
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    const combat = this.getCombatOrThrow(data.combatId);
+
+    try {
+      // Capture the summary before the document is deleted
+      const state = this.formatCombatState(combat);
+      const defeated = state.combatants.filter((c: any) => c.defeated || c.hitPoints?.value <= 0);
+
+      const action = transactionManager.createDocumentDeletionAction(combat);
+      await combat.delete();
+      transactionManager.recordTransaction(`End combat on scene "${state.sceneName}"`, [action]);
+
+      this.auditLog('endCombat', { combatId: state.combatId, rounds: state.round }, 'success');
+
+      return {
+        success: true,
+        summary: {
+          combatId: state.combatId,
+          sceneName: state.sceneName,
+          roundsElapsed: state.round,
+          combatantCount: state.combatants.length,
+          defeated: defeated.map((c: any) => c.name),
+          survivors: state.combatants.filter((c: any) => !defeated.includes(c)).map((c: any) => ({
+            name: c.name,
+            isNPC: c.isNPC,
+            hitPoints: c.hitPoints,
+          })),
+        },
+      };
+    } catch (error) {
+      this.auditLog('endCombat', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to end combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ===== DAMAGE AND HEALING METHODS =====
+
+  /**
+   * Resolve a token on the current scene (by ID or name) or a world actor (by ID or name)
+   * Tokens are preferred so unlinked NPC tokens are damaged individually
+   */
+  private resolveTokenOrActor(identifier: string): { actor: any; token: any | null } {
+    const scene = (game.scenes as any)?.current;
+    const token = scene?.tokens?.get(identifier) ||
+      Array.from(scene?.tokens || []).find((t: any) => t.name?.toLowerCase() === identifier.toLowerCase());
+
+    if (token && (token as any).actor) {
+      return { actor: (token as any).actor, token };
+    }
+
+    const actor = this.findActorByIdentifier(identifier);
+    if (!actor) {
+      throw new Error(`No token or actor found matching "${identifier}"`);
+    }
+
+    return { actor, token: null };
+  }
+
+  /**
+   * Get the actor data needed to calculate damage or healing for a token or actor
+   */
+  async getHitPointTarget(data: { identifier: string }): Promise<any> {
+    this.validateFoundryState();
+
+    const { actor, token } = this.resolveTokenOrActor(data.identifier);
+
+    return {
+      success: true,
+      actorId: actor.id,
+      tokenId: token?.id ?? null,
+      name: token?.name ?? actor.name,
+      type: actor.type,
+      systemId: (game.system as any).id,
+      system: this.sanitizeData(actor.system),
+    };
+  }
+
+  /**
+   * Apply a calculated hit point update to a token's actor or a world actor
+   */
+  async applyHitPointUpdate(data: {
+    actorId: string;
+    tokenId?: string | null | undefined;
+    updates: Record<string, number>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.tokenId || data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      // Only numeric system fields may be written through this path
+      for (const [path, value] of Object.entries(data.updates)) {
+        if (!path.startsWith('system.') || typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`Invalid hit point update: ${path}`);
+        }
+      }
+
+      let actor: any;
+      if (data.tokenId) {
+        const scene = (game.scenes as any).current;
+        const token = scene?.tokens?.get(data.tokenId);
+        if (!token) {
+          throw new Error(`Token ${data.tokenId} not found in current scene`);
+        }
+        actor = token.actor;
+      } else {
+        actor = game.actors?.get(data.actorId);
+      }
+
+      if (!actor) {
+        throw new Error(`Actor ${data.actorId} not found`);
+      }
+
+      const action = transactionManager.createDocumentUpdateAction(actor, data.updates);
+      await actor.update(data.updates);
+      transactionManager.recordTransaction(`Change hit points of "${actor.name}"`, [action]);
+
+      this.auditLog('applyHitPointUpdate', { actorId: actor.id, tokenId: data.tokenId, updates: data.updates }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        tokenId: data.tokenId ?? null,
+        name: actor.name,
+      };
+    } catch (error) {
+      this.auditLog('applyHitPointUpdate', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to apply hit point update: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update an actor with adapter-mapped system fields, plus raw data paths when world modification is allowed
+   */
+  async updateActorData(data: {
+    actorId: string;
+    tokenId?: string | null | undefined;
+    updates: Record<string, unknown>;
+    rawUpdates?: Record<string, unknown> | undefined;
+    dryRun?: boolean | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.tokenId || data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    const rawUpdates = data.rawUpdates ?? {};
+    const rawPaths = Object.keys(rawUpdates);
+
+    // Raw paths bypass the system schema, so they need the same permission as world changes
+    if (rawPaths.length > 0) {
+      const worldCheck = permissionManager.checkWritePermission('modifyWorld');
+      if (!worldCheck.allowed) {
+        throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: raw data paths require ${worldCheck.reason ?? 'world modification permission'}`);
+      }
+
+      const invalid = rawPaths.filter(path => !RAW_ACTOR_UPDATE_PATTERN.test(path));
+      if (invalid.length > 0) {
+        throw new Error(`Raw paths must start with system., flags. or prototypeToken.: ${invalid.join(', ')}`);
+      }
+    }
+
+    try {
+      let actor: any;
+      if (data.tokenId) {
+        const scene = (game.scenes as any).current;
+        const token = scene?.tokens?.get(data.tokenId);
+        if (!token) {
+          throw new Error(`Token ${data.tokenId} not found in current scene`);
+        }
+        actor = token.actor;
+      } else {
+        actor = game.actors?.get(data.actorId);
+      }
+
+      if (!actor) {
+        throw new Error(`Actor ${data.actorId} not found`);
+      }
+
+      const updates = { ...data.updates, ...rawUpdates };
+      const change = this.diffDocumentUpdate(actor, updates);
+
+      if (data.dryRun) {
+        return this.buildDryRunResult(permissionCheck, [change]);
+      }
+
+      if (change.validationError) {
+        throw new Error(change.validationError);
+      }
+
+      if (Object.keys(change.changes ?? {}).length === 0) {
+        return {
+          success: true,
+          actorId: actor.id,
+          tokenId: data.tokenId ?? null,
+          name: actor.name,
+          changes: {},
+          message: 'Nothing to change; the actor already has these values',
+        };
+      }
+
+      const action = transactionManager.createDocumentUpdateAction(actor, updates);
+      await actor.update(updates);
+      transactionManager.recordTransaction(`Update "${actor.name}"`, [action]);
+
+      this.auditLog('updateActorData', { actorId: actor.id, tokenId: data.tokenId, paths: Object.keys(change.changes ?? {}), rawPaths }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        tokenId: data.tokenId ?? null,
+        name: actor.name,
+        changes: change.changes,
+      };
+    } catch (error) {
+      this.auditLog('updateActorData', { actorId: data.actorId, tokenId: data.tokenId, rawPaths }, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to update actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ===== SCENE WALLS, LIGHTS AND SOUNDS METHODS =====
+
+  /**
+   * Resolve a scene by ID, defaulting to the current scene
+   */
+  private getSceneOrThrow(sceneId?: string): any {
+    const scene = sceneId ? (game.scenes as any).get(sceneId) : (game.scenes as any).current;
+    if (!scene) {
+      throw new Error(sceneId ? `Scene ${sceneId} not found` : 'No active scene found');
+    }
+    return scene;
+  }
+
+  /**
+   * Convert a point to scene pixels; grid units are measured from the top-left of the
+   * scene background (inside the padding), 1 unit = 1 grid square
+   */
+  private toScenePixels(scene: any, x: number, y: number, units: 'pixels' | 'grid' = 'pixels'): { x: number; y: number } {
+    if (units !== 'grid') {
+      return { x: Math.round(x), y: Math.round(y) };
+    }
+    const d = scene.dimensions;
+    return {
+      x: Math.round(d.sceneX + x * d.size),
+      y: Math.round(d.sceneY + y * d.size),
+    };
+  }
+
+  /**
+   * Convert scene pixels to grid units (rounded to 2 decimals)
+   */
+  private toGridUnits(scene: any, x: number, y: number): { x: number; y: number } {
+    const d = scene.dimensions;
+    return {
+      x: Math.round(((x - d.sceneX) / d.size) * 100) / 100,
+      y: Math.round(((y - d.sceneY) / d.size) * 100) / 100,
+    };
+  }
+
+  /**
+   * Describe a wall document, inferring its preset type from its restrictions
+   */
+  private formatWall(scene: any, wall: any): any {
+    const [x1, y1, x2, y2] = wall.c;
+    const start = this.toGridUnits(scene, x1, y1);
+    const end = this.toGridUnits(scene, x2, y2);
+    const doorStateName = Object.entries(DOOR_STATES).find(([, v]) => v === wall.ds)?.[0] ?? 'closed';
+    const wallType = Object.entries(WALL_PRESETS).find(([, preset]) =>
+      preset.door === wall.door &&
+      preset.move === wall.move &&
+      preset.sight === wall.sight &&
+      preset.light === wall.light &&
+      preset.sound === wall.sound
+    )?.[0] ?? (wall.door === 1 ? 'door' : wall.door === 2 ? 'secret-door' : 'custom');
+
+    return {
+      id: wall.id,
+      type: wallType,
+      pixels: { x1, y1, x2, y2 },
+      grid: { x1: start.x, y1: start.y, x2: end.x, y2: end.y },
+      restrictions: { move: wall.move, sight: wall.sight, light: wall.light, sound: wall.sound },
+      direction: wall.dir,
+      ...(wall.door ? { door: { state: doorStateName, secret: wall.door === 2 } } : {}),
+    };
+  }
+
+  private formatLight(scene: any, light: any): any {
+    return {
+      id: light.id,
+      pixels: { x: light.x, y: light.y },
+      grid: this.toGridUnits(scene, light.x, light.y),
+      enabled: !light.hidden,
+      bright: light.config?.bright ?? 0,
+      dim: light.config?.dim ?? 0,
+      color: light.config?.color ?? null,
+      alpha: light.config?.alpha,
+      angle: light.config?.angle,
+      animation: light.config?.animation?.type ?? null,
+      walls: light.walls,
+    };
+  }
+
+  private formatSound(scene: any, sound: any): any {
+    return {
+      id: sound.id,
+      pixels: { x: sound.x, y: sound.y },
+      grid: this.toGridUnits(scene, sound.x, sound.y),
+      enabled: !sound.hidden,
+      path: sound.path,
+      radius: sound.radius,
+      volume: sound.volume,
+      easing: sound.easing,
+      walls: sound.walls,
+    };
+  }
+
+  /**
+   * List walls, doors, ambient lights and ambient sounds on a scene
+   */
+  async listSceneElements(data: {
+    sceneId?: string | undefined;
+    elementType?: 'walls' | 'doors' | 'lights' | 'sounds' | 'all' | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const scene = this.getSceneOrThrow(data.sceneId);
+    const elementType = data.elementType || 'all';
+    const result: any = {
+      success: true,
+      sceneId: scene.id,
+      sceneName: scene.name,
+      grid: {
+        size: scene.dimensions.size,
+        distance: scene.dimensions.distance,
+        units: scene.grid?.units ?? scene.gridUnits,
+        originX: scene.dimensions.sceneX,
+        originY: scene.dimensions.sceneY,
+      },
+    };
+
+    if (elementType === 'all' || elementType === 'walls' || elementType === 'doors') {
+      const walls: any[] = Array.from(scene.walls || []);
+      const filtered = elementType === 'doors' ? walls.filter(w => w.door > 0) : walls;
+      result.walls = filtered.map(w => this.formatWall(scene, w));
+    }
+
+    if (elementType === 'all' || elementType === 'lights') {
+      result.lights = Array.from(scene.lights || []).map(l => this.formatLight(scene, l));
+    }
+
+    if (elementType === 'all' || elementType === 'sounds') {
+      result.sounds = Array.from(scene.sounds || []).map(s => this.formatSound(scene, s));
+    }
+
+    return result;
+  }
+
+  /**
+   * Build a Wall document update from a friendly wall description
+   */
+  private buildWallData(scene: any, wall: {
+    x1?: number; y1?: number; x2?: number; y2?: number;
+    type?: keyof typeof WALL_PRESETS;
+    doorState?: keyof typeof DOOR_STATES;
+    direction?: 'both' | 'left' | 'right';
+  }, units: 'pixels' | 'grid'): Record<string, any> {
+    const wallData: Record<string, any> = {};
+
+    if (wall.x1 !== undefined && wall.y1 !== undefined && wall.x2 !== undefined && wall.y2 !== undefined) {
+      const start = this.toScenePixels(scene, wall.x1, wall.y1, units);
+      const end = this.toScenePixels(scene, wall.x2, wall.y2, units);
+      wallData.c = [start.x, start.y, end.x, end.y];
+    }
+
+    if (wall.type) {
+      const preset = WALL_PRESETS[wall.type];
+      if (!preset) {
+        throw new Error(`Unknown wall type: ${wall.type}`);
+      }
+      Object.assign(wallData, preset);
+    }
+
+    if (wall.doorState) {
+      wallData.ds = DOOR_STATES[wall.doorState];
+    }
+
+    if (wall.direction) {
+      wallData.dir = { both: 0, left: 1, right: 2 }[wall.direction];
+    }
+
+    return wallData;
+  }
+
+  /**
+   * Build an AmbientLight document update from a friendly light description
+   */
+  private buildLightData(scene: any, light: any, units: 'pixels' | 'grid'): Record<string, any> {
+    const lightData: Record<string, any> = {};
+
+    if (light.x !== undefined && light.y !== undefined) {
+      Object.assign(lightData, this.toScenePixels(scene, light.x, light.y, units));
+    }
+    if (light.enabled !== undefined) lightData.hidden = !light.enabled;
+    if (light.walls !== undefined) lightData.walls = light.walls;
+    if (light.bright !== undefined) lightData['config.bright'] = light.bright;
+    if (light.dim !== undefined) lightData['config.dim'] = light.dim;
+    if (light.color !== undefined) lightData['config.color'] = light.color;
+    if (light.alpha !== undefined) lightData['config.alpha'] = light.alpha;
+    if (light.angle !== undefined) lightData['config.angle'] = light.angle;
+    if (light.animation !== undefined) lightData['config.animation.type'] = light.animation;
+
+    return lightData;
+  }
+
+  /**
+   * Build an AmbientSound document update from a friendly sound description
+   */
+  private buildSoundData(scene: any, sound: any, units: 'pixels' | 'grid'): Record<string, any> {
+    const soundData: Record<string, any> = {};
+
+    if (sound.x !== undefined && sound.y !== undefined) {
+      Object.assign(soundData, this.toScenePixels(scene, sound.x, sound.y, units));
+    }
+    if (sound.enabled !== undefined) soundData.hidden = !sound.enabled;
+    if (sound.path !== undefined) soundData.path = sound.path;
+    if (sound.radius !== undefined) soundData.radius = sound.radius;
+    if (sound.volume !== undefined) soundData.volume = sound.volume;
+    if (sound.easing !== undefined) soundData.easing = sound.easing;
+    if (sound.walls !== undefined) soundData.walls = sound.walls;
+
+    return soundData;
+  }
+
+  /**
+   * Create walls or doors on a scene
+   */
+  async createWalls(data: {
+    sceneId?: string | undefined;
+    units?: 'pixels' | 'grid' | undefined;
+    walls: Array<any>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      quantity: data.walls.length,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const units = data.units || 'pixels';
+
+      const wallDocuments = data.walls.map((wall, i) => {
+        if ([wall.x1, wall.y1, wall.x2, wall.y2].some(v => typeof v !== 'number' || isNaN(v))) {
+          throw new Error(`Wall ${i + 1} needs numeric x1, y1, x2, y2`);
+        }
+        return this.buildWallData(scene, { type: 'wall', ...wall }, units);
+      });
+
+      const created = await scene.createEmbeddedDocuments('Wall', wallDocuments);
+      transactionManager.recordTransaction(`Create ${created.length} wall(s) on scene "${scene.name}"`,
+        created.map((document: any) => transactionManager.createDocumentCreationAction(document))
+      );
+
+      this.auditLog('createWalls', { sceneId: scene.id, count: created.length }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        created: created.map((w: any) => this.formatWall(scene, w)),
+      };
+    } catch (error) {
+      this.auditLog('createWalls', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to create walls: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create ambient lights on a scene
+   */
+  async createLights(data: {
+    sceneId?: string | undefined;
+    units?: 'pixels' | 'grid' | undefined;
+    lights: Array<any>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      quantity: data.lights.length,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const units = data.units || 'pixels';
+
+      const lightDocuments = data.lights.map((light, i) => {
+        if (typeof light.x !== 'number' || typeof light.y !== 'number') {
+          throw new Error(`Light ${i + 1} needs numeric x and y`);
+        }
+        return (foundry as any).utils.expandObject(this.buildLightData(scene, light, units));
+      });
+
+      const created = await scene.createEmbeddedDocuments('AmbientLight', lightDocuments);
+      transactionManager.recordTransaction(`Create ${created.length} light(s) on scene "${scene.name}"`,
+        created.map((document: any) => transactionManager.createDocumentCreationAction(document))
+      );
+
+      this.auditLog('createLights', { sceneId: scene.id, count: created.length }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        created: created.map((l: any) => this.formatLight(scene, l)),
+      };
+    } catch (error) {
+      this.auditLog('createLights', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to create lights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create ambient sounds on a scene
+   */
+  async createSounds(data: {
+    sceneId?: string | undefined;
+    units?: 'pixels' | 'grid' | undefined;
+    sounds: Array<any>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      quantity: data.sounds.length,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const units = data.units || 'pixels';
+
+      const soundDocuments = data.sounds.map((sound, i) => {
+        if (typeof sound.x !== 'number' || typeof sound.y !== 'number' || !sound.path) {
+          throw new Error(`Sound ${i + 1} needs numeric x and y and an audio path`);
+        }
+        return this.buildSoundData(scene, sound, units);
+      });
+
+      const created = await scene.createEmbeddedDocuments('AmbientSound', soundDocuments);
+      transactionManager.recordTransaction(`Create ${created.length} sound(s) on scene "${scene.name}"`,
+        created.map((document: any) => transactionManager.createDocumentCreationAction(document))
+      );
+
+      this.auditLog('createSounds', { sceneId: scene.id, count: created.length }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        created: created.map((s: any) => this.formatSound(scene, s)),
+      };
+    } catch (error) {
+      this.auditLog('createSounds', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to create sounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update walls, lights or sounds on a scene
+   */
+  async updateSceneElements(data: {
+    sceneId?: string | undefined;
+    elementType: 'walls' | 'lights' | 'sounds';
+    units?: 'pixels' | 'grid' | undefined;
+    updates: Array<{ id: string; [key: string]: any }>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      targetIds: data.updates.map(u => u.id),
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const units = data.units || 'pixels';
+      const { documentName, collection, build, format } = this.getSceneElementHandlers(scene, data.elementType);
+
+      const actions: TransactionAction[] = [];
+      const documentUpdates = data.updates.map(update => {
+        const document = collection.get(update.id);
+        if (!document) {
+          throw new Error(`${documentName} ${update.id} not found in scene ${scene.name}`);
+        }
+        const changes = build(update, units);
+        actions.push(transactionManager.createDocumentUpdateAction(document, changes));
+        return { _id: update.id, ...changes };
+      });
+
+      const updated = await scene.updateEmbeddedDocuments(documentName, documentUpdates);
+      transactionManager.recordTransaction(`Update ${updated.length} ${data.elementType} on scene "${scene.name}"`, actions);
+
+      this.auditLog('updateSceneElements', { sceneId: scene.id, elementType: data.elementType, count: updated.length }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        updated: updated.map(format),
+      };
+    } catch (error) {
+      this.auditLog('updateSceneElements', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to update scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete walls, lights or sounds from a scene
+   */
+  async deleteSceneElements(data: {
+    sceneId?: string | undefined;
+    elementType: 'walls' | 'lights' | 'sounds';
+    ids: string[];
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      targetIds: data.ids,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const { documentName, collection } = this.getSceneElementHandlers(scene, data.elementType);
+
+      const existing = data.ids.filter(id => collection.get(id));
+      const missing = data.ids.filter(id => !collection.get(id));
+
+      if (existing.length > 0) {
+        const actions = existing.map(id => transactionManager.createDocumentDeletionAction(collection.get(id)));
+        await scene.deleteEmbeddedDocuments(documentName, existing);
+        transactionManager.recordTransaction(`Delete ${existing.length} ${data.elementType} from scene "${scene.name}"`, actions);
+      }
+
+      this.auditLog('deleteSceneElements', { sceneId: scene.id, elementType: data.elementType, ids: existing }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        deletedCount: existing.length,
+        deleted: existing,
+        notFound: missing.length > 0 ? missing : undefined,
+      };
+    } catch (error) {
+      this.auditLog('deleteSceneElements', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to delete scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Open, close or lock doors
+   */
+  async setDoorState(data: {
+    sceneId?: string | undefined;
+    wallIds: string[];
+    state: keyof typeof DOOR_STATES;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyScene', {
+      targetIds: data.wallIds,
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const scene = this.getSceneOrThrow(data.sceneId);
+      const ds = DOOR_STATES[data.state];
+      if (ds === undefined) {
+        throw new Error(`Unknown door state: ${data.state}`);
+      }
+
+      for (const id of data.wallIds) {
+        const wall = scene.walls.get(id);
+        if (!wall) {
+          throw new Error(`Wall ${id} not found in scene ${scene.name}`);
+        }
+        if (!wall.door) {
+          throw new Error(`Wall ${id} is not a door`);
+        }
+      }
+
+      const actions = data.wallIds.map(id => transactionManager.createDocumentUpdateAction(scene.walls.get(id), { ds }));
+      const updated = await scene.updateEmbeddedDocuments('Wall', data.wallIds.map(id => ({ _id: id, ds })));
+      transactionManager.recordTransaction(`Set ${data.wallIds.length} door(s) to ${data.state} on scene "${scene.name}"`, actions);
+
+      this.auditLog('setDoorState', { sceneId: scene.id, wallIds: data.wallIds, state: data.state }, 'success');
+
+      return {
+        success: true,
+        sceneId: scene.id,
+        state: data.state,
+        doors: updated.map((w: any) => this.formatWall(scene, w)),
+      };
+    } catch (error) {
+      this.auditLog('setDoorState', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to set door state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private getSceneElementHandlers(scene: any, elementType: 'walls' | 'lights' | 'sounds'): {
+    documentName: string;
+    collection: any;
+    build: (element: any, units: 'pixels' | 'grid') => Record<string, any>;
+    format: (doc: any) => any;
+  } {
+    switch (elementType) {
+      case 'walls':
+        return {
+          documentName: 'Wall',
+          collection: scene.walls,
+          build: (element, units) => this.buildWallData(scene, element, units),
+          format: doc => this.formatWall(scene, doc),
+        };
+      case 'lights':
+        return {
+          documentName: 'AmbientLight',
+          collection: scene.lights,
+          build: (element, units) => this.buildLightData(scene, element, units),
+          format: doc => this.formatLight(scene, doc),
+        };
+      case 'sounds':
+        return {
+          documentName: 'AmbientSound',
+          collection: scene.sounds,
+          build: (element, units) => this.buildSoundData(scene, element, units),
+          format: doc => this.formatSound(scene, doc),
+        };
+      default:
+        throw new Error(`Unknown scene element type: ${elementType}`);
+    }
+  }
+
+  // ===== GENERATED ART METHODS =====
+
+  /**
+   * Resolve an actor, or an item owned by an actor or in the world, for generated art
+   */
+  private resolveArtTarget(data: { actorIdentifier?: string | undefined; itemIdentifier?: string | undefined }): { actor: any; item: any } {
+    let actor: any = null;
+    if (data.actorIdentifier) {
+      actor = this.findActorByIdentifier(data.actorIdentifier);
+      if (!actor) {
+        throw new Error(`Actor not found: ${data.actorIdentifier}`);
+      }
+    }
+
+    if (!data.itemIdentifier) {
+      if (!actor) {
+        throw new Error('An actor or item identifier is required');
+      }
+      return { actor, item: null };
+    }
+
+    const identifier = data.itemIdentifier;
+    const items: any = actor ? actor.items : game.items;
+    const item = items?.get(identifier) ||
+      items?.getName(identifier) ||
+      Array.from(items || []).find((i: any) => i.name?.toLowerCase().includes(identifier.toLowerCase()));
+
+    if (!item) {
+      throw new Error(actor ? `Item "${identifier}" not found on ${actor.name}` : `Item not found: ${identifier}`);
+    }
+
+    return { actor, item };
+  }
+
+  /**
+   * Describe an actor or item for an image generation prompt
+   */
+  async getArtPromptContext(data: { actorIdentifier?: string; itemIdentifier?: string }): Promise<any> {
+    this.validateFoundryState();
+
+    const { actor, item } = this.resolveArtTarget(data);
+    const getProperty = (foundry as any).utils.getProperty;
+    const toPlainText = (html: unknown): string => {
+      if (typeof html !== 'string') return '';
+      const text = html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+      return text.length > 500 ? text.substring(0, 500) + '...' : text;
+    };
+
+    if (item) {
+      return {
+        success: true,
+        targetType: 'item',
+        itemId: item.id,
+        actorId: actor?.id ?? null,
+        actorName: actor?.name ?? null,
+        name: item.name,
+        type: item.type,
+        rarity: getProperty(item, 'system.rarity.value') ?? getProperty(item, 'system.traits.rarity') ?? getProperty(item, 'system.rarity') ?? null,
+        description: toPlainText(getProperty(item, 'system.description.value') ?? getProperty(item, 'system.description')),
+        currentImage: item.img,
+      };
+    }
+
+    // Biography and descriptive details live in different places per system
+    const biographyPaths = [
+      'system.details.biography.value',
+      'system.details.biography',
+      'system.details.publicNotes',
+      'system.details.description',
+      'system.description.value',
+    ];
+    const biography = biographyPaths
+      .map(path => getProperty(actor, path))
+      .find(value => typeof value === 'string' && value.trim().length > 0);
+
+    const details = [
+      getProperty(actor, 'system.details.type.value'),
+      getProperty(actor, 'system.details.type.subtype'),
+      actor.ancestry?.name,
+      typeof getProperty(actor, 'system.details.race') === 'string' ? getProperty(actor, 'system.details.race') : actor.system?.details?.race?.name,
+      getProperty(actor, 'system.details.species.value'),
+      actor.class?.name,
+      getProperty(actor, 'system.details.career.value'),
+    ].filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+    return {
+      success: true,
+      targetType: 'actor',
+      actorId: actor.id,
+      name: actor.name,
+      type: actor.type,
+      details: [...new Set(details)],
+      biography: toPlainText(biography),
+      currentImage: actor.img,
+      currentTokenImage: actor.prototypeToken?.texture?.src ?? null,
+    };
+  }
+
+  /**
+   * Assign a generated image to an actor portrait and/or prototype token, or to an item
+   */
+  async assignGeneratedArt(data: {
+    actorId?: string;
+    itemId?: string;
+    imagePath: string;
+    assignTo?: 'portrait' | 'token' | 'both';
+    tokenRing?: boolean;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.actorId, data.itemId].filter((id): id is string => !!id),
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const { actor, item } = this.resolveArtTarget({
+        actorIdentifier: data.actorId,
+        itemIdentifier: data.itemId,
+      });
+
+      if (item) {
+        const action = transactionManager.createDocumentUpdateAction(item, { img: data.imagePath });
+        await item.update({ img: data.imagePath });
+        transactionManager.recordTransaction(`Assign generated art to "${item.name}"`, [action]);
+        this.auditLog('assignGeneratedArt', { itemId: item.id, actorId: actor?.id, imagePath: data.imagePath }, 'success');
+
+        return {
+          success: true,
+          targetType: 'item',
+          itemId: item.id,
+          name: item.name,
+          img: data.imagePath,
+        };
+      }
+
+      const assignTo = data.assignTo || 'both';
+      const updates: Record<string, any> = {};
+
+      if (assignTo === 'portrait' || assignTo === 'both') {
+        updates.img = data.imagePath;
+      }
+      if (assignTo === 'token' || assignTo === 'both') {
+        updates['prototypeToken.texture.src'] = data.imagePath;
+        if (data.tokenRing) {
+          // The dynamic token ring crops the subject to a circle
+          updates['prototypeToken.ring.enabled'] = true;
+          updates['prototypeToken.ring.subject.texture'] = data.imagePath;
+        }
+      }
+
+      const action = transactionManager.createDocumentUpdateAction(actor, updates);
+      await actor.update(updates);
+      transactionManager.recordTransaction(`Assign generated art to "${actor.name}"`, [action]);
+      this.auditLog('assignGeneratedArt', { actorId: actor.id, assignTo, imagePath: data.imagePath }, 'success');
+
+      return {
+        success: true,
+        targetType: 'actor',
+        actorId: actor.id,
+        name: actor.name,
+        img: actor.img,
+        tokenImage: actor.prototypeToken?.texture?.src ?? null,
+        tokenRing: !!actor.prototypeToken?.ring?.enabled,
+      };
+    } catch (error) {
+      this.auditLog('assignGeneratedArt', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to assign generated art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ===== CHANGE HISTORY METHODS =====
+
+  /**
+   * List recent changes recorded by the transaction manager, newest first
+   */
+  async listRecentChanges(data: { limit?: number | undefined; includeUndone?: boolean | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const history = transactionManager.getTransactionHistory()
+      .filter(transaction => data.includeUndone || !transaction.rolledBack)
+      .reverse();
+
+    const changes = history.slice(0, data.limit ?? 20).map(transaction => this.formatTransaction(transaction));
+
+    return {
+      success: true,
+      changes,
+      total: history.length,
+      note: 'Changes are kept in memory for the current Foundry session only (last 50).',
+    };
+  }
+
+  /**
+   * Roll back a recorded change; defaults to the most recent change that has not been undone
+   */
+  async undoChange(data: { transactionId?: string | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('undoChanges');
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const transaction = data.transactionId
+        ? transactionManager.getTransaction(data.transactionId)
+        : transactionManager.getTransactionHistory().reverse().find(t => !t.rolledBack);
+
+      if (!transaction) {
+        throw new Error(data.transactionId
+          ? `Change ${data.transactionId} not found in recent history`
+          : 'No changes to undo');
+      }
+
+      const { success, errors } = await transactionManager.rollbackTransaction(transaction.id);
+
+      this.auditLog('undoChange', { transactionId: transaction.id, description: transaction.description }, success ? 'success' : 'failure', errors.join('; ') || undefined);
+
+      return {
+        success,
+        undone: this.formatTransaction(transaction),
+        ...(errors.length > 0 ? { errors } : {}),
+      };
+    } catch (error) {
+      this.auditLog('undoChange', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to undo change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private formatTransaction(transaction: Transaction): any {
+    return {
+      id: transaction.id,
+      description: transaction.description,
+      timestamp: transaction.timestamp.toISOString(),
+      undone: transaction.rolledBack,
+      actions: transaction.actions.map(action => ({
+        type: action.type,
+        entityType: action.entityType,
+        entityId: action.entityId ?? null,
+        entityName: action.entityName ?? null,
+      })),
+    };
+  }
+
+  // ===== CHAT METHODS =====
+
+  /**
+   * Get the most recent chat messages, oldest first, as plain text with parsed rolls
+   * Whispered messages are left out unless requested, and then list their recipients
+   */
+  async getChatMessages(data: { limit?: number; includeWhispers?: boolean; speaker?: string }): Promise<any> {
+    this.validateFoundryState();
+
+    const limit = Math.min(Math.max(data.limit ?? 50, 1), 200);
+    const speakerFilter = data.speaker?.toLowerCase();
+    const styles = (CONST as any).CHAT_MESSAGE_STYLES || {};
+    const styleNames: Record<number, string> = { [styles.OTHER ?? 0]: 'other', [styles.OOC ?? 1]: 'ooc', [styles.IC ?? 2]: 'ic', [styles.EMOTE ?? 3]: 'emote' };
+
+    const messages = (Array.from((game as any).messages?.contents ?? []) as any[])
+      .filter(message => data.includeWhispers || !(message.whisper?.length > 0))
+      .filter(message => !speakerFilter || this.getChatSpeakerName(message).toLowerCase().includes(speakerFilter))
+      .slice(-limit);
+
+    return {
+      success: true,
+      count: messages.length,
+      messages: messages.map(message => {
+        const whisperTo = (message.whisper ?? []).map((userId: string) => game.users?.get(userId)?.name ?? userId);
+
+        return {
+          id: message.id,
+          timestamp: message.timestamp ? new Date(message.timestamp).toISOString() : null,
+          speaker: this.getChatSpeakerName(message),
+          actorId: message.speaker?.actor ?? null,
+          tokenId: message.speaker?.token ?? null,
+          author: message.author?.name ?? null,
+          style: message.rolls?.length > 0 ? 'roll' : styleNames[message.style] ?? 'other',
+          content: this.chatHtmlToText(message.content),
+          flavor: message.flavor ? this.chatHtmlToText(message.flavor) : null,
+          whisper: whisperTo.length > 0,
+          ...(whisperTo.length > 0 ? { whisperTo, blind: !!message.blind } : {}),
+          rolls: (message.rolls ?? []).map((roll: any) => this.parseChatRoll(roll)),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Post a chat message in character (actor or token speaker), as GM narration, out of character,
+   * or as a whisper to specific users
+   */
+  async sendChatMessage(data: {
+    content: string;
+    speaker?: string;
+    alias?: string;
+    style?: 'ic' | 'ooc' | 'emote';
+    whisperTo?: string[];
+    flavor?: string;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const styles = (CONST as any).CHAT_MESSAGE_STYLES || {};
+
+    try {
+      let speaker: any;
+      let speakerName: string;
+      if (data.speaker) {
+        const { actor, token } = this.resolveTokenOrActor(data.speaker);
+        speaker = ChatMessage.getSpeaker({ actor, token, ...(data.alias ? { alias: data.alias } : {}) } as any);
+        speakerName = data.alias || token?.name || actor.name;
+      } else {
+        // GM narration: no actor, shown under the alias (default "Narrator")
+        speakerName = data.alias || 'Narrator';
+        speaker = { scene: null, actor: null, token: null, alias: speakerName };
+      }
+
+      const whisper: string[] = [];
+      const recipients: string[] = [];
+      for (const target of data.whisperTo ?? []) {
+        const users = this.resolveChatRecipients(target);
+        if (users.length === 0) {
+          throw new Error(`No user found matching "${target}"`);
+        }
+        for (const user of users) {
+          if (!whisper.includes(user.id)) {
+            whisper.push(user.id);
+            recipients.push(user.name);
+          }
+        }
+      }
+
+      const style = data.style === 'ooc' ? styles.OOC : data.style === 'emote' ? styles.EMOTE
+        : data.speaker ? styles.IC : styles.OTHER;
+
+      // Plain text keeps its line breaks; HTML is posted as is
+      const content = /<[a-z][\s\S]*>/i.test(data.content)
+        ? data.content
+        : data.content.split(/\n{2,}/).map(paragraph =>
+          `<p>${(foundry.utils as any).escapeHTML(paragraph).replace(/\n/g, '<br>')}</p>`).join('');
+
+      const message = await ChatMessage.create({
+        content,
+        speaker,
+        ...(style !== undefined ? { style } : {}),
+        ...(data.flavor ? { flavor: data.flavor } : {}),
+        ...(whisper.length > 0 ? { whisper } : {}),
+      } as any);
+
+      this.auditLog('sendChatMessage', { speaker: speakerName, whisperTo: recipients }, 'success');
+
+      return {
+        success: true,
+        messageId: message?.id ?? null,
+        speaker: speakerName,
+        ...(recipients.length > 0 ? { whisperTo: recipients } : {}),
+      };
+    } catch (error) {
+      this.auditLog('sendChatMessage', { speaker: data.speaker, whisperTo: data.whisperTo }, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private getChatSpeakerName(message: any): string {
+    return message.speaker?.alias || message.alias || message.author?.name || 'Unknown';
+  }
+
+  private chatHtmlToText(html: unknown): string {
+    if (typeof html !== 'string') return '';
+    return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private parseChatRoll(roll: any): any {
+    return {
+      formula: roll.formula,
+      total: roll.total,
+      ...(roll.options?.flavor ? { flavor: roll.options.flavor } : {}),
+      dice: (roll.dice ?? []).map((die: any) => ({
+        faces: die.faces,
+        number: die.number,
+        modifiers: die.modifiers?.length ? die.modifiers : undefined,
+        results: (die.results ?? []).filter((result: any) => result.active !== false).map((result: any) => result.result),
+        // Dice dropped by keep/drop modifiers (advantage, 4d6kh3) do not count toward the total
+        ...((die.results ?? []).some((result: any) => result.active === false)
+          ? { discarded: die.results.filter((result: any) => result.active === false).map((result: any) => result.result) }
+          : {}),
+      })),
+    };
+  }
+
+  /**
+   * Whisper recipients by user ID or name; "gm" addresses every GM
+   */
+  private resolveChatRecipients(target: string): Array<{ id: string; name: string }> {
+    const users = Array.from(game.users?.values() || []) as any[];
+    const search = target.toLowerCase().trim();
+
+    const matches = search === 'gm' || search === 'gms'
+      ? users.filter(user => user.isGM)
+      : users.filter(user => user.id === target || user.name?.toLowerCase() === search);
+
+    return matches.map(user => ({ id: user.id, name: user.name }));
+  }
+
+  // ===== DICE ROLL METHODS =====
+
+  /**
+   * Get the actor data needed to build a system check for a token or actor
+   */
+  async getCheckActor(data: { identifier: string }): Promise<any> {
+    this.validateFoundryState();
+
+    const { actor, token } = this.resolveTokenOrActor(data.identifier);
+
+    return {
+      success: true,
+      actorId: actor.id,
+      tokenId: token?.id ?? null,
+      name: token?.name ?? actor.name,
+      type: actor.type,
+      systemId: (game.system as any).id,
+      system: this.sanitizeData(actor.system),
+      // Skills are items in some systems (DSA5 Talente)
+      items: Array.from(actor.items ?? [])
+        .filter((item: any) => item.type === 'skill')
+        .map((item: any) => ({ id: item.id, name: item.name, type: item.type, system: this.sanitizeData(item.system) })),
+    };
+  }
+
+  /**
+   * Evaluate a formula with Foundry's Roll engine, using the actor's roll data for @references
+   */
+  async rollDice(data: { formula: string; actorId?: string | null; tokenId?: string | null }): Promise<any> {
+    this.validateFoundryState();
+
+    const actor = this.getRollActor(data.actorId, data.tokenId);
+    const RollClass = (globalThis as any).Roll;
+
+    if (!RollClass.validate(data.formula)) {
+      throw new Error(`Invalid dice formula: ${data.formula}`);
+    }
+
+    const roll = new RollClass(data.formula, actor?.getRollData?.() ?? {});
+    await roll.evaluate();
+
+    return {
+      success: true,
+      ...this.parseChatRoll(roll),
+      result: roll.result,
+      roll: roll.toJSON(),
+    };
+  }
+
+  /**
+   * Post an evaluated roll to chat with the given flavor and roll mode
+   */
+  async postRollToChat(data: {
+    roll: any;
+    flavor?: string;
+    actorId?: string | null;
+    tokenId?: string | null;
+    rollMode?: 'publicroll' | 'gmroll' | 'blindroll' | 'selfroll';
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const actor = this.getRollActor(data.actorId, data.tokenId);
+    const token = data.tokenId ? (game.scenes as any)?.current?.tokens?.get(data.tokenId) : null;
+    const roll = (globalThis as any).Roll.fromData(data.roll);
+
+    const message = await roll.toMessage(
+      {
+        speaker: actor ? ChatMessage.getSpeaker({ actor, token } as any) : { alias: 'GM' },
+        ...(data.flavor ? { flavor: data.flavor } : {}),
+      },
+      { rollMode: data.rollMode ?? 'publicroll' }
+    );
+
+    return { success: true, messageId: message?.id ?? null };
+  }
+
+  private getRollActor(actorId?: string | null, tokenId?: string | null): any {
+    if (tokenId) {
+      const token = (game.scenes as any)?.current?.tokens?.get(tokenId);
+      if (token?.actor) return token.actor;
+    }
+    return actorId ? game.actors?.get(actorId) ?? null : null;
+  }
+
+  // ===== INVENTORY METHODS =====
+
+  /**
+   * Resolve the actor an update applies to: a token's actor on the current scene, or a world actor
+   */
+  private getActorForUpdate(actorId: string, tokenId?: string | null): any {
+    if (tokenId) {
+      const token = (game.scenes as any).current?.tokens?.get(tokenId);
+      if (!token?.actor) {
+        throw new Error(`Token ${tokenId} not found in current scene`);
+      }
+      return token.actor;
+    }
+
+    const actor = game.actors?.get(actorId);
+    if (!actor) {
+      throw new Error(`Actor ${actorId} not found`);
+    }
+    return actor;
+  }
+
+  private getOwnedItem(actor: any, itemId: string): any {
+    const item = actor.items.get(itemId);
+    if (!item) {
+      throw new Error(`Item ${itemId} not found on ${actor.name}`);
+    }
+    return item;
+  }
+
+  /**
+   * List the items of a token or actor, optionally limited to some item types
+   * Descriptions are left out to keep inventories small
+   */
+  async getActorItems(data: { identifier: string; types?: string[] | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const { actor, token } = this.resolveTokenOrActor(data.identifier);
+
+    const items = Array.from(actor.items as Iterable<any>)
+      .filter(item => !data.types || data.types.includes(item.type))
+      .map(item => {
+        const { description: _description, ...system } = this.sanitizeData(item.system) ?? {};
+        return { id: item.id, name: item.name, type: item.type, img: item.img, system };
+      });
+
+    return {
+      success: true,
+      actorId: actor.id,
+      tokenId: token?.id ?? null,
+      name: token?.name ?? actor.name,
+      type: actor.type,
+      systemId: (game.system as any).id,
+      items,
+    };
+  }
+
+  /**
+   * Create an item on an actor from item data (e.g. a compendium entry's full data)
+   */
+  async createActorItem(data: {
+    actorId: string;
+    tokenId?: string | null | undefined;
+    itemData: Record<string, any>;
+    updates?: Record<string, unknown> | undefined;
+    sourceUuid?: string | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.tokenId || data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const utils = (foundry as any).utils;
+      const actor = this.getActorForUpdate(data.actorId, data.tokenId);
+
+      const itemData = utils.deepClone(data.itemData);
+      delete itemData._id;
+      for (const [path, value] of Object.entries(data.updates ?? {})) {
+        utils.setProperty(itemData, path, value);
+      }
+      if (data.sourceUuid) {
+        utils.setProperty(itemData, '_stats.compendiumSource', data.sourceUuid);
+      }
+
+      const [item] = await actor.createEmbeddedDocuments('Item', [itemData]);
+      transactionManager.recordTransaction(`Add "${item.name}" to "${actor.name}"`, [transactionManager.createDocumentCreationAction(item)]);
+
+      this.auditLog('createActorItem', { actorId: actor.id, itemId: item.id, sourceUuid: data.sourceUuid }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        actorName: actor.name,
+        itemId: item.id,
+        itemName: item.name,
+      };
+    } catch (error) {
+      this.auditLog('createActorItem', { actorId: data.actorId, sourceUuid: data.sourceUuid }, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to add item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update an owned item, e.g. quantity or equipped state built by the system adapter
+   */
+  async updateActorItem(data: {
+    actorId: string;
+    tokenId?: string | null | undefined;
+    itemId: string;
+    updates: Record<string, unknown>;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.tokenId || data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const actor = this.getActorForUpdate(data.actorId, data.tokenId);
+      const item = this.getOwnedItem(actor, data.itemId);
+
+      const change = this.diffDocumentUpdate(item, data.updates);
+      if (change.validationError) {
+        throw new Error(change.validationError);
+      }
+
+      if (Object.keys(change.changes ?? {}).length > 0) {
+        const action = transactionManager.createDocumentUpdateAction(item, data.updates);
+        await item.update(data.updates);
+        transactionManager.recordTransaction(`Update "${item.name}" on "${actor.name}"`, [action]);
+      }
+
+      this.auditLog('updateActorItem', { actorId: actor.id, itemId: item.id, updates: data.updates }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        actorName: actor.name,
+        itemId: item.id,
+        itemName: item.name,
+        changes: change.changes,
+      };
+    } catch (error) {
+      this.auditLog('updateActorItem', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to update item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete an owned item
+   */
+  async deleteActorItem(data: { actorId: string; tokenId?: string | null | undefined; itemId: string }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.tokenId || data.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const actor = this.getActorForUpdate(data.actorId, data.tokenId);
+      const item = this.getOwnedItem(actor, data.itemId);
+
+      const action = transactionManager.createDocumentDeletionAction(item);
+      await item.delete();
+      transactionManager.recordTransaction(`Remove "${item.name}" from "${actor.name}"`, [action]);
+
+      this.auditLog('deleteActorItem', { actorId: actor.id, itemId: data.itemId, name: item.name }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        actorName: actor.name,
+        itemId: data.itemId,
+        itemName: item.name,
+      };
+    } catch (error) {
+      this.auditLog('deleteActorItem', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to remove item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move some or all of an item stack from one actor to another as a single undoable change.
+   * The source item is updated (sourceUpdates) or deleted; the target gets a copy (copyUpdates)
+   * or an existing stack is updated (stackItemId + stackUpdates).
+   */
+  async transferActorItem(data: {
+    source: { actorId: string; tokenId?: string | null | undefined };
+    target: { actorId: string; tokenId?: string | null | undefined };
+    itemId: string;
+    sourceUpdates?: Record<string, unknown> | undefined;
+    stackItemId?: string | undefined;
+    stackUpdates?: Record<string, unknown> | undefined;
+    copyUpdates?: Record<string, unknown> | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('modifyActor', {
+      targetIds: [data.source.tokenId || data.source.actorId, data.target.tokenId || data.target.actorId],
+    });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    try {
+      const utils = (foundry as any).utils;
+      const sourceActor = this.getActorForUpdate(data.source.actorId, data.source.tokenId);
+      const targetActor = this.getActorForUpdate(data.target.actorId, data.target.tokenId);
+      const item = this.getOwnedItem(sourceActor, data.itemId);
+      const itemName = item.name;
+
+      if (sourceActor.uuid === targetActor.uuid) {
+        throw new Error(`${itemName} already belongs to ${targetActor.name}`);
+      }
+
+      const actions: any[] = [];
+      let targetItem: any;
+
+      // Add to the target first, so a failure leaves the source untouched
+      if (data.stackItemId) {
+        targetItem = this.getOwnedItem(targetActor, data.stackItemId);
+        const stackUpdates = data.stackUpdates ?? {};
+        actions.push(transactionManager.createDocumentUpdateAction(targetItem, stackUpdates));
+        await targetItem.update(stackUpdates);
+      } else {
+        const itemData = item.toObject();
+        delete itemData._id;
+        for (const [path, value] of Object.entries(data.copyUpdates ?? {})) {
+          utils.setProperty(itemData, path, value);
+        }
+        [targetItem] = await targetActor.createEmbeddedDocuments('Item', [itemData]);
+        actions.push(transactionManager.createDocumentCreationAction(targetItem));
+      }
+
+      if (data.sourceUpdates) {
+        actions.push(transactionManager.createDocumentUpdateAction(item, data.sourceUpdates));
+        await item.update(data.sourceUpdates);
+      } else {
+        actions.push(transactionManager.createDocumentDeletionAction(item));
+        await item.delete();
+      }
+
+      transactionManager.recordTransaction(`Give "${itemName}" from "${sourceActor.name}" to "${targetActor.name}"`, actions);
+
+      this.auditLog('transferActorItem', { from: sourceActor.id, to: targetActor.id, itemId: data.itemId, stacked: !!data.stackItemId }, 'success');
+
+      return {
+        success: true,
+        itemName,
+        from: { actorId: sourceActor.id, name: sourceActor.name, itemId: data.sourceUpdates ? item.id : null },
+        to: { actorId: targetActor.id, name: targetActor.name, itemId: targetItem.id },
+      };
+    } catch (error) {
+      this.auditLog('transferActorItem', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to transfer item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ===== LOOT METHODS =====
+
+  /**
+   * Search Item compendiums by type, exact name and index field filters.
+   * Fields are loaded into the pack index, so the documents themselves are not opened.
+   */
+  async searchCompendiumItems(data: {
+    types?: string[] | undefined;
+    names?: string[] | undefined;
+    fields?: string[] | undefined;
+    filters?: Array<{ path: string; in?: unknown[] | undefined; min?: number | undefined; max?: number | undefined }> | undefined;
+    packIds?: string[] | undefined;
+    limit?: number | undefined;
+  }): Promise<any> {
+    this.validateFoundryState();
+
+    const utils = (foundry as any).utils;
+    const fields = data.fields ?? [];
+    const names = data.names?.map(name => name.toLowerCase());
+    const limit = data.limit ?? 500;
+    const items: any[] = [];
+    let total = 0;
+
+    const packs = Array.from(game.packs.values()).filter((pack: any) =>
+      pack.metadata.type === 'Item' && (!data.packIds || data.packIds.includes(pack.metadata.id))
+    );
+
+    for (const pack of packs as any[]) {
+      let index: any;
+      try {
+        index = await pack.getIndex({ fields: ['type', 'img', ...fields] });
+      } catch (error) {
+        console.warn(`[${this.moduleId}] Failed to index pack ${pack.metadata.id}:`, error);
+        continue;
+      }
+
+      for (const entry of index.values()) {
+        if (data.types && !data.types.includes(entry.type)) continue;
+        if (names && !names.includes(String(entry.name).toLowerCase())) continue;
+
+        const matches = (data.filters ?? []).every(filter => {
+          const value = utils.getProperty(entry, filter.path);
+          if (filter.in && !filter.in.includes(value)) return false;
+          if (filter.min !== undefined || filter.max !== undefined) {
+            const number = Number(value);
+            if (value === null || value === undefined || isNaN(number)) return false;
+            if (filter.min !== undefined && number < filter.min) return false;
+            if (filter.max !== undefined && number > filter.max) return false;
+          }
+          return true;
+        });
+        if (!matches) continue;
+
+        total++;
+        if (items.length >= limit) continue;
+
+        const system: Record<string, unknown> = {};
+        for (const field of fields) {
+          const value = utils.getProperty(entry, field);
+          if (value !== undefined) {
+            utils.setProperty(system, field.replace(/^system\./, ''), utils.deepClone(value));
+          }
+        }
+
+        items.push({
+          id: entry._id,
+          name: entry.name,
+          type: entry.type,
+          img: entry.img,
+          pack: pack.metadata.id,
+          packLabel: pack.metadata.label,
+          system,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      items,
+      total,
+      ...(total > items.length ? { truncated: true } : {}),
+    };
+  }
+
+  /**
+   * Create an empty actor to hold loot, optionally placed at the center of the current scene
+   */
+  async createLootActor(data: { name: string; type: string; img?: string | undefined; placeOnScene?: boolean | undefined }): Promise<any> {
+    this.validateFoundryState();
+
+    const permissionCheck = permissionManager.checkWritePermission('createActor', { quantity: 1 });
+
+    if (!permissionCheck.allowed) {
+      throw new Error(`${ERROR_MESSAGES.ACCESS_DENIED}: ${permissionCheck.reason}`);
+    }
+
+    const transactionId = transactionManager.startTransaction(`Create loot "${data.name}"`);
+
+    try {
+      const folderId = await this.getOrCreateFolder('Foundry MCP Loot', 'Actor');
+      const actor: any = await Actor.create({
+        name: data.name,
+        type: data.type,
+        img: data.img ?? 'icons/svg/chest.svg',
+        ...(folderId ? { folder: folderId } : {}),
+      } as any);
+
+      if (!actor) {
+        throw new Error(`Could not create a "${data.type}" actor`);
+      }
+
+      transactionManager.addAction(transactionId, transactionManager.createActorCreationAction(actor.id));
+
+      let tokenId: string | null = null;
+      if (data.placeOnScene) {
+        const placement = await this.addActorsToScene({ actorIds: [actor.id], placement: 'center', hidden: false }, transactionId);
+        tokenId = placement.tokenIds?.[0] ?? null;
+      }
+
+      transactionManager.commitTransaction(transactionId);
+      this.auditLog('createLootActor', { actorId: actor.id, type: data.type, placed: !!tokenId }, 'success');
+
+      return {
+        success: true,
+        actorId: actor.id,
+        name: actor.name,
+        tokenId,
+      };
+    } catch (error) {
+      await transactionManager.rollbackTransaction(transactionId);
+      this.auditLog('createLootActor', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Failed to create loot actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Index Storage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { restoreFailedPack } from './index-storage.js';
+
+describe('restoreFailedPack', () => {
+  const previousCreatures = [
+    { id: 'goblin', pack: 'world.monsters' },
+    { id: 'orc', pack: 'world.monsters' },
+    { id: 'ogre', pack: 'dnd5e.monsters' },
+  ];
+
+  it('keeps the previous creatures of the failed pack only', () => {
+    const fingerprints = new Map([['world.monsters', { documentCount: 3 }], ['dnd5e.monsters', { documentCount: 1 }]]);
+    const kept = restoreFailedPack('world.monsters', fingerprints, previousCreatures);
+
+    expect(kept.map(creature => creature.id)).toEqual(['goblin', 'orc']);
+  });
+
+  it('drops the fingerprint so the next update extracts the pack again', () => {
+    const fingerprints = new Map([['world.monsters', { documentCount: 3 }], ['dnd5e.monsters', { documentCount: 1 }]]);
+    restoreFailedPack('world.monsters', fingerprints, previousCreatures);
+
+    expect(fingerprints.has('world.monsters')).toBe(false);
+    expect(fingerprints.has('dnd5e.monsters')).toBe(true);
+  });
+
+  it('keeps nothing for a pack that was never indexed', () => {
+    const fingerprints = new Map([['world.new-pack', { documentCount: 5 }]]);
+
+    expect(restoreFailedPack('world.new-pack', fingerprints, [])).toEqual([]);
+    expect(fingerprints.size).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { MODULE_ID } from './constants.js';
+
+/**
+ * JSON index files kept in the world directory (compendium search index, enhanced item index)
+ */
+
+/**
+ * Load an index file from the world directory
+ * @returns The parsed file, or null if it does not exist or cannot be read
+ */
+export async function loadWorldIndexFile<T>(filename: string): Promise<T | null> {
+  try {
+    const browseResult = await (foundry as any).applications.apps.FilePicker.implementation.browse('data', `worlds/${game.world.id}`);
+    if (!browseResult.files.some((f: any) => f.endsWith(filename))) {
+      return null;
+    }
+
+    const response = await fetch(`worlds/${game.world.id}/${filename}`);
+    if (!response.ok) {
+      console.warn(`[${MODULE_ID}] Failed to load index file ${filename}: ${response.status}`);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.warn(`[${MODULE_ID}] Failed to load index file ${filename}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Save an index file to the world directory (not pretty-printed: large systems run to megabytes)
+ */
+export async function saveWorldIndexFile(filename: string, data: unknown): Promise<void> {
+  const file = new File([JSON.stringify(data)], filename, { type: 'application/json' });
+  const uploadResponse = await (foundry as any).applications.apps.FilePicker.implementation.upload('data', `worlds/${game.world.id}`, file, {}, { notify: false });
+
+  if (!uploadResponse) {
+    throw new Error('File upload failed');
+  }
+}
+
+/**
+ * Document count per pack of the given types, to spot added, removed or resized packs
+ */
+export function getPackFingerprints(packTypes: string[]): Record<string, number> {
+  const fingerprints: Record<string, number> = {};
+  for (const pack of game.packs.values()) {
+    if (packTypes.includes(pack.metadata.type)) {
+      fingerprints[pack.metadata.id] = pack.index?.size || 0;
+    }
+  }
+  return fingerprints;
+}
+
+/**
+ * Check saved pack fingerprints against the current packs
+ */
+export function packFingerprintsMatch(saved: Record<string, number>, packTypes: string[]): boolean {
+  const current = getPackFingerprints(packTypes);
+  const ids = Object.keys(current);
+  return ids.length === Object.keys(saved).length && ids.every(id => saved[id] === current[id]);
+}
+
+/**
+ * Keep the previous creatures of a pack whose extraction failed in an incremental index update.
+ * The pack loses its fingerprint, so the next update sees it as new and extracts it again.
+ * @param packFingerprints Fingerprints of the update in progress, changed in place
+ * @returns The pack's creatures from the previous index
+ */
+export function restoreFailedPack<C extends { pack: string }>(
+  packId: string,
+  packFingerprints: Map<string, unknown>,
+  previousCreatures: C[]
+): C[] {
+  packFingerprints.delete(packId);
+  return previousCreatures.filter(creature => creature.pack === packId);
+}
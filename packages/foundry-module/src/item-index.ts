@@ -0,0 +1,374 @@
+import { MODULE_ID } from './constants.js';
+import { loadWorldIndexFile, saveWorldIndexFile, getPackFingerprints, packFingerprintsMatch } from './index-storage.js';
+
+interface BaseItemIndex {
+  id: string;
+  name: string;
+  type: string;
+  pack: string;
+  packLabel: string;
+  img?: string | undefined;
+  price?: number | undefined; // gp (D&D 5e, PF2e) or Silbertaler (DSA5)
+}
+
+// D&D 5e Enhanced Item Index
+interface DnD5eItemIndex extends BaseItemIndex {
+  system: 'dnd5e';
+  subtype?: string | undefined;    // Weapon, equipment, consumable or feat type (system.type.value)
+  spellLevel?: number | undefined; // 0 for cantrips
+  school?: string | undefined;     // abj, con, div, enc, evo, ill, nec, trs
+  components: string[];            // vocal, somatic, material, concentration, ritual
+  rarity?: string | undefined;     // common ... artifact
+  attunement: 'required' | 'optional' | 'none';
+}
+
+// Pathfinder 2e Enhanced Item Index
+interface PF2eItemIndex extends BaseItemIndex {
+  system: 'pf2e';
+  level: number;                   // Item level, spell rank or feat level
+  traits: string[];
+  rarity: string;
+  traditions: string[];            // Spells: arcane, divine, occult, primal
+  category?: string | undefined;   // Feat category, consumable category, ...
+}
+
+// DSA5 Enhanced Item Index
+interface DSA5ItemIndex extends BaseItemIndex {
+  system: 'dsa5';
+  property?: string | undefined;   // Merkmal of spells, Aspekt of liturgies
+  traditions: string[];            // Verbreitung
+  improvementCost?: string | undefined; // Steigerungsfaktor A-E
+}
+
+export type EnhancedItemIndex = DnD5eItemIndex | PF2eItemIndex | DSA5ItemIndex;
+
+export interface ItemCriteria {
+  types?: string[] | undefined;
+  name?: string | undefined;
+  packIds?: string[] | undefined;
+  rarity?: string[] | undefined;
+  price?: { min?: number | undefined; max?: number | undefined } | undefined;
+  // D&D 5e
+  spellLevel?: number | { min?: number | undefined; max?: number | undefined } | undefined;
+  school?: string | undefined;
+  components?: string[] | undefined;
+  attunement?: boolean | undefined;
+  subtype?: string | undefined;
+  // PF2e (level is also the spell rank)
+  level?: number | { min?: number | undefined; max?: number | undefined } | undefined;
+  traits?: string[] | undefined;
+  traditions?: string[] | undefined;
+  category?: string | undefined;
+  // DSA5
+  property?: string | undefined;
+}
+
+interface PersistentItemIndex {
+  metadata: {
+    version: string;
+    timestamp: number;
+    gameSystem: string;
+    packFingerprints: Record<string, number>;
+    totalItems: number;
+  };
+  items: EnhancedItemIndex[];
+}
+
+// Index fields read per system; documents are not loaded, so building stays quick
+const ITEM_INDEX_FIELDS: Record<string, string[]> = {
+  dnd5e: ['system.level', 'system.school', 'system.properties', 'system.components', 'system.rarity', 'system.attunement', 'system.price', 'system.type.value'],
+  pf2e: ['system.level.value', 'system.traits.value', 'system.traits.rarity', 'system.traits.traditions', 'system.price', 'system.category'],
+  dsa5: ['system.feature', 'system.distribution.value', 'system.StF.value', 'system.price.value'],
+};
+
+// Value of one coin in gp (D&D 5e and PF2e)
+const COIN_VALUES: Record<string, number> = { pp: 10, gp: 1, ep: 0.5, sp: 0.1, cp: 0.01 };
+
+const DND5E_SCHOOLS: Record<string, string> = {
+  abjuration: 'abj', conjuration: 'con', divination: 'div', enchantment: 'enc',
+  evocation: 'evo', illusion: 'ill', necromancy: 'nec', transmutation: 'trs',
+};
+
+const DND5E_COMPONENT_ALIASES: Record<string, string> = {
+  v: 'vocal', s: 'somatic', m: 'material', c: 'concentration', r: 'ritual',
+  verbal: 'vocal', concentrate: 'concentration',
+};
+
+function inRange(value: number | undefined, range: number | { min?: number | undefined; max?: number | undefined }): boolean {
+  if (value === undefined) return false;
+  if (typeof range === 'number') return value === range;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function toArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (value instanceof Set) return Array.from(value).map(String);
+  return [];
+}
+
+/**
+ * Enhanced Item Index
+ * Structured per-system fields for Item packs (spells, equipment, feats), stored as
+ * enhanced-item-index.json next to the enhanced creature index for instant filtering.
+ */
+export class EnhancedItemIndexStore {
+  private moduleId: string = MODULE_ID;
+  private readonly INDEX_VERSION = '1.0.0';
+  private readonly INDEX_FILENAME = 'enhanced-item-index.json';
+  private index: PersistentItemIndex | null = null;
+  private buildPromise: Promise<PersistentItemIndex> | null = null;
+  private stale = false;
+  private hooksRegistered = false;
+
+  constructor() {
+    this.registerFoundryHooks();
+  }
+
+  /**
+   * Get or build the enhanced item index
+   */
+  async getItems(): Promise<EnhancedItemIndex[]> {
+    if (this.index && !this.stale) {
+      return this.index.items;
+    }
+
+    if (!this.stale) {
+      const persisted = await loadWorldIndexFile<PersistentItemIndex>(this.INDEX_FILENAME);
+      if (persisted &&
+          persisted.metadata.version === this.INDEX_VERSION &&
+          persisted.metadata.gameSystem === (game as any).system.id &&
+          packFingerprintsMatch(persisted.metadata.packFingerprints, ['Item'])) {
+        this.index = persisted;
+        return persisted.items;
+      }
+    }
+
+    this.stale = false;
+    return (await this.build()).items;
+  }
+
+  /**
+   * Force rebuild of the enhanced item index
+   */
+  async rebuild(): Promise<EnhancedItemIndex[]> {
+    this.index = null;
+    this.stale = false;
+    return (await this.build()).items;
+  }
+
+  /**
+   * Check if an indexed item passes all specified criteria (system-aware routing)
+   */
+  matchesCriteria(item: EnhancedItemIndex, criteria: ItemCriteria): boolean {
+    if (criteria.types?.length && !criteria.types.includes(item.type)) return false;
+    if (criteria.packIds?.length && !criteria.packIds.includes(item.pack)) return false;
+    if (criteria.name && !item.name.toLowerCase().includes(criteria.name.toLowerCase())) return false;
+    if (criteria.price && !inRange(item.price, criteria.price)) return false;
+
+    if (item.system === 'dnd5e') {
+      return this.passesDnD5eCriteria(item, criteria);
+    } else if (item.system === 'pf2e') {
+      return this.passesPF2eCriteria(item, criteria);
+    }
+    return this.passesDSA5Criteria(item, criteria);
+  }
+
+  private passesDnD5eCriteria(item: DnD5eItemIndex, criteria: ItemCriteria): boolean {
+    if (criteria.rarity?.length && !criteria.rarity.some(r => r.toLowerCase() === (item.rarity ?? '').toLowerCase())) return false;
+    if (criteria.spellLevel !== undefined && !inRange(item.spellLevel, criteria.spellLevel)) return false;
+    if (criteria.school && item.school !== (DND5E_SCHOOLS[criteria.school.toLowerCase()] ?? criteria.school.toLowerCase())) return false;
+    if (criteria.subtype && (item.subtype ?? '').toLowerCase() !== criteria.subtype.toLowerCase()) return false;
+
+    // Item must have ALL specified components
+    if (criteria.components?.length) {
+      const wanted = criteria.components.map(c => DND5E_COMPONENT_ALIASES[c.toLowerCase()] ?? c.toLowerCase());
+      if (!wanted.every(c => item.components.includes(c))) return false;
+    }
+
+    if (criteria.attunement !== undefined && (item.attunement !== 'none') !== criteria.attunement) return false;
+
+    return true;
+  }
+
+  private passesPF2eCriteria(item: PF2eItemIndex, criteria: ItemCriteria): boolean {
+    if (criteria.rarity?.length && !criteria.rarity.includes(item.rarity)) return false;
+    if (criteria.level !== undefined && !inRange(item.level, criteria.level)) return false;
+    if (criteria.category && (item.category ?? '').toLowerCase() !== criteria.category.toLowerCase()) return false;
+
+    // Item must have ALL specified traits
+    if (criteria.traits?.length && !criteria.traits.every(t => item.traits.includes(t.toLowerCase()))) return false;
+
+    // Spell must be on ANY of the specified traditions
+    if (criteria.traditions?.length && !criteria.traditions.some(t => item.traditions.includes(t.toLowerCase()))) return false;
+
+    return true;
+  }
+
+  private passesDSA5Criteria(item: DSA5ItemIndex, criteria: ItemCriteria): boolean {
+    if (criteria.property && !(item.property ?? '').toLowerCase().includes(criteria.property.toLowerCase())) return false;
+
+    if (criteria.traditions?.length) {
+      const traditions = item.traditions.map(t => t.toLowerCase());
+      if (!criteria.traditions.some(t => traditions.some(tradition => tradition.includes(t.toLowerCase())))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build the index from all Item packs; concurrent callers share one build
+   */
+  private async build(): Promise<PersistentItemIndex> {
+    if (this.buildPromise) {
+      return await this.buildPromise;
+    }
+
+    this.buildPromise = (async () => {
+      const gameSystem = (game as any).system.id;
+      const fields = ITEM_INDEX_FIELDS[gameSystem];
+      if (!fields) {
+        throw new Error(`Enhanced item index not supported for system: ${gameSystem}. Only D&D 5e, Pathfinder 2e and DSA5 are currently supported.`);
+      }
+
+      const startTime = Date.now();
+      const itemPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Item');
+      ui.notifications?.info(`Building enhanced item index from ${itemPacks.length} packs...`);
+
+      const items: EnhancedItemIndex[] = [];
+      for (const pack of itemPacks) {
+        try {
+          const entries = await pack.getIndex({ fields } as any);
+          for (const entry of entries.values()) {
+            const item = this.extractItemData(gameSystem, entry as any, pack);
+            if (item) items.push(item);
+          }
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Failed to index item pack ${pack.metadata.label}:`, error);
+        }
+      }
+
+      const index: PersistentItemIndex = {
+        metadata: {
+          version: this.INDEX_VERSION,
+          timestamp: Date.now(),
+          gameSystem,
+          packFingerprints: getPackFingerprints(['Item']),
+          totalItems: items.length,
+        },
+        items,
+      };
+
+      try {
+        await saveWorldIndexFile(this.INDEX_FILENAME, index);
+      } catch (error) {
+        console.warn(`[${this.moduleId}] Failed to save enhanced item index:`, error);
+      }
+
+      const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
+      ui.notifications?.info(`Enhanced item index complete! ${items.length} items indexed from ${itemPacks.length} packs in ${buildTimeSeconds}s`);
+
+      this.index = index;
+      return index;
+    })();
+
+    try {
+      return await this.buildPromise;
+    } finally {
+      this.buildPromise = null;
+    }
+  }
+
+  /**
+   * Extract per-system fields from a compendium index entry
+   */
+  private extractItemData(gameSystem: string, entry: any, pack: any): EnhancedItemIndex | null {
+    if (!entry?.name) return null;
+
+    const system = entry.system || {};
+    const base = {
+      id: entry._id,
+      name: entry.name,
+      type: entry.type,
+      pack: pack.metadata.id,
+      packLabel: pack.metadata.label,
+      img: entry.img || undefined,
+    };
+
+    if (gameSystem === 'dnd5e') {
+      // dnd5e 3.x+ keeps components in system.properties, earlier versions in system.components
+      const components = toArray(system.properties).filter(p => ['vocal', 'somatic', 'material', 'concentration', 'ritual'].includes(p));
+      for (const [key, value] of Object.entries(system.components ?? {})) {
+        if (value === true && !components.includes(key)) components.push(key);
+      }
+
+      // Attunement: '' | 'required' | 'optional' in 3.x+, 0/1/2 before
+      const attunement = system.attunement === 'required' || system.attunement === 1 ? 'required'
+        : system.attunement === 'optional' || system.attunement === 2 ? 'optional' : 'none';
+
+      const price = typeof system.price === 'object' ? Number(system.price?.value) * (COIN_VALUES[system.price?.denomination ?? 'gp'] ?? 1) : Number(system.price);
+
+      return {
+        ...base,
+        system: 'dnd5e',
+        subtype: system.type?.value || undefined,
+        spellLevel: entry.type === 'spell' ? Number(system.level ?? 0) : undefined,
+        school: entry.type === 'spell' ? system.school || undefined : undefined,
+        components,
+        rarity: system.rarity || undefined,
+        attunement,
+        price: price > 0 ? price : undefined,
+      };
+    }
+
+    if (gameSystem === 'pf2e') {
+      const coins = system.price?.value ?? {};
+      const price = Object.entries(COIN_VALUES).reduce((sum, [denomination, worth]) => sum + Number(coins[denomination] ?? 0) * worth, 0);
+
+      return {
+        ...base,
+        system: 'pf2e',
+        level: Number(system.level?.value ?? 0),
+        traits: toArray(system.traits?.value).map(t => t.toLowerCase()),
+        rarity: system.traits?.rarity || 'common',
+        traditions: toArray(system.traits?.traditions).map(t => t.toLowerCase()),
+        category: system.category || undefined,
+        price: price > 0 ? price : undefined,
+      };
+    }
+
+    const price = Number(system.price?.value);
+    return {
+      ...base,
+      system: 'dsa5',
+      property: system.feature || undefined,
+      traditions: String(system.distribution?.value ?? '').split(',').map(t => t.trim()).filter(Boolean),
+      improvementCost: system.StF?.value || undefined,
+      price: price > 0 ? price : undefined,
+    };
+  }
+
+  /**
+   * Mark the index stale when Item compendium content changes; it is rebuilt on next access
+   */
+  private registerFoundryHooks(): void {
+    if (this.hooksRegistered) return;
+
+    for (const hook of ['createItem', 'updateItem', 'deleteItem']) {
+      Hooks.on(hook as any, (document: any) => {
+        if (document.pack) {
+          this.stale = true;
+        }
+      });
+    }
+
+    for (const hook of ['createCompendium', 'deleteCompendium']) {
+      Hooks.on(hook as any, (pack: any) => {
+        if (pack.metadata?.type === 'Item') {
+          this.stale = true;
+        }
+      });
+    }
+
+    this.hooksRegistered = true;
+  }
+}
@@ -4,6 +4,7 @@ import { QueryHandlers } from './queries.js';
 import { ModuleSettings } from './settings.js';
 import { CampaignHooks } from './campaign-hooks.js';
 import { ComfyUIManager } from './comfyui-manager.js';
+import { WorldEventForwarder } from './world-events.js';
 // Connection control now handled through settings menu
 
 /**
@@ -13,6 +14,7 @@ class FoundryMCPBridge {
   private settings: ModuleSettings;
   private queryHandlers: QueryHandlers;
   private campaignHooks: CampaignHooks;
+  private worldEvents: WorldEventForwarder;
   public comfyuiManager: ComfyUIManager;
   private socketBridge: SocketBridge | null = null;
   private isInitialized = false;
@@ -24,6 +26,12 @@ class FoundryMCPBridge {
     this.settings = new ModuleSettings();
     this.queryHandlers = new QueryHandlers();
     this.campaignHooks = new CampaignHooks(this);
+    this.worldEvents = new WorldEventForwarder(() => this.socketBridge);
+    this.queryHandlers.dataAccess.setIndexProgressReporter(progress => {
+      if (this.socketBridge?.isConnected()) {
+        this.socketBridge.emitToServer('index-progress', progress);
+      }
+    });
     this.comfyuiManager = new ComfyUIManager();
   }
 
@@ -50,6 +58,9 @@ class FoundryMCPBridge {
       // Register campaign hooks for interactive dashboards
       this.campaignHooks.register();
 
+      // Push document changes to the MCP server while the bridge is connected
+      this.worldEvents.register();
+
       // Expose data access globally for settings UI
       (window as any).foundryMCPBridge.dataAccess = this.queryHandlers.dataAccess;
 
@@ -108,7 +119,8 @@ class FoundryMCPBridge {
   }
 
   /**
-   * Check if enhanced creature index exists and build if needed (better UX)
+   * Build the enhanced creature index if it does not exist, otherwise extract packs changed
+   * since it was saved (system or module updates, modules enabled before this reload)
    */
   private async checkAndBuildEnhancedIndex(): Promise<void> {
     try {
@@ -134,7 +146,8 @@ class FoundryMCPBridge {
             await this.queryHandlers.dataAccess.rebuildEnhancedCreatureIndex();
           }
         } else {
-          console.log(`[${MODULE_ID}] Enhanced creature index exists, ready for instant searches`);
+          const update = await this.queryHandlers.dataAccess.updateEnhancedCreatureIndex();
+          console.log(`[${MODULE_ID}] ${update.message}`);
         }
       } catch (error) {
         // World directory might not exist yet, that's okay
@@ -468,6 +481,7 @@ class FoundryMCPBridge {
     await this.stop();
     this.queryHandlers.unregisterHandlers();
     this.campaignHooks.unregister();
+    this.worldEvents.unregister();
     
     console.log(`[${MODULE_ID}] Cleanup complete`);
   }
@@ -507,7 +521,7 @@ Hooks.once('ready', async () => {
               // Get the data access instance to update the message
               const queryHandlers = foundryMCPBridge['queryHandlers'] as any;
               if (queryHandlers && queryHandlers.dataAccess) {
-                await queryHandlers.dataAccess.updateRollButtonMessage(data.buttonId, data.userId, data.rollLabel);
+                await queryHandlers.dataAccess.updateRollButtonMessage(data.buttonId, data.userId, data.rollLabel, data.rollResult);
               }
             } catch (error) {
               console.error(`[${MODULE_ID}] GM failed to update message:`, error);
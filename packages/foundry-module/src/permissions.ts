@@ -42,6 +42,20 @@ export class PermissionManager {
       settingKey: 'allowWriteOperations',
       requiresGM: false,
     },
+    modifyActor: {
+      name: 'Modify Actor',
+      level: PERMISSION_LEVELS.MEDIUM_RISK,
+      description: 'Change actor data such as hit points',
+      settingKey: 'allowWriteOperations',
+      requiresGM: false,
+    },
+    undoChanges: {
+      name: 'Undo Changes',
+      level: PERMISSION_LEVELS.MEDIUM_RISK,
+      description: 'Roll back recent changes made through the bridge',
+      settingKey: 'allowWriteOperations',
+      requiresGM: false,
+    },
     bulkOperations: {
       name: 'Bulk Operations',
       level: PERMISSION_LEVELS.MEDIUM_RISK,
@@ -1,6 +1,7 @@
 import { MODULE_ID } from './constants.js';
 import { FoundryDataAccess } from './data-access.js';
 import { ComfyUIManager } from './comfyui-manager.js';
+import type { ItemCriteria } from './item-index.js';
 
 export class QueryHandlers {
   public dataAccess: FoundryDataAccess;
@@ -35,6 +36,7 @@ export class QueryHandlers {
     // Compendium queries
     CONFIG.queries[`${modulePrefix}.searchCompendium`] = this.handleSearchCompendium.bind(this);
     CONFIG.queries[`${modulePrefix}.listCreaturesByCriteria`] = this.handleListCreaturesByCriteria.bind(this);
+    CONFIG.queries[`${modulePrefix}.listItemsByCriteria`] = this.handleListItemsByCriteria.bind(this);
     CONFIG.queries[`${modulePrefix}.getAvailablePacks`] = this.handleGetAvailablePacks.bind(this);
 
     // Scene queries
@@ -64,6 +66,7 @@ export class QueryHandlers {
 
     // Enhanced creature index for campaign analysis
     CONFIG.queries[`${modulePrefix}.getEnhancedCreatureIndex`] = this.handleGetEnhancedCreatureIndex.bind(this);
+    CONFIG.queries[`${modulePrefix}.getEnhancedCreatureIndexVersion`] = this.handleGetEnhancedCreatureIndexVersion.bind(this);
     
     // Campaign management queries
     CONFIG.queries[`${modulePrefix}.updateCampaignProgress`] = this.handleUpdateCampaignProgress.bind(this);
@@ -106,6 +109,56 @@ export class QueryHandlers {
     CONFIG.queries[`${modulePrefix}.toggle-token-condition`] = this.handleToggleTokenCondition.bind(this);
     CONFIG.queries[`${modulePrefix}.get-available-conditions`] = this.handleGetAvailableConditions.bind(this);
 
+    // Combat tracker queries
+    CONFIG.queries[`${modulePrefix}.create-combat`] = this.handleCreateCombat.bind(this);
+    CONFIG.queries[`${modulePrefix}.get-combat-state`] = this.handleGetCombatState.bind(this);
+    CONFIG.queries[`${modulePrefix}.roll-initiative`] = this.handleRollInitiative.bind(this);
+    CONFIG.queries[`${modulePrefix}.advance-combat`] = this.handleAdvanceCombat.bind(this);
+    CONFIG.queries[`${modulePrefix}.end-combat`] = this.handleEndCombat.bind(this);
+
+    // Damage and healing queries
+    CONFIG.queries[`${modulePrefix}.get-hit-point-target`] = this.handleGetHitPointTarget.bind(this);
+    CONFIG.queries[`${modulePrefix}.apply-hit-point-update`] = this.handleApplyHitPointUpdate.bind(this);
+    CONFIG.queries[`${modulePrefix}.update-actor`] = this.handleUpdateActor.bind(this);
+
+    // Scene walls, lights and sounds queries
+    CONFIG.queries[`${modulePrefix}.list-scene-elements`] = this.handleListSceneElements.bind(this);
+    CONFIG.queries[`${modulePrefix}.create-walls`] = this.handleCreateWalls.bind(this);
+    CONFIG.queries[`${modulePrefix}.create-lights`] = this.handleCreateLights.bind(this);
+    CONFIG.queries[`${modulePrefix}.create-sounds`] = this.handleCreateSounds.bind(this);
+    CONFIG.queries[`${modulePrefix}.update-scene-elements`] = this.handleUpdateSceneElements.bind(this);
+    CONFIG.queries[`${modulePrefix}.delete-scene-elements`] = this.handleDeleteSceneElements.bind(this);
+    CONFIG.queries[`${modulePrefix}.set-door-state`] = this.handleSetDoorState.bind(this);
+
+    // Generated art queries
+    CONFIG.queries[`${modulePrefix}.get-art-prompt-context`] = this.handleGetArtPromptContext.bind(this);
+    CONFIG.queries[`${modulePrefix}.assign-generated-art`] = this.handleAssignGeneratedArt.bind(this);
+
+    // Change history queries
+    CONFIG.queries[`${modulePrefix}.list-recent-changes`] = this.handleListRecentChanges.bind(this);
+    CONFIG.queries[`${modulePrefix}.undo-change`] = this.handleUndoChange.bind(this);
+
+    // Chat queries
+    CONFIG.queries[`${modulePrefix}.get-chat-messages`] = this.handleGetChatMessages.bind(this);
+    CONFIG.queries[`${modulePrefix}.send-chat-message`] = this.handleSendChatMessage.bind(this);
+
+    // Dice roll queries
+    CONFIG.queries[`${modulePrefix}.get-check-actor`] = this.handleGetCheckActor.bind(this);
+    CONFIG.queries[`${modulePrefix}.roll-dice`] = this.handleRollDice.bind(this);
+    CONFIG.queries[`${modulePrefix}.post-roll-to-chat`] = this.handlePostRollToChat.bind(this);
+    CONFIG.queries[`${modulePrefix}.get-roll-results`] = this.handleGetRollResults.bind(this);
+
+    // Inventory queries
+    CONFIG.queries[`${modulePrefix}.get-actor-items`] = this.handleGetActorItems.bind(this);
+    CONFIG.queries[`${modulePrefix}.create-actor-item`] = this.handleCreateActorItem.bind(this);
+    CONFIG.queries[`${modulePrefix}.update-actor-item`] = this.handleUpdateActorItem.bind(this);
+    CONFIG.queries[`${modulePrefix}.delete-actor-item`] = this.handleDeleteActorItem.bind(this);
+    CONFIG.queries[`${modulePrefix}.transfer-actor-item`] = this.handleTransferActorItem.bind(this);
+
+    // Loot queries
+    CONFIG.queries[`${modulePrefix}.search-compendium-items`] = this.handleSearchCompendiumItems.bind(this);
+    CONFIG.queries[`${modulePrefix}.create-loot-actor`] = this.handleCreateLootActor.bind(this);
+
   }
 
   /**
@@ -263,6 +316,29 @@ export class QueryHandlers {
     }
   }
 
+  /**
+   * Handle list items by criteria request
+   */
+  private async handleListItemsByCriteria(data: ItemCriteria & { limit?: number }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      const result = await this.dataAccess.listItemsByCriteria(data ?? {});
+
+      return {
+        response: result
+      };
+    } catch (error) {
+      throw new Error(`Failed to list items by criteria: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Handle get available packs request
    */
@@ -364,6 +440,7 @@ export class QueryHandlers {
       type: 'random' | 'grid' | 'center' | 'coordinates';
       coordinates?: { x: number; y: number }[];
     } | undefined;
+    dryRun?: boolean | undefined;
   }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
@@ -381,6 +458,7 @@ export class QueryHandlers {
         customNames: data.customNames || [],
         quantity: data.quantity || 1,
         addToScene: data.addToScene || false,
+        dryRun: data.dryRun || false,
       };
       
       if (data.placement) {
@@ -430,6 +508,7 @@ export class QueryHandlers {
     actorIds: string[];
     placement?: 'random' | 'grid' | 'center';
     hidden?: boolean;
+    dryRun?: boolean;
   }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
@@ -448,6 +527,7 @@ export class QueryHandlers {
         actorIds: data.actorIds,
         placement: data.placement || 'random',
         hidden: data.hidden || false,
+        dryRun: data.dryRun || false,
       });
     } catch (error) {
       throw new Error(`Failed to add actors to scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -577,7 +657,7 @@ export class QueryHandlers {
   /**
    * Handle update journal content request
    */
-  async handleUpdateJournalContent(data: { journalId: string; content: string; pageId?: string; newPageName?: string }): Promise<any> {
+  async handleUpdateJournalContent(data: { journalId: string; content: string; pageId?: string; newPageName?: string; dryRun?: boolean }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
       const gmCheck = this.validateGMAccess();
@@ -594,12 +674,13 @@ export class QueryHandlers {
         throw new Error('content is required');
       }
 
-      const updateRequest: { journalId: string; content: string; pageId?: string | undefined; newPageName?: string | undefined } = {
+      const updateRequest: { journalId: string; content: string; pageId?: string | undefined; newPageName?: string | undefined; dryRun?: boolean | undefined } = {
         journalId: data.journalId,
         content: data.content,
       };
       if (data.pageId) updateRequest.pageId = data.pageId;
       if (data.newPageName) updateRequest.newPageName = data.newPageName;
+      if (data.dryRun) updateRequest.dryRun = true;
 
       return await this.dataAccess.updateJournalContent(updateRequest);
     } catch (error) {
@@ -617,6 +698,7 @@ export class QueryHandlers {
     isPublic: boolean;
     rollModifier: string;
     flavor: string;
+    dc?: number;
   }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
@@ -656,6 +738,25 @@ export class QueryHandlers {
     }
   }
 
+  /**
+   * Handle get enhanced creature index version request
+   */
+  async handleGetEnhancedCreatureIndexVersion(): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getEnhancedCreatureIndexVersion();
+    } catch (error) {
+      throw new Error(`Failed to get enhanced creature index version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Handle campaign progress update request
    */
@@ -900,7 +1001,8 @@ export class QueryHandlers {
         scene_name: data.scene_name.trim(),
         size: data.size || 'medium',
         grid_size: data.grid_size || 70,
-        quality: quality
+        quality: quality,
+        workflow: typeof data.workflow === 'string' ? data.workflow : undefined
       };
 
       // Use ComfyUIManager to communicate with backend via WebSocket
@@ -1077,9 +1179,10 @@ export class QueryHandlers {
       console.log(`[${MODULE_ID}] Ensuring upload directory exists...`);
 
       // Upload to world-specific folder so maps persist even if module is deleted
-      // This also keeps maps organized per world
+      // This also keeps maps organized per world; portraits and item art go to their own folder
       const worldId = (game as any).world?.id || 'unknown-world';
-      const uploadPath = `worlds/${worldId}/ai-generated-maps`;
+      const folderName = data.folder === 'art' ? 'ai-generated-art' : 'ai-generated-maps';
+      const uploadPath = `worlds/${worldId}/${folderName}`;
       try {
         // Use the modern Foundry API (v13+) with fallback for older versions
         const FilePickerAPI = (globalThis as any).foundry?.applications?.apps?.FilePicker?.implementation || (globalThis as any).FilePicker;
@@ -1162,7 +1265,8 @@ export class QueryHandlers {
    */
   private async handleUpdateToken(data: {
     tokenId: string;
-    updates: Record<string, any>
+    updates: Record<string, any>;
+    dryRun?: boolean;
   }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
@@ -1189,7 +1293,7 @@ export class QueryHandlers {
   /**
    * Handle delete tokens request
    */
-  private async handleDeleteTokens(data: { tokenIds: string[] }): Promise<any> {
+  private async handleDeleteTokens(data: { tokenIds: string[]; dryRun?: boolean }): Promise<any> {
     try {
       // SECURITY: Silent GM validation
       const gmCheck = this.validateGMAccess();
@@ -1360,4 +1464,839 @@ export class QueryHandlers {
     }
   }
 
+  /**
+   * Handle create combat request
+   */
+  private async handleCreateCombat(data: {
+    tokenIds?: string[];
+    includeHidden?: boolean;
+    rollInitiative?: 'none' | 'npcs' | 'all';
+    startCombat?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.createCombat({
+        tokenIds: data.tokenIds,
+        includeHidden: data.includeHidden,
+        rollInitiative: data.rollInitiative,
+        startCombat: data.startCombat,
+      });
+    } catch (error) {
+      throw new Error(`Failed to create combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get combat state request
+   */
+  private async handleGetCombatState(data: { combatId?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getCombatState({ combatId: data?.combatId });
+    } catch (error) {
+      throw new Error(`Failed to get combat state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle roll initiative request
+   */
+  private async handleRollInitiative(data: {
+    combatId?: string;
+    scope?: 'npcs' | 'all' | 'unrolled';
+    combatantIds?: string[];
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.rollCombatInitiative({
+        combatId: data.combatId,
+        scope: data.scope,
+        combatantIds: data.combatantIds,
+      });
+    } catch (error) {
+      throw new Error(`Failed to roll initiative: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle advance combat request (next/previous turn or round)
+   */
+  private async handleAdvanceCombat(data: {
+    combatId?: string;
+    action: 'next-turn' | 'previous-turn' | 'next-round' | 'previous-round';
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.action) {
+        throw new Error('action is required');
+      }
+
+      return await this.dataAccess.advanceCombat({
+        combatId: data.combatId,
+        action: data.action,
+      });
+    } catch (error) {
+      throw new Error(`Failed to advance combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle end combat request
+   */
+  private async handleEndCombat(data: { combatId?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.endCombat({ combatId: data?.combatId });
+    } catch (error) {
+      throw new Error(`Failed to end combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get hit point target request (actor data for damage/healing calculation)
+   */
+  private async handleGetHitPointTarget(data: { identifier: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.identifier) {
+        throw new Error('identifier is required');
+      }
+
+      return await this.dataAccess.getHitPointTarget(data);
+    } catch (error) {
+      throw new Error(`Failed to get hit point target: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle apply hit point update request
+   */
+  private async handleApplyHitPointUpdate(data: {
+    actorId: string;
+    tokenId?: string | null;
+    updates: Record<string, number>;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+      if (!data.updates || typeof data.updates !== 'object') {
+        throw new Error('updates object is required');
+      }
+
+      return await this.dataAccess.applyHitPointUpdate(data);
+    } catch (error) {
+      throw new Error(`Failed to apply hit point update: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle update actor request
+   */
+  private async handleUpdateActor(data: {
+    actorId: string;
+    tokenId?: string | null;
+    updates: Record<string, unknown>;
+    rawUpdates?: Record<string, unknown>;
+    dryRun?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+      if (!data.updates || typeof data.updates !== 'object') {
+        throw new Error('updates object is required');
+      }
+
+      return await this.dataAccess.updateActorData(data);
+    } catch (error) {
+      throw new Error(`Failed to update actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle list scene elements request
+   */
+  private async handleListSceneElements(data: {
+    sceneId?: string;
+    elementType?: 'walls' | 'doors' | 'lights' | 'sounds' | 'all';
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.listSceneElements(data);
+    } catch (error) {
+      throw new Error(`Failed to list scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create walls request
+   */
+  private async handleCreateWalls(data: {
+    sceneId?: string;
+    units?: 'pixels' | 'grid';
+    walls: any[];
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.walls) || data.walls.length === 0) {
+        throw new Error('walls array is required');
+      }
+
+      return await this.dataAccess.createWalls(data);
+    } catch (error) {
+      throw new Error(`Failed to create walls: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create lights request
+   */
+  private async handleCreateLights(data: {
+    sceneId?: string;
+    units?: 'pixels' | 'grid';
+    lights: any[];
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.lights) || data.lights.length === 0) {
+        throw new Error('lights array is required');
+      }
+
+      return await this.dataAccess.createLights(data);
+    } catch (error) {
+      throw new Error(`Failed to create lights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create sounds request
+   */
+  private async handleCreateSounds(data: {
+    sceneId?: string;
+    units?: 'pixels' | 'grid';
+    sounds: any[];
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.sounds) || data.sounds.length === 0) {
+        throw new Error('sounds array is required');
+      }
+
+      return await this.dataAccess.createSounds(data);
+    } catch (error) {
+      throw new Error(`Failed to create sounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle update scene elements request
+   */
+  private async handleUpdateSceneElements(data: {
+    sceneId?: string;
+    elementType: 'walls' | 'lights' | 'sounds';
+    units?: 'pixels' | 'grid';
+    updates: Array<{ id: string; [key: string]: any }>;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!['walls', 'lights', 'sounds'].includes(data.elementType)) {
+        throw new Error('elementType must be walls, lights or sounds');
+      }
+
+      if (!Array.isArray(data.updates) || data.updates.length === 0) {
+        throw new Error('updates array is required');
+      }
+
+      return await this.dataAccess.updateSceneElements(data);
+    } catch (error) {
+      throw new Error(`Failed to update scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle delete scene elements request
+   */
+  private async handleDeleteSceneElements(data: {
+    sceneId?: string;
+    elementType: 'walls' | 'lights' | 'sounds';
+    ids: string[];
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!['walls', 'lights', 'sounds'].includes(data.elementType)) {
+        throw new Error('elementType must be walls, lights or sounds');
+      }
+
+      if (!Array.isArray(data.ids) || data.ids.length === 0) {
+        throw new Error('ids array is required');
+      }
+
+      return await this.dataAccess.deleteSceneElements(data);
+    } catch (error) {
+      throw new Error(`Failed to delete scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle set door state request
+   */
+  private async handleSetDoorState(data: {
+    sceneId?: string;
+    wallIds: string[];
+    state: 'open' | 'closed' | 'locked';
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.wallIds) || data.wallIds.length === 0) {
+        throw new Error('wallIds array is required');
+      }
+
+      if (!['open', 'closed', 'locked'].includes(data.state)) {
+        throw new Error('state must be open, closed or locked');
+      }
+
+      return await this.dataAccess.setDoorState(data);
+    } catch (error) {
+      throw new Error(`Failed to set door state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle generated art prompt context request
+   */
+  private async handleGetArtPromptContext(data: { actorIdentifier?: string; itemIdentifier?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorIdentifier && !data.itemIdentifier) {
+        throw new Error('actorIdentifier or itemIdentifier is required');
+      }
+
+      return await this.dataAccess.getArtPromptContext(data);
+    } catch (error) {
+      throw new Error(`Failed to get art prompt context: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle assign generated art request
+   */
+  private async handleAssignGeneratedArt(data: {
+    actorId?: string;
+    itemId?: string;
+    imagePath: string;
+    assignTo?: 'portrait' | 'token' | 'both';
+    tokenRing?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId && !data.itemId) {
+        throw new Error('actorId or itemId is required');
+      }
+      if (!data.imagePath || typeof data.imagePath !== 'string') {
+        throw new Error('imagePath is required');
+      }
+
+      return await this.dataAccess.assignGeneratedArt(data);
+    } catch (error) {
+      throw new Error(`Failed to assign generated art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle list recent changes request
+   */
+  private async handleListRecentChanges(data: { limit?: number; includeUndone?: boolean }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.listRecentChanges(data);
+    } catch (error) {
+      throw new Error(`Failed to list recent changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle undo change request
+   */
+  private async handleUndoChange(data: { transactionId?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.undoChange(data);
+    } catch (error) {
+      throw new Error(`Failed to undo change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get chat messages request
+   */
+  private async handleGetChatMessages(data: { limit?: number; includeWhispers?: boolean; speaker?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getChatMessages(data);
+    } catch (error) {
+      throw new Error(`Failed to get chat messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle send chat message request
+   */
+  private async handleSendChatMessage(data: {
+    content: string;
+    speaker?: string;
+    alias?: string;
+    style?: 'ic' | 'ooc' | 'emote';
+    whisperTo?: string[];
+    flavor?: string;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.content) {
+        throw new Error('content is required');
+      }
+
+      return await this.dataAccess.sendChatMessage(data);
+    } catch (error) {
+      throw new Error(`Failed to send chat message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get check actor request
+   */
+  private async handleGetCheckActor(data: { identifier: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.identifier) {
+        throw new Error('identifier is required');
+      }
+
+      return await this.dataAccess.getCheckActor(data);
+    } catch (error) {
+      throw new Error(`Failed to get check actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle roll dice request
+   */
+  private async handleRollDice(data: { formula: string; actorId?: string | null; tokenId?: string | null }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.formula) {
+        throw new Error('formula is required');
+      }
+
+      return await this.dataAccess.rollDice(data);
+    } catch (error) {
+      throw new Error(`Failed to roll dice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle post roll to chat request
+   */
+  private async handlePostRollToChat(data: {
+    roll: any;
+    flavor?: string;
+    actorId?: string | null;
+    tokenId?: string | null;
+    rollMode?: 'publicroll' | 'gmroll' | 'blindroll' | 'selfroll';
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.postRollToChat(data);
+    } catch (error) {
+      throw new Error(`Failed to post roll to chat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get roll results request
+   */
+  private async handleGetRollResults(data: { rollIds?: string[]; limit?: number }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getRollResults(data);
+    } catch (error) {
+      throw new Error(`Failed to get roll results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get actor items request
+   */
+  private async handleGetActorItems(data: { identifier: string; types?: string[] }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.identifier) {
+        throw new Error('identifier is required');
+      }
+
+      return await this.dataAccess.getActorItems(data);
+    } catch (error) {
+      throw new Error(`Failed to get actor items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create actor item request
+   */
+  private async handleCreateActorItem(data: {
+    actorId: string;
+    tokenId?: string | null;
+    itemData: Record<string, any>;
+    updates?: Record<string, unknown>;
+    sourceUuid?: string;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+      if (!data.itemData || typeof data.itemData !== 'object') {
+        throw new Error('itemData object is required');
+      }
+
+      return await this.dataAccess.createActorItem(data);
+    } catch (error) {
+      throw new Error(`Failed to add item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle update actor item request
+   */
+  private async handleUpdateActorItem(data: {
+    actorId: string;
+    tokenId?: string | null;
+    itemId: string;
+    updates: Record<string, unknown>;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+      if (!data.itemId) {
+        throw new Error('itemId is required');
+      }
+      if (!data.updates || typeof data.updates !== 'object') {
+        throw new Error('updates object is required');
+      }
+
+      return await this.dataAccess.updateActorItem(data);
+    } catch (error) {
+      throw new Error(`Failed to update item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle delete actor item request
+   */
+  private async handleDeleteActorItem(data: { actorId: string; tokenId?: string | null; itemId: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+      if (!data.itemId) {
+        throw new Error('itemId is required');
+      }
+
+      return await this.dataAccess.deleteActorItem(data);
+    } catch (error) {
+      throw new Error(`Failed to remove item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle transfer actor item request
+   */
+  private async handleTransferActorItem(data: {
+    source: { actorId: string; tokenId?: string | null };
+    target: { actorId: string; tokenId?: string | null };
+    itemId: string;
+    sourceUpdates?: Record<string, unknown>;
+    stackItemId?: string;
+    stackUpdates?: Record<string, unknown>;
+    copyUpdates?: Record<string, unknown>;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.source?.actorId || !data.target?.actorId) {
+        throw new Error('source and target actors are required');
+      }
+      if (!data.itemId) {
+        throw new Error('itemId is required');
+      }
+
+      return await this.dataAccess.transferActorItem(data);
+    } catch (error) {
+      throw new Error(`Failed to transfer item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle search compendium items request
+   */
+  private async handleSearchCompendiumItems(data: {
+    types?: string[];
+    names?: string[];
+    fields?: string[];
+    filters?: Array<{ path: string; in?: unknown[]; min?: number; max?: number }>;
+    packIds?: string[];
+    limit?: number;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.searchCompendiumItems(data ?? {});
+    } catch (error) {
+      throw new Error(`Failed to search compendium items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create loot actor request
+   */
+  private async handleCreateLootActor(data: { name: string; type: string; img?: string; placeOnScene?: boolean }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.name || !data.type) {
+        throw new Error('name and type are required');
+      }
+
+      return await this.dataAccess.createLootActor(data);
+    } catch (error) {
+      throw new Error(`Failed to create loot actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
 }
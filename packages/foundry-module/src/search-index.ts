@@ -0,0 +1,303 @@
+import { MODULE_ID } from './constants.js';
+import { loadWorldIndexFile, saveWorldIndexFile, packFingerprintsMatch } from './index-storage.js';
+import { tokenize, rankDocuments, createPostings, addPostings } from './text-search.js';
+
+export interface SearchHit {
+  id: string;
+  name: string;
+  type: string;
+  img?: string | undefined;
+  pack: string;
+  packLabel: string;
+  packType: string;
+  snippet?: string | undefined;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface IndexedDocument {
+  id: string;
+  name: string;
+  type: string;
+  img?: string | undefined;
+  pack: string;
+  snippet?: string | undefined; // Start of the plain-text description
+  length: number; // Weighted token count, for BM25 length normalisation
+}
+
+interface PersistentSearchIndex {
+  metadata: {
+    version: string;
+    timestamp: number;
+    gameSystem: string;
+    packFingerprints: Record<string, number>; // Pack ID -> document count
+    totalDocuments: number;
+    averageLength: number;
+  };
+  packs: Record<string, { label: string; type: string }>;
+  documents: IndexedDocument[];
+  postings: Record<string, number[]>; // Term -> [docIndex, termFrequency, docIndex, termFrequency, ...]
+}
+
+// Index fields holding descriptions and traits across D&D 5e, PF2e and DSA5; missing ones are skipped
+const INDEXED_FIELDS = [
+  'system.description.value',
+  'system.details.biography.value',
+  'system.details.publicNotes',
+  'system.details.notes.value',
+  'system.details.type.value',
+  'system.traits.value',
+  'system.traits.rarity',
+  'system.traits.traditions',
+  'system.school',
+  'system.properties',
+  'system.damage',
+  'system.damageType',
+  'system.rarity',
+  'system.type.value',
+];
+
+const INDEXED_PACK_TYPES = ['Item', 'Actor'];
+
+// Field weights: a query word in the name counts for more than one in a long description
+const NAME_WEIGHT = 3;
+const TRAIT_WEIGHT = 2;
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Collect the strings in a field value (arrays of traits, { value: [...] } sets, damage part objects)
+ */
+function collectText(value: unknown, out: string[], depth = 0): void {
+  if (value === null || value === undefined || depth > 4) return;
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value) || value instanceof Set) {
+    for (const entry of value) collectText(entry, out, depth + 1);
+  } else if (typeof value === 'object') {
+    for (const entry of Object.values(value as Record<string, unknown>)) collectText(entry, out, depth + 1);
+  }
+}
+
+/**
+ * Full-text compendium search index
+ * Tokenized, stemmed and BM25-ranked over names, descriptions and traits of Item and Actor packs.
+ * Stored next to the enhanced creature index as a JSON file in the world directory.
+ */
+export class CompendiumSearchIndex {
+  private moduleId: string = MODULE_ID;
+  private readonly INDEX_VERSION = '1.0.0';
+  private readonly INDEX_FILENAME = 'compendium-search-index.json';
+  private index: PersistentSearchIndex | null = null;
+  private buildPromise: Promise<PersistentSearchIndex> | null = null;
+  private stale = false;
+  private hooksRegistered = false;
+
+  constructor() {
+    this.registerFoundryHooks();
+  }
+
+  /**
+   * Search the index; terms are OR-ed and documents matching more and rarer terms rank higher
+   */
+  async search(query: string, options: { packType?: string | undefined; limit?: number } = {}): Promise<SearchHit[]> {
+    const index = await this.getIndex();
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const { documents, postings, packs, metadata } = index;
+    const include = options.packType ? (docIndex: number) => packs[documents[docIndex].pack]?.type === options.packType : undefined;
+
+    return rankDocuments(terms, postings, documents, metadata.averageLength, include)
+      .slice(0, options.limit ?? 100)
+      .map(({ docIndex, score, matchedTerms }) => {
+        const document = documents[docIndex];
+        return {
+          id: document.id,
+          name: document.name,
+          type: document.type,
+          img: document.img,
+          pack: document.pack,
+          packLabel: packs[document.pack]?.label ?? document.pack,
+          packType: packs[document.pack]?.type ?? 'unknown',
+          snippet: document.snippet,
+          score: Math.round(score * 100) / 100,
+          matchedTerms,
+        };
+      });
+  }
+
+  /**
+   * Force a rebuild of the full-text index
+   */
+  async rebuild(): Promise<number> {
+    this.index = null;
+    this.stale = false;
+    const index = await this.build();
+    return index.metadata.totalDocuments;
+  }
+
+  /**
+   * Get the in-memory index, loading it from file or building it when missing or out of date
+   */
+  private async getIndex(): Promise<PersistentSearchIndex> {
+    if (this.index && !this.stale) {
+      return this.index;
+    }
+
+    if (!this.stale) {
+      const persisted = await loadWorldIndexFile<PersistentSearchIndex>(this.INDEX_FILENAME);
+      if (persisted && this.isIndexValid(persisted)) {
+        persisted.postings = createPostings(persisted.postings);
+        this.index = persisted;
+        return persisted;
+      }
+    }
+
+    this.stale = false;
+    return await this.build();
+  }
+
+  /**
+   * Build the index from all Item and Actor packs; concurrent callers share one build
+   */
+  private async build(): Promise<PersistentSearchIndex> {
+    if (this.buildPromise) {
+      return await this.buildPromise;
+    }
+
+    this.buildPromise = (async () => {
+      const startTime = Date.now();
+      const packs = this.getIndexedPacks();
+      ui.notifications?.info(`Building compendium search index from ${packs.length} packs...`);
+
+      const index: PersistentSearchIndex = {
+        metadata: {
+          version: this.INDEX_VERSION,
+          timestamp: Date.now(),
+          gameSystem: (game as any).system.id,
+          packFingerprints: {},
+          totalDocuments: 0,
+          averageLength: 0,
+        },
+        packs: {},
+        documents: [],
+        postings: createPostings(),
+      };
+
+      let totalLength = 0;
+      for (const pack of packs) {
+        try {
+          const entries = await pack.getIndex({ fields: INDEXED_FIELDS } as any);
+          index.packs[pack.metadata.id] = { label: pack.metadata.label, type: pack.metadata.type };
+          index.metadata.packFingerprints[pack.metadata.id] = entries.size;
+
+          for (const entry of entries.values()) {
+            totalLength += this.addDocument(index, entry as any, pack.metadata.id);
+          }
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Failed to index pack ${pack.metadata.label} for full-text search:`, error);
+        }
+      }
+
+      index.metadata.totalDocuments = index.documents.length;
+      index.metadata.averageLength = index.documents.length > 0 ? totalLength / index.documents.length : 1;
+
+      try {
+        await saveWorldIndexFile(this.INDEX_FILENAME, index);
+      } catch (error) {
+        // The in-memory index still works; it is rebuilt next session
+        console.warn(`[${this.moduleId}] Failed to save compendium search index:`, error);
+      }
+
+      const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
+      ui.notifications?.info(`Compendium search index complete! ${index.documents.length} documents indexed in ${buildTimeSeconds}s`);
+
+      this.index = index;
+      return index;
+    })();
+
+    try {
+      return await this.buildPromise;
+    } finally {
+      this.buildPromise = null;
+    }
+  }
+
+  /**
+   * Tokenize one index entry into the postings
+   * @returns The document's weighted length
+   */
+  private addDocument(index: PersistentSearchIndex, entry: any, packId: string): number {
+    if (!entry?.name || typeof entry.name !== 'string') {
+      return 0;
+    }
+
+    const getField = (path: string) => (foundry.utils as any).getProperty(entry, path);
+
+    const descriptions: string[] = [];
+    const traits: string[] = [entry.type ?? ''];
+    for (const path of INDEXED_FIELDS) {
+      const target = /description|biography|publicNotes|notes/.test(path) ? descriptions : traits;
+      collectText(getField(path), target);
+    }
+
+    const frequencies = new Map<string, number>();
+    const add = (terms: string[], weight: number) => {
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      }
+    };
+    add(tokenize(entry.name), NAME_WEIGHT);
+    add(tokenize(traits.join(' ')), TRAIT_WEIGHT);
+    add(tokenize(descriptions.join(' ')), 1);
+
+    const length = addPostings(index.postings, index.documents.length, frequencies);
+
+    const plain = descriptions.join(' ').replace(/@UUID\[[^\]]*\]\{([^}]*)\}/g, '$1').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    const snippet = plain.length > SNIPPET_LENGTH ? `${plain.slice(0, SNIPPET_LENGTH)}...` : plain;
+
+    index.documents.push({ id: entry._id, name: entry.name, type: entry.type ?? 'unknown', img: entry.img || undefined, pack: packId, snippet: snippet || undefined, length });
+    return length;
+  }
+
+  private getIndexedPacks(): any[] {
+    return Array.from(game.packs.values()).filter(pack => INDEXED_PACK_TYPES.includes(pack.metadata.type));
+  }
+
+  /**
+   * Check version, game system and that no Item or Actor pack was added, removed or resized
+   */
+  private isIndexValid(existingIndex: PersistentSearchIndex): boolean {
+    return existingIndex.metadata.version === this.INDEX_VERSION &&
+           existingIndex.metadata.gameSystem === (game as any).system.id &&
+           packFingerprintsMatch(existingIndex.metadata.packFingerprints, INDEXED_PACK_TYPES);
+  }
+
+  /**
+   * Mark the index stale when compendium content changes; it is rebuilt on the next search
+   */
+  private registerFoundryHooks(): void {
+    if (this.hooksRegistered) return;
+
+    for (const hook of ['createItem', 'updateItem', 'deleteItem', 'createActor', 'updateActor', 'deleteActor']) {
+      Hooks.on(hook as any, (document: any) => {
+        if (document.pack) {
+          this.stale = true;
+        }
+      });
+    }
+
+    for (const hook of ['createCompendium', 'deleteCompendium']) {
+      Hooks.on(hook as any, (pack: any) => {
+        if (INDEXED_PACK_TYPES.includes(pack.metadata?.type)) {
+          this.stale = true;
+        }
+      });
+    }
+
+    this.hooksRegistered = true;
+  }
+}
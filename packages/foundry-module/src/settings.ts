@@ -45,6 +45,12 @@ export class ModuleSettings {
               ui.notifications?.info('Rebuilding enhanced creature index...');
               bridge.dataAccess.rebuildEnhancedCreatureIndex();
             }
+            if (bridge?.dataAccess?.rebuildCompendiumSearchIndex) {
+              bridge.dataAccess.rebuildCompendiumSearchIndex();
+            }
+            if (bridge?.dataAccess?.rebuildEnhancedItemIndex) {
+              bridge.dataAccess.rebuildEnhancedItemIndex();
+            }
           });
         }
         
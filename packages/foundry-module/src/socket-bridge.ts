@@ -300,7 +300,8 @@ export class SocketBridge {
       }
 
       // Use the complete scene data from backend (like mapgen does)
-      const sceneData = data.result;
+      // Detected walls are created separately once the scene's padded dimensions are known
+      const { walls: detectedWalls, ...sceneData } = data.result;
 
       console.log(`[foundry-mcp-bridge] Scene data to create:`, sceneData);
       console.log(`[foundry-mcp-bridge] Scene name: "${sceneData.name}"`);
@@ -329,8 +330,8 @@ export class SocketBridge {
         });
       }
 
-      if (sceneData.walls && sceneData.walls.length > 0) {
-        await this.createSceneWalls(scene, sceneData.walls);
+      if (detectedWalls && detectedWalls.length > 0) {
+        await this.createSceneWalls(scene, detectedWalls);
       }
 
       ui.notifications?.info(`Scene "${sceneData.name}" created successfully!`);
@@ -375,10 +376,16 @@ export class SocketBridge {
 
       this.log(`${validWalls.length} valid walls out of ${wallsData.length} total`);
 
+      // Wall coordinates [x1, y1, x2, y2] are relative to the map image, so shift them past the scene padding
+      const offsetX = scene.dimensions?.sceneX ?? 0;
+      const offsetY = scene.dimensions?.sceneY ?? 0;
+
       const wallDocuments = validWalls.map((wall: any) => ({
-        c: wall.c, // Wall coordinates [x1, y1, x2, y2]
+        c: [wall.c[0] + offsetX, wall.c[1] + offsetY, wall.c[2] + offsetX, wall.c[3] + offsetY],
         move: wall.movement || 0,
-        sense: wall.sight || 0,
+        sight: wall.sight || 0,
+        light: wall.light ?? wall.sight ?? 0,
+        sound: wall.sound ?? wall.sight ?? 0,
         doorSound: "",
         dir: wall.direction || 0,
         door: wall.door || 0,
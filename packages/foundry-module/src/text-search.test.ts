@@ -0,0 +1,113 @@
+/**
+ * Compendium Text Search Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { stem, tokenize, rankDocuments, createPostings, addPostings } from './text-search.js';
+
+/**
+ * Build postings and document lengths the way the search index does, without field weights
+ */
+function buildIndex(texts: string[]) {
+  const postings = createPostings();
+  const documents = texts.map((text, docIndex) => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    return { length: addPostings(postings, docIndex, frequencies) };
+  });
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length;
+  return { postings, documents, averageLength };
+}
+
+describe('stem', () => {
+  it('stems verb forms to the same term', () => {
+    expect(stem('slowed')).toBe(stem('slow'));
+    expect(stem('slows')).toBe(stem('slow'));
+    expect(stem('slowing')).toBe(stem('slow'));
+  });
+
+  it('undoubles consonants but keeps double l', () => {
+    expect(stem('hopped')).toBe(stem('hop'));
+    expect(stem('falling')).toBe('fall');
+  });
+
+  it('meets freeze and freezing', () => {
+    expect(stem('freezing')).toBe(stem('freeze'));
+  });
+
+  it('leaves short words and words with digits alone', () => {
+    expect(stem('ice')).toBe('ice');
+    expect(stem('2d6s')).toBe('2d6s');
+  });
+});
+
+describe('tokenize', () => {
+  it('drops stopwords and single characters', () => {
+    expect(tokenize('the a of x')).toEqual([]);
+    expect(tokenize('find spells that slow')).toEqual([stem('spells'), stem('slow')]);
+  });
+
+  it('strips HTML and keeps the label of linked documents', () => {
+    expect(tokenize('<p>The target is @UUID[Compendium.pf2e.conditionitems.Item.xYz]{Slowed}</p>')).toEqual([stem('target'), stem('slowed')]);
+  });
+
+  it('removes diacritics', () => {
+    expect(tokenize('Zauberstäbe')).toEqual(tokenize('Zauberstabe'));
+  });
+});
+
+describe('rankDocuments', () => {
+  const texts = [
+    'Fireball: a bright streak explodes into a burst of fire',
+    'Ray of Frost: a frigid beam slows the target',
+    'Slow: up to six creatures are slowed, and slowing magic makes them slower',
+    'Longsword: a versatile martial weapon',
+  ];
+
+  it('ranks documents that repeat a term above single mentions', () => {
+    const { postings, documents, averageLength } = buildIndex(texts);
+    const ranked = rankDocuments(tokenize('slow'), postings, documents, averageLength);
+
+    expect(ranked.map(document => document.docIndex)).toEqual([2, 1]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('ranks documents matching more terms higher', () => {
+    const { postings, documents, averageLength } = buildIndex(texts);
+    const ranked = rankDocuments(tokenize('fire burst'), postings, documents, averageLength);
+
+    expect(ranked[0].docIndex).toBe(0);
+    expect(ranked[0].matchedTerms).toEqual([stem('fire'), stem('burst')]);
+  });
+
+  it('applies the document filter', () => {
+    const { postings, documents, averageLength } = buildIndex(texts);
+    const ranked = rankDocuments(tokenize('slow'), postings, documents, averageLength, docIndex => docIndex !== 2);
+
+    expect(ranked.map(document => document.docIndex)).toEqual([1]);
+  });
+
+  it('returns nothing for unknown terms', () => {
+    const { postings, documents, averageLength } = buildIndex(texts);
+    expect(rankDocuments(tokenize('dragon'), postings, documents, averageLength)).toEqual([]);
+  });
+
+  it('indexes and searches terms named like Object.prototype members', () => {
+    const { postings, documents, averageLength } = buildIndex([...texts, 'Constructor Drone: a constructor of hasOwnProperty walls']);
+    const ranked = rankDocuments(tokenize('constructor hasOwnProperty'), postings, documents, averageLength);
+    expect(ranked.map(document => document.docIndex)).toEqual([4]);
+
+    // Without the term in the index, the lookup must not reach Object.prototype.constructor
+    const withoutTerm = buildIndex(texts);
+    expect(rankDocuments(tokenize('constructor'), withoutTerm.postings, withoutTerm.documents, withoutTerm.averageLength)).toEqual([]);
+  });
+
+  it('survives postings restored from the saved JSON file', () => {
+    const { postings, documents, averageLength } = buildIndex(texts);
+    const restored = createPostings(JSON.parse(JSON.stringify(postings)));
+    expect(rankDocuments(tokenize('slow constructor'), restored, documents, averageLength).map(document => document.docIndex)).toEqual([2, 1]);
+    expect(rankDocuments(tokenize('constructor'), JSON.parse('{}'), documents, averageLength)).toEqual([]);
+  });
+});
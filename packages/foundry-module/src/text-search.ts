@@ -0,0 +1,143 @@
+/**
+ * Text analysis and BM25 ranking for the compendium search index.
+ * Free of Foundry globals so it can be tested in Node.js.
+ */
+
+export interface RankedDocument {
+  docIndex: number;
+  score: number;
+  matchedTerms: string[];
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'if', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was', 'when', 'which',
+  'while', 'who', 'will', 'with', 'you', 'your',
+  // Query phrasing: "find spells that...", "show me items with..."
+  'find', 'show', 'list', 'me', 'some', 'any',
+  // Enricher syntax left over from @Check[type:reflex|dc:20] and similar
+  'uuid', 'compendium', 'type', 'dc',
+]);
+
+/**
+ * Light English stemmer (Porter step 1 plus common suffixes) so "slowed", "slows" and "slowing" meet.
+ * Queries and documents go through the same function, so consistency matters more than linguistic accuracy.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -3) + 'y';
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) w = w.slice(0, -1);
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    if (w.endsWith(suffix) && /[aeiouy]/.test(w.slice(0, -suffix.length)) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      // hopped -> hop, but fall -> fall
+      if (/([^aeiouslz])\1$/.test(w)) w = w.slice(0, -1);
+      break;
+    }
+  }
+
+  for (const [suffix, replacement] of [['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'], ['ness', ''], ['ment', ''], ['ly', '']]) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // Drop a final e so "freeze" and "freez(ing)" meet
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+  if (w.endsWith('y') && w.length > 3) w = w.slice(0, -1) + 'i';
+
+  return w;
+}
+
+/**
+ * Strip HTML and Foundry enrichers, then split into lowercase stemmed terms
+ */
+export function tokenize(text: string): string[] {
+  const plain = text
+    .replace(/@UUID\[[^\]]*\]\{([^}]*)\}/g, ' $1 ') // Linked documents: keep the label
+    .replace(/@UUID\[[^\]]*\]/g, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/g, ' ')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  const terms: string[] = [];
+  for (const word of plain.match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    terms.push(stem(word));
+  }
+  return terms;
+}
+
+/**
+ * Postings without a prototype, so terms like "constructor" don't resolve to Object.prototype members
+ * @param source Postings to copy, e.g. parsed from the saved index file
+ */
+export function createPostings(source?: Record<string, number[]>): Record<string, number[]> {
+  return Object.assign(Object.create(null), source);
+}
+
+/**
+ * Add one document's term frequencies to the postings
+ * @returns The document's weighted length
+ */
+export function addPostings(postings: Record<string, number[]>, docIndex: number, frequencies: Map<string, number>): number {
+  let length = 0;
+  for (const [term, frequency] of frequencies) {
+    (postings[term] ??= []).push(docIndex, frequency);
+    length += frequency;
+  }
+  return length;
+}
+
+/**
+ * Score documents with BM25; terms are OR-ed and documents matching more and rarer terms rank higher
+ * @param postings Term -> [docIndex, termFrequency, docIndex, termFrequency, ...]
+ * @param documents Documents with their weighted token count
+ * @param include Optional filter on document indexes
+ * @returns Matching documents, best first
+ */
+export function rankDocuments(
+  terms: string[],
+  postings: Record<string, number[]>,
+  documents: ReadonlyArray<{ length: number }>,
+  averageLength: number,
+  include?: (docIndex: number) => boolean
+): RankedDocument[] {
+  const scores = new Map<number, number>();
+  const matched = new Map<number, string[]>();
+
+  for (const term of new Set(terms)) {
+    const list = Object.hasOwn(postings, term) ? postings[term] : undefined;
+    if (!list) continue;
+
+    const documentFrequency = list.length / 2;
+    const idf = Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    for (let i = 0; i < list.length; i += 2) {
+      const docIndex = list[i];
+      const frequency = list[i + 1];
+      if (include && !include(docIndex)) continue;
+
+      const norm = frequency + K1 * (1 - B + B * documents[docIndex].length / averageLength);
+      scores.set(docIndex, (scores.get(docIndex) ?? 0) + idf * (frequency * (K1 + 1)) / norm);
+      matched.set(docIndex, [...(matched.get(docIndex) ?? []), term]);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([docIndex, score]) => ({ docIndex, score, matchedTerms: matched.get(docIndex) ?? [] }));
+}
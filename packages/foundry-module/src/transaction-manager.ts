@@ -2,8 +2,11 @@ import { MODULE_ID } from './constants.js';
 
 export interface TransactionAction {
   type: 'create' | 'update' | 'delete';
-  entityType: 'Actor' | 'Token' | 'Scene' | 'Item';
+  entityType: 'Actor' | 'Token' | 'Scene' | 'Item' | 'JournalEntry' | 'JournalEntryPage' | 'ActiveEffect' | 'Combat' | 'Wall' | 'AmbientLight' | 'AmbientSound';
   entityId?: string;
+  entityName?: string;
+  uuid?: string; // Document UUID, so embedded documents on any scene or actor can be found again
+  parentUuid?: string; // Parent document UUID, used to recreate deleted embedded documents
   originalData?: any;
   newData?: any;
   rollbackAction?: () => Promise<void>;
@@ -123,6 +126,11 @@ export class TransactionManager {
    * Rollback a specific action
    */
   private async rollbackAction(action: TransactionAction): Promise<void> {
+    if (action.rollbackAction) {
+      await action.rollbackAction();
+      return;
+    }
+
     switch (action.type) {
       case 'create':
         await this.rollbackCreate(action);
@@ -142,6 +150,14 @@ export class TransactionManager {
    * Rollback a create action (delete the created entity)
    */
   private async rollbackCreate(action: TransactionAction): Promise<void> {
+    if (action.uuid) {
+      const document: any = await fromUuid(action.uuid);
+      if (document) {
+        await document.delete();
+      }
+      return;
+    }
+
     if (!action.entityId) {
       throw new Error('Cannot rollback create action: missing entityId');
     }
@@ -174,6 +190,15 @@ export class TransactionManager {
    * Rollback an update action (restore original data)
    */
   private async rollbackUpdate(action: TransactionAction): Promise<void> {
+    if (action.uuid && action.originalData) {
+      const document: any = await fromUuid(action.uuid);
+      if (!document) {
+        throw new Error(`${action.entityType} ${action.entityId ?? action.uuid} no longer exists`);
+      }
+      await document.update(action.originalData);
+      return;
+    }
+
     if (!action.entityId || !action.originalData) {
       throw new Error('Cannot rollback update action: missing entityId or originalData');
     }
@@ -199,6 +224,25 @@ export class TransactionManager {
       throw new Error('Cannot rollback delete action: missing originalData');
     }
 
+    // Recreate with the original ID so references (combatants, journal links) still resolve
+    if (action.parentUuid) {
+      const parent: any = await fromUuid(action.parentUuid);
+      if (!parent) {
+        throw new Error(`Cannot recreate ${action.entityType}: parent ${action.parentUuid} no longer exists`);
+      }
+      await parent.createEmbeddedDocuments(action.entityType, [action.originalData], { keepId: true });
+      return;
+    }
+
+    if (action.uuid) {
+      const documentClass = (CONFIG as any)[action.entityType]?.documentClass;
+      if (!documentClass) {
+        throw new Error(`Rollback not implemented for entity type: ${action.entityType}`);
+      }
+      await documentClass.create(action.originalData, { keepId: true });
+      return;
+    }
+
     switch (action.entityType) {
       case 'Actor':
         await Actor.create(action.originalData);
@@ -216,6 +260,13 @@ export class TransactionManager {
     return Array.from(this.activeTransactions.values());
   }
 
+  /**
+   * Get a committed transaction by ID
+   */
+  getTransaction(transactionId: string): Transaction | undefined {
+    return this.transactionHistory.find(t => t.id === transactionId);
+  }
+
   /**
    * Get transaction history
    */
@@ -240,6 +291,82 @@ export class TransactionManager {
     }
   }
 
+  /**
+   * Record a single-step change as a committed transaction
+   */
+  recordTransaction(description: string, actions: TransactionAction[]): string | null {
+    if (actions.length === 0) {
+      return null;
+    }
+
+    const transactionId = this.startTransaction(description);
+    for (const action of actions) {
+      this.addAction(transactionId, action);
+    }
+    this.commitTransaction(transactionId);
+
+    return transactionId;
+  }
+
+  /**
+   * Create rollback action for any created document (top-level or embedded)
+   */
+  createDocumentCreationAction(document: any): TransactionAction {
+    return {
+      type: 'create',
+      entityType: document.documentName,
+      entityId: document.id,
+      entityName: document.name ?? undefined,
+      uuid: document.uuid,
+    };
+  }
+
+  /**
+   * Create rollback action for a document update. Must be called before the update is applied:
+   * it captures the current source values of every path in the changes.
+   */
+  createDocumentUpdateAction(document: any, changes: Record<string, any>): TransactionAction {
+    const utils = (foundry as any).utils;
+    const originalData: Record<string, any> = {};
+
+    for (const path of Object.keys(utils.flattenObject(changes))) {
+      const value = utils.getProperty(document._source ?? document, path);
+      if (value === undefined) {
+        // The field did not exist before, so undoing removes it again
+        const parts = path.split('.');
+        const key = parts.pop();
+        originalData[[...parts, `-=${key}`].join('.')] = null;
+      } else {
+        originalData[path] = utils.deepClone(value);
+      }
+    }
+
+    return {
+      type: 'update',
+      entityType: document.documentName,
+      entityId: document.id,
+      entityName: document.name ?? undefined,
+      uuid: document.uuid,
+      originalData,
+      newData: changes,
+    };
+  }
+
+  /**
+   * Create rollback action for a document deletion. Must be called before the document is deleted.
+   */
+  createDocumentDeletionAction(document: any): TransactionAction {
+    return {
+      type: 'delete',
+      entityType: document.documentName,
+      entityId: document.id,
+      entityName: document.name ?? undefined,
+      uuid: document.uuid,
+      ...(document.parent ? { parentUuid: document.parent.uuid } : {}),
+      originalData: document.toObject(),
+    };
+  }
+
   /**
    * Create rollback action for actor creation
    */
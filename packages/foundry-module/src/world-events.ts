@@ -0,0 +1,149 @@
+import { MODULE_ID } from './constants.js';
+import type { SocketBridge } from './socket-bridge.js';
+
+export interface WorldEvent {
+  hook: string;
+  action: 'create' | 'update' | 'delete';
+  documentType: string;
+  id: string;
+  uuid: string;
+  name: string | null;
+  parentId?: string | undefined; // Scene for tokens, journal for pages, scene for combats
+  actorId?: string | undefined; // Actor represented by a token
+  changed?: string[] | undefined;
+  values?: Record<string, unknown> | undefined;
+  userId: string | null;
+  timestamp: number;
+}
+
+// Rapid updates to the same document (token drags, HP ticks) are merged into one event
+const COALESCE_DELAY_MS = 250;
+
+// Only short scalar values are sent; large fields such as journal HTML are reported by path only
+const MAX_VALUE_LENGTH = 100;
+
+const WATCHED_HOOKS: Array<{ hook: string; action: WorldEvent['action'] }> = [
+  { hook: 'createActor', action: 'create' },
+  { hook: 'updateActor', action: 'update' },
+  { hook: 'deleteActor', action: 'delete' },
+  { hook: 'createToken', action: 'create' },
+  { hook: 'updateToken', action: 'update' },
+  { hook: 'deleteToken', action: 'delete' },
+  { hook: 'createJournalEntry', action: 'create' },
+  { hook: 'deleteJournalEntry', action: 'delete' },
+  { hook: 'createJournalEntryPage', action: 'create' },
+  { hook: 'updateJournalEntryPage', action: 'update' },
+  { hook: 'deleteJournalEntryPage', action: 'delete' },
+  { hook: 'updateCombat', action: 'update' },
+];
+
+/**
+ * Forwards world document changes to the MCP server so it can notify clients and drop stale data
+ */
+export class WorldEventForwarder {
+  private hookIds: Array<{ hook: string; id: number }> = [];
+  private pending = new Map<string, { event: WorldEvent; timer: ReturnType<typeof setTimeout> }>();
+
+  constructor(private getBridge: () => SocketBridge | null) {}
+
+  /**
+   * Register document hooks
+   */
+  register(): void {
+    if (this.hookIds.length > 0) return;
+
+    for (const { hook, action } of WATCHED_HOOKS) {
+      const id = Hooks.on(hook, (document: any, ...args: any[]) => {
+        // update hooks pass (document, changes, options, userId); create/delete pass (document, options, userId)
+        const changes = action === 'update' ? args[0] : undefined;
+        const userId = args[args.length - 1];
+        this.queueEvent(hook, action, document, changes, typeof userId === 'string' ? userId : null);
+      }) as unknown as number;
+      this.hookIds.push({ hook, id });
+    }
+  }
+
+  /**
+   * Unregister hooks and drop any queued events
+   */
+  unregister(): void {
+    for (const { hook, id } of this.hookIds) {
+      (Hooks as any).off(hook, id);
+    }
+    this.hookIds = [];
+
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  private queueEvent(hook: string, action: WorldEvent['action'], document: any, changes: any, userId: string | null): void {
+    const bridge = this.getBridge();
+    if (!bridge?.isConnected() || !document?.uuid) return;
+
+    try {
+      const event = this.buildEvent(hook, action, document, changes, userId);
+      const existing = this.pending.get(event.uuid);
+
+      if (existing) {
+        clearTimeout(existing.timer);
+        event.changed = Array.from(new Set([...(existing.event.changed ?? []), ...(event.changed ?? [])]));
+        event.values = { ...existing.event.values, ...event.values };
+        // A create followed by updates is still a create; anything followed by a delete is a delete
+        if (existing.event.action === 'create' && action === 'update') {
+          event.action = 'create';
+          event.hook = existing.event.hook;
+        }
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(event.uuid);
+        this.getBridge()?.emitToServer('world-event', event);
+      }, COALESCE_DELAY_MS);
+
+      this.pending.set(event.uuid, { event, timer });
+    } catch (error) {
+      console.warn(`[${MODULE_ID}] Failed to forward ${hook} event:`, error);
+    }
+  }
+
+  private buildEvent(hook: string, action: WorldEvent['action'], document: any, changes: any, userId: string | null): WorldEvent {
+    const event: WorldEvent = {
+      hook,
+      action,
+      documentType: document.documentName,
+      id: document.id,
+      uuid: document.uuid,
+      name: document.name ?? null,
+      userId,
+      timestamp: Date.now(),
+    };
+
+    if (document.parent) {
+      event.parentId = document.parent.id;
+    } else if (document.documentName === 'Combat' && document.scene) {
+      event.parentId = document.scene.id;
+    }
+
+    if (document.documentName === 'Token' && document.actorId) {
+      event.actorId = document.actorId;
+    }
+
+    if (changes && typeof changes === 'object') {
+      const flat = (foundry as any).utils.flattenObject(changes) as Record<string, unknown>;
+      delete flat._id;
+
+      event.changed = Object.keys(flat);
+      event.values = {};
+      for (const [path, value] of Object.entries(flat)) {
+        if (typeof value === 'number' || typeof value === 'boolean' || value === null
+          || (typeof value === 'string' && value.length <= MAX_VALUE_LENGTH)) {
+          event.values[path] = value;
+        }
+      }
+    }
+
+    return event;
+  }
+}
@@ -10,6 +10,8 @@ import { spawn, ChildProcess } from 'child_process';
 
 import { config } from './config.js';
 
+import { getAppDataDir } from './utils/platform.js';
+
 import { Logger } from './logger.js';
 
 import { FoundryClient } from './foundry-client.js';
@@ -17,6 +19,7 @@ import { FoundryClient } from './foundry-client.js';
 import { CharacterTools } from './tools/character.js';
 
 import { CompendiumTools } from './tools/compendium.js';
+import { CreatureIndexCache } from './creature-index-cache.js';
 
 import { SceneTools } from './tools/scene.js';
 
@@ -34,6 +37,29 @@ import { MapGenerationTools } from './tools/map-generation.js';
 
 import { TokenManipulationTools } from './tools/token-manipulation.js';
 
+import { CombatTools } from './tools/combat.js';
+
+import { DamageTools } from './tools/damage.js';
+import { ActorUpdateTools } from './tools/actor-update.js';
+import { InventoryTools } from './tools/inventory.js';
+import { LootTools } from './tools/loot.js';
+
+import { EncounterTools } from './tools/encounter.js';
+
+import { SceneElementTools } from './tools/scene-elements.js';
+
+import { ChangeHistoryTools } from './tools/change-history.js';
+
+import { ChatTools } from './tools/chat.js';
+
+import { FoundryResources } from './resources.js';
+
+import { FoundryPrompts } from './prompts.js';
+import { buildWorldEventNotification } from './world-events.js';
+import { buildIndexProgressNotification } from './index-progress.js';
+
+import { ArtGenerationTools } from './tools/art-generation.js';
+
 import { DSA5CharacterCreator } from './systems/dsa5/character-creator.js';
 
 const CONTROL_HOST = '127.0.0.1';
@@ -564,12 +590,19 @@ async function handleGenerateMapRequest(message: any, jobQueue: any, comfyuiClie
       throw new Error('Scene name is required and must be a string');
     }
 
+    const workflow = typeof data.workflow === 'string' && data.workflow.trim() ? data.workflow.trim() : 'battlemap';
+    if (!comfyuiClient.hasWorkflow(workflow)) {
+      const available = comfyuiClient.listWorkflows().map((w: any) => w.name).join(', ');
+      throw new Error(`Unknown workflow "${workflow}". Available workflows: ${available}`);
+    }
+
     const params = {
       prompt: data.prompt.trim(),
       scene_name: data.scene_name.trim(),
       size: data.size || 'medium',
       grid_size: data.grid_size || 70,
-      quality: data.quality || 'low'
+      quality: data.quality || 'low',
+      workflow
     };
 
     // Create job using mapgen's JobQueue
@@ -683,8 +716,63 @@ async function handleCancelMapJobRequest(data: any, jobQueue: any, comfyuiClient
   }
 }
 
+// Wait until the Foundry module is connected; false if the job expired in the meantime
+async function waitForFoundryConnection(foundryClient: any, jobQueue: any, jobId: string, logger: Logger): Promise<boolean> {
+  let waiting = false;
+  while (!foundryClient.isConnected()) {
+    const job = await jobQueue.getJob(jobId);
+    if (!job || job.status === 'expired') {
+      return false;
+    }
+    if (!waiting) {
+      logger.info('Waiting for Foundry to connect before resuming image generation', { jobId });
+      waiting = true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5000));
+  }
+  return true;
+}
+
+// Resume jobs persisted by a previous backend process
+async function resumePersistedMapJobs(jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<void> {
+  const unfinishedJobs = jobQueue.getUnfinishedJobs();
+  if (unfinishedJobs.length === 0) {
+    return;
+  }
+
+  logger.info('Resuming map generation jobs from previous run', { count: unfinishedJobs.length });
+
+  for (const job of unfinishedJobs) {
+    try {
+      if (!job.comfyui_job_id) {
+        await jobQueue.expireJob(job.id, 'Backend restarted before the job was submitted to ComfyUI');
+        continue;
+      }
+
+      // getJobStatus reports 'failed' when ComfyUI is unreachable or no longer knows the prompt
+      const status = await comfyuiClient.getJobStatus(job.comfyui_job_id);
+      if (status === 'failed') {
+        await jobQueue.expireJob(job.id, 'ComfyUI job was lost while the backend restarted');
+        continue;
+      }
+
+      // The finished image is uploaded through the Foundry module, which may not have reconnected yet
+      const processJob = job.params.art_target ? processArtGenerationInBackend : processMapGenerationInBackend;
+      waitForFoundryConnection(foundryClient, jobQueue, job.id, logger)
+        .then(connected => connected
+          ? processJob(job.id, jobQueue, comfyuiClient, logger, foundryClient, job.comfyui_job_id)
+          : logger.info('Resumed job expired before Foundry connected', { jobId: job.id }))
+        .catch((error) => {
+          logger.error('Resumed image generation failed', { jobId: job.id, error });
+        });
+    } catch (error) {
+      logger.warn('Failed to resume map generation job', { jobId: job.id, error });
+    }
+  }
+}
+
 // Background processing using mapgen's proven approach
-async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<void> {
+async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any, resumePromptId?: string): Promise<void> {
   // CRITICAL: Log entry to file IMMEDIATELY
   const fs2 = await import('fs').then(m => m.promises);
   const path2 = await import('path');
@@ -703,61 +791,66 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
     await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Job retrieved: ${JSON.stringify(job.params)}\n`);
     logger.info('Starting background map generation processing', { jobId, params: job.params });
 
-    // Mark job as started (mapgen style)
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Marking job as started...\n`);
-    await jobQueue.markJobStarted(jobId);
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Job marked as started\n`);
-
-    // Emit progress to Foundry module
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Sending initial progress...\n`);
-    foundryClient.sendMessage({
-      type: 'map-generation-progress',
-      jobId: jobId,
-      progress: 10,
-      stage: 'Starting processing...'
-    });
+    let comfyuiJob: { prompt_id: string };
 
-    // Ensure ComfyUI is running
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Checking ComfyUI health...\n`);
-    const healthInfo = await comfyuiClient.checkHealth();
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Health check: ${JSON.stringify(healthInfo)}\n`);
-    if (!healthInfo.available) {
-      await comfyuiClient.startService();
-    }
+    if (resumePromptId) {
+      // Resumed after a backend restart: the prompt is already queued, running or finished in ComfyUI
+      comfyuiJob = { prompt_id: resumePromptId };
+      logger.info('Resuming map generation job', { jobId, promptId: resumePromptId });
+    } else {
+      // Mark job as started (mapgen style)
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Marking job as started...\n`);
+      await jobQueue.markJobStarted(jobId);
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Job marked as started\n`);
 
-    await jobQueue.updateJobProgress(jobId, 25, 'Submitting to ComfyUI...');
-    foundryClient.sendMessage({
-      type: 'map-generation-progress',
-      jobId: jobId,
-      progress: 25,
-      stage: 'Submitting to ComfyUI...'
-    });
+      // Emit progress to Foundry module
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Sending initial progress...\n`);
+      foundryClient.sendMessage({
+        type: 'map-generation-progress',
+        jobId: jobId,
+        progress: 10,
+        stage: 'Starting processing...'
+      });
 
-    // Submit to ComfyUI (using mapgen's client)
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Submitting job to ComfyUI...\n`);
-    const sizePixels = comfyuiClient.getSizePixels(job.params.size as any);
-    await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Size pixels: ${sizePixels}\n`);
+      // Ensure ComfyUI is running
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Checking ComfyUI health...\n`);
+      const healthInfo = await comfyuiClient.checkHealth();
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Health check: ${JSON.stringify(healthInfo)}\n`);
+      if (!healthInfo.available) {
+        await comfyuiClient.startService();
+      }
 
-    let comfyuiJob;
-    try {
-      comfyuiJob = await comfyuiClient.submitJob({
-        prompt: job.params.prompt,
-        width: sizePixels,
-        height: sizePixels,
-        quality: job.params.quality
+      await jobQueue.updateJobProgress(jobId, 25, 'Submitting to ComfyUI...');
+      foundryClient.sendMessage({
+        type: 'map-generation-progress',
+        jobId: jobId,
+        progress: 25,
+        stage: 'Submitting to ComfyUI...'
       });
-      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] ComfyUI job submitted: ${comfyuiJob.prompt_id}\n`);
 
-      // Store ComfyUI prompt_id in job for cancellation support
-      const currentJob = await jobQueue.getJob(jobId);
-      if (currentJob) {
-        currentJob.comfyui_job_id = comfyuiJob.prompt_id;
-      }
+      // Submit to ComfyUI (using mapgen's client)
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Submitting job to ComfyUI...\n`);
+      const sizePixels = comfyuiClient.getSizePixels(job.params.size as any);
+      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Size pixels: ${sizePixels}\n`);
 
-    } catch (submitError: any) {
-      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] ERROR submitting to ComfyUI: ${submitError.message}\n`);
-      await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Error stack: ${submitError.stack}\n`);
-      throw submitError;
+      try {
+        comfyuiJob = await comfyuiClient.submitJob({
+          prompt: job.params.prompt,
+          width: sizePixels,
+          height: sizePixels,
+          quality: job.params.quality,
+          workflow: job.params.workflow
+        });
+        await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] ComfyUI job submitted: ${comfyuiJob.prompt_id}\n`);
+
+        // Store ComfyUI prompt_id in job for cancellation support and resume after restart
+        await jobQueue.setComfyUIJobId(jobId, comfyuiJob.prompt_id);
+
+      } catch (submitError: any) {
+        await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] ERROR submitting to ComfyUI: ${submitError.message}\n`);
+        await fs2.appendFile(processDebugLog, `[${new Date().toISOString()}] Error stack: ${submitError.stack}\n`);
+        throw submitError;
+      }
     }
 
     // Wait for completion (mapgen style)
@@ -921,10 +1014,40 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
     await debugLog(`webPath extracted: ${webPath}`);
     logger.info('Image uploaded successfully to Foundry', { path: webPath });
 
-    await jobQueue.updateJobProgress(jobId, 95, 'Creating scene data...');
-
     // Create scene data payload (simplified version of mapgen's FoundryIntegrator)
     const sceneSize = comfyuiClient.getSizePixels(job.params.size as any);
+    const gridSize = job.params.grid_size || 100;
+
+    // Detect walls from the generated image; a failure here should not lose the map
+    const { JOB_STAGES } = await import('./job-queue.js');
+    await jobQueue.updateJobProgress(jobId, 92, JOB_STAGES.DETECTING_WALLS);
+    foundryClient.sendMessage({
+      type: 'map-generation-progress',
+      jobId: jobId,
+      progress: 92,
+      stage: JOB_STAGES.DETECTING_WALLS
+    });
+
+    let walls: any[] = [];
+    try {
+      const { detectWalls } = await import('./wall-detection.js');
+      const detection = detectWalls(imageBuffer, {
+        gridSize,
+        sceneWidth: sceneSize,
+        sceneHeight: sceneSize
+      });
+      walls = detection.walls;
+
+      if (detection.truncated) {
+        logger.warn('Wall detection found too many segments, skipping walls', { jobId, wallCells: detection.wallCells });
+      } else {
+        logger.info('Walls detected', { jobId, walls: walls.length, threshold: detection.threshold });
+      }
+    } catch (wallError: any) {
+      logger.warn('Wall detection failed, creating scene without walls', { jobId, error: wallError.message });
+    }
+
+    await jobQueue.updateJobProgress(jobId, 95, JOB_STAGES.CREATING_SCENE);
     // Debug: Log what we received
     logger.info('Job params received', {
       scene_name: job.params.scene_name,
@@ -953,7 +1076,7 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
       backgroundColor: "#999999",
       grid: {
         type: 1, // CONST.GRID_TYPES.SQUARE
-        size: job.params.grid_size || 100,
+        size: gridSize,
         color: "#000000",
         alpha: 0.2,
         distance: 5,
@@ -969,7 +1092,7 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
       permission: {
         default: 2 // CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER
       },
-      walls: [] // Could add wall detection here later
+      walls // Relative to the map image; the Foundry module offsets them by the scene padding
     };
 
     // Mark job as complete with full result data
@@ -977,6 +1100,7 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
     await jobQueue.markJobComplete(jobId, {
       generation_time_ms: Date.now() - (job.started_at || job.created_at),
       image_url: webPath,
+      walls_detected: walls.length,
       foundry_scene_payload: sceneData
     });
 
@@ -1011,6 +1135,155 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
   }
 }
 
+// Portrait, token and item art generation (reuses the map generation job queue and upload path)
+async function handleGenerateArtRequest(data: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<any> {
+  if (!jobQueue || !comfyuiClient) {
+    throw new Error('Image generation components not initialized');
+  }
+
+  if (!comfyuiClient.hasWorkflow(data.workflow)) {
+    const available = comfyuiClient.listWorkflows().map((w: any) => w.name).join(', ');
+    throw new Error(`Unknown workflow "${data.workflow}". Available workflows: ${available}`);
+  }
+
+  const job = await jobQueue.createJob({
+    params: {
+      prompt: data.prompt,
+      size: 'small',
+      grid_size: 0,
+      quality: data.quality || 'low',
+      workflow: data.workflow,
+      seed: data.seed,
+      art_target: data.target
+    }
+  });
+
+  // An identical request returns the existing job, which is already being processed
+  if (job.status === 'queued' && !job.started_at) {
+    processArtGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+      logger.error('Background art generation failed', { jobId: job.id, error });
+    });
+  }
+
+  return {
+    jobId: job.id,
+    status: job.status
+  };
+}
+
+async function processArtGenerationInBackend(jobId: string, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any, resumePromptId?: string): Promise<void> {
+  let promptId: string | undefined = resumePromptId;
+
+  try {
+    const job = await jobQueue.getJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const target = job.params.art_target;
+    logger.info('Starting background art generation', { jobId, target, workflow: job.params.workflow });
+
+    if (!promptId) {
+      await jobQueue.markJobStarted(jobId);
+
+      const healthInfo = await comfyuiClient.checkHealth();
+      if (!healthInfo.available) {
+        await comfyuiClient.startService();
+      }
+
+      await jobQueue.updateJobProgress(jobId, 25, 'Submitting to ComfyUI...');
+      const sizePixels = comfyuiClient.getSizePixels(job.params.size);
+      const comfyuiJob = await comfyuiClient.submitJob({
+        prompt: job.params.prompt,
+        width: sizePixels,
+        height: sizePixels,
+        quality: job.params.quality,
+        workflow: job.params.workflow,
+        seed: job.params.seed
+      });
+      promptId = comfyuiJob.prompt_id as string;
+      await jobQueue.setComfyUIJobId(jobId, promptId);
+    }
+
+    await jobQueue.updateJobProgress(jobId, 50, 'Generating image...');
+    comfyuiClient.registerProgressCallback(promptId, ({ currentStep, totalSteps }: { currentStep: number; totalSteps: number }) => {
+      const progress = 50 + Math.floor((currentStep / totalSteps) * 35);
+      jobQueue.updateJobProgress(jobId, progress, `Generating image (step ${currentStep}/${totalSteps})...`).catch(() => undefined);
+    });
+
+    let status = await comfyuiClient.getJobStatus(promptId);
+    while (status === 'queued' || status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      status = await comfyuiClient.getJobStatus(promptId);
+    }
+    comfyuiClient.unregisterProgressCallback(promptId);
+
+    // cancel-map-job marks the job failed while ComfyUI is interrupted; leave it that way
+    const currentJob = await jobQueue.getJob(jobId);
+    if (!currentJob || currentJob.status === 'failed') {
+      logger.info('Art generation job was cancelled', { jobId });
+      return;
+    }
+
+    if (status === 'failed') {
+      throw new Error('ComfyUI generation failed');
+    }
+
+    await jobQueue.updateJobProgress(jobId, 85, 'Downloading image...');
+    const imageFilenames = await comfyuiClient.getJobImages(promptId);
+    if (!imageFilenames || imageFilenames.length === 0) {
+      throw new Error('No images found in ComfyUI job output');
+    }
+
+    const imageBuffer = await comfyuiClient.downloadImage(imageFilenames[0]);
+    if (!imageBuffer) {
+      throw new Error(`Failed to download generated image: ${imageFilenames[0]}`);
+    }
+
+    // Upload through the same Foundry handler as generated maps
+    await jobQueue.updateJobProgress(jobId, 90, 'Uploading image to Foundry...');
+    const safeName = String(target.name).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 40) || target.kind;
+    const filename = `${target.kind}_${safeName}_${Date.now()}.png`;
+
+    const uploadResult = await foundryClient.query('foundry-mcp-bridge.upload-generated-map', {
+      filename,
+      imageData: imageBuffer.toString('base64'),
+      folder: 'art'
+    });
+
+    if (!uploadResult?.success) {
+      throw new Error(`Failed to upload image to Foundry: ${uploadResult?.error ?? 'Unknown error'}`);
+    }
+
+    await jobQueue.updateJobProgress(jobId, 95, 'Assigning image...');
+    const assignResult = await foundryClient.query('foundry-mcp-bridge.assign-generated-art', {
+      actorId: target.actor_id,
+      itemId: target.item_id,
+      imagePath: uploadResult.path,
+      assignTo: target.assign_to,
+      tokenRing: target.token_ring
+    });
+
+    if (assignResult?.success === false) {
+      throw new Error(assignResult.error || 'Failed to assign generated image');
+    }
+
+    await jobQueue.markJobComplete(jobId, {
+      generation_time_ms: Date.now() - (job.started_at || job.created_at),
+      image_url: uploadResult.path
+    });
+
+    logger.info('Art generation completed successfully', { jobId, target: target.name, path: uploadResult.path });
+
+  } catch (error: any) {
+    if (promptId) {
+      comfyuiClient.unregisterProgressCallback(promptId);
+    }
+    logger.error('Background art generation processing failed', { jobId, error });
+    await jobQueue.markJobFailed(jobId, error.message);
+  }
+}
+
 async function startBackend(): Promise<void> {
 
   // Logger: file output allowed; avoid stdout noise
@@ -1048,11 +1321,13 @@ async function startBackend(): Promise<void> {
   const { DnD5eAdapter } = await import('./systems/dnd5e/adapter.js');
   const { PF2eAdapter } = await import('./systems/pf2e/adapter.js');
   const { DSA5Adapter } = await import('./systems/dsa5/adapter.js');
+  const { SFRPGAdapter } = await import('./systems/sfrpg/adapter.js');
 
   const systemRegistry = getSystemRegistry(logger);
   systemRegistry.register(new DnD5eAdapter());
   systemRegistry.register(new PF2eAdapter());
   systemRegistry.register(new DSA5Adapter());
+  systemRegistry.register(new SFRPGAdapter());
 
   logger.info('System registry initialized', {
     supportedSystems: systemRegistry.getSupportedSystems()
@@ -1060,7 +1335,11 @@ async function startBackend(): Promise<void> {
 
   const characterTools = new CharacterTools({ foundryClient, logger, systemRegistry });
 
-  const compendiumTools = new CompendiumTools({ foundryClient, logger, systemRegistry });
+  // Enhanced creature index kept in this process, so searches don't scan it in the GM's browser
+
+  const creatureIndexCache = new CreatureIndexCache({ foundryClient, logger });
+
+  const compendiumTools = new CompendiumTools({ foundryClient, logger, systemRegistry, creatureIndexCache });
 
   const sceneTools = new SceneTools({ foundryClient, logger });
 
@@ -1070,7 +1349,7 @@ async function startBackend(): Promise<void> {
 
   const questCreationTools = new QuestCreationTools({ foundryClient, logger });
 
-  const diceRollTools = new DiceRollTools({ foundryClient, logger });
+  const diceRollTools = new DiceRollTools({ foundryClient, logger, systemRegistry });
 
   const campaignManagementTools = new CampaignManagementTools(foundryClient, logger);
 
@@ -1078,6 +1357,28 @@ async function startBackend(): Promise<void> {
 
   const tokenManipulationTools = new TokenManipulationTools({ foundryClient, logger });
 
+  const combatTools = new CombatTools({ foundryClient, logger });
+
+  const damageTools = new DamageTools({ foundryClient, logger, systemRegistry });
+
+  const actorUpdateTools = new ActorUpdateTools({ foundryClient, logger, systemRegistry });
+
+  const inventoryTools = new InventoryTools({ foundryClient, logger, systemRegistry });
+
+  const lootTools = new LootTools({ foundryClient, logger, systemRegistry, inventoryTools });
+
+  const encounterTools = new EncounterTools({ foundryClient, logger, systemRegistry, creatureIndexCache });
+
+  const sceneElementTools = new SceneElementTools({ foundryClient, logger });
+
+  const changeHistoryTools = new ChangeHistoryTools({ foundryClient, logger });
+
+  const chatTools = new ChatTools({ foundryClient, logger });
+
+  const foundryResources = new FoundryResources({ foundryClient, logger });
+
+  const foundryPrompts = new FoundryPrompts({ foundryClient, logger, systemRegistry });
+
   // Initialize mapgen-style backend components for map generation
   let mapGenerationJobQueue: any = null;
   let mapGenerationComfyUIClient: any = null;
@@ -1087,13 +1388,18 @@ async function startBackend(): Promise<void> {
     const { JobQueue } = await import('./job-queue.js');
     const { ComfyUIClient } = await import('./comfyui-client.js');
 
-    mapGenerationJobQueue = new JobQueue({ logger });
+    mapGenerationJobQueue = new JobQueue({
+      logger,
+      storePath: path.join(getAppDataDir(), 'map-generation-jobs.json')
+    });
+    await mapGenerationJobQueue.load();
 
     // Initialize ComfyUI client - always runs locally on same machine as MCP server
     mapGenerationComfyUIClient = new ComfyUIClient({
       logger,
       config: {
-        port: config.comfyui?.port || 31411
+        port: config.comfyui?.port || 31411,
+        workflowsDir: config.comfyui?.workflowsDir
       }
     });
 
@@ -1114,6 +1420,8 @@ async function startBackend(): Promise<void> {
         logger.info('ComfyUI not installed, skipping auto-start');
       }
     }
+
+    await resumePersistedMapJobs(mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
   } catch (error) {
     logger.warn('Failed to initialize map generation components', { error });
   }
@@ -1122,6 +1430,10 @@ async function startBackend(): Promise<void> {
 
   (globalThis as any).backendComfyUIHandlers = {
 
+    listWorkflows: () => mapGenerationComfyUIClient ? mapGenerationComfyUIClient.listWorkflows() : [],
+
+    generateArt: (data: any) => handleGenerateArtRequest(data, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient),
+
     handleMessage: async (message: any) => {
       // CRITICAL DEBUG: Write to file IMMEDIATELY when this function is called
       const fs = await import('fs').then(m => m.promises);
@@ -1287,6 +1599,12 @@ async function startBackend(): Promise<void> {
     backendComfyUIHandlers: (globalThis as any).backendComfyUIHandlers
   });
 
+  const artGenerationTools = new ArtGenerationTools({
+    foundryClient,
+    logger,
+    backendComfyUIHandlers: (globalThis as any).backendComfyUIHandlers
+  });
+
   const allTools = [
 
     ...characterTools.getToolDefinitions(),
@@ -1309,8 +1627,28 @@ async function startBackend(): Promise<void> {
 
     ...tokenManipulationTools.getToolDefinitions(),
 
+    ...combatTools.getToolDefinitions(),
+
+    ...damageTools.getToolDefinitions(),
+
+    ...actorUpdateTools.getToolDefinitions(),
+
+    ...inventoryTools.getToolDefinitions(),
+
+    ...lootTools.getToolDefinitions(),
+
+    ...encounterTools.getToolDefinitions(),
+
+    ...sceneElementTools.getToolDefinitions(),
+
+    ...changeHistoryTools.getToolDefinitions(),
+
+    ...chatTools.getToolDefinitions(),
+
     ...mapGenerationTools.getToolDefinitions(),
 
+    ...artGenerationTools.getToolDefinitions(),
+
   ];
 
   // Start Foundry connector (owns app port 31415)
@@ -1347,10 +1685,48 @@ async function startBackend(): Promise<void> {
 
   // Control channel (TCP JSON-lines)
 
+  const controlSockets = new Set<net.Socket>();
+
+  // World events from Foundry are broadcast to every wrapper as id-less notification lines
+
+  foundryClient.onWorldEvent((event) => {
+
+    foundryResources.handleWorldEvent(event);
+
+    const line = JSON.stringify({ notification: buildWorldEventNotification(event) }) + '\n';
+
+    for (const controlSocket of controlSockets) {
+
+      try { controlSocket.write(line); } catch {}
+
+    }
+
+  });
+
+  // Enhanced index build progress is relayed the same way
+
+  foundryClient.onIndexProgress((progress) => {
+
+    const line = JSON.stringify({ notification: buildIndexProgressNotification(progress) }) + '\n';
+
+    for (const controlSocket of controlSockets) {
+
+      try { controlSocket.write(line); } catch {}
+
+    }
+
+  });
+
   const server = net.createServer((socket) => {
 
     socket.setEncoding('utf8');
 
+    controlSockets.add(socket);
+
+    socket.on('close', () => controlSockets.delete(socket));
+
+    socket.on('error', () => controlSockets.delete(socket));
+
     let buffer = '';
 
     socket.on('data', async (chunk: string) => {
@@ -1387,6 +1763,72 @@ async function startBackend(): Promise<void> {
 
           }
 
+          if (msg.method === 'list_resources') {
+
+            const result = await foundryResources.listResources();
+
+            socket.write(JSON.stringify({ id: msg.id, result }) + '\n');
+
+            continue;
+
+          }
+
+          if (msg.method === 'list_resource_templates') {
+
+            socket.write(JSON.stringify({ id: msg.id, result: foundryResources.listResourceTemplates() }) + '\n');
+
+            continue;
+
+          }
+
+          if (msg.method === 'list_prompts') {
+
+            socket.write(JSON.stringify({ id: msg.id, result: foundryPrompts.listPrompts() }) + '\n');
+
+            continue;
+
+          }
+
+          if (msg.method === 'get_prompt') {
+
+            const { name, args } = (msg.params || {}) as { name: string; args?: Record<string, string> };
+
+            try {
+
+              const result = await foundryPrompts.getPrompt(name, args);
+
+              socket.write(JSON.stringify({ id: msg.id, result }) + '\n');
+
+            } catch (e) {
+
+              socket.write(JSON.stringify({ id: msg.id, error: { message: e instanceof Error ? e.message : 'Unknown error occurred' } }) + '\n');
+
+            }
+
+            continue;
+
+          }
+
+          if (msg.method === 'read_resource') {
+
+            const { uri } = (msg.params || {}) as { uri: string };
+
+            try {
+
+              const result = await foundryResources.readResource(uri);
+
+              socket.write(JSON.stringify({ id: msg.id, result }) + '\n');
+
+            } catch (e: any) {
+
+              socket.write(JSON.stringify({ id: msg.id, error: { message: e instanceof Error ? e.message : 'Unknown error occurred' } }) + '\n');
+
+            }
+
+            continue;
+
+          }
+
           if (msg.method === 'call_tool') {
 
             const { name, args } = (msg.params || {}) as { name: string; args?: any };
@@ -1449,6 +1891,12 @@ async function startBackend(): Promise<void> {
 
                   break;
 
+                case 'list-items-by-criteria':
+
+                  result = await compendiumTools.handleListItemsByCriteria(args);
+
+                  break;
+
                 case 'list-compendium-packs':
 
                   result = await compendiumTools.handleListCompendiumPacks(args);
@@ -1537,6 +1985,24 @@ async function startBackend(): Promise<void> {
 
                   break;
 
+                case 'roll-dice':
+
+                  result = await diceRollTools.handleRollDice(args);
+
+                  break;
+
+                case 'await-player-rolls':
+
+                  result = await diceRollTools.handleAwaitPlayerRolls(args);
+
+                  break;
+
+                case 'get-roll-results':
+
+                  result = await diceRollTools.handleGetRollResults(args);
+
+                  break;
+
                 // Campaign management tools
 
                 case 'create-campaign-dashboard':
@@ -1603,6 +2069,180 @@ async function startBackend(): Promise<void> {
 
                   break;
 
+                // Combat tracker tools
+
+                case 'start-combat':
+
+                  result = await combatTools.handleStartCombat(args);
+
+                  break;
+
+                case 'get-combat-state':
+
+                  result = await combatTools.handleGetCombatState(args);
+
+                  break;
+
+                case 'roll-initiative':
+
+                  result = await combatTools.handleRollInitiative(args);
+
+                  break;
+
+                case 'advance-combat':
+
+                  result = await combatTools.handleAdvanceCombat(args);
+
+                  break;
+
+                case 'end-combat':
+
+                  result = await combatTools.handleEndCombat(args);
+
+                  break;
+
+                // Damage and healing tools
+
+                case 'apply-damage':
+
+                  result = await damageTools.handleApplyDamage(args);
+
+                  break;
+
+                case 'apply-healing':
+
+                  result = await damageTools.handleApplyHealing(args);
+
+                  break;
+
+                // Actor editing tools
+
+                case 'update-actor':
+
+                  result = await actorUpdateTools.handleUpdateActor(args);
+
+                  break;
+
+                // Inventory tools
+
+                case 'add-item-to-actor':
+
+                  result = await inventoryTools.handleAddItemToActor(args);
+
+                  break;
+
+                case 'update-actor-item':
+
+                  result = await inventoryTools.handleUpdateActorItem(args);
+
+                  break;
+
+                case 'remove-actor-item':
+
+                  result = await inventoryTools.handleRemoveActorItem(args);
+
+                  break;
+
+                case 'transfer-item':
+
+                  result = await inventoryTools.handleTransferItem(args);
+
+                  break;
+
+                // Loot tools
+
+                case 'generate-loot':
+
+                  result = await lootTools.handleGenerateLoot(args);
+
+                  break;
+
+                // Encounter building tools
+
+                case 'evaluate-encounter':
+
+                  result = await encounterTools.handleEvaluateEncounter(args);
+
+                  break;
+
+                case 'suggest-encounter':
+
+                  result = await encounterTools.handleSuggestEncounter(args);
+
+                  break;
+
+                // Scene wall, door, light and sound tools
+
+                case 'list-scene-elements':
+
+                  result = await sceneElementTools.handleListSceneElements(args);
+
+                  break;
+
+                case 'create-walls':
+
+                  result = await sceneElementTools.handleCreateWalls(args);
+
+                  break;
+
+                case 'create-lights':
+
+                  result = await sceneElementTools.handleCreateLights(args);
+
+                  break;
+
+                case 'create-sounds':
+
+                  result = await sceneElementTools.handleCreateSounds(args);
+
+                  break;
+
+                case 'update-scene-elements':
+
+                  result = await sceneElementTools.handleUpdateSceneElements(args);
+
+                  break;
+
+                case 'delete-scene-elements':
+
+                  result = await sceneElementTools.handleDeleteSceneElements(args);
+
+                  break;
+
+                case 'set-door-state':
+
+                  result = await sceneElementTools.handleSetDoorState(args);
+
+                  break;
+
+                // Change history tools
+
+                case 'list-recent-changes':
+
+                  result = await changeHistoryTools.handleListRecentChanges(args);
+
+                  break;
+
+                case 'undo-change':
+
+                  result = await changeHistoryTools.handleUndoChange(args);
+
+                  break;
+
+                // Chat tools
+
+                case 'get-chat-messages':
+
+                  result = await chatTools.handleGetChatMessages(args);
+
+                  break;
+
+                case 'send-chat-message':
+
+                  result = await chatTools.handleSendChatMessage(args);
+
+                  break;
+
                 // Map generation tools
 
                 case 'generate-map':
@@ -1629,6 +2269,26 @@ async function startBackend(): Promise<void> {
 
                   break;
 
+                case 'list-map-workflows':
+
+                  result = await mapGenerationTools.listMapWorkflows();
+
+                  break;
+
+                // Portrait, token and item art tools
+
+                case 'generate-actor-art':
+
+                  result = await artGenerationTools.handleGenerateActorArt(args);
+
+                  break;
+
+                case 'generate-item-art':
+
+                  result = await artGenerationTools.handleGenerateItemArt(args);
+
+                  break;
+
                 case 'switch-scene':
 
                   result = await mapGenerationTools.switchScene(args);
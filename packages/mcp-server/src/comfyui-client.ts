@@ -8,6 +8,7 @@ import WebSocket from 'ws';
 import { Logger } from './logger.js';
 import { getHiddenProcessSpawnOptions, getAppDataDir } from './utils/platform.js';
 import { detectComfyUIInstallation, isValidComfyUIPath, getDefaultPythonCommand as getComfyUIPythonCommand } from './utils/comfyui-paths.js';
+import { ComfyUIWorkflowRegistry, DEFAULT_WORKFLOW, WorkflowSummary } from './comfyui-workflows.js';
 
 export interface ComfyUIWorkflowInput {
   prompt: string;
@@ -15,6 +16,7 @@ export interface ComfyUIWorkflowInput {
   height: number;
   seed?: number;
   quality?: 'low' | 'medium' | 'high';
+  workflow?: string;
 }
 
 export interface ComfyUIJobResponse {
@@ -29,6 +31,7 @@ export interface ComfyUIConfig {
   port: number;
   pythonCommand: string;
   autoStart: boolean;
+  workflowsDir?: string | undefined;
 }
 
 export interface ComfyUIHealthInfo {
@@ -53,6 +56,7 @@ export class ComfyUIClient {
   private logStream?: fss.WriteStream | undefined;
   private ws?: WebSocket;
   private progressCallbacks: Map<string, (progress: { currentStep: number; totalSteps: number }) => void> = new Map();
+  private workflows: ComfyUIWorkflowRegistry;
 
   constructor(options: { logger: Logger; config?: Partial<ComfyUIConfig> }) {
     this.logger = options.logger.child({ component: 'ComfyUIClient' });
@@ -74,6 +78,7 @@ export class ComfyUIClient {
     };
 
     this.baseUrl = `http://${this.config.host}:${this.config.port}`;
+    this.workflows = new ComfyUIWorkflowRegistry({ logger: this.logger, directory: this.config.workflowsDir });
 
     this.logger.info('ComfyUI client initialized', {
       baseUrl: this.baseUrl,
@@ -558,81 +563,15 @@ export class ComfyUIClient {
   }
 
   private buildWorkflow(input: ComfyUIWorkflowInput): Record<string, any> {
-    // Enhanced prompt for D&D Battlemaps SDXL
-    const enhancedPrompt = `2d DnD battlemap of ${input.prompt}, top-down view, overhead perspective, aerial`;
-
-    // Negative prompt optimized for battlemap generation
-    const negativePrompt = 'grid, low angle, isometric, oblique, horizon, text, watermark, logo, caption, people, creatures, monsters, blurry, artifacts';
-
-    // Map quality setting to diffusion steps
-    const quality = input.quality || 'low';
-    const steps = quality === 'high' ? 35 : quality === 'medium' ? 20 : 8;
-
-    return {
-      "1": { // CheckpointLoaderSimple
-        "inputs": {
-          "ckpt_name": "dDBattlemapsSDXL10_upscaleV10.safetensors"
-        },
-        "class_type": "CheckpointLoaderSimple"
-      },
-      "2": { // CLIP Text Encode (Positive)
-        "inputs": {
-          "text": enhancedPrompt,
-          "clip": ["1", 1]
-        },
-        "class_type": "CLIPTextEncode"
-      },
-      "3": { // CLIP Text Encode (Negative)
-        "inputs": {
-          "text": negativePrompt,
-          "clip": ["1", 1]
-        },
-        "class_type": "CLIPTextEncode"
-      },
-      "4": { // Empty Latent Image
-        "inputs": {
-          "width": input.width,
-          "height": input.height,
-          "batch_size": 1
-        },
-        "class_type": "EmptyLatentImage"
-      },
-      "5": { // KSampler - Configurable quality via steps
-        "inputs": {
-          "seed": input.seed || Math.floor(Math.random() * 1000000),
-          "steps": steps, // low=8, medium=20, high=35
-          "cfg": 2.5, // Lower CFG for faster convergence
-          "denoise": 1.0,
-          "sampler_name": "dpmpp_2m_sde", // SDE variant for better quality at low steps
-          "scheduler": "karras",
-          "model": ["1", 0],
-          "positive": ["2", 0],
-          "negative": ["3", 0],
-          "latent_image": ["4", 0]
-        },
-        "class_type": "KSampler"
-      },
-      "9": { // VAE Loader
-        "inputs": {
-          "vae_name": "sdxl_vae.safetensors"
-        },
-        "class_type": "VAELoader"
-      },
-      "6": { // VAE Decode
-        "inputs": {
-          "samples": ["5", 0],
-          "vae": ["9", 0]
-        },
-        "class_type": "VAEDecode"
-      },
-      "7": { // Save Image
-        "inputs": {
-          "filename_prefix": "battlemap",
-          "images": ["6", 0]
-        },
-        "class_type": "SaveImage"
-      }
-    };
+    return this.workflows.buildPrompt(input.workflow || DEFAULT_WORKFLOW, input);
+  }
+
+  listWorkflows(): WorkflowSummary[] {
+    return this.workflows.listWorkflows();
+  }
+
+  hasWorkflow(name: string): boolean {
+    return this.workflows.getWorkflow(name) !== undefined;
   }
 
   getSizePixels(size: 'small' | 'medium' | 'large'): number {
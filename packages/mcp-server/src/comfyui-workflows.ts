@@ -0,0 +1,295 @@
+/**
+ * ComfyUI Workflow Registry
+ *
+ * Workflows are ComfyUI API-format graphs (Workflow > Export (API) in the ComfyUI editor)
+ * wrapped with metadata that maps our generation inputs onto node inputs:
+ *
+ * {
+ *   "name": "battlemap-upscaled",
+ *   "description": "Battlemap with a 2x upscale pass",
+ *   "promptTemplate": "2d DnD battlemap of {prompt}, top-down view",
+ *   "negativePrompt": "text, watermark",
+ *   "qualitySteps": { "low": 8, "medium": 20, "high": 35 },
+ *   "inputs": {
+ *     "prompt": "2.text",
+ *     "negativePrompt": "3.text",
+ *     "width": "4.width",
+ *     "height": "4.height",
+ *     "seed": "5.seed",
+ *     "steps": ["5.steps", "12.steps"]
+ *   },
+ *   "workflow": { "1": { "class_type": "CheckpointLoaderSimple", "inputs": { ... } }, ... }
+ * }
+ *
+ * Each mapping is "<node id>.<input name>", or a list of them to set several nodes.
+ * JSON files in the workflows directory override built-in workflows with the same name.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { Logger } from './logger.js';
+
+export interface WorkflowGenerationInput {
+  prompt: string;
+  width: number;
+  height: number;
+  seed?: number | undefined;
+  quality?: 'low' | 'medium' | 'high' | undefined;
+}
+
+export interface WorkflowSummary {
+  name: string;
+  description: string;
+  source: 'built-in' | 'file';
+  inputs: string[];
+}
+
+const InputTargetSchema = z.string().regex(/^[^.]+\..+$/, 'Input mappings must look like "<node id>.<input name>"');
+
+const WorkflowDefinitionSchema = z.object({
+  name: z.string().min(1).regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Workflow names may only contain letters, numbers, "-" and "_"'),
+  description: z.string().default(''),
+  promptTemplate: z.string().default('{prompt}'),
+  negativePrompt: z.string().default(''),
+  qualitySteps: z.object({
+    low: z.number().int().min(1),
+    medium: z.number().int().min(1),
+    high: z.number().int().min(1)
+  }).default({ low: 8, medium: 20, high: 35 }),
+  inputs: z.object({
+    prompt: z.union([InputTargetSchema, z.array(InputTargetSchema)]),
+    negativePrompt: z.union([InputTargetSchema, z.array(InputTargetSchema)]).optional(),
+    width: z.union([InputTargetSchema, z.array(InputTargetSchema)]).optional(),
+    height: z.union([InputTargetSchema, z.array(InputTargetSchema)]).optional(),
+    seed: z.union([InputTargetSchema, z.array(InputTargetSchema)]).optional(),
+    steps: z.union([InputTargetSchema, z.array(InputTargetSchema)]).optional()
+  }),
+  workflow: z.record(z.object({
+    class_type: z.string(),
+    inputs: z.record(z.any())
+  }).passthrough())
+});
+
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+export const DEFAULT_WORKFLOW = 'battlemap';
+
+/**
+ * SDXL text-to-image graph shared by the built-in workflows; uses the models the installer downloads
+ */
+function buildSdxlWorkflow(filenamePrefix: string, cfg: number): WorkflowDefinition['workflow'] {
+  return {
+    '1': {
+      class_type: 'CheckpointLoaderSimple',
+      inputs: { ckpt_name: 'dDBattlemapsSDXL10_upscaleV10.safetensors' }
+    },
+    '2': {
+      class_type: 'CLIPTextEncode',
+      inputs: { text: '', clip: ['1', 1] }
+    },
+    '3': {
+      class_type: 'CLIPTextEncode',
+      inputs: { text: '', clip: ['1', 1] }
+    },
+    '4': {
+      class_type: 'EmptyLatentImage',
+      inputs: { width: 1024, height: 1024, batch_size: 1 }
+    },
+    '5': {
+      class_type: 'KSampler',
+      inputs: {
+        seed: 0,
+        steps: 8,
+        cfg, // Lower CFG for faster convergence
+        denoise: 1.0,
+        sampler_name: 'dpmpp_2m_sde', // SDE variant for better quality at low steps
+        scheduler: 'karras',
+        model: ['1', 0],
+        positive: ['2', 0],
+        negative: ['3', 0],
+        latent_image: ['4', 0]
+      }
+    },
+    '9': {
+      class_type: 'VAELoader',
+      inputs: { vae_name: 'sdxl_vae.safetensors' }
+    },
+    '6': {
+      class_type: 'VAEDecode',
+      inputs: { samples: ['5', 0], vae: ['9', 0] }
+    },
+    '7': {
+      class_type: 'SaveImage',
+      inputs: { filename_prefix: filenamePrefix, images: ['6', 0] }
+    }
+  };
+}
+
+const SDXL_INPUTS = {
+  prompt: '2.text',
+  negativePrompt: '3.text',
+  width: '4.width',
+  height: '4.height',
+  seed: '5.seed',
+  steps: '5.steps'
+};
+
+const BUILT_IN_WORKFLOWS: WorkflowDefinition[] = [
+  {
+    name: 'battlemap',
+    description: 'Top-down D&D battlemap (D&D Battlemaps SDXL)',
+    promptTemplate: '2d DnD battlemap of {prompt}, top-down view, overhead perspective, aerial',
+    negativePrompt: 'grid, low angle, isometric, oblique, horizon, text, watermark, logo, caption, people, creatures, monsters, blurry, artifacts',
+    qualitySteps: { low: 8, medium: 20, high: 35 },
+    inputs: SDXL_INPUTS,
+    workflow: buildSdxlWorkflow('battlemap', 2.5)
+  },
+  {
+    name: 'token-portrait',
+    description: 'Character or creature portrait framed for a round token',
+    promptTemplate: 'fantasy character portrait of {prompt}, head and shoulders, centered, facing the viewer, painted illustration, plain background',
+    negativePrompt: 'text, watermark, logo, caption, multiple people, cropped head, blurry, artifacts, map, grid',
+    qualitySteps: { low: 8, medium: 20, high: 35 },
+    inputs: SDXL_INPUTS,
+    workflow: buildSdxlWorkflow('token_portrait', 3.5)
+  },
+  {
+    name: 'item-art',
+    description: 'Single item or object icon on a plain background',
+    promptTemplate: 'fantasy item illustration of {prompt}, single object, centered, plain background, painted icon',
+    negativePrompt: 'text, watermark, logo, caption, people, hands, multiple objects, blurry, artifacts, map, grid',
+    qualitySteps: { low: 8, medium: 20, high: 35 },
+    inputs: SDXL_INPUTS,
+    workflow: buildSdxlWorkflow('item_art', 3.5)
+  },
+  {
+    name: 'handout-illustration',
+    description: 'Scene illustration to show players as a handout',
+    promptTemplate: 'fantasy illustration of {prompt}, dramatic lighting, detailed painting, wide shot',
+    negativePrompt: 'text, watermark, logo, caption, blurry, artifacts, map, grid, top-down view',
+    qualitySteps: { low: 8, medium: 20, high: 35 },
+    inputs: SDXL_INPUTS,
+    workflow: buildSdxlWorkflow('handout', 3.5)
+  }
+];
+
+export class ComfyUIWorkflowRegistry {
+  private logger: Logger;
+  private directory: string | undefined;
+
+  constructor(options: { logger: Logger; directory?: string | undefined }) {
+    this.logger = options.logger.child({ component: 'ComfyUIWorkflowRegistry' });
+    this.directory = options.directory;
+  }
+
+  /**
+   * All workflows, reading the directory on every call so new files are picked up without a restart
+   */
+  listWorkflows(): WorkflowSummary[] {
+    const fileWorkflows = this.loadFileWorkflows();
+
+    const summaries = new Map<string, WorkflowSummary>();
+    for (const workflow of BUILT_IN_WORKFLOWS) {
+      summaries.set(workflow.name, this.summarize(workflow, 'built-in'));
+    }
+    for (const workflow of fileWorkflows.values()) {
+      summaries.set(workflow.name, this.summarize(workflow, 'file'));
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  getWorkflow(name: string): WorkflowDefinition | undefined {
+    const fileWorkflow = this.loadFileWorkflows().get(name);
+    return fileWorkflow ?? BUILT_IN_WORKFLOWS.find(workflow => workflow.name === name);
+  }
+
+  /**
+   * Build the ComfyUI API prompt for a workflow with the generation inputs applied
+   */
+  buildPrompt(name: string, input: WorkflowGenerationInput): Record<string, any> {
+    const definition = this.getWorkflow(name);
+    if (!definition) {
+      const available = this.listWorkflows().map(workflow => workflow.name).join(', ');
+      throw new Error(`Unknown workflow "${name}". Available workflows: ${available}`);
+    }
+
+    const graph: Record<string, any> = JSON.parse(JSON.stringify(definition.workflow));
+    const quality = input.quality || 'low';
+
+    const values: Record<keyof WorkflowDefinition['inputs'], unknown> = {
+      prompt: definition.promptTemplate.replace(/\{prompt\}/g, () => input.prompt),
+      negativePrompt: definition.negativePrompt,
+      width: input.width,
+      height: input.height,
+      seed: input.seed ?? Math.floor(Math.random() * 1000000),
+      steps: definition.qualitySteps[quality]
+    };
+
+    for (const [field, targets] of Object.entries(definition.inputs)) {
+      if (targets === undefined) continue;
+
+      for (const target of Array.isArray(targets) ? targets : [targets]) {
+        const separator = target.indexOf('.');
+        const nodeId = target.slice(0, separator);
+        const inputName = target.slice(separator + 1);
+        const node = graph[nodeId];
+
+        if (!node) {
+          throw new Error(`Workflow "${name}" maps ${field} to missing node ${nodeId}`);
+        }
+        node.inputs[inputName] = values[field as keyof typeof values];
+      }
+    }
+
+    return graph;
+  }
+
+  private summarize(workflow: WorkflowDefinition, source: WorkflowSummary['source']): WorkflowSummary {
+    return {
+      name: workflow.name,
+      description: workflow.description,
+      source,
+      inputs: Object.keys(workflow.inputs).filter(key => workflow.inputs[key as keyof WorkflowDefinition['inputs']] !== undefined)
+    };
+  }
+
+  private loadFileWorkflows(): Map<string, WorkflowDefinition> {
+    const workflows = new Map<string, WorkflowDefinition>();
+    if (!this.directory || !fs.existsSync(this.directory)) {
+      return workflows;
+    }
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.directory).filter(file => file.toLowerCase().endsWith('.json'));
+    } catch (error) {
+      this.logger.warn('Failed to read workflows directory', {
+        directory: this.directory,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return workflows;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const definition = WorkflowDefinitionSchema.parse({
+          name: path.basename(file, path.extname(file)),
+          ...raw
+        });
+        workflows.set(definition.name, definition);
+      } catch (error) {
+        // A broken file should not take down the other workflows
+        this.logger.warn('Skipping invalid workflow file', {
+          file: filePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return workflows;
+  }
+}
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
-import { getFoundryDataDir, getDefaultComfyUIDir } from './utils/platform.js';
+import { getFoundryDataDir, getDefaultComfyUIDir, getDefaultWorkflowsDir } from './utils/platform.js';
 
 dotenv.config();
 
@@ -43,8 +43,18 @@ const ConfigSchema = z.object({
     installPath: z.string(), // No default here - set in rawConfig
     host: z.string().default('127.0.0.1'),
     pythonCommand: z.string().default('python/python.exe'), // Will be platform-specific
+    workflowsDir: z.string(), // API-format workflow JSON files; default set in rawConfig
   }),
   toolResponseMaxChars: z.number().min(256).max(500000).default(20000),
+  // MCP client transport: stdio (one client per process) or Streamable HTTP with SSE fallback (shared server)
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().default('127.0.0.1'),
+    port: z.number().min(1024).max(65535).default(31416),
+    authToken: z.string().min(16, 'MCP_AUTH_TOKEN must be at least 16 characters').optional(), // Bearer token; required when listening beyond localhost
+    sessionIdleTimeout: z.number().min(60000).max(86400000).default(1800000),
+    allowedOrigins: z.array(z.string()).optional(),
+  }),
   server: z.object({
     name: z.string().default('foundry-mcp-server'),
     version: z.string().default('0.4.17'),
@@ -81,16 +91,33 @@ const rawConfig = {
     port: parseInt(process.env.COMFYUI_PORT || '31411', 10),
     installPath: process.env.COMFYUI_INSTALL_PATH || getDefaultComfyUIDir(),
     host: process.env.COMFYUI_HOST || '127.0.0.1',
-    pythonCommand: process.env.COMFYUI_PYTHON_COMMAND || 'python/python.exe'
+    pythonCommand: process.env.COMFYUI_PYTHON_COMMAND || 'python/python.exe',
+    workflowsDir: process.env.COMFYUI_WORKFLOWS_DIR || getDefaultWorkflowsDir()
   },
   toolResponseMaxChars: parseInt(process.env.TOOL_RESPONSE_MAX_CHARS || '20000', 10),
+  transport: {
+    type: (process.env.MCP_TRANSPORT || 'stdio') as 'stdio' | 'http',
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.MCP_HTTP_PORT || '31416', 10),
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    sessionIdleTimeout: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT || '1800000', 10),
+    allowedOrigins: process.env.MCP_ALLOWED_ORIGINS
+      ? process.env.MCP_ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+      : undefined,
+  },
   server: {
     name: process.env.SERVER_NAME || 'foundry-mcp-server',
     version: process.env.SERVER_VERSION || '1.0.0',
   },
 };
 
-export const config = ConfigSchema.parse(rawConfig);
+const parsedConfig = ConfigSchema.safeParse(rawConfig);
+if (!parsedConfig.success) {
+  const errorDetails = parsedConfig.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+  throw new Error(`Invalid configuration: ${errorDetails}`);
+}
+
+export const config = parsedConfig.data;
 
 /**
  * WebRTC Protocol Constants
@@ -0,0 +1,121 @@
+/**
+ * Creature Index Cache Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { queryCreatureIndex, toSystemCreatureIndex } from './creature-index-cache.js';
+import type { CachedCreatureIndex, CreatureQuery } from './creature-index-cache.js';
+import { DnD5eAdapter } from './systems/dnd5e/adapter.js';
+
+const adapter = new DnD5eAdapter();
+
+// Entries as the Foundry module's enhanced creature index returns them
+const entries = [
+  { id: 'goblin', name: 'Goblin', type: 'npc', pack: 'dnd5e.monsters', packLabel: 'Monsters', challengeRating: 0.25, creatureType: 'humanoid', size: 'small', hitPoints: 7, armorClass: 15, hasSpells: false, hasLegendaryActions: false, alignment: 'NE' },
+  { id: 'orc', name: 'Orc', type: 'npc', pack: 'dnd5e.monsters', packLabel: 'Monsters', challengeRating: 0.5, creatureType: 'humanoid', size: 'medium', hitPoints: 15, armorClass: 13, hasSpells: false, hasLegendaryActions: false, alignment: 'CE' },
+  { id: 'ogre', name: 'Ogre', type: 'npc', pack: 'dnd5e.monsters', packLabel: 'Monsters', challengeRating: 2, creatureType: 'giant', size: 'large', hitPoints: 59, armorClass: 11, hasSpells: false, hasLegendaryActions: false, alignment: 'CE' },
+  { id: 'mage', name: 'Mage', type: 'npc', pack: 'dnd5e.monsters', packLabel: 'Monsters', challengeRating: 6, creatureType: 'humanoid', size: 'medium', hitPoints: 40, armorClass: 12, hasSpells: true, hasLegendaryActions: false, alignment: 'N' },
+  { id: 'dragon', name: 'Adult Red Dragon', type: 'npc', pack: 'dnd5e.monsters', packLabel: 'Monsters', challengeRating: 17, creatureType: 'dragon', size: 'huge', hitPoints: 256, armorClass: 19, hasSpells: false, hasLegendaryActions: true, alignment: 'CE' },
+  // Homebrew entry without hit points
+  { id: 'shade', name: 'Shade', type: 'npc', pack: 'world.homebrew', packLabel: 'Homebrew', challengeRating: 3, creatureType: 'undead', size: 'medium', armorClass: 12, hasSpells: false, hasLegendaryActions: false, alignment: 'NE' },
+];
+
+function createIndex(hash = 'hash-1'): CachedCreatureIndex {
+  return {
+    hash,
+    systemId: 'dnd5e',
+    creatures: entries.map(entry => toSystemCreatureIndex(entry, 'dnd5e')),
+    fetchedAt: Date.now(),
+  };
+}
+
+function query(overrides: Partial<CreatureQuery> = {}): CreatureQuery {
+  return { filters: {}, sortBy: 'power', sortOrder: 'asc', limit: 50, facets: false, ...overrides };
+}
+
+describe('toSystemCreatureIndex', () => {
+  it('moves system fields into systemData and maps hasSpells', () => {
+    const creature = toSystemCreatureIndex(entries[3], 'dnd5e');
+    expect(creature.packName).toBe('dnd5e.monsters');
+    expect(creature.system).toBe('dnd5e');
+    expect(creature.systemData.challengeRating).toBe(6);
+    expect(creature.systemData.hasSpellcasting).toBe(true);
+  });
+});
+
+describe('queryCreatureIndex', () => {
+  it('filters with the system adapter', () => {
+    const result = queryCreatureIndex(createIndex(), adapter, query({ filters: { creatureType: 'humanoid' } }));
+    expect(result.total).toBe(3);
+    expect(result.creatures.map(creature => creature.name)).toEqual(['Goblin', 'Orc', 'Mage']);
+  });
+
+  it('pages by offset and stops issuing cursors on the last page', () => {
+    const index = createIndex();
+    const first = queryCreatureIndex(index, adapter, query({ limit: 4 }));
+    expect(first.offset).toBe(0);
+    expect(first.total).toBe(6);
+    expect(first.creatures.map(creature => creature.id)).toEqual(['goblin', 'orc', 'ogre', 'shade']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = queryCreatureIndex(index, adapter, query({ limit: 4, cursor: first.nextCursor! }));
+    expect(second.offset).toBe(4);
+    expect(second.creatures.map(creature => creature.id)).toEqual(['mage', 'dragon']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor from a different search', () => {
+    const index = createIndex();
+    const first = queryCreatureIndex(index, adapter, query({ limit: 2 }));
+    expect(() => queryCreatureIndex(index, adapter, query({ limit: 2, sortBy: 'name', cursor: first.nextCursor! })))
+      .toThrow(/different search/);
+  });
+
+  it('accepts a cursor for the same filters in another key order', () => {
+    const index = createIndex();
+    const filters = { creatureType: 'humanoid', challengeRating: { min: 0, max: 6 } };
+    const first = queryCreatureIndex(index, adapter, query({ filters, limit: 2 }));
+
+    const reordered = { challengeRating: { max: 6, min: 0 }, creatureType: 'humanoid' };
+    const second = queryCreatureIndex(index, adapter, query({ filters: reordered, limit: 2, cursor: first.nextCursor! }));
+    expect(second.creatures.map(creature => creature.id)).toEqual(['mage']);
+  });
+
+  it('rejects a cursor from an older index version', () => {
+    const first = queryCreatureIndex(createIndex('hash-1'), adapter, query({ limit: 2 }));
+    expect(() => queryCreatureIndex(createIndex('hash-2'), adapter, query({ limit: 2, cursor: first.nextCursor! })))
+      .toThrow(/index changed/);
+  });
+
+  it('rejects a malformed cursor', () => {
+    expect(() => queryCreatureIndex(createIndex(), adapter, query({ cursor: 'not-a-cursor' }))).toThrow(/Invalid cursor/);
+  });
+
+  it('sorts creatures without the field last in both directions', () => {
+    const index = createIndex();
+    const ascending = queryCreatureIndex(index, adapter, query({ sortBy: 'hitPoints', sortOrder: 'asc' }));
+    expect(ascending.creatures.map(creature => creature.id)).toEqual(['goblin', 'orc', 'mage', 'ogre', 'dragon', 'shade']);
+
+    const descending = queryCreatureIndex(index, adapter, query({ sortBy: 'hitPoints', sortOrder: 'desc' }));
+    expect(descending.creatures.map(creature => creature.id)).toEqual(['dragon', 'ogre', 'mage', 'orc', 'goblin', 'shade']);
+  });
+
+  it('sorts by name', () => {
+    const result = queryCreatureIndex(createIndex(), adapter, query({ sortBy: 'name', sortOrder: 'desc', limit: 2 }));
+    expect(result.creatures.map(creature => creature.name)).toEqual(['Shade', 'Orc']);
+  });
+
+  it('counts facets over all matches, not the returned page', () => {
+    const result = queryCreatureIndex(createIndex(), adapter, query({ filters: { challengeRating: { max: 6 } }, limit: 1, facets: true }));
+    expect(result.creatures).toHaveLength(1);
+    expect(result.facets).toEqual({
+      powerLevel: { '0.25': 1, '0.5': 1, '2': 1, '3': 1, '6': 1 },
+      creatureType: { humanoid: 3, giant: 1, undead: 1 },
+      size: { small: 1, medium: 3, large: 1 },
+    });
+  });
+
+  it('leaves facets out unless requested', () => {
+    expect(queryCreatureIndex(createIndex(), adapter, query()).facets).toBeUndefined();
+  });
+});
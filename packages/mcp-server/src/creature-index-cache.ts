@@ -0,0 +1,300 @@
+/**
+ * Server-side copy of the enhanced creature index.
+ *
+ * The index is pulled from the Foundry module once and kept here, versioned by the hash the module
+ * reports, so creature searches are filtered, sorted, paginated and counted in this process with the
+ * system adapters instead of scanning the index in the GM's browser on every call.
+ */
+
+import { createHash } from 'crypto';
+import { FoundryClient } from './foundry-client.js';
+import { Logger } from './logger.js';
+import type { SystemAdapter, SystemCreatureIndex, SystemId } from './systems/types.js';
+
+export interface CreatureIndexCacheOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export interface CachedCreatureIndex {
+  hash: string;
+  systemId: SystemId;
+  creatures: SystemCreatureIndex[];
+  fetchedAt: number;
+}
+
+export type CreatureSortField = 'power' | 'name' | 'hitPoints' | 'armorClass';
+
+export interface CreatureQuery {
+  filters: Record<string, any>; // Validated against the adapter's filter schema
+  sortBy: CreatureSortField;
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  cursor?: string | undefined; // nextCursor of the previous page
+  facets: boolean;
+}
+
+/**
+ * Matching creatures per value, counted over all matches rather than the returned page
+ */
+export interface CreatureFacets {
+  powerLevel: Record<string, number>; // D&D 5e: CR, PF2e/DSA5: level
+  creatureType: Record<string, number>;
+  size: Record<string, number>;
+}
+
+export interface CreatureQueryResult {
+  creatures: SystemCreatureIndex[];
+  total: number; // All matches, before pagination
+  offset: number;
+  nextCursor: string | null;
+  facets?: CreatureFacets | undefined;
+}
+
+interface CursorData {
+  h: string; // Index hash
+  q: string; // Query key (filters and sort)
+  o: number; // Offset of the next page
+}
+
+export class CreatureIndexCache {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private cached: CachedCreatureIndex | null = null;
+  private pending: { hash: string; promise: Promise<CachedCreatureIndex> } | null = null;
+
+  constructor({ foundryClient, logger }: CreatureIndexCacheOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'CreatureIndexCache' });
+  }
+
+  /**
+   * Get the cached index, pulling it again when the module reports a different version
+   * @returns null when the enhanced creature index is disabled in the module settings
+   */
+  async getIndex(systemId: SystemId): Promise<CachedCreatureIndex | null> {
+    const version = await this.foundryClient.query('foundry-mcp-bridge.getEnhancedCreatureIndexVersion');
+    if (version?.error) {
+      throw new Error(version.error);
+    }
+    if (!version || version.enabled === false) {
+      return null;
+    }
+
+    if (this.cached && this.cached.hash === version.hash && this.cached.systemId === systemId) {
+      return this.cached;
+    }
+
+    // Concurrent searches share one transfer of the same version
+    if (this.pending?.hash !== version.hash) {
+      const promise = this.fetchIndex(version.hash, systemId);
+      this.pending = { hash: version.hash, promise };
+      promise.then(
+        () => { if (this.pending?.promise === promise) this.pending = null; },
+        () => { if (this.pending?.promise === promise) this.pending = null; }
+      );
+    }
+
+    return await this.pending!.promise;
+  }
+
+  /**
+   * Drop the cached copy; the next search pulls the index again
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  private async fetchIndex(hash: string, systemId: SystemId): Promise<CachedCreatureIndex> {
+    const startTime = Date.now();
+    const entries = await this.foundryClient.query('foundry-mcp-bridge.getEnhancedCreatureIndex');
+    if (!Array.isArray(entries)) {
+      throw new Error(entries?.error || 'Foundry did not return the enhanced creature index');
+    }
+
+    const index: CachedCreatureIndex = {
+      hash,
+      systemId,
+      creatures: entries.map(entry => toSystemCreatureIndex(entry, systemId)),
+      fetchedAt: Date.now(),
+    };
+    this.cached = index;
+
+    this.logger.info('Cached enhanced creature index', {
+      hash,
+      systemId,
+      creatures: index.creatures.length,
+      durationMs: Date.now() - startTime,
+    });
+
+    return index;
+  }
+}
+
+/**
+ * Convert an enhanced creature index entry from the Foundry module to the adapter index shape
+ */
+export function toSystemCreatureIndex(entry: any, systemId: SystemId): SystemCreatureIndex {
+  const { id, name, type, pack, packLabel, img, description, ...systemData } = entry;
+  return {
+    id,
+    name,
+    type,
+    packName: pack,
+    packLabel,
+    img,
+    system: systemId,
+    systemData: {
+      ...systemData,
+      hasSpellcasting: systemData.hasSpellcasting ?? systemData.hasSpells,
+    },
+  };
+}
+
+/**
+ * Filter, sort and paginate the cached index with the system adapter
+ * @throws Error when the cursor belongs to another search or an older index version
+ */
+export function queryCreatureIndex(index: CachedCreatureIndex, adapter: SystemAdapter, query: CreatureQuery): CreatureQueryResult {
+  const queryKey = createHash('sha256')
+    .update(stableStringify({ filters: query.filters, sortBy: query.sortBy, sortOrder: query.sortOrder }))
+    .digest('hex')
+    .slice(0, 16);
+
+  let offset = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor.q !== queryKey) {
+      throw new Error('Cursor belongs to a different search; pass the same filters and sorting as the first page');
+    }
+    if (cursor.h !== index.hash) {
+      throw new Error('The creature index changed since this cursor was issued; repeat the search without a cursor');
+    }
+    offset = cursor.o;
+  }
+
+  const hasFilters = Object.keys(query.filters).length > 0;
+  const matches = hasFilters
+    ? index.creatures.filter(creature => adapter.matchesFilters(creature, query.filters))
+    : index.creatures.slice();
+
+  matches.sort(compareCreatures(adapter, query.sortBy, query.sortOrder));
+
+  const page = matches.slice(offset, offset + query.limit);
+  const nextOffset = offset + page.length;
+
+  return {
+    creatures: page,
+    total: matches.length,
+    offset,
+    nextCursor: nextOffset < matches.length ? encodeCursor({ h: index.hash, q: queryKey, o: nextOffset }) : null,
+    facets: query.facets ? countFacets(adapter, matches) : undefined,
+  };
+}
+
+/**
+ * Sort by the chosen field, then by name; creatures without the field go last
+ */
+function compareCreatures(adapter: SystemAdapter, sortBy: CreatureSortField, sortOrder: 'asc' | 'desc') {
+  const direction = sortOrder === 'desc' ? -1 : 1;
+
+  const valueOf = (creature: SystemCreatureIndex): number | undefined => {
+    switch (sortBy) {
+      case 'power':
+        return adapter.getPowerLevel(creature);
+      case 'hitPoints':
+        return numericValue(creature.systemData?.hitPoints);
+      case 'armorClass':
+        // Starfinder has no single AC; sort by KAC
+        return numericValue(creature.systemData?.armorClass ?? creature.systemData?.kac);
+      default:
+        return undefined;
+    }
+  };
+
+  return (a: SystemCreatureIndex, b: SystemCreatureIndex): number => {
+    if (sortBy !== 'name') {
+      const valueA = valueOf(a);
+      const valueB = valueOf(b);
+      if (valueA !== valueB) {
+        if (valueA === undefined) return 1;
+        if (valueB === undefined) return -1;
+        return (valueA - valueB) * direction;
+      }
+      return a.name.localeCompare(b.name);
+    }
+    return a.name.localeCompare(b.name) * direction;
+  };
+}
+
+/**
+ * Hit points and armor class are plain numbers in some indexes and { value } objects in others
+ */
+function numericValue(value: any): number | undefined {
+  const number = typeof value === 'object' && value !== null ? value.max ?? value.value : value;
+  return typeof number === 'number' && !isNaN(number) ? number : undefined;
+}
+
+function countFacets(adapter: SystemAdapter, creatures: SystemCreatureIndex[]): CreatureFacets {
+  const powerLevel = new Map<number, number>();
+  const creatureType: Record<string, number> = {};
+  const size: Record<string, number> = {};
+
+  for (const creature of creatures) {
+    const power = adapter.getPowerLevel(creature);
+    if (power !== undefined) {
+      powerLevel.set(power, (powerLevel.get(power) ?? 0) + 1);
+    }
+
+    const type = creature.systemData?.creatureType ?? creature.systemData?.species;
+    if (typeof type === 'string' && type) {
+      const key = type.toLowerCase();
+      creatureType[key] = (creatureType[key] ?? 0) + 1;
+    }
+
+    if (typeof creature.systemData?.size === 'string' && creature.systemData.size) {
+      const key = creature.systemData.size.toLowerCase();
+      size[key] = (size[key] ?? 0) + 1;
+    }
+  }
+
+  return {
+    powerLevel: Object.fromEntries(
+      Array.from(powerLevel.entries()).sort(([a], [b]) => a - b).map(([level, count]) => [String(level), count])
+    ),
+    creatureType,
+    size,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so the same filters in another key order give the same query key
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(entry => stableStringify(entry ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function encodeCursor(cursor: CursorData): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): CursorData {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor.h === 'string' && typeof cursor.q === 'string' && Number.isInteger(cursor.o) && cursor.o >= 0) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor; use the nextCursor value from a previous list-creatures-by-criteria result');
+}
@@ -1,6 +1,8 @@
 import { Logger } from './logger.js';
 import { Config } from './config.js';
 import { FoundryConnector } from './foundry-connector.js';
+import { WorldEvent } from './world-events.js';
+import { IndexProgress } from './index-progress.js';
 
 export interface FoundryQuery {
   method: string;
@@ -72,6 +74,14 @@ export class FoundryClient {
     }
   }
 
+  onWorldEvent(listener: (event: WorldEvent) => void): void {
+    this.connector.onWorldEvent(listener);
+  }
+
+  onIndexProgress(listener: (progress: IndexProgress) => void): void {
+    this.connector.onIndexProgress(listener);
+  }
+
   ping(): Promise<any> {
     return this.query('foundry-mcp-bridge.ping');
   }
@@ -3,6 +3,8 @@ import { createServer } from 'http';
 import { Logger } from './logger.js';
 import { Config } from './config.js';
 import { WebRTCPeer } from './webrtc-peer.js';
+import { WorldEvent } from './world-events.js';
+import { IndexProgress } from './index-progress.js';
 
 export interface FoundryConnectorOptions {
   config: Config['foundry'];
@@ -27,6 +29,8 @@ export class FoundryConnector {
   private activeConnectionType: 'websocket' | 'webrtc' | null = null;
   private pendingQueries = new Map<string, PendingQuery>();
   private queryIdCounter = 0;
+  private worldEventListeners: Array<(event: WorldEvent) => void> = [];
+  private indexProgressListeners: Array<(progress: IndexProgress) => void> = [];
 
   constructor({ config, logger }: FoundryConnectorOptions) {
     this.config = config;
@@ -240,6 +244,36 @@ export class FoundryConnector {
       return;
     }
 
+    if (message.type === 'world-event' && message.data) {
+      this.logger.debug('World event received', { hook: message.data.hook, id: message.data.id });
+      for (const listener of this.worldEventListeners) {
+        try {
+          listener(message.data as WorldEvent);
+        } catch (error) {
+          this.logger.error('World event listener failed', {
+            hook: message.data.hook,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+      return;
+    }
+
+    if (message.type === 'index-progress' && message.data) {
+      this.logger.debug('Index progress received', { index: message.data.index, phase: message.data.phase, packsDone: message.data.packsDone });
+      for (const listener of this.indexProgressListeners) {
+        try {
+          listener(message.data as IndexProgress);
+        } catch (error) {
+          this.logger.error('Index progress listener failed', {
+            phase: message.data.phase,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+      return;
+    }
+
     const comfyHandlers = (globalThis as any).backendComfyUIHandlers;
     if (comfyHandlers?.handleMessage) {
       this.logger.debug('Routing message to backend ComfyUI handlers', { type: message.type });
@@ -381,6 +415,20 @@ export class FoundryConnector {
     });
   }
 
+  /**
+   * Subscribe to document change events pushed by the Foundry module
+   */
+  onWorldEvent(listener: (event: WorldEvent) => void): void {
+    this.worldEventListeners.push(listener);
+  }
+
+  /**
+   * Subscribe to enhanced index build progress pushed by the Foundry module
+   */
+  onIndexProgress(listener: (progress: IndexProgress) => void): void {
+    this.indexProgressListeners.push(listener);
+  }
+
   sendToFoundry(message: any): void {
     if (this.activeConnectionType === 'webrtc' && this.webrtcPeer) {
       this.webrtcPeer.sendMessage(message);
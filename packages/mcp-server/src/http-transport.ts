@@ -0,0 +1,240 @@
+/**
+ * Streamable HTTP transport (with SSE fallback) for MCP clients
+ *
+ * Lets several clients share one server, e.g. a team of assistants or headless automation running
+ * on the Foundry host. Each session gets its own MCP Server instance from `createServer`, so
+ * subscriptions and log levels are per client while tools and the backend are shared.
+ *
+ *   POST/GET/DELETE /mcp    Streamable HTTP (protocol 2025-03-26), session in the Mcp-Session-Id header
+ *   GET /sse                Legacy HTTP+SSE stream (protocol 2024-11-05)
+ *   POST /messages          Legacy client messages, ?sessionId=<id>
+ *
+ * Every request must carry `Authorization: Bearer <authToken>` when a token is configured.
+ * Browser requests are only accepted from `allowedOrigins`, or from loopback origins when unset;
+ * without a token the Host header must be a loopback host as well, which stops DNS rebinding.
+ */
+
+import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string | undefined;
+  sessionIdleTimeout: number;
+  allowedOrigins?: string[] | undefined;
+  createServer: () => { mcp: Server; dispose: () => void };
+  log: (msg: string, meta?: any) => void;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  dispose: () => void;
+  lastSeen: number;
+}
+
+// Request bodies are JSON-RPC messages; tool arguments never come close to this
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+export async function startHttpTransport(options: HttpTransportOptions): Promise<http.Server> {
+  const { host, port, authToken, sessionIdleTimeout, allowedOrigins, createServer, log } = options;
+
+  // Without a token anyone who can reach the port controls the world
+  if (!authToken && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`MCP_AUTH_TOKEN must be set to listen on ${host}; only localhost may run without authentication`);
+  }
+
+  const sessions = new Map<string, HttpSession>();
+
+  const closeSession = (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    session.dispose();
+    session.transport.close().catch(() => {});
+    log('HTTP session closed', { sessionId, reason, sessions: sessions.size });
+  };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const origin = req.headers.origin;
+      if (origin && !(allowedOrigins ? allowedOrigins.includes(origin) : isLoopbackOrigin(origin))) {
+        return sendError(res, 403, 'Origin not allowed');
+      }
+
+      // A rebound DNS name still reaches 127.0.0.1, but carries its own name in Host
+      if (!authToken && !isLoopbackHost(req.headers.host)) {
+        return sendError(res, 403, 'Host not allowed');
+      }
+
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+      if (authToken && !isAuthorized(req, authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="foundry-mcp"');
+        return sendError(res, 401, 'Missing or invalid bearer token');
+      }
+
+      if (url.pathname === '/mcp') {
+        const sessionId = req.headers['mcp-session-id'];
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+        if (typeof sessionId === 'string') {
+          const session = sessions.get(sessionId);
+          if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+            return sendError(res, 404, 'Session not found');
+          }
+          session.lastSeen = Date.now();
+          await session.transport.handleRequest(req, res, body);
+          return;
+        }
+
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+          return sendError(res, 400, 'Missing Mcp-Session-Id header; send an initialize request first');
+        }
+
+        const { mcp, dispose } = createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, dispose, lastSeen: Date.now() });
+            log('HTTP session started', { sessionId: id, transport: 'streamable-http', sessions: sessions.size });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) closeSession(transport.sessionId, 'closed by client');
+        };
+
+        await mcp.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        const { mcp, dispose } = createServer();
+        const transport = new SSEServerTransport('/messages', res);
+        sessions.set(transport.sessionId, { transport, dispose, lastSeen: Date.now() });
+        res.on('close', () => closeSession(transport.sessionId, 'stream closed'));
+        log('HTTP session started', { sessionId: transport.sessionId, transport: 'sse', sessions: sessions.size });
+
+        await mcp.connect(transport);
+        return;
+      }
+
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        const session = sessions.get(url.searchParams.get('sessionId') || '');
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+          return sendError(res, 404, 'Session not found');
+        }
+        session.lastSeen = Date.now();
+        await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+        return;
+      }
+
+      sendError(res, 404, 'Not found');
+    } catch (error) {
+      log('HTTP request failed', { url: req.url, error: error instanceof Error ? error.message : String(error) });
+      if (!res.headersSent) {
+        sendError(res, error instanceof BodyError ? 400 : 500, error instanceof Error ? error.message : 'Internal error');
+      }
+    }
+  });
+
+  // Clients that vanish without DELETE or closing their stream would otherwise keep their session forever
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleTimeout;
+    for (const [sessionId, session] of sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastSeen < cutoff) {
+        closeSession(sessionId, 'idle');
+      }
+    }
+  }, 60000);
+  sweep.unref();
+
+  server.on('close', () => {
+    clearInterval(sweep);
+    for (const sessionId of Array.from(sessions.keys())) {
+      closeSession(sessionId, 'server shutdown');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  log(`Foundry MCP server listening on http://${host}:${port}/mcp (SSE: /sse)`, { host, port, auth: !!authToken });
+
+  return server;
+}
+
+class BodyError extends Error {}
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Host header such as "127.0.0.1:31416" or "[::1]:31416" names a loopback host
+ */
+function isLoopbackHost(hostHeader: string | undefined): boolean {
+  if (!hostHeader) return false;
+  try {
+    return LOOPBACK_HOSTS.includes(stripBrackets(new URL(`http://${hostHeader}`).hostname));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Origin such as "http://localhost:5173"; the opaque "null" origin is not loopback
+ */
+function isLoopbackOrigin(origin: string): boolean {
+  try {
+    return LOOPBACK_HOSTS.includes(stripBrackets(new URL(origin).hostname));
+  } catch {
+    return false;
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(authToken);
+  const provided = Buffer.from(match[1].trim());
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null');
+  } catch {
+    throw new BodyError('Request body is not valid JSON');
+  }
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
@@ -0,0 +1,37 @@
+/**
+ * Enhanced index build progress pushed by the Foundry module while it extracts compendium packs.
+ *
+ * The backend relays it to the stdio wrapper, which sends it to MCP clients as a logging message,
+ * so long first builds and background partial updates are visible.
+ */
+
+export interface IndexProgress {
+  index: 'creatures';
+  phase: 'start' | 'pack' | 'complete' | 'error';
+  mode: 'full' | 'partial';
+  packsDone: number;
+  packsTotal: number;
+  pack?: string | undefined;
+  creatures: number;
+  message: string;
+  timestamp: number;
+}
+
+export interface IndexProgressNotification {
+  type: 'index-progress';
+  progress: IndexProgress;
+  level: 'debug' | 'info' | 'error';
+  message: string;
+}
+
+/**
+ * Per-pack steps are debug level; start and completion are info, failures error
+ */
+export function buildIndexProgressNotification(progress: IndexProgress): IndexProgressNotification {
+  return {
+    type: 'index-progress',
+    progress,
+    level: progress.phase === 'error' ? 'error' : progress.phase === 'pack' ? 'debug' : 'info',
+    message: progress.message,
+  };
+}
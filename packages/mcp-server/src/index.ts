@@ -6,10 +6,24 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  LoggingLevel,
+} from '@modelcontextprotocol/sdk/types.js';
 
 import { config } from './config.js';
 
+import { startHttpTransport } from './http-transport.js';
+
 import { spawn, ChildProcess } from 'child_process';
 
 import * as net from 'net';
@@ -32,7 +46,13 @@ const CONTROL_PORT = 31414;
 
 type BackendReq = { id: string; method: string; params?: any };
 
-type BackendRes = { id: string; result?: any; error?: { message: string } };
+type BackendRes = { id: string; result?: any; error?: { message: string }; notification?: BackendNotification };
+
+// Pushed by the backend without an id when Foundry reports a world change (see world-events.ts)
+// or index build progress (see index-progress.ts)
+type BackendNotification =
+  | { type: 'world-event'; event: any; uris: string[]; listChanged: boolean; message: string }
+  | { type: 'index-progress'; progress: any; level: LoggingLevel; message: string };
 
 
 
@@ -48,6 +68,8 @@ class BackendClient {
 
   private backendProcess: ChildProcess | null = null;
 
+  private notificationListeners = new Set<(notification: BackendNotification) => void>();
+
 
 
   private log(msg: string, meta?: any) {
@@ -270,6 +292,14 @@ class BackendClient {
 
         const msg = JSON.parse(line) as BackendRes;
 
+        if (msg.notification && !msg.id) {
+
+          for (const listener of this.notificationListeners) listener(msg.notification);
+
+          continue;
+
+        }
+
         this.log('onData(): received response', { id: msg.id, hasError: !!msg.error, hasResult: !!msg.result });
 
         const p = this.pending.get(msg.id);
@@ -309,6 +339,16 @@ class BackendClient {
 
 
 
+  onNotification(listener: (notification: BackendNotification) => void): () => void {
+
+    this.notificationListeners.add(listener);
+
+    return () => { this.notificationListeners.delete(listener); };
+
+  }
+
+
+
   send(method: string, params: any): Promise<any> {
 
     return new Promise(async (resolve, reject) => {
@@ -387,59 +427,65 @@ class BackendClient {
 
 
 
-async function startWrapper() {
+// One MCP server per client connection: stdio has exactly one, HTTP creates one per session so
+// resource subscriptions and log levels stay per client while sharing the backend and its tools
 
-  const backend = new BackendClient();
+function createMcpServer(backend: BackendClient): { mcp: Server; dispose: () => void } {
 
-  // Pre-connect to backend BEFORE initializing MCP server
-  // This ensures tools/list requests respond immediately without timeout
-  try {
-    await backend.ensure();
-    try { (backend as any).log?.('startWrapper(): pre-connected to backend'); } catch {}
-  } catch (e) {
-    try { (backend as any).log?.('startWrapper(): pre-connection failed, will retry on demand', { error: (e as any)?.message }); } catch {}
-  }
+  const mcp = new Server({ name: config.server.name, version: config.server.version }, { capabilities: { tools: {}, resources: { subscribe: true, listChanged: true }, prompts: {}, logging: {} } });
 
-  const mcp = new Server({ name: config.server.name, version: config.server.version }, { capabilities: { tools: {} } });
 
 
+  // World change notifications: resources/updated for subscribed URIs, list_changed when
+  // documents are added or removed, and a log message at info level describing the change
 
-  // Setup cleanup handlers - cross-platform approach
+  const subscribedUris = new Set<string>();
 
-  // When stdin closes (Claude Desktop exits), clean up the backend
+  const logLevels: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
 
-  process.stdin.on('end', () => {
+  let minimumLogLevel: LoggingLevel = 'info';
 
-    backend.cleanup();
+  const unsubscribe = backend.onNotification((notification) => {
 
-    process.exit(0);
+    if (notification.type === 'index-progress') {
 
-  });
+      if (logLevels.indexOf(notification.level) < logLevels.indexOf(minimumLogLevel)) return;
 
+      mcp.sendLoggingMessage({ level: notification.level, logger: 'foundry-index', data: { message: notification.message, progress: notification.progress } })
 
+        .catch((e) => { try { (backend as any).log?.('Index progress notification failed', { error: (e as any)?.message }); } catch {} });
 
-  // Also handle process termination signals
+      return;
 
-  process.on('SIGTERM', () => {
+    }
 
-    backend.cleanup();
+    const send = async () => {
 
-    process.exit(0);
+      for (const uri of notification.uris) {
 
-  });
+        if (subscribedUris.has(uri)) await mcp.sendResourceUpdated({ uri });
 
+      }
 
+      if (notification.listChanged) await mcp.sendResourceListChanged();
 
-  process.on('SIGINT', () => {
+      if (logLevels.indexOf('info') >= logLevels.indexOf(minimumLogLevel)) {
 
-    backend.cleanup();
+        await mcp.sendLoggingMessage({ level: 'info', logger: 'foundry', data: { message: notification.message, event: notification.event } });
 
-    process.exit(0);
+      }
+
+    };
+
+    // Events that arrive before the client connects have nowhere to go
+    send().catch((e) => { try { (backend as any).log?.('World event notification failed', { error: (e as any)?.message }); } catch {} });
 
   });
 
 
 
+
+
   mcp.setRequestHandler(ListToolsRequestSchema, async () => {
 
     try {
@@ -484,6 +530,193 @@ async function startWrapper() {
 
 
 
+  mcp.setRequestHandler(ListResourcesRequestSchema, async () => {
+
+    try {
+
+      const res = await backend.send('list_resources', {});
+
+      return { resources: res.resources || [] };
+
+    } catch (e) {
+
+      try { (backend as any).log?.('ListResources failed; returning empty', { error: (e as any)?.message }); } catch {}
+
+      return { resources: [] };
+
+    }
+
+  });
+
+
+
+  mcp.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+
+    try {
+
+      const res = await backend.send('list_resource_templates', {});
+
+      return { resourceTemplates: res.resourceTemplates || [] };
+
+    } catch (e) {
+
+      try { (backend as any).log?.('ListResourceTemplates failed; returning empty', { error: (e as any)?.message }); } catch {}
+
+      return { resourceTemplates: [] };
+
+    }
+
+  });
+
+
+
+  // Read errors propagate so the client receives a JSON-RPC error for unknown or missing resources
+  mcp.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+
+    const { uri } = request.params;
+
+    return await backend.send('read_resource', { uri });
+
+  });
+
+
+
+  mcp.setRequestHandler(ListPromptsRequestSchema, async () => {
+
+    try {
+
+      const res = await backend.send('list_prompts', {});
+
+      return { prompts: res.prompts || [] };
+
+    } catch (e) {
+
+      try { (backend as any).log?.('ListPrompts failed; returning empty', { error: (e as any)?.message }); } catch {}
+
+      return { prompts: [] };
+
+    }
+
+  });
+
+
+
+  // Prompt errors (Foundry disconnected, no dashboard) propagate so the client can show them
+  mcp.setRequestHandler(GetPromptRequestSchema, async (request) => {
+
+    const { name, arguments: args } = request.params;
+
+    return await backend.send('get_prompt', { name, args: args ?? {} });
+
+  });
+
+
+
+  mcp.setRequestHandler(SubscribeRequestSchema, async (request) => {
+
+    subscribedUris.add(request.params.uri);
+
+    return {};
+
+  });
+
+
+
+  mcp.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+
+    subscribedUris.delete(request.params.uri);
+
+    return {};
+
+  });
+
+
+
+  mcp.setRequestHandler(SetLevelRequestSchema, async (request) => {
+
+    minimumLogLevel = request.params.level;
+
+    return {};
+
+  });
+
+
+
+  return { mcp, dispose: unsubscribe };
+
+}
+
+
+
+async function startWrapper() {
+
+  const backend = new BackendClient();
+
+  // Pre-connect to backend BEFORE initializing MCP server
+  // This ensures tools/list requests respond immediately without timeout
+  try {
+    await backend.ensure();
+    try { (backend as any).log?.('startWrapper(): pre-connected to backend'); } catch {}
+  } catch (e) {
+    try { (backend as any).log?.('startWrapper(): pre-connection failed, will retry on demand', { error: (e as any)?.message }); } catch {}
+  }
+
+  // Handle process termination signals
+
+  process.on('SIGTERM', () => {
+
+    backend.cleanup();
+
+    process.exit(0);
+
+  });
+
+
+
+  process.on('SIGINT', () => {
+
+    backend.cleanup();
+
+    process.exit(0);
+
+  });
+
+
+
+  if (config.transport.type === 'http') {
+
+    await startHttpTransport({
+
+      ...config.transport,
+
+      createServer: () => createMcpServer(backend),
+
+      log: (msg, meta) => { try { (backend as any).log?.(msg, meta); } catch {} },
+
+    });
+
+    return;
+
+  }
+
+
+
+  const { mcp } = createMcpServer(backend);
+
+
+
+  // When stdin closes (Claude Desktop exits), clean up the backend
+
+  process.stdin.on('end', () => {
+
+    backend.cleanup();
+
+    process.exit(0);
+
+  });
+
+
+
   const transport = new StdioServerTransport();
 
   await mcp.connect(transport);
@@ -0,0 +1,110 @@
+/**
+ * Job Queue Persistence Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobQueue, type GenerateMapInput } from './job-queue.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger({ level: 'error', enableConsole: false });
+
+const tavernMap: GenerateMapInput = { prompt: 'a smoky tavern', size: 'small', grid_size: 70 };
+
+describe('JobQueue persistence', () => {
+  let storeDir: string;
+  let storePath: string;
+  const queues: JobQueue[] = [];
+
+  const openQueue = () => {
+    const queue = new JobQueue({ logger, storePath });
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-queue-test-'));
+    storePath = path.join(storeDir, 'jobs.json');
+  });
+
+  afterEach(async () => {
+    await Promise.all(queues.splice(0).map(queue => queue.shutdown()));
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it('restores unfinished jobs and their ComfyUI prompt after a restart', async () => {
+    const first = openQueue();
+    const job = await first.createJob({ params: tavernMap });
+    await first.markJobStarted(job.id);
+    await first.setComfyUIJobId(job.id, 'prompt-123');
+    await first.shutdown();
+
+    const second = openQueue();
+    expect(await second.load()).toBe(1);
+
+    const [restored] = second.getUnfinishedJobs();
+    expect(restored.id).toBe(job.id);
+    expect(restored.status).toBe('generating');
+    expect(restored.comfyui_job_id).toBe('prompt-123');
+
+    // Identical requests still return the running job; new jobs get a fresh id
+    expect((await second.createJob({ params: tavernMap })).id).toBe(job.id);
+    const other = await second.createJob({ params: { ...tavernMap, prompt: 'a frozen cave' } });
+    expect(other.id).not.toBe(job.id);
+  });
+
+  it('does not resume expired jobs', async () => {
+    const first = openQueue();
+    const job = await first.createJob({ params: tavernMap });
+    await first.expireJob(job.id, 'ComfyUI job was lost');
+    await first.shutdown();
+
+    const second = openQueue();
+    await second.load();
+    expect(second.getUnfinishedJobs()).toEqual([]);
+    expect((await second.getJob(job.id))?.status).toBe('expired');
+    expect((await second.createJob({ params: tavernMap })).id).not.toBe(job.id);
+  });
+
+  it('drops jobs that outlived the TTL while stopped but keeps them in the metrics', async () => {
+    const createdAt = Date.now() - 31 * 60 * 1000;
+    await fs.writeFile(storePath, JSON.stringify({
+      version: 1,
+      job_id_counter: 1,
+      jobs: [{
+        id: 'old-job',
+        prompt_hash: 'hash',
+        params: tavernMap,
+        status: 'complete',
+        created_at: createdAt,
+        started_at: createdAt + 1000,
+        completed_at: createdAt + 31000,
+        progress_percent: 100,
+        current_stage: 'Generation complete',
+        attempts: 1,
+        max_attempts: 3,
+        estimated_duration_ms: 30000
+      }],
+      history: {}
+    }));
+
+    const queue = openQueue();
+    expect(await queue.load()).toBe(0);
+    expect(await queue.getJob('old-job')).toBeUndefined();
+
+    const metrics = await queue.getQueueMetrics();
+    expect(metrics.total_jobs).toBe(1);
+    expect(metrics.completed_jobs).toBe(1);
+    expect(metrics.avg_completion_time_ms).toBe(30000);
+    expect(metrics.avg_queue_time_ms).toBe(1000);
+  });
+
+  it('starts empty without a store file or with an unknown format', async () => {
+    expect(await openQueue().load()).toBe(0);
+
+    await fs.writeFile(storePath, JSON.stringify({ version: 2, jobs: [] }));
+    expect(await openQueue().load()).toBe(0);
+  });
+});
@@ -1,4 +1,6 @@
 import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { Logger } from './logger.js';
 
 export type JobStatus = 'queued' | 'generating' | 'processing' | 'complete' | 'failed' | 'expired';
@@ -7,6 +9,19 @@ export interface GenerateMapInput {
   prompt: string;
   size: 'small' | 'medium' | 'large';
   grid_size: number;
+  workflow?: string;
+  seed?: number;
+  /** Set for portrait/token/item art jobs; the image is assigned to this document instead of creating a scene */
+  art_target?: ArtTarget;
+}
+
+export interface ArtTarget {
+  kind: 'actor' | 'item';
+  name: string;
+  actor_id?: string;
+  item_id?: string;
+  assign_to?: 'portrait' | 'token' | 'both';
+  token_ring?: boolean;
 }
 
 export interface CreateJobParams {
@@ -57,6 +72,25 @@ export interface QueueMetrics {
   avg_queue_time_ms: number;
 }
 
+/**
+ * Totals for jobs that have been cleaned up, so metrics cover the queue's whole history
+ */
+interface QueueHistory {
+  archived_jobs: number;
+  completed_jobs: number;
+  failed_jobs: number;
+  started_jobs: number;
+  total_completion_time_ms: number;
+  total_queue_time_ms: number;
+}
+
+interface PersistedQueueState {
+  version: 1;
+  job_id_counter: number;
+  jobs: JobData[];
+  history: QueueHistory;
+}
+
 interface JobQueueConfig {
   ttl_minutes: number;
   max_concurrent_jobs: number;
@@ -64,7 +98,7 @@ interface JobQueueConfig {
   retry_backoff_ms: number;
 }
 
-const JOB_STAGES = {
+export const JOB_STAGES = {
   QUEUED: 'Queued for processing',
   VALIDATING: 'Validating parameters',
   SUBMITTING: 'Submitting to ComfyUI',
@@ -105,13 +139,26 @@ export class JobQueue {
   private cleanupTimer?: NodeJS.Timeout | undefined;
   private jobIdCounter = 0;
   private onJobCompleted: ((jobId: string, data: JobCompletionNotificationData) => void) | undefined;
+  private storePath: string | undefined;
+  private persistChain: Promise<void> = Promise.resolve();
+  private history: QueueHistory = {
+    archived_jobs: 0,
+    completed_jobs: 0,
+    failed_jobs: 0,
+    started_jobs: 0,
+    total_completion_time_ms: 0,
+    total_queue_time_ms: 0
+  };
 
   constructor(options: {
     logger: Logger;
-    onJobCompleted?: (jobId: string, data: JobCompletionNotificationData) => void
+    onJobCompleted?: (jobId: string, data: JobCompletionNotificationData) => void;
+    /** JSON file to persist jobs and metrics history to; in-memory only when omitted */
+    storePath?: string;
   }) {
     this.logger = options.logger.child({ component: 'JobQueue' });
     this.onJobCompleted = options.onJobCompleted;
+    this.storePath = options.storePath;
     this.config = {
       ttl_minutes: 30,
       max_concurrent_jobs: 2,
@@ -158,6 +205,7 @@ export class JobQueue {
 
     this.jobs.set(jobId, job);
     this.jobHashes.set(promptHash, jobId);
+    await this.persist();
 
     this.logger.info('Job created', {
       jobId,
@@ -183,10 +231,24 @@ export class JobQueue {
     job.started_at = Date.now();
     job.current_stage = JOB_STAGES.SUBMITTING;
     job.progress_percent = 10;
+    await this.persist();
 
     this.logger.info('Job started', { jobId, stage: job.current_stage });
   }
 
+  /**
+   * Record the ComfyUI prompt ID so the job can be cancelled or resumed after a restart
+   */
+  async setComfyUIJobId(jobId: string, promptId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    job.comfyui_job_id = promptId;
+    await this.persist();
+  }
+
   async updateJobProgress(jobId: string, progress: number, stage: string): Promise<void> {
     const job = this.jobs.get(jobId);
     if (!job) {
@@ -195,6 +257,7 @@ export class JobQueue {
 
     job.progress_percent = Math.min(100, Math.max(0, progress));
     job.current_stage = stage;
+    await this.persist();
 
     this.logger.debug('Job progress updated', {
       jobId,
@@ -214,6 +277,7 @@ export class JobQueue {
     job.progress_percent = 100;
     job.current_stage = JOB_STAGES.COMPLETE;
     job.result = result;
+    await this.persist();
 
     const completionTime = job.completed_at - (job.started_at || job.created_at);
     this.logger.info('Job completed', {
@@ -269,6 +333,77 @@ export class JobQueue {
         error
       });
     }
+
+    await this.persist();
+  }
+
+  /**
+   * Expire a job that can no longer complete, e.g. after a restart lost its ComfyUI prompt
+   */
+  async expireJob(jobId: string, reason: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    job.status = 'expired';
+    job.error = reason;
+    job.current_stage = 'Expired';
+    await this.persist();
+
+    this.logger.info('Job expired', { jobId, reason });
+  }
+
+  /**
+   * Jobs that were queued or in progress, e.g. when the backend last stopped
+   */
+  getUnfinishedJobs(): JobData[] {
+    return Array.from(this.jobs.values()).filter(job =>
+      ['queued', 'generating', 'processing'].includes(job.status)
+    );
+  }
+
+  /**
+   * Restore jobs and metrics history from the store file
+   * Returns the number of jobs loaded; a missing file is not an error
+   */
+  async load(): Promise<number> {
+    if (!this.storePath) {
+      return 0;
+    }
+
+    let state: PersistedQueueState;
+    try {
+      state = JSON.parse(await fs.readFile(this.storePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        this.logger.warn('Failed to read job store, starting with an empty queue', {
+          storePath: this.storePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      return 0;
+    }
+
+    if (state?.version !== 1 || !Array.isArray(state.jobs)) {
+      this.logger.warn('Ignoring job store with unknown format', { storePath: this.storePath });
+      return 0;
+    }
+
+    for (const job of state.jobs) {
+      this.jobs.set(job.id, job);
+      if (!['failed', 'expired'].includes(job.status)) {
+        this.jobHashes.set(job.prompt_hash, job.id);
+      }
+    }
+    this.jobIdCounter = state.job_id_counter || 0;
+    this.history = { ...this.history, ...state.history };
+
+    // Drop anything that expired while the backend was stopped
+    this.cleanupExpiredJobs();
+
+    this.logger.info('Job store loaded', { storePath: this.storePath, jobs: this.jobs.size });
+    return this.jobs.size;
   }
 
   async cancelJob(jobId: string): Promise<boolean> {
@@ -284,6 +419,7 @@ export class JobQueue {
     job.status = 'failed';
     job.error = 'Job cancelled by user';
     job.current_stage = 'Cancelled';
+    await this.persist();
 
     this.logger.info('Job cancelled', { jobId });
     return true;
@@ -292,28 +428,29 @@ export class JobQueue {
   async getQueueMetrics(): Promise<QueueMetrics> {
     const allJobs = Array.from(this.jobs.values());
 
+    // Combine live jobs with the history of jobs already cleaned up
     const completedJobs = allJobs.filter(j => j.status === 'complete');
-    const avgCompletionTime = completedJobs.length > 0
-      ? completedJobs.reduce((sum, job) => {
-          const completionTime = (job.completed_at || 0) - (job.started_at || job.created_at);
-          return sum + completionTime;
-        }, 0) / completedJobs.length
-      : 0;
+    const completedCount = completedJobs.length + this.history.completed_jobs;
+    const totalCompletionTime = completedJobs.reduce((sum, job) => {
+      const completionTime = (job.completed_at || 0) - (job.started_at || job.created_at);
+      return sum + completionTime;
+    }, this.history.total_completion_time_ms);
+    const avgCompletionTime = completedCount > 0 ? totalCompletionTime / completedCount : 0;
 
     const startedJobs = allJobs.filter(j => j.started_at);
-    const avgQueueTime = startedJobs.length > 0
-      ? startedJobs.reduce((sum, job) => {
-          const queueTime = (job.started_at || 0) - job.created_at;
-          return sum + queueTime;
-        }, 0) / startedJobs.length
-      : 0;
+    const startedCount = startedJobs.length + this.history.started_jobs;
+    const totalQueueTime = startedJobs.reduce((sum, job) => {
+      const queueTime = (job.started_at || 0) - job.created_at;
+      return sum + queueTime;
+    }, this.history.total_queue_time_ms);
+    const avgQueueTime = startedCount > 0 ? totalQueueTime / startedCount : 0;
 
     return {
-      total_jobs: allJobs.length,
+      total_jobs: allJobs.length + this.history.archived_jobs,
       queued_jobs: allJobs.filter(j => j.status === 'queued').length,
       active_jobs: allJobs.filter(j => ['generating', 'processing'].includes(j.status)).length,
-      completed_jobs: completedJobs.length,
-      failed_jobs: allJobs.filter(j => j.status === 'failed').length,
+      completed_jobs: completedCount,
+      failed_jobs: allJobs.filter(j => j.status === 'failed').length + this.history.failed_jobs,
       avg_completion_time_ms: avgCompletionTime,
       avg_queue_time_ms: avgQueueTime
     };
@@ -331,7 +468,10 @@ export class JobQueue {
     const hashInput = JSON.stringify({
       prompt: params.prompt.trim().toLowerCase(),
       size: params.size,
-      grid_size: params.grid_size
+      grid_size: params.grid_size,
+      workflow: params.workflow,
+      seed: params.seed,
+      art_target: params.art_target
     });
 
     return createHash('sha256')
@@ -357,6 +497,7 @@ export class JobQueue {
 
     for (const [jobId, job] of this.jobs.entries()) {
       if (now - job.created_at > ttlMs) {
+        this.archiveJob(job);
         job.status = 'expired';
         this.jobHashes.delete(job.prompt_hash);
         this.jobs.delete(jobId);
@@ -366,15 +507,71 @@ export class JobQueue {
 
     if (expiredCount > 0) {
       this.logger.info('Cleaned up expired jobs', { expiredCount });
+      void this.persist();
     }
   }
 
+  /**
+   * Fold a job into the metrics history before it is removed
+   */
+  private archiveJob(job: JobData): void {
+    this.history.archived_jobs++;
+
+    if (job.status === 'complete') {
+      this.history.completed_jobs++;
+      this.history.total_completion_time_ms += (job.completed_at || 0) - (job.started_at || job.created_at);
+    } else if (job.status === 'failed') {
+      this.history.failed_jobs++;
+    }
+
+    if (job.started_at) {
+      this.history.started_jobs++;
+      this.history.total_queue_time_ms += job.started_at - job.created_at;
+    }
+  }
+
+  /**
+   * Write the queue to the store file; writes are serialized and each replaces the file atomically
+   */
+  private persist(): Promise<void> {
+    if (!this.storePath) {
+      return Promise.resolve();
+    }
+
+    const storePath = this.storePath;
+    const state: PersistedQueueState = {
+      version: 1,
+      job_id_counter: this.jobIdCounter,
+      jobs: Array.from(this.jobs.values()),
+      history: this.history
+    };
+    const contents = JSON.stringify(state, null, 2);
+
+    this.persistChain = this.persistChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(storePath), { recursive: true });
+        const tempPath = `${storePath}.tmp`;
+        await fs.writeFile(tempPath, contents, 'utf8');
+        await fs.rename(tempPath, storePath);
+      })
+      .catch((error) => {
+        this.logger.warn('Failed to persist job queue', {
+          storePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+
+    return this.persistChain;
+  }
+
   async shutdown(): Promise<void> {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = undefined as NodeJS.Timeout | undefined;
     }
 
+    await this.persistChain;
+
     this.logger.info('JobQueue shutdown complete');
   }
 }
\ No newline at end of file
@@ -0,0 +1,312 @@
+/**
+ * MCP Prompts
+ *
+ * One-click starting points for common GM workflows. Each prompt is filled with live world data
+ * when the client requests it:
+ *
+ *   session-recap        Recap of the recent chat log (get-chat-messages)
+ *   prep-next-session    Session plan from a campaign dashboard journal (listJournals, getJournalContent)
+ *   describe-scene       Read-aloud description of the active scene (getActiveScene)
+ *   random-encounter     Encounter for the party on the current scene (getPartyCharacters, getCharacterInfo)
+ */
+
+import { FoundryClient } from './foundry-client.js';
+import { Logger } from './logger.js';
+import { SystemRegistry } from './systems/system-registry.js';
+import { detectGameSystem, getCachedSystemId } from './utils/system-detection.js';
+
+export interface PromptArgumentDescriptor {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDescriptor[];
+}
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+export interface FoundryPromptsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+}
+
+// Dashboards created by create-campaign-dashboard are named "<title> - Campaign Dashboard"
+const DASHBOARD_SUFFIX = 'campaign dashboard';
+
+// Long journals are cut so the prompt leaves room for the answer
+const MAX_JOURNAL_TEXT = 12000;
+
+const PROMPTS: PromptDescriptor[] = [
+  {
+    name: 'session-recap',
+    description: 'Write a "previously on..." recap of the last session from the Foundry chat log',
+    arguments: [
+      { name: 'messageCount', description: 'Number of recent chat messages to read (default: 100, max: 200)' },
+      { name: 'includeWhispers', description: 'Include whispered messages, which may contain GM secrets (true/false, default: false)' },
+      { name: 'style', description: 'Recap style, e.g. "narrative", "bullet points", "in-character bard" (default: narrative)' },
+    ],
+  },
+  {
+    name: 'prep-next-session',
+    description: 'Plan the next session from the campaign dashboard: current progress, open threads and the party',
+    arguments: [
+      { name: 'campaign', description: 'Campaign title or dashboard journal ID (default: the only or first campaign dashboard)' },
+      { name: 'focus', description: 'What to focus on, e.g. "a dungeon crawl", "social intrigue", "wrap up part 2"' },
+    ],
+  },
+  {
+    name: 'describe-scene',
+    description: 'Write a read-aloud description of the active scene from its name, notes and visible tokens',
+    arguments: [
+      { name: 'tone', description: 'Mood of the description, e.g. "eerie", "triumphant", "tense" (default: fitting the scene)' },
+      { name: 'audience', description: '"players" leaves out hidden tokens; "gm" includes them (default: players)' },
+    ],
+  },
+  {
+    name: 'random-encounter',
+    description: 'Build and run a random encounter for the party on the current scene',
+    arguments: [
+      { name: 'difficulty', description: 'Encounter difficulty, e.g. easy, medium, hard, deadly, or PF2e trivial to extreme (default: medium)' },
+      { name: 'environment', description: 'Where the encounter happens, e.g. "forest road at night" (default: the active scene)' },
+    ],
+  },
+];
+
+export class FoundryPrompts {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+
+  constructor({ foundryClient, logger, systemRegistry }: FoundryPromptsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'FoundryPrompts' });
+    this.systemRegistry = systemRegistry;
+  }
+
+  listPrompts(): { prompts: PromptDescriptor[] } {
+    return { prompts: PROMPTS };
+  }
+
+  async getPrompt(name: string, args: Record<string, string | undefined> = {}): Promise<PromptResult> {
+    this.logger.info('Building prompt', { name, args });
+
+    switch (name) {
+      case 'session-recap':
+        return this.buildSessionRecap(args);
+      case 'prep-next-session':
+        return this.buildPrepNextSession(args);
+      case 'describe-scene':
+        return this.buildDescribeScene(args);
+      case 'random-encounter':
+        return this.buildRandomEncounter(args);
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private async buildSessionRecap(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const messageCount = this.parseNumber(args.messageCount, 100);
+    const includeWhispers = args.includeWhispers === 'true';
+    const style = args.style || 'narrative';
+
+    const log = await this.query('foundry-mcp-bridge.get-chat-messages', { limit: messageCount, includeWhispers });
+    const messages = log.messages || [];
+
+    if (messages.length === 0) {
+      throw new Error('The chat log is empty; there is nothing to recap');
+    }
+
+    const transcript = messages.map((message: any) => {
+      const rolls = (message.rolls || []).map((roll: any) => `${roll.formula} = ${roll.total}`).join(', ');
+      return [
+        `[${message.speaker}]`,
+        message.flavor ? `(${message.flavor})` : null,
+        message.content || null,
+        rolls ? `{rolled ${rolls}}` : null,
+        message.whisper ? '(whisper)' : null,
+      ].filter(Boolean).join(' ');
+    }).join('\n');
+
+    return this.result('Session recap from the chat log', [
+      `Write a recap of our last tabletop RPG session for the players, in this style: ${style}.`,
+      'Cover the main events, decisions, fights and their outcomes, notable rolls, and any cliffhanger. Keep it under 400 words and do not invent events that are not in the log.',
+      `Chat log (${messages.length} messages, oldest first):`,
+      transcript,
+    ]);
+  }
+
+  private async buildPrepNextSession(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const journals = await this.query('foundry-mcp-bridge.listJournals', {});
+    const dashboards = (journals || []).filter((journal: any) =>
+      journal.name?.toLowerCase().endsWith(DASHBOARD_SUFFIX)
+    );
+
+    const campaign = args.campaign?.toLowerCase();
+    const dashboard = campaign
+      ? dashboards.find((journal: any) => journal.id === args.campaign || journal.name.toLowerCase().includes(campaign))
+      : dashboards[0];
+
+    if (!dashboard) {
+      throw new Error(campaign
+        ? `No campaign dashboard matching "${args.campaign}"; dashboards: ${dashboards.map((journal: any) => journal.name).join(', ') || 'none'}`
+        : 'No campaign dashboard found; create one with create-campaign-dashboard first');
+    }
+
+    const content = await this.query('foundry-mcp-bridge.getJournalContent', { journalId: dashboard.id });
+    const party = await this.getParty();
+
+    return this.result(`Next session plan for ${dashboard.name}`, [
+      'Help me prepare the next session of my tabletop RPG campaign.',
+      args.focus ? `I want the session to focus on: ${args.focus}.` : null,
+      'Using the campaign dashboard below, summarise where the party stands, list open plot threads, and propose an outline for the next session with 3-5 scenes, key NPCs, one optional encounter and a possible cliffhanger. Point out which campaign parts look finished and which should be next.',
+      `Party: ${this.describeParty(party)}`,
+      `Campaign dashboard "${dashboard.name}" (journal ${dashboard.id}):`,
+      this.truncate(this.toPlainText(content?.content || '')),
+    ]);
+  }
+
+  private async buildDescribeScene(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const scene = await this.query('foundry-mcp-bridge.getActiveScene');
+    const forGm = args.audience === 'gm';
+
+    const tokens = (scene.tokens || []).filter((token: any) => forGm || !token.hidden);
+    const tokenCounts = new Map<string, number>();
+    for (const token of tokens) {
+      const label = forGm && token.hidden ? `${token.name} (hidden)` : token.name;
+      tokenCounts.set(label, (tokenCounts.get(label) || 0) + 1);
+    }
+    const tokenList = Array.from(tokenCounts.entries())
+      .map(([label, count]) => (count > 1 ? `${label} x${count}` : label))
+      .join(', ');
+
+    const notes = (scene.notes || []).map((note: any) => note.text).filter(Boolean);
+
+    return this.result(`Description of ${scene.name}`, [
+      `Write a vivid read-aloud description of the scene "${scene.name}" for my players${args.tone ? `, with a ${args.tone} tone` : ''}.`,
+      'Use two or three short paragraphs in second person, appeal to more than one sense, and end on something the characters can act on. Only mention creatures a character could plausibly notice.',
+      forGm ? 'Afterwards, add a short GM-only note on the hidden creatures and how they might reveal themselves.' : null,
+      `Scene size: ${scene.width} x ${scene.height} pixels, ${scene.walls} walls, ${scene.lights} lights.`,
+      `Tokens on the scene: ${tokenList || 'none'}`,
+      notes.length > 0 ? `Map notes: ${notes.join('; ')}` : null,
+    ]);
+  }
+
+  private async buildRandomEncounter(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const difficulty = args.difficulty || 'medium';
+    const party = await this.getParty();
+
+    let sceneName: string | null = null;
+    try {
+      const scene = await this.query('foundry-mcp-bridge.getActiveScene');
+      sceneName = scene?.name ?? null;
+    } catch (error) {
+      this.logger.warn('No active scene for encounter prompt', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    const environment = args.environment || (sceneName ? `the scene "${sceneName}"` : 'a location of your choice');
+
+    return this.result(`Random ${difficulty} encounter`, [
+      `Run a random ${difficulty} encounter for my party in ${environment}.`,
+      `Party: ${this.describeParty(party)}`,
+      `1. Call suggest-encounter with difficulty "${difficulty}" and filters that fit the environment, and pick the proposal that makes the most interesting fight.`,
+      '2. Give the encounter a short hook: why the creatures are here and what they want.',
+      '3. Ask me to confirm, then place the creatures on the scene (suggest-encounter with placeOnScene, or create-actor-from-compendium) and start the fight with start-combat.',
+      'Describe tactics for the creatures in a few bullet points.',
+    ]);
+  }
+
+  /**
+   * Party members with their level when the game system adapter can read it
+   */
+  private async getParty(): Promise<Array<{ name: string; level?: number }>> {
+    const party = await this.query('foundry-mcp-bridge.getPartyCharacters');
+    if (!Array.isArray(party) || party.length === 0) {
+      return [];
+    }
+
+    let adapter = null;
+    try {
+      const gameSystem = await detectGameSystem(this.foundryClient, this.logger);
+      adapter = this.systemRegistry.getAdapter(getCachedSystemId() || gameSystem);
+    } catch (error) {
+      this.logger.warn('Could not detect game system for party levels', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    const members: Array<{ name: string; level?: number }> = [];
+    for (const character of party) {
+      const member: { name: string; level?: number } = { name: character.name };
+      if (adapter) {
+        try {
+          const actorData = await this.query('foundry-mcp-bridge.getCharacterInfo', { characterId: character.id });
+          const stats = adapter.extractCharacterStats(actorData);
+          // DSA5 reports its Erfahrungsgrad under experience.level
+          const level = stats.level ?? stats.experience?.level;
+          if (typeof level === 'number' && !isNaN(level)) {
+            member.level = level;
+          }
+        } catch (error) {
+          this.logger.warn('Could not read party member level', { name: character.name });
+        }
+      }
+      members.push(member);
+    }
+
+    return members;
+  }
+
+  private describeParty(party: Array<{ name: string; level?: number }>): string {
+    if (party.length === 0) {
+      return 'no player characters found';
+    }
+    return party.map(member => (member.level !== undefined ? `${member.name} (level ${member.level})` : member.name)).join(', ');
+  }
+
+  private async query(method: string, data?: any): Promise<any> {
+    const result = await this.foundryClient.query(method, data);
+
+    // GM-only queries answer with an error object instead of throwing
+    if (result && typeof result === 'object' && !Array.isArray(result) && result.success === false && result.error) {
+      throw new Error(result.error);
+    }
+
+    return result;
+  }
+
+  private result(description: string, lines: Array<string | null>): PromptResult {
+    return {
+      description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: lines.filter(Boolean).join('\n\n') },
+      }],
+    };
+  }
+
+  private parseNumber(value: string | undefined, fallback: number): number {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) ? fallback : Math.min(Math.max(parsed, 1), 200);
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n\s*\n+/g, '\n')
+      .trim();
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_JOURNAL_TEXT ? `${text.substring(0, MAX_JOURNAL_TEXT)}\n[...truncated]` : text;
+  }
+}
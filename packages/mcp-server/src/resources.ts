@@ -0,0 +1,306 @@
+/**
+ * MCP Resources
+ *
+ * Exposes world data as browsable, attachable MCP resources so clients can pull a stat block
+ * or journal into context without a tool call:
+ *
+ *   foundry://actor/{actorId}                     Actor details (getCharacterInfo)
+ *   foundry://journal/{journalId}                 Journal first text page and page list
+ *   foundry://journal/{journalId}/page/{pageId}   A single journal page (HTML)
+ *   foundry://scene/active                        The active scene with tokens and notes
+ *   foundry://scenes                              All scenes
+ *   foundry://packs                               Compendium packs
+ *   foundry://creature-index                      Enhanced creature index summary
+ */
+
+import { FoundryClient } from './foundry-client.js';
+import { Logger } from './logger.js';
+import { WorldEvent, changesResourceList } from './world-events.js';
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+}
+
+export interface FoundryResourcesOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+const JSON_MIME = 'application/json';
+
+const HTML_MIME = 'text/html';
+
+// Actor and journal listings are cached; world events invalidate them early when documents come and go
+const LIST_CACHE_TTL_MS = 60000;
+
+const STATIC_RESOURCES: ResourceDescriptor[] = [
+  {
+    uri: 'foundry://scene/active',
+    name: 'Active scene',
+    description: 'The currently active scene with its tokens, notes and dimensions',
+    mimeType: JSON_MIME,
+  },
+  {
+    uri: 'foundry://scenes',
+    name: 'Scenes',
+    description: 'All scenes in the world, with the active one marked',
+    mimeType: JSON_MIME,
+  },
+  {
+    uri: 'foundry://packs',
+    name: 'Compendium packs',
+    description: 'All compendium packs with their document type and size',
+    mimeType: JSON_MIME,
+  },
+  {
+    uri: 'foundry://creature-index',
+    name: 'Creature index',
+    description: 'Enhanced creature index summary: when it was built and creature counts by pack, level or challenge rating, type and size',
+    mimeType: JSON_MIME,
+  },
+];
+
+const RESOURCE_TEMPLATES: ResourceTemplateDescriptor[] = [
+  {
+    uriTemplate: 'foundry://actor/{actorId}',
+    name: 'Actor',
+    description: 'Actor stat block: abilities, skills, items, spells and effects',
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: 'foundry://journal/{journalId}',
+    name: 'Journal',
+    description: 'Journal entry: first text page content and the list of pages',
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: 'foundry://journal/{journalId}/page/{pageId}',
+    name: 'Journal page',
+    description: 'A single journal page as HTML',
+    mimeType: HTML_MIME,
+  },
+];
+
+export class FoundryResources {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private documentResources: { resources: ResourceDescriptor[]; expires: number } | null = null;
+
+  constructor({ foundryClient, logger }: FoundryResourcesOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'FoundryResources' });
+  }
+
+  /**
+   * Static resources plus one entry per actor, journal and journal page in the world
+   */
+  async listResources(): Promise<{ resources: ResourceDescriptor[] }> {
+    if (this.documentResources && this.documentResources.expires > Date.now()) {
+      return { resources: [...STATIC_RESOURCES, ...this.documentResources.resources] };
+    }
+
+    const resources: ResourceDescriptor[] = [];
+    let complete = true;
+
+    // Listing must not fail when Foundry is disconnected; the static entries are still useful
+    try {
+      const actors = await this.query('foundry-mcp-bridge.listActors', {});
+      for (const actor of actors || []) {
+        resources.push({
+          uri: `foundry://actor/${actor.id}`,
+          name: actor.name,
+          description: `Actor (${actor.type})`,
+          mimeType: JSON_MIME,
+        });
+      }
+    } catch (error) {
+      complete = false;
+      this.logger.warn('Could not list actors for resources', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    try {
+      const journals = await this.query('foundry-mcp-bridge.listJournals', {});
+      for (const journal of journals || []) {
+        resources.push({
+          uri: `foundry://journal/${journal.id}`,
+          name: journal.name,
+          description: `Journal (${journal.pageCount} page${journal.pageCount === 1 ? '' : 's'})`,
+          mimeType: JSON_MIME,
+        });
+        for (const page of journal.pages || []) {
+          resources.push({
+            uri: `foundry://journal/${journal.id}/page/${page.id}`,
+            name: `${journal.name}: ${page.name}`,
+            description: `Journal page (${page.type})`,
+            mimeType: page.type === 'text' ? HTML_MIME : 'text/plain',
+          });
+        }
+      }
+    } catch (error) {
+      complete = false;
+      this.logger.warn('Could not list journals for resources', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    if (complete) {
+      this.documentResources = { resources, expires: Date.now() + LIST_CACHE_TTL_MS };
+    }
+
+    return { resources: [...STATIC_RESOURCES, ...resources] };
+  }
+
+  /**
+   * Drop the cached listing when a world event adds, removes or renames an actor, journal or page
+   */
+  handleWorldEvent(event: WorldEvent): void {
+    if (this.documentResources && changesResourceList(event)) {
+      this.logger.debug('Resource list invalidated', { documentType: event.documentType, action: event.action, id: event.id });
+      this.documentResources = null;
+    }
+  }
+
+  listResourceTemplates(): { resourceTemplates: ResourceTemplateDescriptor[] } {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  }
+
+  async readResource(uri: string): Promise<ResourceContents> {
+    const match = /^foundry:\/\/(.+)$/.exec(uri);
+    if (!match) {
+      throw new Error(`Unsupported resource URI: ${uri}`);
+    }
+
+    const segments = match[1].split('/').map(segment => decodeURIComponent(segment));
+
+    this.logger.debug('Reading resource', { uri });
+
+    switch (segments[0]) {
+      case 'actor': {
+        if (segments.length !== 2 || !segments[1]) break;
+        const actor = await this.query('foundry-mcp-bridge.getCharacterInfo', { characterId: segments[1] });
+        return this.json(uri, actor);
+      }
+
+      case 'journal': {
+        if (segments.length === 2 && segments[1]) {
+          const journal = await this.query('foundry-mcp-bridge.getJournalContent', { journalId: segments[1] });
+          if (!journal) {
+            throw new Error(`Journal not found: ${segments[1]}`);
+          }
+          return this.json(uri, journal);
+        }
+        if (segments.length === 4 && segments[2] === 'page' && segments[1] && segments[3]) {
+          const page = await this.query('foundry-mcp-bridge.getJournalPageContent', { journalId: segments[1], pageId: segments[3] });
+          if (!page) {
+            throw new Error(`Journal page not found: ${segments[3]}`);
+          }
+          return {
+            contents: [{ uri, mimeType: page.type === 'text' ? HTML_MIME : 'text/plain', text: page.content || '' }],
+          };
+        }
+        break;
+      }
+
+      case 'scene':
+        if (segments.length === 2 && segments[1] === 'active') {
+          return this.json(uri, await this.query('foundry-mcp-bridge.getActiveScene'));
+        }
+        break;
+
+      case 'scenes':
+        if (segments.length === 1) {
+          return this.json(uri, await this.query('foundry-mcp-bridge.list-scenes', {}));
+        }
+        break;
+
+      case 'packs':
+        if (segments.length === 1) {
+          return this.json(uri, await this.query('foundry-mcp-bridge.getAvailablePacks'));
+        }
+        break;
+
+      case 'creature-index':
+        if (segments.length === 1) {
+          return this.json(uri, await this.readCreatureIndexSummary());
+        }
+        break;
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Counts over the enhanced creature index; the creatures themselves run to megabytes and are
+   * searched with list-creatures-by-criteria instead
+   */
+  private async readCreatureIndexSummary(): Promise<Record<string, unknown>> {
+    const version = await this.query('foundry-mcp-bridge.getEnhancedCreatureIndexVersion');
+    if (!version || version.enabled === false) {
+      return { enabled: false, message: 'The enhanced creature index is disabled in the Foundry MCP Bridge module settings' };
+    }
+
+    const creatures: any[] = await this.query('foundry-mcp-bridge.getEnhancedCreatureIndex') || [];
+    const byPack: Record<string, number> = {};
+    const byLevel = new Map<number, number>();
+    const byCreatureType: Record<string, number> = {};
+    const bySize: Record<string, number> = {};
+    const count = (counts: Record<string, number>, key: unknown) => {
+      if (typeof key === 'string' && key) {
+        counts[key] = (counts[key] ?? 0) + 1;
+      }
+    };
+
+    for (const creature of creatures) {
+      count(byPack, creature.packLabel || creature.pack);
+      count(byCreatureType, creature.creatureType?.toLowerCase());
+      count(bySize, creature.size?.toLowerCase());
+
+      // D&D 5e and Starfinder NPCs have a CR, everything else a level
+      const level = creature.challengeRating ?? creature.level;
+      if (typeof level === 'number') {
+        byLevel.set(level, (byLevel.get(level) ?? 0) + 1);
+      }
+    }
+
+    return {
+      enabled: true,
+      gameSystem: version.gameSystem,
+      builtAt: version.timestamp ? new Date(version.timestamp).toISOString() : null,
+      totalCreatures: creatures.length,
+      byPack,
+      byLevel: Object.fromEntries(Array.from(byLevel.entries()).sort(([a], [b]) => a - b).map(([level, total]) => [String(level), total])),
+      byCreatureType,
+      bySize,
+      hint: 'Use list-creatures-by-criteria to search the creatures',
+    };
+  }
+
+  private async query(method: string, data?: any): Promise<any> {
+    const result = await this.foundryClient.query(method, data);
+
+    // GM-only queries answer with an error object instead of throwing
+    if (result && typeof result === 'object' && !Array.isArray(result) && result.success === false && result.error) {
+      throw new Error(result.error);
+    }
+
+    return result;
+  }
+
+  private json(uri: string, data: unknown): ResourceContents {
+    return {
+      contents: [{ uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * D&D 5e Actor Updates
+ *
+ * Validates friendly update-actor fields and maps them to D&D 5e data paths.
+ * Character level comes from class items, so only NPCs can be "leveled" (by CR).
+ */
+
+import { z } from 'zod';
+import type { ActorUpdateFields, ActorUpdatePlan } from '../types.js';
+
+const ABILITY_KEYS = ['str', 'dex', 'con', 'int', 'wis', 'cha'] as const;
+const CURRENCY_KEYS = ['pp', 'gp', 'ep', 'sp', 'cp'] as const;
+
+/**
+ * Valid challenge ratings: 0, 1/8, 1/4, 1/2, then whole numbers to 30
+ */
+const FRACTIONAL_CR = [0, 0.125, 0.25, 0.5];
+
+export const DnD5eActorUpdateSchema = z.object({
+  hp: z.number().int().min(0).optional(),
+  maxHp: z.number().int().min(1).optional(),
+  abilities: z.record(z.enum(ABILITY_KEYS), z.number().int().min(1).max(30)).optional(),
+  level: z.number().min(0).max(30)
+    .refine(cr => FRACTIONAL_CR.includes(cr) || Number.isInteger(cr), 'CR must be 0, 0.125, 0.25, 0.5 or a whole number')
+    .optional(),
+  currency: z.record(z.enum(CURRENCY_KEYS), z.number().int().min(0)).optional(),
+  biography: z.string().optional(),
+}).strict();
+
+/**
+ * Build the D&D 5e update payload for friendly actor fields
+ */
+export function buildDnD5eActorUpdate(actorData: any, fields: ActorUpdateFields, paths: Record<string, string | null>): ActorUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+
+  if (fields.hp !== undefined) {
+    updates[`${paths.hitPoints}.value`] = fields.hp;
+  }
+  if (fields.maxHp !== undefined) {
+    // Characters normally derive max HP from class hit dice; a stored max overrides that
+    updates[`${paths.hitPoints}.max`] = fields.maxHp;
+    if (actorData.type === 'character') {
+      notes.push('Max HP set as an override of the value calculated from class levels');
+    }
+  }
+
+  for (const [key, value] of Object.entries(fields.abilities ?? {})) {
+    updates[`${paths.abilities}.${key}.value`] = value;
+  }
+
+  if (fields.level !== undefined) {
+    if (actorData.type !== 'npc') {
+      throw new Error('D&D 5e character level comes from class items; change the class levels instead');
+    }
+    updates[paths.challengeRating as string] = fields.level;
+    notes.push(`NPC level set as challenge rating ${fields.level}`);
+  }
+
+  for (const [denomination, amount] of Object.entries(fields.currency ?? {})) {
+    updates[`${paths.currency}.${denomination}`] = amount;
+  }
+
+  if (fields.biography !== undefined) {
+    updates[paths.biography as string] = fields.biography;
+  }
+
+  return { updates, notes };
+}
@@ -5,8 +5,14 @@
  * Handles creature indexing, filtering, formatting, and data extraction.
  */
 
-import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, DnD5eCreatureIndex } from '../types.js';
+import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, DnD5eCreatureIndex, DamageRequest, HitPointChangeResult, EncounterBudget, EncounterCost, CheckRequest, CheckRoll, CheckOutcome, DiceRollResult, ActorUpdateFields, ActorUpdatePlan, InventoryItemChange, ItemUpdatePlan, TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
 import { DnD5eFiltersSchema, matchesDnD5eFilters, describeDnD5eFilters, type DnD5eFilters } from './filters.js';
+import { calculateDnD5eDamage, calculateDnD5eHealing } from './damage.js';
+import { getDnD5eEncounterBudget, calculateDnD5eEncounterCost } from './encounter.js';
+import { buildDnD5eCheckRoll, evaluateDnD5eCheck } from './checks.js';
+import { DnD5eActorUpdateSchema, buildDnD5eActorUpdate } from './actor-update.js';
+import { isDnD5eInventoryItem, getDnD5eItemQuantity, buildDnD5eItemUpdate } from './inventory.js';
+import { planDnD5eTreasure, getDnD5eItemValue, buildDnD5eCurrencyDeposit } from './treasure.js';
 
 /**
  * D&D 5e system adapter
@@ -71,6 +77,8 @@ export class DnD5eAdapter implements SystemAdapter {
       spells: 'system.spells',
       legendaryActions: 'system.resources.legact',
       legendaryResistances: 'system.resources.legres',
+      currency: 'system.currency',
+      biography: 'system.details.biography.value',
       // PF2e-specific paths don't exist in D&D 5e
       perception: null,
       saves: null,
@@ -291,4 +299,92 @@ export class DnD5eAdapter implements SystemAdapter {
 
     return stats;
   }
+
+  /**
+   * Calculate damage using D&D 5e rules (immunities, resistances, vulnerabilities, temp HP)
+   */
+  calculateDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+    return calculateDnD5eDamage(actorData, request);
+  }
+
+  /**
+   * Calculate healing (capped at max HP)
+   */
+  calculateHealing(actorData: any, amount: number): HitPointChangeResult {
+    return calculateDnD5eHealing(actorData, amount);
+  }
+
+  /**
+   * Get encounter thresholds (DMG XP thresholds per character level)
+   */
+  getEncounterBudget(partyLevels: number[]): EncounterBudget {
+    return getDnD5eEncounterBudget(partyLevels);
+  }
+
+  /**
+   * Calculate encounter cost (monster XP with group multiplier)
+   */
+  calculateEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+    return calculateDnD5eEncounterCost(creaturePowerLevels, partyLevels);
+  }
+
+  /**
+   * Build a d20 check from ability, skill or save modifiers
+   */
+  buildCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+    return buildDnD5eCheckRoll(actorData, check);
+  }
+
+  /**
+   * Compare a roll against a DC (natural 20/1 are reported only)
+   */
+  evaluateCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+    return evaluateDnD5eCheck(check, roll, dc);
+  }
+
+  getActorUpdateSchema() {
+    return DnD5eActorUpdateSchema;
+  }
+
+  /**
+   * Map friendly fields to D&D 5e paths (NPC level sets the CR)
+   */
+  buildActorUpdate(actorData: any, fields: ActorUpdateFields): ActorUpdatePlan {
+    return buildDnD5eActorUpdate(actorData, fields, this.getDataPaths());
+  }
+
+  isInventoryItem(itemType: string): boolean {
+    return isDnD5eInventoryItem(itemType);
+  }
+
+  getItemQuantity(itemData: any): number {
+    return getDnD5eItemQuantity(itemData);
+  }
+
+  /**
+   * Quantity, equipped and attunement for weapons, equipment, consumables, tools and loot
+   */
+  buildItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+    return buildDnD5eItemUpdate(itemData, change);
+  }
+
+  /**
+   * DMG individual treasure or hoard by CR tier
+   */
+  planTreasure(request: TreasureRequest, random?: () => number): TreasurePlan {
+    return planDnD5eTreasure(request, random);
+  }
+
+  getItemValue(itemData: any): number | undefined {
+    return getDnD5eItemValue(itemData);
+  }
+
+  buildCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+    return buildDnD5eCurrencyDeposit(actorData, currency);
+  }
+
+  getLootActorType(): string {
+    // D&D 5e has no loot actor type; an NPC holds the loot
+    return 'npc';
+  }
 }
@@ -0,0 +1,144 @@
+/**
+ * D&D 5e Checks
+ *
+ * Builds d20 check formulas from actor data and compares results against a DC.
+ * Natural 20s and 1s are reported but do not change the outcome of ability checks or saves.
+ */
+
+import type { CheckRequest, CheckRoll, CheckOutcome, DiceRollResult } from '../types.js';
+
+const ABILITY_KEYS: Record<string, string> = {
+  str: 'str', strength: 'str',
+  dex: 'dex', dexterity: 'dex',
+  con: 'con', constitution: 'con',
+  int: 'int', intelligence: 'int',
+  wis: 'wis', wisdom: 'wis',
+  cha: 'cha', charisma: 'cha',
+};
+
+const SKILL_KEYS: Record<string, string> = {
+  acrobatics: 'acr',
+  animalhandling: 'ani',
+  arcana: 'arc',
+  athletics: 'ath',
+  deception: 'dec',
+  history: 'his',
+  insight: 'ins',
+  intimidation: 'itm',
+  investigation: 'inv',
+  medicine: 'med',
+  nature: 'nat',
+  perception: 'prc',
+  performance: 'prf',
+  persuasion: 'per',
+  religion: 'rel',
+  sleightofhand: 'slt',
+  stealth: 'ste',
+  survival: 'sur',
+};
+
+const ABILITY_LABELS: Record<string, string> = {
+  str: 'Strength', dex: 'Dexterity', con: 'Constitution', int: 'Intelligence', wis: 'Wisdom', cha: 'Charisma',
+};
+
+function resolveAbility(name: string | undefined): string {
+  const key = ABILITY_KEYS[(name ?? '').toLowerCase().trim()];
+  if (!key) {
+    throw new Error(`Unknown ability "${name}"; use str, dex, con, int, wis or cha`);
+  }
+  return key;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && !isNaN(number) ? number : undefined;
+}
+
+/**
+ * Build a D&D 5e check roll
+ */
+export function buildDnD5eCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+  const system = actorData?.system ?? {};
+  const notes: string[] = [];
+  let bonus: number | undefined;
+  let label: string;
+
+  switch (check.type) {
+    case 'ability': {
+      const key = resolveAbility(check.name);
+      bonus = toNumber(system.abilities?.[key]?.mod);
+      label = `${ABILITY_LABELS[key]} check`;
+      break;
+    }
+
+    case 'save': {
+      const key = resolveAbility(check.name);
+      const save = system.abilities?.[key]?.save;
+      // dnd5e 4.x stores the save as { value }, earlier versions as a number
+      bonus = toNumber(typeof save === 'object' ? save?.value : save) ?? toNumber(system.abilities?.[key]?.mod);
+      label = `${ABILITY_LABELS[key]} saving throw`;
+      break;
+    }
+
+    case 'skill':
+    case 'perception': {
+      const name = check.type === 'perception' ? 'perception' : (check.name ?? '');
+      const normalized = name.toLowerCase().replace(/[\s_-]+/g, '');
+      const key = SKILL_KEYS[normalized] ?? (system.skills?.[normalized] ? normalized : undefined);
+      if (!key || !system.skills?.[key]) {
+        throw new Error(`Unknown skill "${name}"`);
+      }
+      bonus = toNumber(system.skills[key].total) ?? toNumber(system.skills[key].mod);
+      label = `${name.charAt(0).toUpperCase()}${name.slice(1)} check`;
+      break;
+    }
+
+    case 'initiative':
+      bonus = toNumber(system.attributes?.init?.total) ?? toNumber(system.attributes?.init?.mod) ?? toNumber(system.abilities?.dex?.mod);
+      label = 'Initiative';
+      break;
+  }
+
+  if (bonus === undefined) {
+    notes.push('Modifier not found in actor data; rolled without it');
+    bonus = 0;
+  }
+
+  const modifier = bonus + (check.modifier ?? 0);
+  const d20 = check.advantage === 'advantage' ? '2d20kh' : check.advantage === 'disadvantage' ? '2d20kl' : '1d20';
+  if (check.advantage) {
+    label += ` with ${check.advantage}`;
+  }
+
+  return {
+    formula: modifier === 0 ? d20 : `${d20} ${modifier > 0 ? '+' : '-'} ${Math.abs(modifier)}`,
+    label,
+    modifier,
+    notes,
+  };
+}
+
+/**
+ * Compare a D&D 5e roll against a DC: success when the total meets or beats it
+ */
+export function evaluateDnD5eCheck(_check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+  const d20 = roll.dice.find(die => die.faces === 20 && die.results.length === 1);
+  const natural = d20?.results[0];
+  const notes: string[] = [];
+
+  if (natural === 20) notes.push('Natural 20');
+  if (natural === 1) notes.push('Natural 1');
+
+  if (dc === undefined) {
+    return { success: null, degree: null, natural, notes };
+  }
+
+  const success = roll.total >= dc;
+  return {
+    success,
+    degree: success ? 'success' : 'failure',
+    margin: roll.total - dc,
+    natural,
+    notes,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * D&D 5e Damage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateDnD5eDamage, calculateDnD5eHealing } from './damage.js';
+
+function actor(hp: Record<string, number>, traits: Record<string, any> = {}) {
+  return { system: { attributes: { hp }, traits } };
+}
+
+describe('calculateDnD5eDamage', () => {
+  it('lets temporary HP absorb damage first', () => {
+    const result = calculateDnD5eDamage(actor({ value: 20, max: 30, temp: 5 }), { amount: 8 });
+    expect(result.after).toEqual({ value: 17, max: 30, temp: 0 });
+    expect(result.updates).toEqual({ 'system.attributes.hp.value': 17, 'system.attributes.hp.temp': 0 });
+    expect(result.adjustments).toContain('5 absorbed by temporary HP');
+  });
+
+  it('halves resisted damage and doubles it on vulnerability', () => {
+    expect(calculateDnD5eDamage(actor({ value: 20, max: 30 }, { dr: { value: ['fire'] } }), { amount: 9, damageType: 'fire' }).appliedAmount).toBe(4);
+    expect(calculateDnD5eDamage(actor({ value: 20, max: 30 }, { dv: { value: ['cold'] } }), { amount: 9, damageType: 'cold' }).appliedAmount).toBe(18);
+    expect(calculateDnD5eDamage(actor({ value: 20, max: 30 }, { di: { value: ['poison'] } }), { amount: 9, damageType: 'poison' }).appliedAmount).toBe(0);
+  });
+
+  it('stops at 0 HP and reports the drop', () => {
+    const result = calculateDnD5eDamage(actor({ value: 4, max: 30 }), { amount: 10 });
+    expect(result.after.value).toBe(0);
+    expect(result.droppedToZero).toBe(true);
+  });
+});
+
+describe('calculateDnD5eHealing', () => {
+  it('caps healing at max HP', () => {
+    const result = calculateDnD5eHealing(actor({ value: 25, max: 30, temp: 3 }), 10);
+    expect(result.after).toEqual({ value: 30, max: 30, temp: 3 });
+    expect(result.appliedAmount).toBe(5);
+    expect(result.adjustments).toEqual(['capped at max HP 30']);
+  });
+
+  it('counts temporary max HP towards the cap', () => {
+    expect(calculateDnD5eHealing(actor({ value: 30, max: 30, tempmax: 5 }), 10).after.value).toBe(35);
+  });
+
+  it('never lowers HP that is already above max', () => {
+    const result = calculateDnD5eHealing(actor({ value: 40, max: 30 }), 5);
+    expect(result.after.value).toBe(40);
+    expect(result.appliedAmount).toBe(0);
+  });
+});
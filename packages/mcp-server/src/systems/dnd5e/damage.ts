@@ -0,0 +1,124 @@
+/**
+ * D&D 5e Damage Rules
+ *
+ * Pure calculations for applying damage and healing to D&D 5e actors.
+ * The resulting update payload is applied by the Foundry module.
+ */
+
+import type { DamageRequest, HitPointChangeResult, HitPointState } from '../types.js';
+import { getHealedValue } from '../hit-points.js';
+
+const HP_PATHS = {
+  value: 'system.attributes.hp.value',
+  temp: 'system.attributes.hp.temp'
+} as const;
+
+/**
+ * Read a trait list (di/dr/dv) that may be an array, a serialized Set, or a custom string
+ */
+function readTraitValues(trait: any): string[] {
+  if (!trait) {
+    return [];
+  }
+
+  const values: string[] = Array.isArray(trait.value) ? [...trait.value] : [];
+
+  if (typeof trait.custom === 'string' && trait.custom.trim()) {
+    values.push(...trait.custom.split(';').map((v: string) => v.trim()));
+  }
+
+  return values.map(v => String(v).toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Read current hit points from D&D 5e actor data
+ */
+export function getDnD5eHitPoints(actorData: any): HitPointState {
+  const hp = actorData.system?.attributes?.hp || {};
+  const max = Number(hp.max ?? 0) + Number(hp.tempmax ?? 0);
+
+  return {
+    value: Number(hp.value ?? 0),
+    max,
+    temp: Number(hp.temp ?? 0)
+  };
+}
+
+/**
+ * Apply D&D 5e damage: immunity, resistance (halved, rounded down), vulnerability (doubled),
+ * then temporary hit points absorb damage before real hit points
+ */
+export function calculateDnD5eDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+  const before = getDnD5eHitPoints(actorData);
+  const traits = actorData.system?.traits || {};
+  const damageType = request.damageType?.toLowerCase();
+  const adjustments: string[] = [];
+
+  let amount = Math.max(0, Math.floor(request.amount));
+
+  if (damageType && !request.ignoreResistances) {
+    if (readTraitValues(traits.di).includes(damageType)) {
+      amount = 0;
+      adjustments.push(`immune to ${damageType}`);
+    } else {
+      if (readTraitValues(traits.dr).includes(damageType)) {
+        amount = Math.floor(amount / 2);
+        adjustments.push(`resistant to ${damageType} (halved)`);
+      }
+      if (readTraitValues(traits.dv).includes(damageType)) {
+        amount = amount * 2;
+        adjustments.push(`vulnerable to ${damageType} (doubled)`);
+      }
+    }
+  }
+
+  const absorbedByTemp = Math.min(before.temp, amount);
+  if (absorbedByTemp > 0) {
+    adjustments.push(`${absorbedByTemp} absorbed by temporary HP`);
+  }
+
+  const after: HitPointState = {
+    value: Math.max(0, before.value - (amount - absorbedByTemp)),
+    max: before.max,
+    temp: before.temp - absorbedByTemp
+  };
+
+  return {
+    before,
+    after,
+    requestedAmount: request.amount,
+    appliedAmount: amount,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: after.value,
+      [HP_PATHS.temp]: after.temp
+    },
+    droppedToZero: before.value > 0 && after.value === 0
+  };
+}
+
+/**
+ * Apply D&D 5e healing (temporary hit points are not restored by healing)
+ */
+export function calculateDnD5eHealing(actorData: any, amount: number): HitPointChangeResult {
+  const before = getDnD5eHitPoints(actorData);
+  const healing = Math.max(0, Math.floor(amount));
+  const newValue = getHealedValue(before, healing);
+  const adjustments: string[] = [];
+
+  if (before.value + healing > before.max) {
+    adjustments.push(`capped at max HP ${before.max}`);
+  }
+
+  return {
+    before,
+    after: { ...before, value: newValue },
+    requestedAmount: amount,
+    appliedAmount: newValue - before.value,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: newValue
+    },
+    droppedToZero: false
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * D&D 5e Encounter Budget
+ *
+ * XP thresholds and encounter multipliers from the Dungeon Master's Guide.
+ */
+
+import type { EncounterBudget, EncounterCost } from '../types.js';
+
+/**
+ * XP thresholds per character level: [easy, medium, hard, deadly]
+ */
+export const XP_THRESHOLDS_BY_LEVEL: Record<number, [number, number, number, number]> = {
+  1: [25, 50, 75, 100],
+  2: [50, 100, 150, 200],
+  3: [75, 150, 225, 400],
+  4: [125, 250, 375, 500],
+  5: [250, 500, 750, 1100],
+  6: [300, 600, 900, 1400],
+  7: [350, 750, 1100, 1700],
+  8: [450, 900, 1400, 2100],
+  9: [550, 1100, 1600, 2400],
+  10: [600, 1200, 1900, 2800],
+  11: [800, 1600, 2400, 3600],
+  12: [1000, 2000, 3000, 4500],
+  13: [1100, 2200, 3400, 5100],
+  14: [1250, 2500, 3800, 5700],
+  15: [1400, 2800, 4300, 6400],
+  16: [1600, 3200, 4800, 7200],
+  17: [2000, 3900, 5900, 8800],
+  18: [2100, 4200, 6300, 9500],
+  19: [2400, 4900, 7300, 10900],
+  20: [2800, 5700, 8500, 12700]
+};
+
+/**
+ * XP awarded per Challenge Rating
+ */
+export const XP_BY_CR: Record<string, number> = {
+  '0': 10, '0.125': 25, '0.25': 50, '0.5': 100,
+  '1': 200, '2': 450, '3': 700, '4': 1100, '5': 1800,
+  '6': 2300, '7': 2900, '8': 3900, '9': 5000, '10': 5900,
+  '11': 7200, '12': 8400, '13': 10000, '14': 11500, '15': 13000,
+  '16': 15000, '17': 18000, '18': 20000, '19': 22000, '20': 25000,
+  '21': 33000, '22': 41000, '23': 50000, '24': 62000, '25': 75000,
+  '26': 90000, '27': 105000, '28': 120000, '29': 135000, '30': 155000
+};
+
+/**
+ * Encounter multipliers, indexed by step; monster count selects the base step
+ */
+const MULTIPLIER_STEPS = [0.5, 1, 1.5, 2, 2.5, 3, 4, 5];
+
+const DIFFICULTIES = ['easy', 'medium', 'hard', 'deadly'] as const;
+
+/**
+ * Get XP value for a Challenge Rating (fractional CRs as decimals)
+ */
+export function getXPForCR(cr: number): number {
+  const exact = XP_BY_CR[String(cr)];
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  // Round unusual CR values to the nearest table entry
+  const nearest = Object.keys(XP_BY_CR)
+    .map(Number)
+    .reduce((best, value) => Math.abs(value - cr) < Math.abs(best - cr) ? value : best, 0);
+  return XP_BY_CR[String(nearest)];
+}
+
+function getMultiplierStep(monsterCount: number): number {
+  if (monsterCount <= 1) return 1;
+  if (monsterCount === 2) return 2;
+  if (monsterCount <= 6) return 3;
+  if (monsterCount <= 10) return 4;
+  if (monsterCount <= 14) return 5;
+  return 6;
+}
+
+/**
+ * Sum per-character XP thresholds for the party
+ */
+export function getDnD5eEncounterBudget(partyLevels: number[]): EncounterBudget {
+  const totals = [0, 0, 0, 0];
+
+  for (const level of partyLevels) {
+    const clamped = Math.max(1, Math.min(20, Math.round(level)));
+    XP_THRESHOLDS_BY_LEVEL[clamped].forEach((value, i) => {
+      totals[i] += value;
+    });
+  }
+
+  const partyLevel = partyLevels.length > 0
+    ? partyLevels.reduce((sum, level) => sum + level, 0) / partyLevels.length
+    : 0;
+
+  return {
+    unit: 'XP',
+    partyLevel: Math.round(partyLevel * 10) / 10,
+    partySize: partyLevels.length,
+    thresholds: DIFFICULTIES.map((difficulty, i) => ({ difficulty, value: totals[i] })),
+    defaultDifficulty: 'medium'
+  };
+}
+
+/**
+ * Sum monster XP and apply the encounter multiplier for group size
+ * Parties of fewer than three use the next higher multiplier, six or more the next lower
+ */
+export function calculateDnD5eEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+  const perCreature = creaturePowerLevels.map(cr => getXPForCR(cr));
+  const baseTotal = perCreature.reduce((sum, xp) => sum + xp, 0);
+  const notes: string[] = [];
+
+  let step = getMultiplierStep(creaturePowerLevels.length);
+  if (partyLevels.length > 0 && partyLevels.length < 3) {
+    step += 1;
+    notes.push('small party: multiplier increased one step');
+  } else if (partyLevels.length >= 6) {
+    step -= 1;
+    notes.push('large party: multiplier decreased one step');
+  }
+
+  const multiplier = MULTIPLIER_STEPS[Math.max(0, Math.min(MULTIPLIER_STEPS.length - 1, step))];
+  if (multiplier !== 1) {
+    notes.push(`${creaturePowerLevels.length} creature(s): XP multiplied by ${multiplier}`);
+  }
+
+  return {
+    total: Math.round(baseTotal * multiplier),
+    baseTotal,
+    perCreature,
+    notes
+  };
+}
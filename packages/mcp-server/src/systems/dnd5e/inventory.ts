@@ -0,0 +1,60 @@
+/**
+ * D&D 5e Inventory
+ *
+ * Quantity, equipped and attunement paths for physical D&D 5e items.
+ */
+
+import type { InventoryItemChange, ItemUpdatePlan } from '../types.js';
+
+// "backpack" is the container type before dnd5e 3.0
+const INVENTORY_TYPES = ['weapon', 'equipment', 'consumable', 'tool', 'loot', 'container', 'backpack'];
+
+// Item types that have no equipped state
+const UNEQUIPPABLE_TYPES = ['loot', 'container', 'backpack'];
+
+export function isDnD5eInventoryItem(itemType: string): boolean {
+  return INVENTORY_TYPES.includes(itemType);
+}
+
+export function getDnD5eItemQuantity(itemData: any): number {
+  return Number(itemData.system?.quantity ?? 1);
+}
+
+/**
+ * Whether an item needs attunement ("required" in dnd5e 3.x+, 1 in earlier versions)
+ */
+function requiresAttunement(itemData: any): boolean {
+  const attunement = itemData.system?.attunement;
+  return attunement === 'required' || attunement === 'optional' || attunement === 1 || attunement === 2;
+}
+
+/**
+ * Build the D&D 5e item update for an inventory change
+ */
+export function buildDnD5eItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+
+  if (change.quantity !== undefined) {
+    updates['system.quantity'] = change.quantity;
+  }
+
+  if (change.equipped !== undefined) {
+    if (UNEQUIPPABLE_TYPES.includes(itemData.type)) {
+      throw new Error(`${itemData.name} (${itemData.type}) cannot be equipped`);
+    }
+    updates['system.equipped'] = change.equipped;
+  }
+
+  if (change.attuned !== undefined) {
+    if (!requiresAttunement(itemData)) {
+      throw new Error(`${itemData.name} does not require attunement`);
+    }
+    updates['system.attuned'] = change.attuned;
+    if (change.attuned) {
+      notes.push('A creature can be attuned to at most three magic items');
+    }
+  }
+
+  return { updates, notes };
+}
@@ -0,0 +1,141 @@
+/**
+ * D&D 5e Treasure
+ *
+ * Coins from the DMG Individual Treasure and Treasure Hoard tables by CR tier (0-4, 5-10, 11-16, 17+).
+ * Hoards also hold magic items whose rarity rises with the tier. Currency lives on the actor (system.currency).
+ */
+
+import type { TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
+
+// [count, sides, multiplier] per denomination
+type CoinRoll = Partial<Record<'cp' | 'sp' | 'ep' | 'gp' | 'pp', [number, number, number]>>;
+
+// Value of one coin in gp
+const COIN_VALUES: Record<string, number> = { pp: 10, gp: 1, ep: 0.5, sp: 0.1, cp: 0.01 };
+
+// Individual treasure: d100 rows per tier, as [highest roll, coins]
+const INDIVIDUAL_TREASURE: Array<Array<[number, CoinRoll]>> = [
+  [
+    [30, { cp: [5, 6, 1] }],
+    [60, { sp: [4, 6, 1] }],
+    [70, { ep: [3, 6, 1] }],
+    [95, { gp: [3, 6, 1] }],
+    [100, { pp: [1, 6, 1] }],
+  ],
+  [
+    [30, { cp: [4, 6, 100], ep: [1, 6, 10] }],
+    [60, { sp: [6, 6, 10], gp: [2, 6, 10] }],
+    [70, { ep: [3, 6, 10], gp: [2, 6, 10] }],
+    [95, { gp: [4, 6, 10] }],
+    [100, { gp: [2, 6, 10], pp: [3, 6, 1] }],
+  ],
+  [
+    [20, { sp: [4, 6, 100], gp: [1, 6, 100] }],
+    [35, { ep: [1, 6, 100], gp: [1, 6, 100] }],
+    [75, { gp: [2, 6, 100], pp: [1, 6, 10] }],
+    [100, { gp: [2, 6, 100], pp: [2, 6, 10] }],
+  ],
+  [
+    [15, { ep: [2, 6, 1000], gp: [8, 6, 100] }],
+    [55, { gp: [1, 6, 1000], pp: [1, 6, 100] }],
+    [100, { gp: [1, 6, 1000], pp: [2, 6, 100] }],
+  ],
+];
+
+const HOARD_TREASURE: CoinRoll[] = [
+  { cp: [6, 6, 100], sp: [3, 6, 100], gp: [2, 6, 10] },
+  { cp: [2, 6, 100], sp: [2, 6, 1000], gp: [6, 6, 100], pp: [3, 6, 10] },
+  { gp: [4, 6, 1000], pp: [5, 6, 100] },
+  { gp: [12, 6, 1000], pp: [8, 6, 1000] },
+];
+
+// Magic items in a hoard per tier: [dice count, sides, bonus]
+const HOARD_ITEMS: Array<[number, number, number]> = [[1, 3, 0], [1, 4, 0], [1, 4, 1], [1, 6, 1]];
+
+const HOARD_RARITIES = [
+  ['common', 'uncommon'],
+  ['uncommon', 'rare'],
+  ['rare', 'veryRare'],
+  ['veryRare', 'legendary'],
+];
+
+const ITEM_TYPES = ['weapon', 'equipment', 'consumable', 'tool', 'loot'];
+
+function roll(count: number, sides: number, random: () => number): number {
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += Math.floor(random() * sides) + 1;
+  }
+  return total;
+}
+
+function tierForCR(cr: number): number {
+  return cr <= 4 ? 0 : cr <= 10 ? 1 : cr <= 16 ? 2 : 3;
+}
+
+/**
+ * Roll D&D 5e treasure for a CR
+ */
+export function planDnD5eTreasure(request: TreasureRequest, random: () => number = Math.random): TreasurePlan {
+  const tier = tierForCR(request.level);
+  const notes: string[] = [];
+
+  let coins: CoinRoll;
+  if (request.kind === 'hoard') {
+    coins = HOARD_TREASURE[tier];
+  } else {
+    const d100 = roll(1, 100, random);
+    coins = INDIVIDUAL_TREASURE[tier].find(([highest]) => d100 <= highest)![1];
+  }
+
+  const currency: Record<string, number> = {};
+  for (const [denomination, [count, sides, multiplier]] of Object.entries(coins)) {
+    currency[denomination] = roll(count, sides, random) * multiplier;
+  }
+
+  const [count, sides, bonus] = HOARD_ITEMS[tier];
+  const itemCount = request.kind === 'hoard' ? roll(count, sides, random) + bonus : 0;
+  const rarities = request.rarities ?? HOARD_RARITIES[tier];
+  const types = request.itemTypes ? ITEM_TYPES.filter(type => request.itemTypes!.includes(type)) : ITEM_TYPES;
+
+  notes.push(`${request.kind === 'hoard' ? 'Treasure hoard' : 'Individual treasure'} for CR ${['0-4', '5-10', '11-16', '17+'][tier]}`);
+
+  return {
+    currency,
+    currencyValue: Object.entries(currency).reduce((sum, [denomination, amount]) => sum + amount * COIN_VALUES[denomination], 0),
+    baseCurrency: 'gp',
+    itemCount,
+    itemQuery: {
+      types,
+      fields: ['system.rarity', 'system.price'],
+      filters: [{ path: 'system.rarity', in: rarities }],
+    },
+    maxItemValue: request.maxItemValue,
+    notes,
+  };
+}
+
+/**
+ * Item value in gp; dnd5e 2.x+ stores { value, denomination }, earlier versions a gp number
+ */
+export function getDnD5eItemValue(itemData: any): number | undefined {
+  const price = itemData.system?.price;
+  const value = typeof price === 'object' ? Number(price?.value) : Number(price);
+  if (!value || isNaN(value)) {
+    return undefined;
+  }
+  return value * (COIN_VALUES[price?.denomination ?? 'gp'] ?? 1);
+}
+
+/**
+ * Add coins to the actor's system.currency
+ */
+export function buildDnD5eCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+  const updates: Record<string, unknown> = {};
+  for (const [denomination, amount] of Object.entries(currency)) {
+    if (amount > 0) {
+      updates[`system.currency.${denomination}`] = Number(actorData.system?.currency?.[denomination] ?? 0) + amount;
+    }
+  }
+  return { updates, items: [] };
+}
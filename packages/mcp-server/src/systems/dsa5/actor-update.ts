@@ -0,0 +1,63 @@
+/**
+ * DSA5 Actor Updates
+ *
+ * Validates friendly update-actor fields and maps them to DSA5 data paths.
+ * Eigenschaften and maximum LeP are derived (initial + species + advances + modifier),
+ * so a new value is written by shifting a stored base value by the difference.
+ * Money is kept as items and is not handled here.
+ */
+
+import { z } from 'zod';
+import type { ActorUpdateFields, ActorUpdatePlan } from '../types.js';
+import { getDSA5LifePoints } from './damage.js';
+
+const ATTRIBUTE_KEYS = ['mu', 'kl', 'in', 'ch', 'ff', 'ge', 'ko', 'kk'] as const;
+
+export const DSA5ActorUpdateSchema = z.object({
+  hp: z.number().int().min(0).optional(),
+  maxHp: z.number().int().min(1).optional(),
+  abilities: z.record(z.enum(ATTRIBUTE_KEYS), z.number().int().min(1).max(30)).optional(),
+  level: z.number().int().min(0).optional(),
+  biography: z.string().optional(),
+}).strict();
+
+/**
+ * Build the DSA5 update payload for friendly actor fields
+ */
+export function buildDSA5ActorUpdate(actorData: any, fields: ActorUpdateFields, paths: Record<string, string | null>): ActorUpdatePlan {
+  const system = actorData.system ?? {};
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+  const lifePoints = getDSA5LifePoints(actorData);
+
+  if (fields.maxHp !== undefined) {
+    const initial = Number(system.status?.wounds?.initial ?? 0);
+    updates[`${paths.wounds}.initial`] = initial + (fields.maxHp - lifePoints.max);
+    notes.push(`Max LeP ${lifePoints.max} → ${fields.maxHp} by adjusting the base value`);
+  }
+
+  if (fields.hp !== undefined) {
+    // Current LeP is calculated from the stored value, so shift it by the same delta
+    const stored = Number(system.status?.wounds?.value ?? lifePoints.value);
+    updates[`${paths.wounds}.value`] = stored + (fields.hp - lifePoints.value);
+  }
+
+  for (const [key, value] of Object.entries(fields.abilities ?? {})) {
+    const characteristic = system.characteristics?.[key] ?? {};
+    const current = Number(characteristic.value ?? characteristic.initial ?? 0);
+    const advances = Number(characteristic.advances ?? 0);
+    updates[`${paths.characteristics}.${key}.advances`] = advances + (value - current);
+    notes.push(`${key.toUpperCase()} ${current} → ${value} by adjusting advances`);
+  }
+
+  if (fields.level !== undefined) {
+    updates[paths.level as string] = fields.level;
+    notes.push(`DSA5 has no levels; total adventure points (AP) set to ${fields.level}`);
+  }
+
+  if (fields.biography !== undefined) {
+    updates[paths.biography as string] = fields.biography;
+  }
+
+  return { updates, notes };
+}
@@ -5,8 +5,14 @@
  * Handles creature indexing, filtering, formatting, and data extraction.
  */
 
-import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, DSA5CreatureIndex } from '../types.js';
+import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, DSA5CreatureIndex, DamageRequest, HitPointChangeResult, EncounterBudget, EncounterCost, CheckRequest, CheckRoll, CheckOutcome, DiceRollResult, ActorUpdateFields, ActorUpdatePlan, InventoryItemChange, ItemUpdatePlan, TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
 import { DSA5FiltersSchema, matchesDSA5Filters, describeDSA5Filters, type DSA5Filters } from './filters.js';
+import { calculateDSA5Damage, calculateDSA5Healing } from './damage.js';
+import { getDSA5EncounterBudget, calculateDSA5EncounterCost } from './encounter.js';
+import { buildDSA5CheckRoll, evaluateDSA5Check } from './checks.js';
+import { DSA5ActorUpdateSchema, buildDSA5ActorUpdate } from './actor-update.js';
+import { isDSA5InventoryItem, getDSA5ItemQuantity, buildDSA5ItemUpdate } from './inventory.js';
+import { planDSA5Treasure, getDSA5ItemValue, buildDSA5CurrencyDeposit } from './treasure.js';
 import { FIELD_PATHS, getExperienceLevel, EIGENSCHAFT_NAMES } from './constants.js';
 
 /**
@@ -90,6 +96,12 @@ export class DSA5Adapter implements SystemAdapter {
       // Tradition
       tradition: FIELD_PATHS.TRADITION,
 
+      // Notes (Notizen)
+      biography: 'system.details.notes.value',
+
+      // Money is kept as items
+      currency: null,
+
       // D&D5e-specific paths don't exist in DSA5
       challengeRating: null,
       creatureType: null,
@@ -375,4 +387,91 @@ export class DSA5Adapter implements SystemAdapter {
 
     return stats;
   }
+
+  /**
+   * Calculate damage using DSA5 rules (RS reduces TP to SP, LeP)
+   */
+  calculateDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+    return calculateDSA5Damage(actorData, request);
+  }
+
+  /**
+   * Calculate healing (capped at max LeP)
+   */
+  calculateHealing(actorData: any, amount: number): HitPointChangeResult {
+    return calculateDSA5Healing(actorData, amount);
+  }
+
+  /**
+   * Get encounter thresholds (threat points per hero)
+   */
+  getEncounterBudget(partyLevels: number[]): EncounterBudget {
+    return getDSA5EncounterBudget(partyLevels);
+  }
+
+  /**
+   * Calculate encounter cost (threat points by Erfahrungsgrad difference)
+   */
+  calculateEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+    return calculateDSA5EncounterCost(creaturePowerLevels, partyLevels);
+  }
+
+  /**
+   * Build an Eigenschaftsprobe or Fertigkeitsprobe from attributes and skill points
+   */
+  buildCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+    return buildDSA5CheckRoll(actorData, check);
+  }
+
+  /**
+   * Evaluate roll-under targets and the Qualitätsstufe
+   */
+  evaluateCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+    return evaluateDSA5Check(check, roll, dc);
+  }
+
+  getActorUpdateSchema() {
+    return DSA5ActorUpdateSchema;
+  }
+
+  /**
+   * Map friendly fields to DSA5 paths, shifting derived LeP and attributes by the difference
+   */
+  buildActorUpdate(actorData: any, fields: ActorUpdateFields): ActorUpdatePlan {
+    return buildDSA5ActorUpdate(actorData, fields, this.getDataPaths());
+  }
+
+  isInventoryItem(itemType: string): boolean {
+    return isDSA5InventoryItem(itemType);
+  }
+
+  getItemQuantity(itemData: any): number {
+    return getDSA5ItemQuantity(itemData);
+  }
+
+  /**
+   * Quantity and worn state (angelegt) for weapons, armor and equipment
+   */
+  buildItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+    return buildDSA5ItemUpdate(itemData, change);
+  }
+
+  /**
+   * Coins in Silbertaler scaled by experience level, items by price
+   */
+  planTreasure(request: TreasureRequest, random?: () => number): TreasurePlan {
+    return planDSA5Treasure(request, random);
+  }
+
+  getItemValue(itemData: any): number | undefined {
+    return getDSA5ItemValue(itemData);
+  }
+
+  buildCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+    return buildDSA5CurrencyDeposit(actorData, currency);
+  }
+
+  getLootActorType(): string {
+    return 'npc';
+  }
 }
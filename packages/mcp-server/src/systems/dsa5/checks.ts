@@ -0,0 +1,172 @@
+/**
+ * DSA5 Checks (Proben)
+ *
+ * Eigenschaftsprobe: 1d20 rolled under one attribute.
+ * Fertigkeitsprobe: 3d20, each rolled under one of the skill's three attributes; points over an
+ * attribute are paid from the Fertigkeitswert (FW). The check succeeds while FW remains, and the
+ * remaining points give the Qualitätsstufe (QS 1-6). Modifiers (Erleichterung/Erschwernis) raise
+ * or lower the attributes. Two 1s are a critical success, two 20s a botch (Patzer).
+ */
+
+import type { CheckRequest, CheckRoll, CheckOutcome, DiceRollResult } from '../types.js';
+import { EIGENSCHAFT_NAMES, ITEM_TYPES } from './constants.js';
+
+// Perception is the Sinnesschärfe skill
+const PERCEPTION_SKILL = 'Sinnesschärfe';
+
+/**
+ * Find the attribute key (mu, kl, ...) by short, German or English name
+ */
+function resolveAttribute(name: string | undefined): string {
+  const search = (name ?? '').toLowerCase().trim();
+  for (const [key, names] of Object.entries(EIGENSCHAFT_NAMES)) {
+    if ([names.short, names.german, names.english].some(n => n.toLowerCase() === search)) {
+      return key.toLowerCase();
+    }
+  }
+  throw new Error(`Unknown attribute "${name}"; use MU, KL, IN, CH, FF, GE, KO or KK`);
+}
+
+function attributeValue(system: any, key: string): number {
+  const characteristic = system.characteristics?.[key];
+  const value = characteristic?.value ?? characteristic?.initial;
+  if (typeof value !== 'number') {
+    throw new Error(`Attribute ${key.toUpperCase()} not found in actor data`);
+  }
+  return value;
+}
+
+/**
+ * Build a DSA5 check roll
+ */
+export function buildDSA5CheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+  const system = actorData?.system ?? {};
+  const modifier = check.modifier ?? 0;
+  const notes: string[] = [];
+
+  if (check.advantage) {
+    notes.push('DSA5 has no advantage; use modifier for an Erleichterung or Erschwernis');
+  }
+
+  switch (check.type) {
+    case 'ability': {
+      const key = resolveAttribute(check.name);
+      const target = attributeValue(system, key) + modifier;
+      return {
+        formula: '1d20',
+        label: `${EIGENSCHAFT_NAMES[key.toUpperCase()].german} (${key.toUpperCase()})${modifier ? ` ${modifier > 0 ? '+' : ''}${modifier}` : ''}`,
+        modifier,
+        targets: [target],
+        notes,
+      };
+    }
+
+    case 'skill':
+    case 'perception': {
+      const name = check.type === 'perception' ? PERCEPTION_SKILL : (check.name ?? '');
+      const skill = (actorData?.items ?? []).find((item: any) =>
+        item.type === ITEM_TYPES.SKILL && item.name?.toLowerCase() === name.toLowerCase()
+      );
+      if (!skill) {
+        throw new Error(`Skill "${name}" not found on this actor`);
+      }
+
+      const keys = [1, 2, 3].map(i => String(skill.system?.[`characteristic${i}`]?.value ?? '').toLowerCase());
+      if (keys.some(key => !key)) {
+        throw new Error(`Skill "${skill.name}" has no attributes to roll against`);
+      }
+
+      const targets = keys.map(key => attributeValue(system, key) + modifier);
+      const skillValue = skill.system?.talentValue?.value ?? 0;
+
+      return {
+        formula: '3d20',
+        label: `${skill.name} (${keys.map(key => key.toUpperCase()).join('/')})${modifier ? ` ${modifier > 0 ? '+' : ''}${modifier}` : ''}`,
+        modifier,
+        targets,
+        skillValue,
+        notes,
+      };
+    }
+
+    case 'initiative': {
+      const base = system.status?.initiative?.value ?? system.status?.initiative ?? 0;
+      const total = (typeof base === 'number' ? base : 0) + modifier;
+      return {
+        formula: total === 0 ? '1d6' : `1d6 ${total > 0 ? '+' : '-'} ${Math.abs(total)}`,
+        label: 'Initiative',
+        modifier: total,
+        notes,
+      };
+    }
+
+    case 'save':
+      throw new Error('DSA5 has no saving throws; roll a skill such as Selbstbeherrschung or Willenskraft, or an attribute check');
+  }
+}
+
+/**
+ * Evaluate a DSA5 roll against the check's attribute targets
+ * Plain formulas have no targets; with a DC they succeed when the total is at most the DC
+ */
+export function evaluateDSA5Check(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+  const results = roll.dice.filter(die => die.faces === 20).flatMap(die => die.results);
+  const notes: string[] = [];
+
+  if (!check?.targets) {
+    if (dc === undefined) {
+      return { success: null, degree: null, notes };
+    }
+    const success = roll.total <= dc;
+    return { success, degree: success ? 'success' : 'failure', margin: dc - roll.total, notes };
+  }
+
+  if (dc !== undefined) {
+    notes.push('DSA5 checks roll under attributes; the DC was ignored (use modifier for difficulty)');
+  }
+
+  const ones = results.filter(result => result === 1).length;
+  const twenties = results.filter(result => result === 20).length;
+
+  // Eigenschaftsprobe
+  if (check.targets.length === 1) {
+    const natural = results[0];
+    const target = check.targets[0];
+    if (natural === 1) {
+      notes.push('Natural 1: possible critical success, roll again to confirm');
+      return { success: true, degree: 'critical-success', margin: target - natural, natural, notes };
+    }
+    if (natural === 20) {
+      notes.push('Natural 20: possible botch (Patzer), roll again to confirm');
+      return { success: false, degree: 'critical-failure', margin: target - natural, natural, notes };
+    }
+    const success = natural <= target;
+    return { success, degree: success ? 'success' : 'failure', margin: target - natural, natural, notes };
+  }
+
+  // Fertigkeitsprobe
+  const skillValue = check.skillValue ?? 0;
+  const spent = results.reduce((sum, result, i) => sum + Math.max(0, result - (check.targets?.[i] ?? 0)), 0);
+  const remaining = skillValue - spent;
+  const qualityLevel = (value: number) => Math.min(6, Math.max(1, Math.ceil(value / 3)));
+
+  if (ones >= 2) {
+    notes.push(ones === 3 ? 'Three 1s: spectacular success' : 'Two 1s: critical success');
+    return { success: true, degree: 'critical-success', margin: remaining, qualityLevel: qualityLevel(Math.max(remaining, skillValue)), notes };
+  }
+  if (twenties >= 2) {
+    notes.push(twenties === 3 ? 'Three 20s: spectacular botch' : 'Two 20s: botch (Patzer)');
+    return { success: false, degree: 'critical-failure', margin: remaining, qualityLevel: 0, notes };
+  }
+
+  const success = remaining >= 0;
+  notes.push(`Rolled ${results.join(', ')} against ${check.targets.join('/')}, ${spent} of FW ${skillValue} used`);
+
+  return {
+    success,
+    degree: success ? 'success' : 'failure',
+    margin: remaining,
+    qualityLevel: success ? qualityLevel(remaining) : 0,
+    notes,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * DSA5 Damage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateDSA5Damage, calculateDSA5Healing } from './damage.js';
+
+function actor(wounds: Record<string, number>, armour = 0) {
+  return { system: { status: { wounds, armour: { value: armour } } } };
+}
+
+describe('calculateDSA5Damage', () => {
+  it('reduces TP by RS to SP', () => {
+    const result = calculateDSA5Damage(actor({ value: 30, max: 30 }, 2), { amount: 7 });
+    expect(result.appliedAmount).toBe(5);
+    expect(result.after.value).toBe(25);
+    expect(result.adjustments).toEqual(['RS 2 reduced TP to 5 SP']);
+  });
+
+  it('skips armor for SP and when armor is ignored', () => {
+    expect(calculateDSA5Damage(actor({ value: 30, max: 30 }, 2), { amount: 7, damageType: 'SP' }).appliedAmount).toBe(7);
+    expect(calculateDSA5Damage(actor({ value: 30, max: 30 }, 2), { amount: 7, ignoreArmor: true }).appliedAmount).toBe(7);
+  });
+
+  it('shifts the stored wounds value by the change in current LeP', () => {
+    // Current LeP include modifiers the stored value doesn't
+    const result = calculateDSA5Damage(actor({ value: 20, current: 24, max: 30 }), { amount: 6 });
+    expect(result.before.value).toBe(24);
+    expect(result.after.value).toBe(18);
+    expect(result.updates).toEqual({ 'system.status.wounds.value': 14 });
+  });
+
+  it('stops at 0 LeP and reports the drop', () => {
+    const result = calculateDSA5Damage(actor({ value: 3, max: 30 }), { amount: 10 });
+    expect(result.after.value).toBe(0);
+    expect(result.droppedToZero).toBe(true);
+  });
+});
+
+describe('calculateDSA5Healing', () => {
+  it('caps healing at max LeP', () => {
+    const result = calculateDSA5Healing(actor({ value: 26, max: 30 }), 10);
+    expect(result.after.value).toBe(30);
+    expect(result.updates).toEqual({ 'system.status.wounds.value': 30 });
+    expect(result.adjustments).toEqual(['capped at max LeP 30']);
+  });
+
+  it('never lowers LeP that are already above max', () => {
+    const result = calculateDSA5Healing(actor({ value: 33, max: 30 }), 5);
+    expect(result.after.value).toBe(33);
+    expect(result.updates).toEqual({ 'system.status.wounds.value': 33 });
+  });
+});
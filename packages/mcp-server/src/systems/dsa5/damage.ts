@@ -0,0 +1,106 @@
+/**
+ * DSA5 Damage Rules
+ *
+ * Pure calculations for applying damage (Schaden) and healing (Heilung) to DSA5 actors.
+ * Trefferpunkte (TP) are reduced by Rüstungsschutz (RS) to Schadenspunkte (SP),
+ * which are then subtracted from Lebensenergie (LeP).
+ */
+
+import type { DamageRequest, HitPointChangeResult, HitPointState } from '../types.js';
+import { getHealedValue } from '../hit-points.js';
+
+/**
+ * Stored LeP field written by updates
+ */
+const LEP_VALUE_PATH = 'system.status.wounds.value';
+
+/**
+ * Damage types that bypass armor (already Schadenspunkte)
+ */
+const DIRECT_DAMAGE_TYPES = ['sp', 'schadenspunkte', 'direct'];
+
+/**
+ * Read current LeP from DSA5 actor data
+ */
+export function getDSA5LifePoints(actorData: any): HitPointState {
+  const wounds = actorData.system?.status?.wounds || {};
+
+  return {
+    value: Number(wounds.current ?? wounds.value ?? 0),
+    max: Number(wounds.max ?? 0),
+    temp: 0
+  };
+}
+
+/**
+ * Build the LeP update, shifting the stored value by the same delta as the current value
+ */
+function buildLifePointUpdate(actorData: any, before: HitPointState, after: HitPointState): Record<string, number> {
+  const storedValue = Number(actorData.system?.status?.wounds?.value ?? before.value);
+  return {
+    [LEP_VALUE_PATH]: storedValue + (after.value - before.value)
+  };
+}
+
+/**
+ * Apply DSA5 damage: armor (RS) reduces TP unless the damage is SP or armor is ignored
+ */
+export function calculateDSA5Damage(actorData: any, request: DamageRequest): HitPointChangeResult {
+  const before = getDSA5LifePoints(actorData);
+  const damageType = request.damageType?.toLowerCase();
+  const adjustments: string[] = [];
+
+  let amount = Math.max(0, Math.floor(request.amount));
+
+  const isDirect = damageType ? DIRECT_DAMAGE_TYPES.includes(damageType) : false;
+  if (!isDirect && !request.ignoreArmor) {
+    const status = actorData.system?.status || {};
+    const armor = Number(status.armour?.value ?? status.armor?.value ?? 0);
+    if (armor > 0) {
+      amount = Math.max(0, amount - armor);
+      adjustments.push(`RS ${armor} reduced TP to ${amount} SP`);
+    }
+  }
+
+  const after: HitPointState = {
+    value: Math.max(0, before.value - amount),
+    max: before.max,
+    temp: 0
+  };
+
+  return {
+    before,
+    after,
+    requestedAmount: request.amount,
+    appliedAmount: amount,
+    adjustments,
+    updates: buildLifePointUpdate(actorData, before, after),
+    droppedToZero: before.value > 0 && after.value === 0
+  };
+}
+
+/**
+ * Apply DSA5 healing (capped at max LeP)
+ */
+export function calculateDSA5Healing(actorData: any, amount: number): HitPointChangeResult {
+  const before = getDSA5LifePoints(actorData);
+  const healing = Math.max(0, Math.floor(amount));
+  const newValue = getHealedValue(before, healing);
+  const adjustments: string[] = [];
+
+  if (before.value + healing > before.max) {
+    adjustments.push(`capped at max LeP ${before.max}`);
+  }
+
+  const after: HitPointState = { ...before, value: newValue };
+
+  return {
+    before,
+    after,
+    requestedAmount: amount,
+    appliedAmount: newValue - before.value,
+    adjustments,
+    updates: buildLifePointUpdate(actorData, before, after),
+    droppedToZero: false
+  };
+}
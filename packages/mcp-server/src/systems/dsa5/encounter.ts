@@ -0,0 +1,82 @@
+/**
+ * DSA5 Encounter Budget
+ *
+ * DSA5 has no official encounter budget, so this uses threat points (Gefahrenpunkte)
+ * derived from the difference in Erfahrungsgrad (1-7) between creature and heroes.
+ * One opponent of the heroes' own Erfahrungsgrad per hero is a medium encounter.
+ */
+
+import type { EncounterBudget, EncounterCost } from '../types.js';
+
+/**
+ * Threat points per hero for each difficulty
+ */
+export const THREAT_POINTS_PER_HERO = [
+  { difficulty: 'easy', value: 10 },
+  { difficulty: 'medium', value: 20 },
+  { difficulty: 'hard', value: 30 },
+  { difficulty: 'deadly', value: 40 }
+] as const;
+
+/**
+ * Threat points of a creature by Erfahrungsgrad difference (creature - party)
+ */
+export const THREAT_POINTS_BY_LEVEL_DIFFERENCE: Record<number, number> = {
+  [-3]: 5,
+  [-2]: 10,
+  [-1]: 15,
+  0: 20,
+  1: 30,
+  2: 40,
+  3: 60,
+  4: 80
+};
+
+function getPartyLevel(partyLevels: number[]): number {
+  if (partyLevels.length === 0) {
+    return 1;
+  }
+  return Math.round(partyLevels.reduce((sum, level) => sum + level, 0) / partyLevels.length);
+}
+
+/**
+ * Get threat point thresholds for the heroes
+ */
+export function getDSA5EncounterBudget(partyLevels: number[]): EncounterBudget {
+  return {
+    unit: 'Gefahrenpunkte',
+    partyLevel: getPartyLevel(partyLevels),
+    partySize: partyLevels.length,
+    thresholds: THREAT_POINTS_PER_HERO.map(threshold => ({
+      difficulty: threshold.difficulty,
+      value: threshold.value * partyLevels.length
+    })),
+    defaultDifficulty: 'medium'
+  };
+}
+
+/**
+ * Sum creature threat points against the heroes' average Erfahrungsgrad
+ */
+export function calculateDSA5EncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+  const partyLevel = getPartyLevel(partyLevels);
+  const notes: string[] = [];
+
+  const perCreature = creaturePowerLevels.map(level => {
+    const difference = Math.max(-3, Math.min(4, Math.round(level) - partyLevel));
+    return THREAT_POINTS_BY_LEVEL_DIFFERENCE[difference];
+  });
+
+  if (creaturePowerLevels.length > partyLevels.length * 2 && partyLevels.length > 0) {
+    notes.push('heroes are outnumbered more than two to one');
+  }
+
+  const total = perCreature.reduce((sum, points) => sum + points, 0);
+
+  return {
+    total,
+    baseTotal: total,
+    perCreature,
+    notes
+  };
+}
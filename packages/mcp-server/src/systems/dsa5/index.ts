@@ -30,6 +30,12 @@ export {
 } from './filters.js';
 export type { DSA5SpeciesType, CreatureSize, ExperienceLevel, DSA5Filters } from './filters.js';
 
+// Damage rules
+export { getDSA5LifePoints, calculateDSA5Damage, calculateDSA5Healing } from './damage.js';
+
+// Encounter budget
+export { THREAT_POINTS_PER_HERO, getDSA5EncounterBudget, calculateDSA5EncounterCost } from './encounter.js';
+
 // Constants
 export {
   EXPERIENCE_LEVELS,
@@ -0,0 +1,46 @@
+/**
+ * DSA5 Inventory (Inventar)
+ *
+ * Quantity and worn state for physical DSA5 items. Weapons, armor and clothing
+ * can be worn (angelegt); DSA5 has no attunement.
+ */
+
+import type { InventoryItemChange, ItemUpdatePlan } from '../types.js';
+
+const INVENTORY_TYPES = ['meleeweapon', 'rangeweapon', 'armor', 'equipment', 'consumable', 'ammunition', 'poison', 'plant', 'money'];
+
+// Item types with a worn state
+const WEARABLE_TYPES = ['meleeweapon', 'rangeweapon', 'armor', 'equipment'];
+
+export function isDSA5InventoryItem(itemType: string): boolean {
+  return INVENTORY_TYPES.includes(itemType);
+}
+
+export function getDSA5ItemQuantity(itemData: any): number {
+  return Number(itemData.system?.quantity?.value ?? 1);
+}
+
+/**
+ * Build the DSA5 item update for an inventory change
+ */
+export function buildDSA5ItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+
+  if (change.quantity !== undefined) {
+    updates['system.quantity.value'] = change.quantity;
+  }
+
+  if (change.equipped !== undefined) {
+    if (!WEARABLE_TYPES.includes(itemData.type)) {
+      throw new Error(`${itemData.name} (${itemData.type}) cannot be worn`);
+    }
+    updates['system.worn.value'] = change.equipped;
+  }
+
+  if (change.attuned !== undefined) {
+    throw new Error('DSA5 has no attunement');
+  }
+
+  return { updates, notes };
+}
@@ -0,0 +1,73 @@
+/**
+ * DSA5 Treasure (Beute)
+ *
+ * DSA5 has no treasure tables, so coins are rolled in Silbertaler (S) and scaled by the
+ * heroes' experience level (1-7). Items are picked by price rather than rarity.
+ * Money is kept as items: Dukat (10 S), Silbertaler, Heller (1/10 S) and Kreuzer (1/100 S).
+ */
+
+import type { TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
+
+const COIN_VALUES: Record<string, number> = { D: 10, S: 1, H: 0.1, K: 0.01 };
+
+const COIN_ITEMS: Record<string, string> = { D: 'Dukat', S: 'Silbertaler', H: 'Heller', K: 'Kreuzer' };
+
+const ITEM_TYPES = ['meleeweapon', 'rangeweapon', 'armor', 'equipment', 'consumable', 'poison', 'plant'];
+
+function roll(count: number, sides: number, random: () => number): number {
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += Math.floor(random() * sides) + 1;
+  }
+  return total;
+}
+
+/**
+ * Roll DSA5 treasure for an experience level
+ */
+export function planDSA5Treasure(request: TreasureRequest, random: () => number = Math.random): TreasurePlan {
+  const level = Math.min(7, Math.max(1, Math.round(request.level)));
+  const notes: string[] = ['DSA5 has no official treasure tables; amounts are a rough guide'];
+
+  // Hoards are counted in Dukaten, individual treasure in Silbertaler and Heller
+  const currency: Record<string, number> = request.kind === 'hoard'
+    ? { D: roll(2, 6, random) * level, S: roll(2, 6, random) }
+    : { S: roll(1, 6, random) * level, H: roll(2, 6, random) };
+
+  if (request.rarities) {
+    notes.push('DSA5 items have no rarity; the rarity filter was ignored');
+  }
+
+  return {
+    currency,
+    currencyValue: Object.entries(currency).reduce((sum, [denomination, amount]) => sum + amount * COIN_VALUES[denomination], 0),
+    baseCurrency: 'S',
+    itemCount: request.kind === 'hoard' ? 2 : 1,
+    itemQuery: {
+      types: request.itemTypes ? ITEM_TYPES.filter(type => request.itemTypes!.includes(type)) : ITEM_TYPES,
+      fields: ['system.price.value'],
+      filters: [],
+    },
+    maxItemValue: request.maxItemValue ?? (request.kind === 'hoard' ? 100 : 20) * level,
+    notes,
+  };
+}
+
+/**
+ * Item value in Silbertaler
+ */
+export function getDSA5ItemValue(itemData: any): number | undefined {
+  const value = Number(itemData.system?.price?.value);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Coins are added as money items that stack onto the actor's existing money
+ */
+export function buildDSA5CurrencyDeposit(_actorData: any, currency: Record<string, number>): CurrencyDeposit {
+  const items = Object.entries(currency)
+    .filter(([denomination, amount]) => amount > 0 && COIN_ITEMS[denomination])
+    .map(([denomination, amount]) => ({ name: COIN_ITEMS[denomination], type: 'money', quantity: amount }));
+
+  return { updates: {}, items };
+}
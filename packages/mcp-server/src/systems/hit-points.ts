@@ -0,0 +1,13 @@
+/**
+ * Hit point rules shared by the system damage modules
+ */
+
+import type { HitPointState } from './types.js';
+
+/**
+ * Hit points after healing: capped at max, but never lowered when they are already above max
+ * (e.g. after a max HP reduction)
+ */
+export function getHealedValue(before: HitPointState, healing: number): number {
+  return Math.max(before.value, Math.min(before.max, before.value + healing));
+}
@@ -11,9 +11,15 @@ export type {
   SystemCreatureIndex,
   SystemAdapter,
   IndexBuilder,
+  HitPointState,
+  DamageRequest,
+  HitPointChangeResult,
+  EncounterBudget,
+  EncounterCost,
   DnD5eCreatureIndex,
   PF2eCreatureIndex,
   DSA5CreatureIndex,
+  SFRPGCreatureIndex,
   GenericCreatureIndex,
   AnyCreatureIndex
 } from './types.js';
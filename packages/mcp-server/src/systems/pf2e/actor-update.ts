@@ -0,0 +1,63 @@
+/**
+ * Pathfinder 2e Actor Updates
+ *
+ * Validates friendly update-actor fields and maps them to PF2e data paths.
+ * Character attributes and max HP are derived from ancestry, background, class and boosts,
+ * so they can only be set on NPCs. Coins are treasure items and are not handled here.
+ */
+
+import { z } from 'zod';
+import type { ActorUpdateFields, ActorUpdatePlan } from '../types.js';
+
+const ABILITY_KEYS = ['str', 'dex', 'con', 'int', 'wis', 'cha'] as const;
+
+export const PF2eActorUpdateSchema = z.object({
+  hp: z.number().int().min(0).optional(),
+  maxHp: z.number().int().min(1).optional(),
+  abilities: z.record(z.enum(ABILITY_KEYS), z.number().int().min(-5).max(10)).optional(),
+  level: z.number().int().min(-1).max(30).optional(),
+  biography: z.string().optional(),
+}).strict();
+
+/**
+ * Build the PF2e update payload for friendly actor fields
+ */
+export function buildPF2eActorUpdate(actorData: any, fields: ActorUpdateFields, paths: Record<string, string | null>): ActorUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+  const isNpc = actorData.type === 'npc';
+
+  if (fields.hp !== undefined) {
+    updates[`${paths.hitPoints}.value`] = fields.hp;
+  }
+  if (fields.maxHp !== undefined) {
+    if (!isNpc) {
+      throw new Error('PF2e character max HP is derived from ancestry, class and Constitution; it can only be set on NPCs');
+    }
+    updates[`${paths.hitPoints}.max`] = fields.maxHp;
+  }
+
+  if (fields.abilities && Object.keys(fields.abilities).length > 0) {
+    if (!isNpc) {
+      throw new Error('PF2e character attributes come from boosts; they can only be set on NPCs');
+    }
+    for (const [key, modifier] of Object.entries(fields.abilities)) {
+      updates[`${paths.abilities}.${key}.mod`] = modifier;
+    }
+    notes.push('PF2e attributes are set as modifiers, e.g. +4');
+  }
+
+  if (fields.level !== undefined) {
+    updates[paths.level as string] = fields.level;
+    if (isNpc) {
+      notes.push('Only the level was changed; apply the elite/weak adjustments or rebuild the statistics for the new level');
+    }
+  }
+
+  if (fields.biography !== undefined) {
+    // NPCs keep their description in public notes
+    updates[isNpc ? 'system.details.publicNotes' : paths.biography as string] = fields.biography;
+  }
+
+  return { updates, notes };
+}
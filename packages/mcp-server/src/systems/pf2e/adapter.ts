@@ -5,8 +5,14 @@
  * Handles creature indexing, filtering, formatting, and data extraction.
  */
 
-import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, PF2eCreatureIndex } from '../types.js';
+import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, PF2eCreatureIndex, DamageRequest, HitPointChangeResult, EncounterBudget, EncounterCost, CheckRequest, CheckRoll, CheckOutcome, DiceRollResult, ActorUpdateFields, ActorUpdatePlan, InventoryItemChange, ItemUpdatePlan, TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
 import { PF2eFiltersSchema, matchesPF2eFilters, describePF2eFilters, type PF2eFilters } from './filters.js';
+import { calculatePF2eDamage, calculatePF2eHealing } from './damage.js';
+import { getPF2eEncounterBudget, calculatePF2eEncounterCost } from './encounter.js';
+import { buildPF2eCheckRoll, evaluatePF2eCheck } from './checks.js';
+import { PF2eActorUpdateSchema, buildPF2eActorUpdate } from './actor-update.js';
+import { isPF2eInventoryItem, getPF2eItemQuantity, buildPF2eItemUpdate } from './inventory.js';
+import { planPF2eTreasure, getPF2eItemValue, buildPF2eCurrencyDeposit } from './treasure.js';
 
 /**
  * Pathfinder 2e system adapter
@@ -29,7 +35,8 @@ export class PF2eAdapter implements SystemAdapter {
   }
 
   canHandle(systemId: string): boolean {
-    return systemId.toLowerCase() === 'pf2e';
+    // Starfinder 2e (sf2e) is built on the PF2e data model
+    return ['pf2e', 'sf2e'].includes(systemId.toLowerCase());
   }
 
   /**
@@ -71,11 +78,13 @@ export class PF2eAdapter implements SystemAdapter {
       skills: 'system.skills',
       perception: 'system.perception',
       saves: 'system.saves',
+      biography: 'system.details.biography.backstory', // NPCs use system.details.publicNotes
       // PF2e doesn't have CR or legendary actions
       challengeRating: null,
       legendaryActions: null,
       legendaryResistances: null,
-      spells: null // PF2e uses spellcasting entries instead
+      spells: null, // PF2e uses spellcasting entries instead
+      currency: null // Coins are treasure items
     };
   }
 
@@ -315,4 +324,91 @@ export class PF2eAdapter implements SystemAdapter {
 
     return stats;
   }
+
+  /**
+   * Calculate damage using PF2e rules (immunities, weaknesses, resistances, temp HP)
+   */
+  calculateDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+    return calculatePF2eDamage(actorData, request);
+  }
+
+  /**
+   * Calculate healing (capped at max HP)
+   */
+  calculateHealing(actorData: any, amount: number): HitPointChangeResult {
+    return calculatePF2eHealing(actorData, amount);
+  }
+
+  /**
+   * Get encounter thresholds (XP budget by threat, adjusted for party size)
+   */
+  getEncounterBudget(partyLevels: number[]): EncounterBudget {
+    return getPF2eEncounterBudget(partyLevels);
+  }
+
+  /**
+   * Calculate encounter cost (creature XP by level difference)
+   */
+  calculateEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+    return calculatePF2eEncounterCost(creaturePowerLevels, partyLevels);
+  }
+
+  /**
+   * Build a d20 check from skill, save or perception modifiers
+   */
+  buildCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+    return buildPF2eCheckRoll(actorData, check);
+  }
+
+  /**
+   * Determine the degree of success (critical at DC ± 10, natural 20/1 shift one step)
+   */
+  evaluateCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+    return evaluatePF2eCheck(check, roll, dc);
+  }
+
+  getActorUpdateSchema() {
+    return PF2eActorUpdateSchema;
+  }
+
+  /**
+   * Map friendly fields to PF2e paths (attributes and max HP on NPCs only)
+   */
+  buildActorUpdate(actorData: any, fields: ActorUpdateFields): ActorUpdatePlan {
+    return buildPF2eActorUpdate(actorData, fields, this.getDataPaths());
+  }
+
+  isInventoryItem(itemType: string): boolean {
+    return isPF2eInventoryItem(itemType);
+  }
+
+  getItemQuantity(itemData: any): number {
+    return getPF2eItemQuantity(itemData);
+  }
+
+  /**
+   * Quantity, held/worn carry type and investment for physical items
+   */
+  buildItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+    return buildPF2eItemUpdate(itemData, change);
+  }
+
+  /**
+   * Coins from party treasure by level, common items up to one level higher
+   */
+  planTreasure(request: TreasureRequest, random?: () => number): TreasurePlan {
+    return planPF2eTreasure(request, random);
+  }
+
+  getItemValue(itemData: any): number | undefined {
+    return getPF2eItemValue(itemData);
+  }
+
+  buildCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+    return buildPF2eCurrencyDeposit(actorData, currency);
+  }
+
+  getLootActorType(): string {
+    return 'loot';
+  }
 }
@@ -0,0 +1,140 @@
+/**
+ * Pathfinder 2e Checks
+ *
+ * Builds d20 check formulas from statistic modifiers and determines the degree of success:
+ * beating the DC by 10 is a critical success, missing it by 10 a critical failure,
+ * and a natural 20 or 1 moves the result one step up or down.
+ */
+
+import type { CheckRequest, CheckRoll, CheckOutcome, DiceRollResult } from '../types.js';
+
+const SAVE_KEYS: Record<string, string> = {
+  fortitude: 'fortitude', fort: 'fortitude',
+  reflex: 'reflex', ref: 'reflex',
+  will: 'will',
+};
+
+const ABILITY_KEYS: Record<string, string> = {
+  str: 'str', strength: 'str',
+  dex: 'dex', dexterity: 'dex',
+  con: 'con', constitution: 'con',
+  int: 'int', intelligence: 'int',
+  wis: 'wis', wisdom: 'wis',
+  cha: 'cha', charisma: 'cha',
+};
+
+const DEGREES: Array<NonNullable<CheckOutcome['degree']>> = ['critical-failure', 'failure', 'success', 'critical-success'];
+
+/**
+ * Total modifier of a PF2e statistic (skill, save, perception)
+ */
+function statisticModifier(statistic: any): number | undefined {
+  const value = statistic?.totalModifier ?? statistic?.value ?? statistic?.mod;
+  return typeof value === 'number' && !isNaN(value) ? value : undefined;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Build a PF2e check roll
+ */
+export function buildPF2eCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+  const system = actorData?.system ?? {};
+  const notes: string[] = [];
+  let bonus: number | undefined;
+  let label: string;
+
+  switch (check.type) {
+    case 'skill': {
+      // Lore skills are keyed by slug, e.g. "sailing-lore"
+      const slug = (check.name ?? '').toLowerCase().trim().replace(/\s+/g, '-');
+      const skill = system.skills?.[slug];
+      if (!skill) {
+        throw new Error(`Unknown skill "${check.name}"`);
+      }
+      bonus = statisticModifier(skill);
+      label = `${skill.label ?? capitalize(check.name ?? slug)} check`;
+      break;
+    }
+
+    case 'save': {
+      const key = SAVE_KEYS[(check.name ?? '').toLowerCase().trim()];
+      if (!key) {
+        throw new Error(`Unknown save "${check.name}"; use fortitude, reflex or will`);
+      }
+      bonus = statisticModifier(system.saves?.[key]);
+      label = `${capitalize(key)} save`;
+      break;
+    }
+
+    case 'perception':
+    case 'initiative':
+      // Initiative is a Perception check unless the encounter calls for a skill
+      bonus = statisticModifier(system.perception) ?? statisticModifier(system.attributes?.perception);
+      label = check.type === 'initiative' ? 'Initiative (Perception)' : 'Perception check';
+      break;
+
+    case 'ability': {
+      const key = ABILITY_KEYS[(check.name ?? '').toLowerCase().trim()];
+      if (!key) {
+        throw new Error(`Unknown attribute "${check.name}"; use str, dex, con, int, wis or cha`);
+      }
+      bonus = system.abilities?.[key]?.mod;
+      label = `${key.toUpperCase()} check`;
+      notes.push('PF2e rarely uses flat attribute checks; consider a skill check instead');
+      break;
+    }
+  }
+
+  if (check.advantage) {
+    notes.push('PF2e has no advantage; apply a circumstance bonus or penalty as modifier instead');
+  }
+
+  if (bonus === undefined) {
+    notes.push('Modifier not found in actor data; rolled without it');
+    bonus = 0;
+  }
+
+  const modifier = bonus + (check.modifier ?? 0);
+
+  return {
+    formula: modifier === 0 ? '1d20' : `1d20 ${modifier > 0 ? '+' : '-'} ${Math.abs(modifier)}`,
+    label,
+    modifier,
+    notes,
+  };
+}
+
+/**
+ * Determine the PF2e degree of success against a DC
+ */
+export function evaluatePF2eCheck(_check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+  const d20 = roll.dice.find(die => die.faces === 20 && die.results.length === 1);
+  const natural = d20?.results[0];
+  const notes: string[] = [];
+
+  if (dc === undefined) {
+    return { success: null, degree: null, natural, notes };
+  }
+
+  const margin = roll.total - dc;
+  let index = margin >= 10 ? 3 : margin >= 0 ? 2 : margin > -10 ? 1 : 0;
+
+  if (natural === 20 && index < 3) {
+    index++;
+    notes.push('Natural 20 improved the degree of success by one step');
+  } else if (natural === 1 && index > 0) {
+    index--;
+    notes.push('Natural 1 worsened the degree of success by one step');
+  }
+
+  return {
+    success: index >= 2,
+    degree: DEGREES[index],
+    margin,
+    natural,
+    notes,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Pathfinder 2e Damage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculatePF2eDamage, calculatePF2eHealing } from './damage.js';
+
+function actor(hp: Record<string, number>, iwr: Record<string, any[]> = {}) {
+  return { system: { attributes: { hp, ...iwr } } };
+}
+
+describe('calculatePF2eDamage', () => {
+  it('lets temporary HP absorb damage first', () => {
+    const result = calculatePF2eDamage(actor({ value: 20, max: 30, temp: 5 }), { amount: 8 });
+    expect(result.after).toEqual({ value: 17, max: 30, temp: 0 });
+    expect(result.updates).toEqual({ 'system.attributes.hp.value': 17, 'system.attributes.hp.temp': 0 });
+  });
+
+  it('adds the highest weakness, then subtracts the highest resistance', () => {
+    const iwr = {
+      weaknesses: [{ type: 'fire', value: 5 }, { type: 'all-damage', value: 2 }],
+      resistances: [{ type: 'energy', value: 3 }],
+    };
+    expect(calculatePF2eDamage(actor({ value: 50, max: 50 }, iwr), { amount: 10, damageType: 'fire' }).appliedAmount).toBe(12);
+  });
+
+  it('ignores resistances with an exception for the damage type', () => {
+    const iwr = { resistances: [{ type: 'physical', value: 5, exceptions: ['slashing'] }] };
+    expect(calculatePF2eDamage(actor({ value: 50, max: 50 }, iwr), { amount: 10, damageType: 'slashing' }).appliedAmount).toBe(10);
+    expect(calculatePF2eDamage(actor({ value: 50, max: 50 }, iwr), { amount: 10, damageType: 'piercing' }).appliedAmount).toBe(5);
+  });
+});
+
+describe('calculatePF2eHealing', () => {
+  it('caps healing at max HP', () => {
+    const result = calculatePF2eHealing(actor({ value: 25, max: 30 }), 10);
+    expect(result.after.value).toBe(30);
+    expect(result.appliedAmount).toBe(5);
+  });
+
+  it('never lowers HP that is already above max', () => {
+    const result = calculatePF2eHealing(actor({ value: 40, max: 30 }), 5);
+    expect(result.after.value).toBe(40);
+    expect(result.appliedAmount).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Pathfinder 2e Damage Rules
+ *
+ * Pure calculations for applying damage and healing to PF2e actors.
+ * The resulting update payload is applied by the Foundry module.
+ */
+
+import type { DamageRequest, HitPointChangeResult, HitPointState } from '../types.js';
+import { getHealedValue } from '../hit-points.js';
+
+const HP_PATHS = {
+  value: 'system.attributes.hp.value',
+  temp: 'system.attributes.hp.temp'
+} as const;
+
+/**
+ * Damage categories that an IWR entry may target instead of a specific type
+ */
+const DAMAGE_CATEGORIES: Record<string, string[]> = {
+  physical: ['bludgeoning', 'piercing', 'slashing', 'bleed'],
+  energy: ['acid', 'cold', 'electricity', 'fire', 'sonic', 'force', 'vitality', 'void', 'positive', 'negative']
+};
+
+/**
+ * Check whether an IWR entry type applies to the given damage type
+ */
+function iwrApplies(entry: any, damageType: string): boolean {
+  const type = String(entry?.type ?? '').toLowerCase();
+  const exceptions: string[] = Array.isArray(entry?.exceptions)
+    ? entry.exceptions.map((e: any) => String(typeof e === 'object' ? e.label ?? e.type ?? '' : e).toLowerCase())
+    : [];
+
+  if (exceptions.includes(damageType)) {
+    return false;
+  }
+
+  return type === damageType ||
+    type === 'all-damage' ||
+    (DAMAGE_CATEGORIES[type]?.includes(damageType) ?? false);
+}
+
+/**
+ * Read current hit points from PF2e actor data
+ */
+export function getPF2eHitPoints(actorData: any): HitPointState {
+  const hp = actorData.system?.attributes?.hp || {};
+
+  return {
+    value: Number(hp.value ?? 0),
+    max: Number(hp.max ?? 0),
+    temp: Number(hp.temp ?? 0)
+  };
+}
+
+/**
+ * Apply PF2e damage: immunity, then the highest applicable weakness, then the highest
+ * applicable resistance; temporary hit points absorb damage before real hit points
+ */
+export function calculatePF2eDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+  const before = getPF2eHitPoints(actorData);
+  const attributes = actorData.system?.attributes || {};
+  const damageType = request.damageType?.toLowerCase();
+  const adjustments: string[] = [];
+
+  let amount = Math.max(0, Math.floor(request.amount));
+
+  if (damageType && !request.ignoreResistances && amount > 0) {
+    const immunities: any[] = Array.isArray(attributes.immunities) ? attributes.immunities : [];
+    const weaknesses: any[] = Array.isArray(attributes.weaknesses) ? attributes.weaknesses : [];
+    const resistances: any[] = Array.isArray(attributes.resistances) ? attributes.resistances : [];
+
+    const immunity = immunities.find(i => iwrApplies(i, damageType));
+    if (immunity) {
+      amount = 0;
+      adjustments.push(`immune to ${immunity.type}`);
+    } else {
+      const weakness = weaknesses
+        .filter(w => iwrApplies(w, damageType))
+        .sort((a, b) => Number(b.value ?? 0) - Number(a.value ?? 0))[0];
+      if (weakness) {
+        amount += Number(weakness.value ?? 0);
+        adjustments.push(`weakness ${weakness.type} ${weakness.value}`);
+      }
+
+      const resistance = resistances
+        .filter(r => iwrApplies(r, damageType))
+        .sort((a, b) => Number(b.value ?? 0) - Number(a.value ?? 0))[0];
+      if (resistance) {
+        amount = Math.max(0, amount - Number(resistance.value ?? 0));
+        adjustments.push(`resistance ${resistance.type} ${resistance.value}`);
+      }
+    }
+  }
+
+  const absorbedByTemp = Math.min(before.temp, amount);
+  if (absorbedByTemp > 0) {
+    adjustments.push(`${absorbedByTemp} absorbed by temporary HP`);
+  }
+
+  const after: HitPointState = {
+    value: Math.max(0, before.value - (amount - absorbedByTemp)),
+    max: before.max,
+    temp: before.temp - absorbedByTemp
+  };
+
+  return {
+    before,
+    after,
+    requestedAmount: request.amount,
+    appliedAmount: amount,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: after.value,
+      [HP_PATHS.temp]: after.temp
+    },
+    droppedToZero: before.value > 0 && after.value === 0
+  };
+}
+
+/**
+ * Apply PF2e healing (capped at max HP)
+ */
+export function calculatePF2eHealing(actorData: any, amount: number): HitPointChangeResult {
+  const before = getPF2eHitPoints(actorData);
+  const healing = Math.max(0, Math.floor(amount));
+  const newValue = getHealedValue(before, healing);
+  const adjustments: string[] = [];
+
+  if (before.value + healing > before.max) {
+    adjustments.push(`capped at max HP ${before.max}`);
+  }
+
+  return {
+    before,
+    after: { ...before, value: newValue },
+    requestedAmount: amount,
+    appliedAmount: newValue - before.value,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: newValue
+    },
+    droppedToZero: false
+  };
+}
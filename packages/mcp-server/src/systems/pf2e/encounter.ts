@@ -0,0 +1,90 @@
+/**
+ * Pathfinder 2e Encounter Budget
+ *
+ * XP budgets by threat and creature XP by level difference from the Core Rulebook / GM Core.
+ */
+
+import type { EncounterBudget, EncounterCost } from '../types.js';
+
+/**
+ * Threat budgets for a party of four, with the adjustment per character above or below four
+ */
+export const THREAT_BUDGETS = [
+  { difficulty: 'trivial', budget: 40, characterAdjustment: 10 },
+  { difficulty: 'low', budget: 60, characterAdjustment: 20 },
+  { difficulty: 'moderate', budget: 80, characterAdjustment: 20 },
+  { difficulty: 'severe', budget: 120, characterAdjustment: 30 },
+  { difficulty: 'extreme', budget: 160, characterAdjustment: 40 }
+] as const;
+
+/**
+ * Creature XP by creature level minus party level
+ */
+export const CREATURE_XP_BY_LEVEL_DIFFERENCE: Record<number, number> = {
+  [-4]: 10,
+  [-3]: 15,
+  [-2]: 20,
+  [-1]: 30,
+  0: 40,
+  1: 60,
+  2: 80,
+  3: 120,
+  4: 160
+};
+
+function getPartyLevel(partyLevels: number[]): number {
+  if (partyLevels.length === 0) {
+    return 1;
+  }
+  return Math.round(partyLevels.reduce((sum, level) => sum + level, 0) / partyLevels.length);
+}
+
+/**
+ * Get threat budgets adjusted for party size
+ */
+export function getPF2eEncounterBudget(partyLevels: number[]): EncounterBudget {
+  const partySize = partyLevels.length;
+
+  return {
+    unit: 'XP',
+    partyLevel: getPartyLevel(partyLevels),
+    partySize,
+    thresholds: THREAT_BUDGETS.map(threat => ({
+      difficulty: threat.difficulty,
+      value: Math.max(0, threat.budget + (partySize - 4) * threat.characterAdjustment)
+    })),
+    defaultDifficulty: 'moderate'
+  };
+}
+
+/**
+ * Sum creature XP by level difference against the party level
+ */
+export function calculatePF2eEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+  const partyLevel = getPartyLevel(partyLevels);
+  const notes: string[] = [];
+
+  const perCreature = creaturePowerLevels.map(level => {
+    const difference = Math.round(level) - partyLevel;
+
+    if (difference < -4) {
+      notes.push(`level ${level} creature is too weak to count toward the budget`);
+      return 0;
+    }
+    if (difference > 4) {
+      notes.push(`level ${level} creature is more than 4 levels above the party (beyond extreme)`);
+      return CREATURE_XP_BY_LEVEL_DIFFERENCE[4];
+    }
+
+    return CREATURE_XP_BY_LEVEL_DIFFERENCE[difference];
+  });
+
+  const total = perCreature.reduce((sum, xp) => sum + xp, 0);
+
+  return {
+    total,
+    baseTotal: total,
+    perCreature,
+    notes: [...new Set(notes)]
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Pathfinder 2e Inventory
+ *
+ * PF2e has no equipped flag: weapons and shields are equipped by holding them,
+ * armor and worn items by wearing them in their slot. Magic items with the
+ * invested trait must be invested (at most ten) for their effects to work.
+ */
+
+import type { InventoryItemChange, ItemUpdatePlan } from '../types.js';
+
+const INVENTORY_TYPES = ['weapon', 'armor', 'shield', 'equipment', 'consumable', 'treasure', 'backpack', 'book', 'ammo'];
+
+// Equipped by holding in hand(s)
+const HELD_TYPES = ['weapon', 'shield'];
+
+// Equipped by wearing in a slot
+const WORN_TYPES = ['armor', 'equipment'];
+
+export function isPF2eInventoryItem(itemType: string): boolean {
+  return INVENTORY_TYPES.includes(itemType);
+}
+
+export function getPF2eItemQuantity(itemData: any): number {
+  return Number(itemData.system?.quantity ?? 1);
+}
+
+/**
+ * Build the PF2e item update for an inventory change
+ */
+export function buildPF2eItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+
+  if (change.quantity !== undefined) {
+    updates['system.quantity'] = change.quantity;
+  }
+
+  if (change.equipped !== undefined) {
+    if (HELD_TYPES.includes(itemData.type)) {
+      const twoHanded = String(itemData.system?.usage?.value ?? '').includes('two-hands');
+      updates['system.equipped.carryType'] = change.equipped ? 'held' : 'worn';
+      updates['system.equipped.handsHeld'] = change.equipped ? (twoHanded ? 2 : 1) : 0;
+    } else if (WORN_TYPES.includes(itemData.type)) {
+      updates['system.equipped.carryType'] = 'worn';
+      updates['system.equipped.inSlot'] = change.equipped;
+    } else {
+      throw new Error(`${itemData.name} (${itemData.type}) cannot be equipped; it is carried or stowed`);
+    }
+  }
+
+  if (change.attuned !== undefined) {
+    const traits: string[] = itemData.system?.traits?.value ?? [];
+    if (!traits.includes('invested')) {
+      throw new Error(`${itemData.name} does not have the invested trait`);
+    }
+    updates['system.equipped.invested'] = change.attuned;
+    if (change.attuned) {
+      notes.push('A character can invest at most ten items per day');
+    }
+  }
+
+  return { updates, notes };
+}
@@ -0,0 +1,78 @@
+/**
+ * Pathfinder 2e Treasure
+ *
+ * Coins follow the currency column of Party Treasure by Level (a party of four over a whole level):
+ * a hoard is about a quarter of it, individual treasure about a tenth. Items are common and at most
+ * one level above the party. Coins are treasure items (Gold Pieces, ...) rather than actor data.
+ */
+
+import type { TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
+
+// Currency in gp per party level 1-20
+const PARTY_CURRENCY_BY_LEVEL = [40, 70, 120, 200, 320, 500, 720, 1000, 1400, 2000, 2800, 4000, 6000, 9000, 13000, 20000, 30000, 48000, 80000, 140000];
+
+const COIN_VALUES: Record<string, number> = { pp: 10, gp: 1, sp: 0.1, cp: 0.01 };
+
+const COIN_ITEMS: Record<string, string> = { pp: 'Platinum Pieces', gp: 'Gold Pieces', sp: 'Silver Pieces', cp: 'Copper Pieces' };
+
+const PERMANENT_TYPES = ['weapon', 'armor', 'shield', 'equipment'];
+
+/**
+ * Roll PF2e treasure for a party level
+ */
+export function planPF2eTreasure(request: TreasureRequest, random: () => number = Math.random): TreasurePlan {
+  const level = Math.min(20, Math.max(1, Math.round(request.level)));
+  const share = request.kind === 'hoard' ? 0.25 : 0.1;
+
+  // Vary by up to half either way
+  const value = PARTY_CURRENCY_BY_LEVEL[level - 1] * share * (0.5 + random());
+  const gp = Math.floor(value);
+  const currency: Record<string, number> = { gp };
+  const sp = Math.round((value - gp) * 10);
+  if (sp > 0) {
+    currency.sp = sp;
+  }
+
+  const defaultTypes = request.kind === 'hoard' ? [...PERMANENT_TYPES, 'consumable'] : ['consumable'];
+  const types = request.itemTypes ? [...PERMANENT_TYPES, 'consumable', 'treasure'].filter(type => request.itemTypes!.includes(type)) : defaultTypes;
+
+  return {
+    currency,
+    currencyValue: gp + (currency.sp ?? 0) * COIN_VALUES.sp,
+    baseCurrency: 'gp',
+    itemCount: request.kind === 'hoard' ? 3 : 1,
+    itemQuery: {
+      types,
+      fields: ['system.level.value', 'system.traits.rarity', 'system.price'],
+      filters: [
+        { path: 'system.level.value', min: Math.max(0, level - 1), max: level + 1 },
+        { path: 'system.traits.rarity', in: request.rarities ?? ['common'] },
+      ],
+    },
+    maxItemValue: request.maxItemValue,
+    notes: [`${request.kind === 'hoard' ? 'About a quarter' : 'About a tenth'} of the party treasure for level ${level}`],
+  };
+}
+
+/**
+ * Item value in gp from { value: { pp, gp, sp, cp } }
+ */
+export function getPF2eItemValue(itemData: any): number | undefined {
+  const coins = itemData.system?.price?.value;
+  if (!coins || typeof coins !== 'object') {
+    return undefined;
+  }
+  const value = Object.entries(COIN_VALUES).reduce((sum, [denomination, worth]) => sum + Number(coins[denomination] ?? 0) * worth, 0);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Coins are added as treasure items that stack onto the actor's existing coins
+ */
+export function buildPF2eCurrencyDeposit(_actorData: any, currency: Record<string, number>): CurrencyDeposit {
+  const items = Object.entries(currency)
+    .filter(([denomination, amount]) => amount > 0 && COIN_ITEMS[denomination])
+    .map(([denomination, amount]) => ({ name: COIN_ITEMS[denomination], type: 'treasure', quantity: amount }));
+
+  return { updates: {}, items };
+}
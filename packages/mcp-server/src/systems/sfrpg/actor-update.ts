@@ -0,0 +1,82 @@
+/**
+ * Starfinder Actor Updates
+ *
+ * Validates friendly update-actor fields and maps them to Starfinder data paths.
+ * Character level and max HP come from class and race items, so only NPCs can be
+ * "leveled" (by CR) or given a new max HP. NPC abilities are stored as modifiers.
+ */
+
+import { z } from 'zod';
+import type { ActorUpdateFields, ActorUpdatePlan } from '../types.js';
+
+const ABILITY_KEYS = ['str', 'dex', 'con', 'int', 'wis', 'cha'] as const;
+const CURRENCY_KEYS = ['credit', 'upb'] as const;
+
+/**
+ * Valid challenge ratings: 1/8, 1/6, 1/4, 1/3, 1/2 (as stored by the system), then whole numbers to 25
+ */
+const FRACTIONAL_CR = [0.125, 0.166, 0.25, 0.333, 0.5];
+
+export const SFRPGActorUpdateSchema = z.object({
+  hp: z.number().int().min(0).optional(),
+  maxHp: z.number().int().min(1).optional(),
+  abilities: z.record(z.enum(ABILITY_KEYS), z.number().int().min(-5).max(30)).optional(),
+  level: z.number().min(0.125).max(25)
+    .refine(cr => FRACTIONAL_CR.includes(cr) || Number.isInteger(cr), 'CR must be 0.125, 0.166, 0.25, 0.333, 0.5 or a whole number')
+    .optional(),
+  currency: z.record(z.enum(CURRENCY_KEYS), z.number().int().min(0)).optional(),
+  biography: z.string().optional(),
+}).strict();
+
+/**
+ * Build the Starfinder update payload for friendly actor fields
+ */
+export function buildSFRPGActorUpdate(actorData: any, fields: ActorUpdateFields, paths: Record<string, string | null>): ActorUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+  const isNpc = actorData.type === 'npc' || actorData.type === 'npc2';
+
+  if (fields.hp !== undefined) {
+    updates[`${paths.hitPoints}.value`] = fields.hp;
+  }
+  if (fields.maxHp !== undefined) {
+    if (!isNpc) {
+      throw new Error('Starfinder character max HP comes from race and class; it can only be set on NPCs');
+    }
+    updates[`${paths.hitPoints}.max`] = fields.maxHp;
+  }
+
+  if (fields.abilities && Object.keys(fields.abilities).length > 0) {
+    for (const [key, value] of Object.entries(fields.abilities)) {
+      if (isNpc) {
+        updates[`${paths.abilities}.${key}.mod`] = value;
+      } else {
+        if (value < 1) {
+          throw new Error(`Starfinder character ability scores start at 1; got ${value} for ${key}`);
+        }
+        updates[`${paths.abilities}.${key}.base`] = value;
+      }
+    }
+    notes.push(isNpc
+      ? 'Starfinder NPC abilities are set as modifiers, e.g. +4'
+      : 'Base ability scores were set; racial, theme and upgrade bonuses still apply on top');
+  }
+
+  if (fields.level !== undefined) {
+    if (!isNpc) {
+      throw new Error('Starfinder character level comes from class items; change the class levels instead');
+    }
+    updates[paths.challengeRating as string] = fields.level;
+    notes.push(`NPC level set as CR ${fields.level}; EAC, KAC, attacks and saves are not adjusted to the new array`);
+  }
+
+  for (const [denomination, amount] of Object.entries(fields.currency ?? {})) {
+    updates[`${paths.currency}.${denomination}`] = amount;
+  }
+
+  if (fields.biography !== undefined) {
+    updates[paths.biography as string] = fields.biography;
+  }
+
+  return { updates, notes };
+}
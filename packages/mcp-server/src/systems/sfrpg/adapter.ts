@@ -0,0 +1,438 @@
+/**
+ * Starfinder System Adapter
+ *
+ * Implements SystemAdapter interface for Starfinder (1st edition, Foundry system id "sfrpg").
+ * Handles creature indexing, filtering, formatting, and data extraction.
+ * Starfinder 2e runs on the PF2e data model and is handled by the PF2e adapter.
+ */
+
+import type { SystemAdapter, SystemMetadata, SystemCreatureIndex, SFRPGCreatureIndex, DamageRequest, HitPointChangeResult, EncounterBudget, EncounterCost, CheckRequest, CheckRoll, CheckOutcome, DiceRollResult, ActorUpdateFields, ActorUpdatePlan, InventoryItemChange, ItemUpdatePlan, TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
+import { SFRPGFiltersSchema, matchesSFRPGFilters, describeSFRPGFilters, getSFRPGPowerLevel, type SFRPGFilters } from './filters.js';
+import { calculateSFRPGDamage, calculateSFRPGHealing } from './damage.js';
+import { getSFRPGEncounterBudget, calculateSFRPGEncounterCost } from './encounter.js';
+import { buildSFRPGCheckRoll, evaluateSFRPGCheck } from './checks.js';
+import { SFRPGActorUpdateSchema, buildSFRPGActorUpdate } from './actor-update.js';
+import { isSFRPGInventoryItem, getSFRPGItemQuantity, buildSFRPGItemUpdate } from './inventory.js';
+import { planSFRPGTreasure, getSFRPGItemValue, buildSFRPGCurrencyDeposit } from './treasure.js';
+
+/**
+ * Starfinder system adapter
+ */
+export class SFRPGAdapter implements SystemAdapter {
+  getMetadata(): SystemMetadata {
+    return {
+      id: 'sfrpg',
+      name: 'sfrpg',
+      displayName: 'Starfinder',
+      version: '1.0.0',
+      description: 'Support for Starfinder with CR/level, creature type and subtype, EAC/KAC, Stamina and Resolve',
+      supportedFeatures: {
+        creatureIndex: true,
+        characterStats: true,
+        spellcasting: true,
+        powerLevel: true // Uses CR for NPCs, level for characters
+      }
+    };
+  }
+
+  canHandle(systemId: string): boolean {
+    return systemId.toLowerCase() === 'sfrpg';
+  }
+
+  /**
+   * Extract creature data from Foundry document for indexing
+   * This is called by the index builder in Foundry's browser context
+   */
+  extractCreatureData(doc: any, pack: any): { creature: SystemCreatureIndex; errors: number } | null {
+    // Implementation is in index-builder.ts since it runs in browser
+    // This method is here for type compliance but delegates to IndexBuilder
+    throw new Error('extractCreatureData should be called from SFRPGIndexBuilder, not the adapter');
+  }
+
+  getFilterSchema() {
+    return SFRPGFiltersSchema;
+  }
+
+  matchesFilters(creature: SystemCreatureIndex, filters: Record<string, any>): boolean {
+    // Validate filters match Starfinder schema
+    const validated = SFRPGFiltersSchema.safeParse(filters);
+    if (!validated.success) {
+      return false;
+    }
+
+    return matchesSFRPGFilters(creature, validated.data as SFRPGFilters);
+  }
+
+  getDataPaths(): Record<string, string | null> {
+    return {
+      // Starfinder specific paths
+      challengeRating: 'system.details.cr', // NPCs
+      level: 'system.details.level.value', // Characters and drones
+      creatureType: 'system.details.type', // Free text, e.g. "Humanoid (ysoki)"
+      subtype: 'system.details.subtype',
+      size: 'system.traits.size',
+      alignment: 'system.details.alignment',
+      hitPoints: 'system.attributes.hp',
+      stamina: 'system.attributes.sp',
+      resolve: 'system.attributes.rp',
+      eac: 'system.attributes.eac.value',
+      kac: 'system.attributes.kac.value',
+      abilities: 'system.abilities',
+      skills: 'system.skills',
+      saves: 'system.attributes', // fort, reflex, will
+      spells: 'system.spells',
+      currency: 'system.currency',
+      biography: 'system.details.biography.value',
+      // Starfinder has a single AC pair and no legendary actions
+      armorClass: null,
+      legendaryActions: null,
+      legendaryResistances: null
+    };
+  }
+
+  formatCreatureForList(creature: SystemCreatureIndex): any {
+    const sfCreature = creature as SFRPGCreatureIndex;
+    const formatted: any = {
+      id: creature.id,
+      name: creature.name,
+      type: creature.type,
+      pack: {
+        id: creature.packName,
+        label: creature.packLabel
+      }
+    };
+
+    // Add Starfinder specific stats
+    if (sfCreature.systemData) {
+      const stats: any = {};
+
+      if (sfCreature.systemData.challengeRating !== undefined) {
+        stats.challengeRating = sfCreature.systemData.challengeRating;
+      } else if (sfCreature.systemData.level !== undefined) {
+        stats.level = sfCreature.systemData.level;
+      }
+
+      if (sfCreature.systemData.creatureType && sfCreature.systemData.creatureType !== 'unknown') {
+        stats.creatureType = sfCreature.systemData.creatureType;
+      }
+
+      if (sfCreature.systemData.subtypes && sfCreature.systemData.subtypes.length > 0) {
+        stats.subtypes = sfCreature.systemData.subtypes;
+      }
+
+      if (sfCreature.systemData.size) {
+        stats.size = sfCreature.systemData.size;
+      }
+
+      if (sfCreature.systemData.hitPoints) {
+        stats.hitPoints = sfCreature.systemData.hitPoints;
+      }
+
+      if (sfCreature.systemData.eac) {
+        stats.eac = sfCreature.systemData.eac;
+      }
+
+      if (sfCreature.systemData.kac) {
+        stats.kac = sfCreature.systemData.kac;
+      }
+
+      if (sfCreature.systemData.hasSpellcasting) {
+        stats.spellcaster = true;
+      }
+
+      if (Object.keys(stats).length > 0) {
+        formatted.stats = stats;
+      }
+    }
+
+    if (creature.img) {
+      formatted.hasImage = true;
+    }
+
+    return formatted;
+  }
+
+  formatCreatureForDetails(creature: SystemCreatureIndex): any {
+    const sfCreature = creature as SFRPGCreatureIndex;
+    const formatted = this.formatCreatureForList(creature);
+
+    // Add additional details
+    if (sfCreature.systemData) {
+      formatted.detailedStats = {
+        challengeRating: sfCreature.systemData.challengeRating,
+        level: sfCreature.systemData.level,
+        creatureType: sfCreature.systemData.creatureType,
+        subtypes: sfCreature.systemData.subtypes,
+        size: sfCreature.systemData.size,
+        alignment: sfCreature.systemData.alignment,
+        hitPoints: sfCreature.systemData.hitPoints,
+        eac: sfCreature.systemData.eac,
+        kac: sfCreature.systemData.kac,
+        hasSpellcasting: sfCreature.systemData.hasSpellcasting
+      };
+    }
+
+    if (creature.img) {
+      formatted.img = creature.img;
+    }
+
+    return formatted;
+  }
+
+  describeFilters(filters: Record<string, any>): string {
+    const validated = SFRPGFiltersSchema.safeParse(filters);
+    if (!validated.success) {
+      return 'invalid filters';
+    }
+
+    return describeSFRPGFilters(validated.data as SFRPGFilters);
+  }
+
+  getPowerLevel(creature: SystemCreatureIndex): number | undefined {
+    // Starfinder: CR for NPCs, level for characters
+    return getSFRPGPowerLevel(creature);
+  }
+
+  /**
+   * Extract character statistics from actor data
+   */
+  extractCharacterStats(actorData: any): any {
+    const system = actorData.system || {};
+    const stats: any = {};
+    const isNpc = actorData.type === 'npc' || actorData.type === 'npc2';
+
+    // Basic info
+    stats.name = actorData.name;
+    stats.type = actorData.type;
+
+    // CR (NPCs) or level (characters, drones)
+    if (isNpc && system.details?.cr !== undefined) {
+      stats.challengeRating = Number(system.details.cr);
+    } else {
+      const level = system.details?.level?.value ?? system.details?.level;
+      if (level !== undefined && level !== null) {
+        stats.level = Number(level);
+      }
+    }
+
+    // Hit Points, Stamina Points and Resolve Points
+    const hp = system.attributes?.hp;
+    if (hp) {
+      stats.hitPoints = {
+        current: hp.value ?? 0,
+        max: hp.max ?? 0,
+        temp: hp.temp ?? 0
+      };
+    }
+
+    const sp = system.attributes?.sp;
+    if (sp && (sp.max ?? 0) > 0) {
+      stats.stamina = {
+        current: sp.value ?? 0,
+        max: sp.max ?? 0
+      };
+    }
+
+    const rp = system.attributes?.rp;
+    if (rp && (rp.max ?? 0) > 0) {
+      stats.resolve = {
+        current: rp.value ?? 0,
+        max: rp.max ?? 0
+      };
+    }
+
+    // Energy and Kinetic Armor Class
+    const eac = system.attributes?.eac?.value;
+    if (eac !== undefined) {
+      stats.eac = eac;
+    }
+    const kac = system.attributes?.kac?.value;
+    if (kac !== undefined) {
+      stats.kac = kac;
+    }
+
+    // Abilities (STR, DEX, CON, INT, WIS, CHA); NPCs only have modifiers
+    if (system.abilities) {
+      stats.abilities = {};
+      for (const [key, ability] of Object.entries(system.abilities)) {
+        const abilityData = ability as any;
+        stats.abilities[key] = {
+          value: abilityData.value ?? abilityData.mod ?? 0,
+          modifier: abilityData.mod ?? 0
+        };
+      }
+    }
+
+    // Saves
+    const saves: Record<string, number> = {};
+    for (const key of ['fort', 'reflex', 'will']) {
+      const bonus = system.attributes?.[key]?.bonus;
+      if (bonus !== undefined) {
+        saves[key] = Number(bonus);
+      }
+    }
+    if (Object.keys(saves).length > 0) {
+      stats.saves = saves;
+    }
+
+    // Initiative
+    const initiative = system.attributes?.init?.total;
+    if (initiative !== undefined) {
+      stats.initiative = initiative;
+    }
+
+    // Skills (NPCs list only the skills in their stat block)
+    if (system.skills) {
+      stats.skills = {};
+      for (const [key, skill] of Object.entries(system.skills)) {
+        const skillData = skill as any;
+        if (isNpc && !skillData.enabled && !skillData.ranks) {
+          continue;
+        }
+        stats.skills[key] = {
+          modifier: skillData.mod ?? 0,
+          ranks: skillData.ranks ?? 0,
+          classSkill: !!skillData.value
+        };
+      }
+    }
+
+    // Creature-specific info
+    if (isNpc) {
+      const typeText = system.details?.type;
+      if (typeText) {
+        stats.creatureType = typeText;
+      }
+
+      const subtype = system.details?.subtype;
+      if (subtype) {
+        stats.subtype = subtype;
+      }
+    }
+
+    const size = system.traits?.size;
+    if (size) {
+      stats.size = size;
+    }
+
+    const alignment = system.details?.alignment;
+    if (alignment) {
+      stats.alignment = alignment;
+    }
+
+    // Spellcasting: spells per day by spell level
+    const spellsPerDay: Record<string, number> = {};
+    for (const [key, spellLevel] of Object.entries(system.spells ?? {})) {
+      const perDay = Number((spellLevel as any)?.max ?? 0);
+      if (key !== 'spell0' && perDay > 0) {
+        spellsPerDay[key.replace('spell', '')] = perDay;
+      }
+    }
+    const spellItems = Array.isArray(actorData.items) ? actorData.items.filter((item: any) => item.type === 'spell') : [];
+    if (Object.keys(spellsPerDay).length > 0 || spellItems.length > 0) {
+      stats.spellcasting = {
+        hasSpells: true,
+        spellsPerDay,
+        knownSpells: spellItems.length
+      };
+    }
+
+    // Credits and UPBs
+    if (system.currency) {
+      stats.currency = {
+        credits: Number(system.currency.credit ?? 0),
+        upb: Number(system.currency.upb ?? 0)
+      };
+    }
+
+    return stats;
+  }
+
+  /**
+   * Calculate damage using Starfinder rules (immunities, vulnerabilities, DR, energy resistance, Stamina)
+   */
+  calculateDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+    return calculateSFRPGDamage(actorData, request);
+  }
+
+  /**
+   * Calculate healing (Hit Points only, capped at max HP)
+   */
+  calculateHealing(actorData: any, amount: number): HitPointChangeResult {
+    return calculateSFRPGHealing(actorData, amount);
+  }
+
+  /**
+   * Get encounter thresholds (XP of a creature at APL - 1 up to APL + 3)
+   */
+  getEncounterBudget(partyLevels: number[]): EncounterBudget {
+    return getSFRPGEncounterBudget(partyLevels);
+  }
+
+  /**
+   * Calculate encounter cost (creature XP by CR)
+   */
+  calculateEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+    return calculateSFRPGEncounterCost(creaturePowerLevels, partyLevels);
+  }
+
+  /**
+   * Build a d20 check from ability, skill, save or initiative modifiers
+   */
+  buildCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+    return buildSFRPGCheckRoll(actorData, check);
+  }
+
+  /**
+   * Compare against the DC (natural 20/1 decide saving throws)
+   */
+  evaluateCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+    return evaluateSFRPGCheck(check, roll, dc);
+  }
+
+  getActorUpdateSchema() {
+    return SFRPGActorUpdateSchema;
+  }
+
+  /**
+   * Map friendly fields to Starfinder paths (CR and max HP on NPCs only)
+   */
+  buildActorUpdate(actorData: any, fields: ActorUpdateFields): ActorUpdatePlan {
+    return buildSFRPGActorUpdate(actorData, fields, this.getDataPaths());
+  }
+
+  isInventoryItem(itemType: string): boolean {
+    return isSFRPGInventoryItem(itemType);
+  }
+
+  getItemQuantity(itemData: any): number {
+    return getSFRPGItemQuantity(itemData);
+  }
+
+  /**
+   * Quantity and equipped state for physical items
+   */
+  buildItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+    return buildSFRPGItemUpdate(itemData, change);
+  }
+
+  /**
+   * Credits from wealth by level, items up to one level higher
+   */
+  planTreasure(request: TreasureRequest, random?: () => number): TreasurePlan {
+    return planSFRPGTreasure(request, random);
+  }
+
+  getItemValue(itemData: any): number | undefined {
+    return getSFRPGItemValue(itemData);
+  }
+
+  buildCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+    return buildSFRPGCurrencyDeposit(actorData, currency);
+  }
+
+  getLootActorType(): string {
+    // Starfinder has no loot actor; an NPC holds the treasure
+    return 'npc2';
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Starfinder Checks
+ *
+ * Builds d20 check formulas from actor data and compares results against a DC.
+ * A natural 20 on a saving throw always succeeds and a natural 1 always fails;
+ * skill and ability checks have no automatic results.
+ */
+
+import type { CheckRequest, CheckRoll, CheckOutcome, DiceRollResult } from '../types.js';
+
+const ABILITY_KEYS: Record<string, string> = {
+  str: 'str', strength: 'str',
+  dex: 'dex', dexterity: 'dex',
+  con: 'con', constitution: 'con',
+  int: 'int', intelligence: 'int',
+  wis: 'wis', wisdom: 'wis',
+  cha: 'cha', charisma: 'cha',
+};
+
+const SAVE_KEYS: Record<string, string> = {
+  fortitude: 'fort', fort: 'fort',
+  reflex: 'reflex', ref: 'reflex',
+  will: 'will',
+};
+
+const SAVE_LABELS: Record<string, string> = { fort: 'Fortitude', reflex: 'Reflex', will: 'Will' };
+
+const SKILL_KEYS: Record<string, string> = {
+  acrobatics: 'acr',
+  athletics: 'ath',
+  bluff: 'blu',
+  computers: 'com',
+  culture: 'cul',
+  diplomacy: 'dip',
+  disguise: 'dis',
+  engineering: 'eng',
+  intimidate: 'int',
+  lifescience: 'lsc',
+  medicine: 'med',
+  mysticism: 'mys',
+  perception: 'per',
+  physicalscience: 'phs',
+  piloting: 'pil',
+  profession: 'pro',
+  sensemotive: 'sen',
+  sleightofhand: 'sle',
+  stealth: 'ste',
+  survival: 'sur',
+};
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && !isNaN(number) ? number : undefined;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Build a Starfinder check roll
+ */
+export function buildSFRPGCheckRoll(actorData: any, check: CheckRequest): CheckRoll {
+  const system = actorData?.system ?? {};
+  const notes: string[] = [];
+  let bonus: number | undefined;
+  let label: string;
+
+  switch (check.type) {
+    case 'ability': {
+      const key = ABILITY_KEYS[(check.name ?? '').toLowerCase().trim()];
+      if (!key) {
+        throw new Error(`Unknown ability "${check.name}"; use str, dex, con, int, wis or cha`);
+      }
+      bonus = toNumber(system.abilities?.[key]?.mod);
+      label = `${key.toUpperCase()} check`;
+      break;
+    }
+
+    case 'save': {
+      const key = SAVE_KEYS[(check.name ?? '').toLowerCase().trim()];
+      if (!key) {
+        throw new Error(`Unknown save "${check.name}"; use fortitude, reflex or will`);
+      }
+      bonus = toNumber(system.attributes?.[key]?.bonus);
+      label = `${SAVE_LABELS[key]} save`;
+      break;
+    }
+
+    case 'skill':
+    case 'perception': {
+      const name = check.type === 'perception' ? 'perception' : (check.name ?? '');
+      const normalized = name.toLowerCase().replace(/[\s_-]+/g, '');
+      const key = SKILL_KEYS[normalized] ?? (system.skills?.[normalized] ? normalized : undefined);
+      if (!key || !system.skills?.[key]) {
+        throw new Error(`Unknown skill "${name}"`);
+      }
+      bonus = toNumber(system.skills[key].mod);
+      label = `${capitalize(name)} check`;
+      if (!system.skills[key].ranks && system.skills[key].isTrainedOnly) {
+        notes.push(`${capitalize(name)} is trained only and the actor has no ranks`);
+      }
+      break;
+    }
+
+    case 'initiative':
+      bonus = toNumber(system.attributes?.init?.total) ?? toNumber(system.abilities?.dex?.mod);
+      label = 'Initiative';
+      break;
+  }
+
+  if (check.advantage) {
+    notes.push('Starfinder has no advantage; roll twice only when an ability says so, or apply a bonus or penalty as modifier');
+  }
+
+  if (bonus === undefined) {
+    notes.push('Modifier not found in actor data; rolled without it');
+    bonus = 0;
+  }
+
+  const modifier = bonus + (check.modifier ?? 0);
+
+  return {
+    formula: modifier === 0 ? '1d20' : `1d20 ${modifier > 0 ? '+' : '-'} ${Math.abs(modifier)}`,
+    label,
+    modifier,
+    notes,
+  };
+}
+
+/**
+ * Compare a Starfinder roll against a DC; natural 20/1 decide saving throws
+ */
+export function evaluateSFRPGCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome {
+  const d20 = roll.dice.find(die => die.faces === 20 && die.results.length === 1);
+  const natural = d20?.results[0];
+  const notes: string[] = [];
+
+  if (dc === undefined) {
+    return { success: null, degree: null, natural, notes };
+  }
+
+  let success = roll.total >= dc;
+  if (check?.label.endsWith(' save') && (natural === 20 || natural === 1)) {
+    success = natural === 20;
+    notes.push(`Natural ${natural} on a saving throw always ${success ? 'succeeds' : 'fails'}`);
+  }
+
+  return {
+    success,
+    degree: success ? 'success' : 'failure',
+    margin: roll.total - dc,
+    natural,
+    notes,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Starfinder Damage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateSFRPGDamage, calculateSFRPGHealing } from './damage.js';
+
+function actor(hp: Record<string, number>, stamina?: number, traits: Record<string, any> = {}) {
+  return { system: { attributes: { hp, ...(stamina !== undefined ? { sp: { value: stamina, max: 20 } } : {}) }, traits } };
+}
+
+describe('calculateSFRPGDamage', () => {
+  it('takes damage from temporary HP, then Stamina, then Hit Points', () => {
+    const result = calculateSFRPGDamage(actor({ value: 15, max: 15, temp: 3 }, 6), { amount: 12 });
+    expect(result.after).toEqual({ value: 12, max: 15, temp: 0 });
+    expect(result.updates).toEqual({
+      'system.attributes.hp.value': 12,
+      'system.attributes.hp.temp': 0,
+      'system.attributes.sp.value': 0,
+    });
+  });
+
+  it('applies DR to kinetic damage and energy resistance to energy damage', () => {
+    const traits = { damageReduction: { value: 5, negatedBy: 'magic' }, energyResistance: { fire: 10 } };
+    expect(calculateSFRPGDamage(actor({ value: 30, max: 30 }, undefined, traits), { amount: 8, damageType: 'S' }).appliedAmount).toBe(3);
+    expect(calculateSFRPGDamage(actor({ value: 30, max: 30 }, undefined, traits), { amount: 12, damageType: 'fire' }).appliedAmount).toBe(2);
+  });
+
+  it('adds half again for vulnerability', () => {
+    const traits = { dv: { value: ['cold'] } };
+    expect(calculateSFRPGDamage(actor({ value: 30, max: 30 }, undefined, traits), { amount: 9, damageType: 'C' }).appliedAmount).toBe(13);
+  });
+});
+
+describe('calculateSFRPGHealing', () => {
+  it('caps healing at max HP', () => {
+    const result = calculateSFRPGHealing(actor({ value: 10, max: 15 }, 0), 10);
+    expect(result.after.value).toBe(15);
+    expect(result.appliedAmount).toBe(5);
+  });
+
+  it('never lowers HP that is already above max', () => {
+    expect(calculateSFRPGHealing(actor({ value: 20, max: 15 }), 5).after.value).toBe(20);
+  });
+});
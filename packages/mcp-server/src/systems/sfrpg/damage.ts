@@ -0,0 +1,166 @@
+/**
+ * Starfinder Damage Rules
+ *
+ * Pure calculations for applying damage and healing to Starfinder actors.
+ * Damage is taken from temporary HP, then Stamina Points, then Hit Points;
+ * healing restores Hit Points only (Stamina comes back with rest and Resolve).
+ * The resulting update payload is applied by the Foundry module.
+ */
+
+import type { DamageRequest, HitPointChangeResult, HitPointState } from '../types.js';
+import { getHealedValue } from '../hit-points.js';
+
+const HP_PATHS = {
+  value: 'system.attributes.hp.value',
+  temp: 'system.attributes.hp.temp',
+  stamina: 'system.attributes.sp.value'
+} as const;
+
+// Damage reduction only applies to kinetic damage
+const KINETIC_TYPES = ['bludgeoning', 'piercing', 'slashing'];
+
+// Stat block abbreviations (A, C, E, F, So, B, P, S)
+const DAMAGE_TYPE_ALIASES: Record<string, string> = {
+  a: 'acid', c: 'cold', e: 'electricity', f: 'fire', so: 'sonic',
+  b: 'bludgeoning', p: 'piercing', s: 'slashing'
+};
+
+/**
+ * Read an immunity/vulnerability list that may be an array, a serialized Set, or a custom string
+ */
+function readTraitValues(trait: any): string[] {
+  if (!trait) {
+    return [];
+  }
+
+  const values: string[] = Array.isArray(trait.value) ? [...trait.value] : [];
+
+  if (typeof trait.custom === 'string' && trait.custom.trim()) {
+    values.push(...trait.custom.split(';').map((v: string) => v.trim()));
+  }
+
+  return values.map(v => String(v).toLowerCase()).filter(Boolean);
+}
+
+function normalizeDamageType(damageType: string | undefined): string | undefined {
+  const type = damageType?.toLowerCase().trim();
+  return type ? DAMAGE_TYPE_ALIASES[type] ?? type : undefined;
+}
+
+/**
+ * Read current hit points from Starfinder actor data
+ */
+export function getSFRPGHitPoints(actorData: any): HitPointState {
+  const hp = actorData.system?.attributes?.hp || {};
+
+  return {
+    value: Number(hp.value ?? 0),
+    max: Number(hp.max ?? 0),
+    temp: Number(hp.temp ?? 0)
+  };
+}
+
+/**
+ * Apply Starfinder damage: immunity, damage reduction (kinetic), energy resistance and
+ * vulnerability (+50%), then temporary HP, Stamina Points and finally Hit Points
+ */
+export function calculateSFRPGDamage(actorData: any, request: DamageRequest): HitPointChangeResult {
+  const before = getSFRPGHitPoints(actorData);
+  const traits = actorData.system?.traits || {};
+  const damageType = normalizeDamageType(request.damageType);
+  const adjustments: string[] = [];
+
+  let amount = Math.max(0, Math.floor(request.amount));
+
+  if (damageType && !request.ignoreResistances && amount > 0) {
+    if (readTraitValues(traits.di).includes(damageType)) {
+      amount = 0;
+      adjustments.push(`immune to ${damageType}`);
+    } else {
+      if (readTraitValues(traits.dv).includes(damageType)) {
+        amount = Math.floor(amount * 1.5);
+        adjustments.push(`vulnerable to ${damageType} (+50%)`);
+      }
+
+      if (KINETIC_TYPES.includes(damageType)) {
+        const reduction = Number(traits.damageReduction?.value ?? 0);
+        if (reduction > 0) {
+          amount = Math.max(0, amount - reduction);
+          adjustments.push(`DR ${reduction}${traits.damageReduction?.negatedBy ? `/${traits.damageReduction.negatedBy}` : ''}`);
+        }
+      } else {
+        const resistance = Number(traits.energyResistance?.[damageType] ?? 0);
+        if (resistance > 0) {
+          amount = Math.max(0, amount - resistance);
+          adjustments.push(`${damageType} resistance ${resistance}`);
+        }
+      }
+    }
+  }
+
+  let remaining = amount;
+
+  const absorbedByTemp = Math.min(before.temp, remaining);
+  remaining -= absorbedByTemp;
+  if (absorbedByTemp > 0) {
+    adjustments.push(`${absorbedByTemp} absorbed by temporary HP`);
+  }
+
+  const updates: Record<string, number> = {};
+  const stamina = actorData.system?.attributes?.sp;
+  if (stamina && remaining > 0) {
+    const staminaBefore = Number(stamina.value ?? 0);
+    const absorbedByStamina = Math.min(staminaBefore, remaining);
+    remaining -= absorbedByStamina;
+    if (absorbedByStamina > 0) {
+      updates[HP_PATHS.stamina] = staminaBefore - absorbedByStamina;
+      adjustments.push(`${absorbedByStamina} absorbed by Stamina Points (${staminaBefore - absorbedByStamina} SP left)`);
+    }
+  }
+
+  const after: HitPointState = {
+    value: Math.max(0, before.value - remaining),
+    max: before.max,
+    temp: before.temp - absorbedByTemp
+  };
+
+  return {
+    before,
+    after,
+    requestedAmount: request.amount,
+    appliedAmount: amount,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: after.value,
+      [HP_PATHS.temp]: after.temp,
+      ...updates
+    },
+    droppedToZero: before.value > 0 && after.value === 0
+  };
+}
+
+/**
+ * Apply Starfinder healing to Hit Points (capped at max HP)
+ */
+export function calculateSFRPGHealing(actorData: any, amount: number): HitPointChangeResult {
+  const before = getSFRPGHitPoints(actorData);
+  const healing = Math.max(0, Math.floor(amount));
+  const newValue = getHealedValue(before, healing);
+  const adjustments: string[] = [];
+
+  if (before.value + healing > before.max) {
+    adjustments.push(`capped at max HP ${before.max}`);
+  }
+
+  return {
+    before,
+    after: { ...before, value: newValue },
+    requestedAmount: amount,
+    appliedAmount: newValue - before.value,
+    adjustments,
+    updates: {
+      [HP_PATHS.value]: newValue
+    },
+    droppedToZero: false
+  };
+}
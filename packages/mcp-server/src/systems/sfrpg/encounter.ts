@@ -0,0 +1,102 @@
+/**
+ * Starfinder Encounter Budget
+ *
+ * Encounter CR against the party's Average Party Level (APL) from the Core Rulebook:
+ * the XP of a creature with CR equal to APL is an average encounter, APL - 1 easy,
+ * APL + 1 challenging, APL + 2 hard and APL + 3 epic. Creature XP is added up.
+ */
+
+import type { EncounterBudget, EncounterCost } from '../types.js';
+import { formatCR } from './filters.js';
+
+/**
+ * XP awarded per Challenge Rating
+ */
+export const XP_BY_CR: Record<string, number> = {
+  '0.125': 50, '0.166': 65, '0.25': 100, '0.333': 135, '0.5': 200,
+  '1': 400, '2': 600, '3': 800, '4': 1200, '5': 1600,
+  '6': 2400, '7': 3200, '8': 4800, '9': 6400, '10': 9600,
+  '11': 12800, '12': 19200, '13': 25600, '14': 38400, '15': 51200,
+  '16': 76800, '17': 102400, '18': 153600, '19': 204800, '20': 307200,
+  '21': 409600, '22': 614400, '23': 819200, '24': 1228800, '25': 1638400
+};
+
+/**
+ * Encounter CR relative to APL per difficulty
+ */
+export const DIFFICULTY_CR_OFFSETS = [
+  { difficulty: 'easy', offset: -1 },
+  { difficulty: 'average', offset: 0 },
+  { difficulty: 'challenging', offset: 1 },
+  { difficulty: 'hard', offset: 2 },
+  { difficulty: 'epic', offset: 3 }
+] as const;
+
+/**
+ * XP for a CR; fractional CRs snap to the nearest table entry, whole CRs are clamped to 1-25
+ */
+export function getSFRPGCreatureXP(cr: number): number {
+  if (cr < 1) {
+    const fractions = Object.keys(XP_BY_CR).map(Number).filter(value => value < 1);
+    const nearest = fractions.reduce((best, value) => Math.abs(value - cr) < Math.abs(best - cr) ? value : best);
+    return XP_BY_CR[String(nearest)];
+  }
+  return XP_BY_CR[String(Math.min(25, Math.round(cr)))];
+}
+
+/**
+ * Average level, one higher for six or more characters and one lower for three or fewer
+ */
+function getAveragePartyLevel(partyLevels: number[]): number {
+  if (partyLevels.length === 0) {
+    return 1;
+  }
+
+  const average = Math.round(partyLevels.reduce((sum, level) => sum + level, 0) / partyLevels.length);
+  if (partyLevels.length >= 6) return average + 1;
+  if (partyLevels.length <= 3) return Math.max(1, average - 1);
+  return average;
+}
+
+/**
+ * Get XP budgets for each difficulty from the APL
+ */
+export function getSFRPGEncounterBudget(partyLevels: number[]): EncounterBudget {
+  const apl = getAveragePartyLevel(partyLevels);
+
+  return {
+    unit: 'XP',
+    partyLevel: apl,
+    partySize: partyLevels.length,
+    thresholds: DIFFICULTY_CR_OFFSETS.map(({ difficulty, offset }) => {
+      const cr = apl + offset;
+      // Below CR 1 the budget follows the fractional CRs: APL 1 easy is CR 1/2
+      return { difficulty, value: cr >= 1 ? getSFRPGCreatureXP(cr) : XP_BY_CR['0.5'] };
+    }),
+    defaultDifficulty: 'average'
+  };
+}
+
+/**
+ * Sum creature XP by CR
+ */
+export function calculateSFRPGEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost {
+  const apl = getAveragePartyLevel(partyLevels);
+  const notes: string[] = [];
+
+  const perCreature = creaturePowerLevels.map(cr => {
+    if (cr > apl + 3) {
+      notes.push(`CR ${formatCR(cr)} creature is more than 3 above the APL (${apl}); a single such foe is beyond epic`);
+    }
+    return getSFRPGCreatureXP(cr);
+  });
+
+  const total = perCreature.reduce((sum, xp) => sum + xp, 0);
+
+  return {
+    total,
+    baseTotal: total,
+    perCreature,
+    notes: [...new Set(notes)]
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Starfinder Filter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SFRPGFiltersSchema, matchesSFRPGFilters, describeSFRPGFilters, getSFRPGPowerLevel, formatCR, isValidSFRPGCreatureType } from './filters.js';
+import type { SFRPGFilters } from './filters.js';
+import { toSystemCreatureIndex } from '../../creature-index-cache.js';
+
+// Test creature data
+const spaceGoblin = {
+  id: 'test-space-goblin',
+  name: 'Space Goblin Zaperator',
+  type: 'npc2',
+  systemData: {
+    challengeRating: 0.333,
+    creatureType: 'humanoid',
+    subtypes: ['goblinoid'],
+    size: 'small',
+    alignment: 'CE',
+    hasSpellcasting: false,
+    hitPoints: 6,
+    eac: 10,
+    kac: 12,
+  }
+};
+
+const ysokiMystic = {
+  id: 'test-ysoki-mystic',
+  name: 'Ysoki Mystic',
+  type: 'npc2',
+  systemData: {
+    challengeRating: 5,
+    creatureType: 'humanoid',
+    subtypes: ['ysoki'],
+    size: 'small',
+    alignment: 'NG',
+    hasSpellcasting: true,
+    hitPoints: 60,
+    eac: 17,
+    kac: 18,
+  }
+};
+
+const securityRobot = {
+  id: 'test-security-robot',
+  name: 'Security Robot',
+  type: 'npc2',
+  systemData: {
+    challengeRating: 8,
+    creatureType: 'construct',
+    subtypes: ['technological'],
+    size: 'large',
+    alignment: 'N',
+    hasSpellcasting: false,
+    hitPoints: 125,
+    eac: 20,
+    kac: 22,
+  }
+};
+
+const playerCharacter = {
+  id: 'test-character',
+  name: 'Vesk Soldier',
+  type: 'character',
+  systemData: {
+    level: 5,
+    subtypes: [],
+    size: 'medium',
+    hasSpellcasting: false,
+    eac: 18,
+    kac: 21,
+  }
+};
+
+describe('matchesSFRPGFilters', () => {
+  it('matches an exact CR, including stored fractions', () => {
+    const filters: SFRPGFilters = { challengeRating: 1 / 3 };
+    expect(matchesSFRPGFilters(spaceGoblin, filters)).toBe(true);
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(false);
+  });
+
+  it('matches a CR range', () => {
+    const filters: SFRPGFilters = { challengeRating: { min: 4, max: 8 } };
+    expect(matchesSFRPGFilters(spaceGoblin, filters)).toBe(false);
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(true);
+    expect(matchesSFRPGFilters(securityRobot, filters)).toBe(true);
+  });
+
+  it('compares level filters against the CR of NPCs and the level of characters', () => {
+    const filters: SFRPGFilters = { level: 5 };
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(true);
+    expect(matchesSFRPGFilters(playerCharacter, filters)).toBe(true);
+    expect(matchesSFRPGFilters(securityRobot, filters)).toBe(false);
+  });
+
+  it('filters by creature type', () => {
+    const filters: SFRPGFilters = { creatureType: 'construct' };
+    expect(matchesSFRPGFilters(securityRobot, filters)).toBe(true);
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(false);
+    expect(matchesSFRPGFilters(playerCharacter, filters)).toBe(false);
+  });
+
+  it('filters by subtype, ignoring case', () => {
+    const filters: SFRPGFilters = { subtype: 'Ysoki' };
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(true);
+    expect(matchesSFRPGFilters(spaceGoblin, filters)).toBe(false);
+  });
+
+  it('filters by EAC and KAC ranges', () => {
+    expect(matchesSFRPGFilters(securityRobot, { eac: { min: 18 } })).toBe(true);
+    expect(matchesSFRPGFilters(ysokiMystic, { eac: { min: 18 } })).toBe(false);
+    expect(matchesSFRPGFilters(spaceGoblin, { kac: { max: 12 } })).toBe(true);
+    expect(matchesSFRPGFilters(securityRobot, { kac: 22 })).toBe(true);
+  });
+
+  it('filters spellcasters', () => {
+    expect(matchesSFRPGFilters(ysokiMystic, { hasSpells: true })).toBe(true);
+    expect(matchesSFRPGFilters(securityRobot, { hasSpells: true })).toBe(false);
+    expect(matchesSFRPGFilters(securityRobot, { hasSpells: false })).toBe(true);
+  });
+
+  it('combines filters', () => {
+    const filters: SFRPGFilters = { creatureType: 'humanoid', size: 'small', challengeRating: { max: 6 }, hasSpells: true };
+    expect(matchesSFRPGFilters(ysokiMystic, filters)).toBe(true);
+    expect(matchesSFRPGFilters(spaceGoblin, filters)).toBe(false);
+  });
+
+  it('matches everything without filters', () => {
+    expect(matchesSFRPGFilters(spaceGoblin, {})).toBe(true);
+  });
+});
+
+describe('Foundry module index entries', () => {
+  // Flat entry as the Foundry module's enhanced creature index stores it
+  const moduleEntry = {
+    id: 'test-ysoki-mystic',
+    name: 'Ysoki Mystic',
+    type: 'npc2',
+    pack: 'sfrpg.alien-archives',
+    packLabel: 'Alien Archives',
+    challengeRating: 5,
+    creatureType: 'humanoid',
+    subtypes: ['ysoki'],
+    size: 'small',
+    hitPoints: 60,
+    eac: 17,
+    kac: 18,
+    hasSpells: true,
+    alignment: 'NG',
+    description: '',
+    img: 'icons/ysoki.webp',
+  };
+
+  it('match filters after conversion to the adapter index shape', () => {
+    const creature = toSystemCreatureIndex(moduleEntry, 'sfrpg');
+    expect(creature.systemData.hasSpellcasting).toBe(true);
+
+    expect(matchesSFRPGFilters(creature, { challengeRating: { min: 4, max: 6 }, creatureType: 'humanoid', subtype: 'ysoki', hasSpells: true })).toBe(true);
+    expect(matchesSFRPGFilters(creature, { eac: { min: 17 }, kac: { max: 18 }, size: 'small' })).toBe(true);
+    expect(matchesSFRPGFilters(creature, { hasSpells: false })).toBe(false);
+    expect(getSFRPGPowerLevel(creature)).toBe(5);
+  });
+
+  it('use the level of characters and drones', () => {
+    const { challengeRating: _challengeRating, ...drone } = moduleEntry;
+    const creature = toSystemCreatureIndex({ ...drone, type: 'drone', level: 3, creatureType: 'construct', subtypes: ['technological'], hasSpells: false }, 'sfrpg');
+
+    expect(matchesSFRPGFilters(creature, { level: 3, creatureType: 'construct' })).toBe(true);
+    expect(matchesSFRPGFilters(creature, { challengeRating: { min: 4 } })).toBe(false);
+  });
+});
+
+describe('SFRPGFiltersSchema', () => {
+  it('rejects creature types from other systems', () => {
+    expect(SFRPGFiltersSchema.safeParse({ creatureType: 'fiend' }).success).toBe(false);
+    expect(SFRPGFiltersSchema.safeParse({ creatureType: 'magical beast' }).success).toBe(true);
+  });
+});
+
+describe('describeSFRPGFilters', () => {
+  it('prints fractional CRs and armor classes', () => {
+    expect(describeSFRPGFilters({ challengeRating: { min: 0.333, max: 2 }, eac: { min: 15 } })).toBe('CR 1/3-2, EAC 15+');
+  });
+
+  it('combines creature type and subtype', () => {
+    expect(describeSFRPGFilters({ creatureType: 'humanoid', subtype: 'ysoki', hasSpells: true })).toBe('humanoid (ysoki), spellcaster');
+  });
+
+  it('reports empty filters', () => {
+    expect(describeSFRPGFilters({})).toBe('no filters');
+  });
+});
+
+describe('helpers', () => {
+  it('uses CR for NPCs and level for characters as power level', () => {
+    expect(getSFRPGPowerLevel(securityRobot)).toBe(8);
+    expect(getSFRPGPowerLevel(playerCharacter)).toBe(5);
+  });
+
+  it('formats fractional CRs', () => {
+    expect(formatCR(0.125)).toBe('1/8');
+    expect(formatCR(0.166)).toBe('1/6');
+    expect(formatCR(0.5)).toBe('1/2');
+    expect(formatCR(3)).toBe('3');
+  });
+
+  it('validates creature types', () => {
+    expect(isValidSFRPGCreatureType('Outsider')).toBe(true);
+    expect(isValidSFRPGCreatureType('beast')).toBe(false);
+  });
+});
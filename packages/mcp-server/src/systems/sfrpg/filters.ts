@@ -0,0 +1,195 @@
+/**
+ * Starfinder Filter Schemas
+ *
+ * Creature filters for the Starfinder (sfrpg) system: CR for NPCs or level for characters,
+ * creature type and subtype, Energy and Kinetic Armor Class, size and spellcasting.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Starfinder creature types (Alien Archive)
+ */
+export const SFRPGCreatureTypes = [
+  'aberration',
+  'animal',
+  'construct',
+  'dragon',
+  'fey',
+  'humanoid',
+  'magical beast',
+  'monstrous humanoid',
+  'ooze',
+  'outsider',
+  'plant',
+  'undead',
+  'vermin'
+] as const;
+
+export type SFRPGCreatureType = typeof SFRPGCreatureTypes[number];
+
+/**
+ * Starfinder creature sizes
+ */
+export const SFRPGCreatureSizes = ['fine', 'diminutive', 'tiny', 'small', 'medium', 'large', 'huge', 'gargantuan', 'colossal'] as const;
+export type SFRPGCreatureSize = typeof SFRPGCreatureSizes[number];
+
+const RangeSchema = z.union([
+  z.number(),
+  z.object({
+    min: z.number().optional(),
+    max: z.number().optional()
+  })
+]);
+
+type Range = z.infer<typeof RangeSchema>;
+
+/**
+ * Starfinder filter schema
+ */
+export const SFRPGFiltersSchema = z.object({
+  // CR for NPCs (fractions such as 1/3 as 0.333), level for characters; both match either
+  challengeRating: RangeSchema.optional(),
+  level: RangeSchema.optional(),
+  creatureType: z.enum(SFRPGCreatureTypes).optional(),
+  subtype: z.string().optional(), // e.g. "human", "ysoki", "robot"
+  size: z.enum(SFRPGCreatureSizes).optional(),
+  eac: RangeSchema.optional(), // Energy Armor Class
+  kac: RangeSchema.optional(), // Kinetic Armor Class
+  alignment: z.string().optional(),
+  hasSpells: z.boolean().optional()
+});
+
+export type SFRPGFilters = z.infer<typeof SFRPGFiltersSchema>;
+
+/**
+ * CR of an NPC or level of a character
+ */
+export function getSFRPGPowerLevel(creature: any): number | undefined {
+  return creature.systemData?.challengeRating ?? creature.systemData?.level;
+}
+
+function matchesRange(value: number | undefined, range: Range): boolean {
+  if (value === undefined) return false;
+
+  if (typeof range === 'number') {
+    // CR fractions are stored rounded (1/3 as 0.333)
+    return Math.abs(value - range) < 0.01;
+  }
+
+  const min = range.min ?? -Infinity;
+  const max = range.max ?? Infinity;
+  return value >= min && value <= max;
+}
+
+function describeRange(label: string, range: Range): string {
+  if (typeof range === 'number') {
+    return `${label} ${formatCR(range)}`;
+  }
+  if (range.min !== undefined && range.max !== undefined) {
+    return `${label} ${formatCR(range.min)}-${formatCR(range.max)}`;
+  }
+  return range.min !== undefined ? `${label} ${formatCR(range.min)}+` : `${label} up to ${formatCR(range.max ?? 0)}`;
+}
+
+/**
+ * Show fractional CRs the way stat blocks print them
+ */
+export function formatCR(value: number): string {
+  const fractions: Array<[number, string]> = [[0.125, '1/8'], [0.166, '1/6'], [0.25, '1/4'], [0.333, '1/3'], [0.5, '1/2']];
+  const fraction = fractions.find(([number]) => Math.abs(value - number) < 0.01);
+  return fraction ? fraction[1] : String(value);
+}
+
+/**
+ * Check if a creature matches Starfinder filters
+ */
+export function matchesSFRPGFilters(creature: any, filters: SFRPGFilters): boolean {
+  // CR / level filter
+  const power = getSFRPGPowerLevel(creature);
+  if (filters.challengeRating !== undefined && !matchesRange(power, filters.challengeRating)) {
+    return false;
+  }
+  if (filters.level !== undefined && !matchesRange(power, filters.level)) {
+    return false;
+  }
+
+  // Creature type filter
+  if (filters.creatureType) {
+    const creatureType = creature.systemData?.creatureType;
+    if (!creatureType || creatureType.toLowerCase() !== filters.creatureType) {
+      return false;
+    }
+  }
+
+  // Subtype filter (creature may have several, e.g. ["human", "android"])
+  if (filters.subtype) {
+    const subtypes: string[] = creature.systemData?.subtypes ?? [];
+    if (!subtypes.some(subtype => subtype.toLowerCase() === filters.subtype!.toLowerCase())) {
+      return false;
+    }
+  }
+
+  // Size filter
+  if (filters.size) {
+    const size = creature.systemData?.size;
+    if (!size || size.toLowerCase() !== filters.size) {
+      return false;
+    }
+  }
+
+  // Armor class filters
+  if (filters.eac !== undefined && !matchesRange(creature.systemData?.eac, filters.eac)) {
+    return false;
+  }
+  if (filters.kac !== undefined && !matchesRange(creature.systemData?.kac, filters.kac)) {
+    return false;
+  }
+
+  // Alignment filter
+  if (filters.alignment) {
+    const alignment = creature.systemData?.alignment;
+    if (!alignment || !alignment.toLowerCase().includes(filters.alignment.toLowerCase())) {
+      return false;
+    }
+  }
+
+  // Spellcaster filter
+  if (filters.hasSpells !== undefined) {
+    const hasSpells = creature.systemData?.hasSpellcasting || false;
+    if (hasSpells !== filters.hasSpells) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Generate human-readable description of Starfinder filters
+ */
+export function describeSFRPGFilters(filters: SFRPGFilters): string {
+  const parts: string[] = [];
+
+  if (filters.challengeRating !== undefined) parts.push(describeRange('CR', filters.challengeRating));
+  if (filters.level !== undefined) parts.push(describeRange('Level', filters.level));
+  if (filters.creatureType) {
+    parts.push(filters.subtype ? `${filters.creatureType} (${filters.subtype})` : filters.creatureType);
+  } else if (filters.subtype) {
+    parts.push(`subtype ${filters.subtype}`);
+  }
+  if (filters.size) parts.push(filters.size);
+  if (filters.eac !== undefined) parts.push(describeRange('EAC', filters.eac));
+  if (filters.kac !== undefined) parts.push(describeRange('KAC', filters.kac));
+  if (filters.alignment) parts.push(filters.alignment);
+  if (filters.hasSpells) parts.push('spellcaster');
+
+  return parts.length > 0 ? parts.join(', ') : 'no filters';
+}
+
+/**
+ * Validate creature type
+ */
+export function isValidSFRPGCreatureType(creatureType: string): boolean {
+  return SFRPGCreatureTypes.includes(creatureType.toLowerCase() as SFRPGCreatureType);
+}
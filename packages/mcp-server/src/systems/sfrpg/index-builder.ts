@@ -0,0 +1,239 @@
+/**
+ * Starfinder Index Builder
+ *
+ * Builds enhanced creature index from Foundry compendiums.
+ * This code runs in Foundry's browser context, not Node.js.
+ */
+
+import type { IndexBuilder, SFRPGCreatureIndex } from '../types.js';
+import { SFRPGCreatureTypes } from './filters.js';
+
+// Foundry browser globals (unavailable in Node.js TypeScript compilation)
+declare const ui: any;
+
+// npc2 is the current NPC type, npc the legacy one
+const CREATURE_ACTOR_TYPES = ['npc', 'npc2', 'character', 'drone'];
+
+/**
+ * Split "Humanoid (human, ysoki)" into a type and its subtypes
+ */
+function parseCreatureType(typeText: string, subtypeText: string): { creatureType: string; subtypes: string[] } {
+  const match = typeText.match(/^([^(]*)\(([^)]*)\)/);
+  const baseType = (match ? match[1] : typeText).trim().toLowerCase();
+  const subtypeList = [match?.[2] ?? '', subtypeText].join(',');
+
+  return {
+    creatureType: SFRPGCreatureTypes.find(type => type === baseType) ?? (baseType || 'unknown'),
+    subtypes: subtypeList.split(',').map(subtype => subtype.trim().toLowerCase()).filter(Boolean)
+  };
+}
+
+/**
+ * Starfinder implementation of IndexBuilder
+ */
+export class SFRPGIndexBuilder implements IndexBuilder {
+  private moduleId: string;
+
+  constructor(moduleId: string = 'foundry-mcp-bridge') {
+    this.moduleId = moduleId;
+  }
+
+  getSystemId() {
+    return 'sfrpg' as const;
+  }
+
+  /**
+   * Build enhanced creature index from compendium packs
+   */
+  async buildIndex(packs: any[], force = false): Promise<SFRPGCreatureIndex[]> {
+    const startTime = Date.now();
+    let progressNotification: any = null;
+    let totalErrors = 0;
+
+    try {
+      const actorPacks = packs.filter(pack => pack.metadata.type === 'Actor');
+      const enhancedCreatures: SFRPGCreatureIndex[] = [];
+
+      console.log(`[${this.moduleId}] Starting Starfinder creature index build from ${actorPacks.length} packs...`);
+      if (typeof ui !== 'undefined' && ui.notifications) {
+        ui.notifications.info(`Starting Starfinder creature index build from ${actorPacks.length} packs...`);
+      }
+
+      let currentPack = 0;
+      for (const pack of actorPacks) {
+        currentPack++;
+
+        if (progressNotification && typeof ui !== 'undefined') {
+          progressNotification.remove();
+        }
+        if (typeof ui !== 'undefined' && ui.notifications) {
+          progressNotification = ui.notifications.info(
+            `Building Starfinder index: Pack ${currentPack}/${actorPacks.length} (${pack.metadata.label})...`
+          );
+        }
+
+        const result = await this.extractDataFromPack(pack);
+        enhancedCreatures.push(...result.creatures);
+        totalErrors += result.errors;
+      }
+
+      if (progressNotification && typeof ui !== 'undefined') {
+        progressNotification.remove();
+      }
+      if (typeof ui !== 'undefined' && ui.notifications) {
+        ui.notifications.info(`Saving Starfinder index to world database... (${enhancedCreatures.length} creatures)`);
+      }
+
+      const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
+      const errorText = totalErrors > 0 ? ` (${totalErrors} extraction errors)` : '';
+      const successMessage = `Starfinder creature index complete! ${enhancedCreatures.length} creatures indexed from ${actorPacks.length} packs in ${buildTimeSeconds}s${errorText}`;
+
+      console.log(`[${this.moduleId}] ${successMessage}`);
+      if (typeof ui !== 'undefined' && ui.notifications) {
+        ui.notifications.info(successMessage);
+      }
+
+      return enhancedCreatures;
+
+    } catch (error) {
+      if (progressNotification && typeof ui !== 'undefined') {
+        progressNotification.remove();
+      }
+
+      const errorMessage = `Failed to build Starfinder creature index: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(`[${this.moduleId}] ${errorMessage}`);
+      if (typeof ui !== 'undefined' && ui.notifications) {
+        ui.notifications.error(errorMessage);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Extract creature data from a single compendium pack
+   */
+  async extractDataFromPack(pack: any): Promise<{ creatures: SFRPGCreatureIndex[]; errors: number }> {
+    const creatures: SFRPGCreatureIndex[] = [];
+    let errors = 0;
+
+    try {
+      const documents = await pack.getDocuments();
+
+      for (const doc of documents) {
+        try {
+          // Starships, vehicles and hazards are not creatures
+          if (!CREATURE_ACTOR_TYPES.includes(doc.type)) {
+            continue;
+          }
+
+          const result = this.extractCreatureData(doc, pack);
+          if (result) {
+            creatures.push(result.creature);
+            errors += result.errors;
+          }
+
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Failed to extract Starfinder data from ${doc.name} in ${pack.metadata.label}:`, error);
+          errors++;
+        }
+      }
+
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to load documents from ${pack.metadata.label}:`, error);
+      errors++;
+    }
+
+    return { creatures, errors };
+  }
+
+  /**
+   * Extract Starfinder creature data from a single document
+   */
+  extractCreatureData(doc: any, pack: any): { creature: SFRPGCreatureIndex; errors: number } | null {
+    try {
+      const system = doc.system || {};
+      const isNpc = doc.type === 'npc' || doc.type === 'npc2';
+
+      // NPCs are rated by CR, characters and drones by level
+      const challengeRating = isNpc ? Number(system.details?.cr ?? 0) || 0 : undefined;
+      const level = isNpc ? undefined : Number(system.details?.level?.value ?? 1) || 1;
+
+      // Type is free text on NPCs, e.g. "Humanoid (ysoki)"
+      const { creatureType, subtypes } = parseCreatureType(
+        String(system.details?.type ?? ''),
+        String(system.details?.subtype ?? '')
+      );
+
+      const size = String(system.traits?.size || 'medium').toLowerCase();
+
+      let alignment = system.details?.alignment || 'N';
+      if (typeof alignment !== 'string') {
+        alignment = String(alignment || 'N');
+      }
+
+      const hitPoints = Number(system.attributes?.hp?.max ?? 0);
+      const eac = Number(system.attributes?.eac?.value ?? 10);
+      const kac = Number(system.attributes?.kac?.value ?? 10);
+
+      // Spellcasting: spell items, or spells per day in any spell level
+      const items = doc.items ? Array.from(doc.items as Iterable<any>) : [];
+      const spellLevels = Object.values(system.spells ?? {}) as any[];
+      const hasSpellcasting = items.some(item => item.type === 'spell') ||
+        spellLevels.some(spellLevel => Number(spellLevel?.max ?? spellLevel?.perDay ?? 0) > 0);
+
+      return {
+        creature: {
+          id: doc._id,
+          name: doc.name,
+          type: doc.type,
+          packName: pack.metadata.id,
+          packLabel: pack.metadata.label,
+          img: doc.img,
+          system: 'sfrpg',
+          systemData: {
+            challengeRating,
+            level,
+            creatureType,
+            subtypes,
+            size,
+            alignment: alignment.toUpperCase(),
+            hasSpellcasting,
+            hitPoints,
+            eac,
+            kac
+          }
+        },
+        errors: 0
+      };
+
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to extract Starfinder data from ${doc.name}:`, error);
+
+      // Fallback with error count
+      return {
+        creature: {
+          id: doc._id,
+          name: doc.name,
+          type: doc.type,
+          packName: pack.metadata.id,
+          packLabel: pack.metadata.label,
+          img: doc.img || '',
+          system: 'sfrpg',
+          systemData: {
+            challengeRating: 0,
+            creatureType: 'unknown',
+            subtypes: [],
+            size: 'medium',
+            alignment: 'N',
+            hasSpellcasting: false,
+            hitPoints: 1,
+            eac: 10,
+            kac: 10
+          }
+        },
+        errors: 1
+      };
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Starfinder System Module
+ *
+ * Exports for Starfinder (sfrpg) system support.
+ */
+
+// Type definitions (from central types.ts)
+export type { SFRPGCreatureIndex } from '../types.js';
+
+// Index builder (runs in Foundry browser context)
+export { SFRPGIndexBuilder } from './index-builder.js';
+
+// System adapter (runs in MCP server Node.js context)
+export { SFRPGAdapter } from './adapter.js';
+
+// Filter system
+export {
+  SFRPGCreatureTypes,
+  SFRPGCreatureSizes,
+  SFRPGFiltersSchema,
+  getSFRPGPowerLevel,
+  formatCR,
+  matchesSFRPGFilters,
+  describeSFRPGFilters,
+  isValidSFRPGCreatureType,
+} from './filters.js';
+export type { SFRPGCreatureType, SFRPGCreatureSize, SFRPGFilters } from './filters.js';
+
+// Damage rules
+export { getSFRPGHitPoints, calculateSFRPGDamage, calculateSFRPGHealing } from './damage.js';
+
+// Encounter budget
+export { XP_BY_CR, getSFRPGCreatureXP, getSFRPGEncounterBudget, calculateSFRPGEncounterCost } from './encounter.js';
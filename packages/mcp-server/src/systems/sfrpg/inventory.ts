@@ -0,0 +1,52 @@
+/**
+ * Starfinder Inventory
+ *
+ * Quantity and equipped paths for physical Starfinder items. Starfinder has no
+ * attunement; augmentations are installed rather than equipped.
+ */
+
+import type { InventoryItemChange, ItemUpdatePlan } from '../types.js';
+
+const INVENTORY_TYPES = [
+  'weapon', 'shield', 'equipment', 'ammunition', 'consumable', 'goods', 'container',
+  'technological', 'magic', 'hybrid', 'upgrade', 'augmentation', 'fusion', 'weaponAccessory'
+];
+
+// Item types that have no equipped state
+const UNEQUIPPABLE_TYPES = ['ammunition', 'consumable', 'goods', 'upgrade', 'fusion', 'weaponAccessory'];
+
+export function isSFRPGInventoryItem(itemType: string): boolean {
+  return INVENTORY_TYPES.includes(itemType);
+}
+
+export function getSFRPGItemQuantity(itemData: any): number {
+  return Number(itemData.system?.quantity ?? 1);
+}
+
+/**
+ * Build the Starfinder item update for an inventory change
+ */
+export function buildSFRPGItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan {
+  const updates: Record<string, unknown> = {};
+  const notes: string[] = [];
+
+  if (change.quantity !== undefined) {
+    updates['system.quantity'] = change.quantity;
+  }
+
+  if (change.equipped !== undefined) {
+    if (UNEQUIPPABLE_TYPES.includes(itemData.type)) {
+      throw new Error(`${itemData.name} (${itemData.type}) cannot be equipped`);
+    }
+    updates['system.equipped'] = change.equipped;
+    if (itemData.type === 'augmentation') {
+      notes.push('Augmentations count as installed while equipped; each system (arm, brain, ...) holds one');
+    }
+  }
+
+  if (change.attuned !== undefined) {
+    throw new Error('Starfinder has no attunement or investment');
+  }
+
+  return { updates, notes };
+}
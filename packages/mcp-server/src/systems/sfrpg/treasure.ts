@@ -0,0 +1,82 @@
+/**
+ * Starfinder Treasure
+ *
+ * Credits follow Character Wealth by Level: a party of four gains four times the wealth difference
+ * to the next level, a hoard is about a quarter of it and individual treasure about a tenth.
+ * Items are at most one level away from the party. Credits live on the actor (system.currency.credit).
+ */
+
+import type { TreasureRequest, TreasurePlan, CurrencyDeposit } from '../types.js';
+
+// Character wealth in credits at levels 1-20
+const WEALTH_BY_LEVEL = [
+  1000, 2000, 4000, 6000, 9000, 15000, 23000, 33000, 45000, 66000,
+  100000, 150000, 225000, 333000, 500000, 750000, 1125000, 1700000, 2550000, 3825000
+];
+
+const ITEM_TYPES = ['weapon', 'shield', 'equipment', 'ammunition', 'consumable', 'technological', 'magic', 'hybrid', 'upgrade', 'augmentation', 'fusion'];
+
+const DEFAULT_INDIVIDUAL_TYPES = ['ammunition', 'consumable'];
+
+/**
+ * Credits a party of four gains over a level; level 20 repeats the last step
+ */
+function getPartyGainForLevel(level: number): number {
+  const index = Math.min(level, WEALTH_BY_LEVEL.length - 1);
+  return (WEALTH_BY_LEVEL[index] - WEALTH_BY_LEVEL[index - 1]) * 4;
+}
+
+/**
+ * Roll Starfinder treasure for a party level
+ */
+export function planSFRPGTreasure(request: TreasureRequest, random: () => number = Math.random): TreasurePlan {
+  const level = Math.min(20, Math.max(1, Math.round(request.level)));
+  const share = request.kind === 'hoard' ? 0.25 : 0.1;
+  const notes = [`${request.kind === 'hoard' ? 'About a quarter' : 'About a tenth'} of the party's wealth gain for level ${level}`];
+
+  // Vary by up to half either way
+  const credit = Math.floor(getPartyGainForLevel(level) * share * (0.5 + random()));
+
+  if (request.rarities) {
+    notes.push('Starfinder items have no rarity; the rarity filter was ignored');
+  }
+
+  const defaultTypes = request.kind === 'hoard' ? ITEM_TYPES : DEFAULT_INDIVIDUAL_TYPES;
+
+  return {
+    currency: { credit },
+    currencyValue: credit,
+    baseCurrency: 'credits',
+    itemCount: request.kind === 'hoard' ? 3 : 1,
+    itemQuery: {
+      types: request.itemTypes ? ITEM_TYPES.filter(type => request.itemTypes!.includes(type)) : defaultTypes,
+      fields: ['system.level', 'system.price'],
+      filters: [
+        { path: 'system.level', min: Math.max(1, level - 1), max: level + 1 },
+      ],
+    },
+    maxItemValue: request.maxItemValue,
+    notes,
+  };
+}
+
+/**
+ * Item value in credits
+ */
+export function getSFRPGItemValue(itemData: any): number | undefined {
+  const value = Number(itemData.system?.price);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Credits and UPBs are added to the actor's currency
+ */
+export function buildSFRPGCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit {
+  const updates: Record<string, unknown> = {};
+  for (const [denomination, amount] of Object.entries(currency)) {
+    if (amount > 0) {
+      updates[`system.currency.${denomination}`] = Number(actorData.system?.currency?.[denomination] ?? 0) + amount;
+    }
+  }
+  return { updates, items: [] };
+}
@@ -11,7 +11,7 @@ import { z } from 'zod';
  * Supported game system identifiers
  * Extend this type when adding new systems
  */
-export type SystemId = 'dnd5e' | 'pf2e' | 'dsa5' | 'other';
+export type SystemId = 'dnd5e' | 'pf2e' | 'dsa5' | 'sfrpg' | 'other';
 
 /**
  * System metadata returned by adapters
@@ -48,6 +48,181 @@ export interface SystemCreatureIndex {
   systemData: any; // System-specific fields (D&D 5e CR, PF2e level, etc.)
 }
 
+/**
+ * Snapshot of an actor's hit points (HP, LeP, etc.)
+ */
+export interface HitPointState {
+  value: number;
+  max: number;
+  temp: number;
+}
+
+/**
+ * Damage to be applied to an actor
+ */
+export interface DamageRequest {
+  amount: number;
+  damageType?: string | undefined; // System damage type (fire, slashing, sp, ...)
+  ignoreResistances?: boolean | undefined; // Skip immunities/resistances/weaknesses
+  ignoreArmor?: boolean | undefined; // Skip armor reduction (DSA5 RS)
+}
+
+/**
+ * Result of a damage or healing calculation
+ * The adapter only computes the outcome; the Foundry module applies `updates`
+ */
+export interface HitPointChangeResult {
+  before: HitPointState;
+  after: HitPointState;
+  requestedAmount: number;
+  appliedAmount: number; // Amount after system rules (resistances, armor, max HP cap)
+  adjustments: string[]; // Human-readable notes on which rules modified the amount
+  updates: Record<string, number>; // Foundry update payload keyed by data path
+  droppedToZero: boolean;
+}
+
+/**
+ * Encounter difficulty budget for a party
+ */
+export interface EncounterBudget {
+  unit: string; // XP, threat points, ...
+  partyLevel: number; // Average party level
+  partySize: number;
+  thresholds: Array<{ difficulty: string; value: number }>; // Ascending by value
+  defaultDifficulty: string;
+}
+
+/**
+ * Cost of a group of creatures measured against an EncounterBudget
+ */
+export interface EncounterCost {
+  total: number; // Adjusted cost compared against budget thresholds
+  baseTotal: number; // Sum of per-creature costs before group adjustments
+  perCreature: number[];
+  notes: string[];
+}
+
+/**
+ * An actor check to roll: ability/attribute, skill, saving throw, perception or initiative
+ */
+export interface CheckRequest {
+  type: 'ability' | 'skill' | 'save' | 'perception' | 'initiative';
+  name?: string | undefined; // Ability, skill or save name (str, stealth, reflex, Klettern, ...)
+  modifier?: number | undefined; // Situational bonus/penalty (DSA5: applied to the attributes rolled against)
+  advantage?: 'advantage' | 'disadvantage' | undefined; // D&D 5e only
+}
+
+/**
+ * Formula and targets for a check, built from actor data by the adapter
+ */
+export interface CheckRoll {
+  formula: string;
+  label: string; // e.g. "Stealth check", "Reflex save", "Klettern (MU/GE/KK)"
+  modifier: number; // Total bonus included in the formula
+  targets?: number[] | undefined; // Roll-under target per d20 (DSA5 attributes)
+  skillValue?: number | undefined; // DSA5 Fertigkeitswert (skill points)
+  notes: string[];
+}
+
+/**
+ * Evaluated dice from Foundry's Roll engine
+ */
+export interface DiceRollResult {
+  formula: string;
+  total: number;
+  dice: Array<{ faces: number; number: number; results: number[]; discarded?: number[] | undefined }>; // results: dice that count
+}
+
+/**
+ * Outcome of a roll against a DC or the check's own targets
+ */
+export interface CheckOutcome {
+  success: boolean | null; // null when there is nothing to compare against
+  degree: 'critical-success' | 'success' | 'failure' | 'critical-failure' | null;
+  margin?: number | undefined; // Total minus DC (d20 systems) or remaining skill points (DSA5)
+  qualityLevel?: number | undefined; // DSA5 Qualitätsstufe
+  natural?: number | undefined; // Natural d20 result when a single d20 decides the roll
+  notes: string[];
+}
+
+/**
+ * Friendly actor fields for update-actor, validated by the adapter's update schema
+ */
+export interface ActorUpdateFields {
+  hp?: number | undefined; // Current HP (DSA5: LeP)
+  maxHp?: number | undefined;
+  abilities?: Record<string, number> | undefined; // Keyed by the system's abbreviations (str, dex, ... / mu, kl, ...)
+  level?: number | undefined; // Level (D&D 5e NPCs: CR, DSA5: total AP)
+  currency?: Record<string, number> | undefined; // Keyed by denomination (pp, gp, ...)
+  biography?: string | undefined; // HTML
+}
+
+/**
+ * Foundry update built from friendly actor fields
+ */
+export interface ActorUpdatePlan {
+  updates: Record<string, unknown>; // Foundry update payload keyed by data path
+  notes: string[]; // How fields were mapped, e.g. derived values that were adjusted indirectly
+}
+
+/**
+ * Inventory state to set on an owned item
+ */
+export interface InventoryItemChange {
+  quantity?: number | undefined; // New total quantity
+  equipped?: boolean | undefined;
+  attuned?: boolean | undefined; // D&D 5e attunement, PF2e investment
+}
+
+/**
+ * Foundry item update built from an inventory change
+ */
+export interface ItemUpdatePlan {
+  updates: Record<string, unknown>; // Foundry update payload keyed by data path
+  notes: string[];
+}
+
+/**
+ * Treasure to generate: individual (a few creatures) or hoard (a lair or a milestone)
+ */
+export interface TreasureRequest {
+  level: number; // D&D 5e: CR, PF2e/Starfinder: party level, DSA5: experience level (1-7)
+  kind: 'individual' | 'hoard';
+  rarities?: string[] | undefined; // Replaces the rarities picked for the level
+  itemTypes?: string[] | undefined; // Limits the item types picked for the level
+  maxItemValue?: number | undefined; // Most one item may be worth, in the system's base currency
+}
+
+/**
+ * Compendium item search: index fields to load and filters matched against them
+ */
+export interface CompendiumItemQuery {
+  types: string[];
+  fields: string[]; // e.g. system.rarity, system.level.value
+  filters: Array<{ path: string; in?: unknown[] | undefined; min?: number | undefined; max?: number | undefined }>;
+}
+
+/**
+ * Rolled treasure: coins, and how many and which compendium items to pick
+ */
+export interface TreasurePlan {
+  currency: Record<string, number>; // Coins by denomination
+  currencyValue: number; // Total in the base currency
+  baseCurrency: string; // gp, S (Silbertaler), ...
+  itemCount: number;
+  itemQuery: CompendiumItemQuery;
+  maxItemValue?: number | undefined;
+  notes: string[];
+}
+
+/**
+ * How to give coins to an actor
+ */
+export interface CurrencyDeposit {
+  updates: Record<string, unknown>; // Actor update for systems that store coins on the actor
+  items: Array<{ name: string; type: string; quantity: number }>; // Coin items for systems that store coins as items
+}
+
 /**
  * System Adapter Interface
  *
@@ -130,6 +305,126 @@ export interface SystemAdapter {
    * @param actorData - Raw Foundry actor data
    */
   extractCharacterStats(actorData: any): any;
+
+  /**
+   * Calculate the effect of damage on an actor using system rules
+   * D&D 5e: immunities/resistances/vulnerabilities, temp HP absorbs first
+   * PF2e: immunities, weaknesses, resistances (IWR), temp HP absorbs first
+   * DSA5: armor (RS) reduces TP (Trefferpunkte), SP bypass armor
+   * @param actorData - Raw Foundry actor data
+   * @param request - Damage amount and type
+   */
+  calculateDamage(actorData: any, request: DamageRequest): HitPointChangeResult;
+
+  /**
+   * Calculate the effect of healing on an actor (capped at max HP)
+   * @param actorData - Raw Foundry actor data
+   * @param amount - Hit points to restore
+   */
+  calculateHealing(actorData: any, amount: number): HitPointChangeResult;
+
+  /**
+   * Get encounter difficulty thresholds for a party
+   * D&D 5e: XP thresholds per character level (DMG)
+   * PF2e: XP budget by threat, adjusted for party size
+   * DSA5: threat points per hero (no official budget system)
+   * @param partyLevels - Level of each party member
+   */
+  getEncounterBudget(partyLevels: number[]): EncounterBudget;
+
+  /**
+   * Calculate the encounter cost of a group of creatures against a party
+   * @param creaturePowerLevels - getPowerLevel() of each creature (one entry per creature)
+   * @param partyLevels - Level of each party member
+   */
+  calculateEncounterCost(creaturePowerLevels: number[], partyLevels: number[]): EncounterCost;
+
+  /**
+   * Build the roll for an actor check from its data
+   * D&D 5e: 1d20 + ability/skill/save modifier, 2d20kh/kl for advantage/disadvantage
+   * PF2e: 1d20 + statistic total modifier
+   * DSA5: 1d20 under an attribute, or 3d20 under three attributes with skill points (Talentprobe)
+   * @param actorData - Actor data with `system` and `items`
+   * @throws Error when the check does not exist for this actor or system
+   */
+  buildCheckRoll(actorData: any, check: CheckRequest): CheckRoll;
+
+  /**
+   * Determine success and degree of success of an evaluated roll
+   * D&D 5e: total >= DC; PF2e: four degrees, natural 20/1 shift one step;
+   * DSA5: roll-under targets from the check, quality level from remaining skill points
+   * @param check - The check that was rolled, or null for a plain formula
+   * @param roll - Evaluated dice
+   * @param dc - Difficulty class, if any
+   */
+  evaluateCheck(check: CheckRoll | null, roll: DiceRollResult, dc?: number): CheckOutcome;
+
+  /**
+   * Get Zod schema for the friendly fields accepted by update-actor
+   * Lists this system's ability keys, currency denominations and value ranges
+   */
+  getActorUpdateSchema(): z.ZodSchema;
+
+  /**
+   * Map validated friendly fields to Foundry data paths from getDataPaths()
+   * D&D 5e: hp, abilities and currency are stored directly, level sets an NPC's CR
+   * PF2e: NPC attribute modifiers and max HP; character values derived from boosts are rejected
+   * DSA5: LeP and attributes are derived, so the stored base values are shifted by the difference
+   * @param actorData - Actor data with `type` and `system`
+   * @param fields - Fields validated by getActorUpdateSchema()
+   * @throws Error when a field cannot be set on this kind of actor
+   */
+  buildActorUpdate(actorData: any, fields: ActorUpdateFields): ActorUpdatePlan;
+
+  /**
+   * Check if an item type is a physical item that can be carried, stacked and traded
+   * @param itemType - Foundry item type (weapon, consumable, meleeweapon, ...)
+   */
+  isInventoryItem(itemType: string): boolean;
+
+  /**
+   * Read the stack size of an item
+   * @param itemData - Item data with `type` and `system`
+   */
+  getItemQuantity(itemData: any): number;
+
+  /**
+   * Build the update for quantity, equipped and attuned state of an owned item
+   * D&D 5e: system.quantity, system.equipped, system.attuned (only items that require attunement)
+   * PF2e: system.quantity, carry type (held weapons, worn armor), system.equipped.invested for invested items
+   * DSA5: system.quantity.value, system.worn.value; there is no attunement
+   * @param itemData - Item data with `type` and `system`
+   * @throws Error when the state does not apply to this item
+   */
+  buildItemUpdate(itemData: any, change: InventoryItemChange): ItemUpdatePlan;
+
+  /**
+   * Roll coins and choose item rarities, levels and types for generated treasure
+   * D&D 5e: DMG treasure tables by CR tier
+   * PF2e: party treasure by level, common items up to one level higher
+   * DSA5: no official tables; coins in Silbertaler scaled by experience level
+   * @param random - Random number source in [0, 1), for repeatable results in tests
+   */
+  planTreasure(request: TreasureRequest, random?: () => number): TreasurePlan;
+
+  /**
+   * Value of one item in the system's base currency, from its price data
+   * @param itemData - Item data or compendium index entry with `system`
+   * @returns Value, or undefined when the item has no price
+   */
+  getItemValue(itemData: any): number | undefined;
+
+  /**
+   * Build the update or coin items that add currency to an actor
+   * @param actorData - Actor data with `system`
+   * @param currency - Coins by denomination
+   */
+  buildCurrencyDeposit(actorData: any, currency: Record<string, number>): CurrencyDeposit;
+
+  /**
+   * Actor type for a loot pile placed on the scene
+   */
+  getLootActorType(): string;
 }
 
 /**
@@ -221,6 +516,25 @@ export interface DSA5CreatureIndex extends SystemCreatureIndex {
   };
 }
 
+/**
+ * Starfinder specific creature index structure
+ */
+export interface SFRPGCreatureIndex extends SystemCreatureIndex {
+  system: 'sfrpg';
+  systemData: {
+    challengeRating?: number | undefined; // NPCs: 0.125, 0.166, 0.25, 0.333, 0.5, 1-25
+    level?: number | undefined; // Characters and drones
+    creatureType?: string; // humanoid, outsider, ...
+    subtypes: string[]; // ysoki, android, ...
+    size?: string;
+    alignment?: string;
+    hasSpellcasting: boolean;
+    hitPoints?: number;
+    eac?: number; // Energy Armor Class
+    kac?: number; // Kinetic Armor Class
+  };
+}
+
 /**
  * Generic creature index for unsupported systems
  */
@@ -232,4 +546,4 @@ export interface GenericCreatureIndex extends SystemCreatureIndex {
 /**
  * Union type of all creature index types
  */
-export type AnyCreatureIndex = DnD5eCreatureIndex | PF2eCreatureIndex | DSA5CreatureIndex | GenericCreatureIndex;
+export type AnyCreatureIndex = DnD5eCreatureIndex | PF2eCreatureIndex | DSA5CreatureIndex | SFRPGCreatureIndex | GenericCreatureIndex;
@@ -81,6 +81,11 @@ export class ActorCreationTools {
               },
               required: ['type'],
             },
+            dryRun: {
+              type: 'boolean',
+              description: 'Preview the actors and tokens that would be created without creating them (default: false)',
+              default: false,
+            },
           },
           required: ['packId', 'itemId', 'names'],
         },
@@ -123,9 +128,10 @@ export class ActorCreationTools {
           y: z.number(),
         })).optional(),
       }).optional(),
+      dryRun: z.boolean().default(false),
     });
 
-    const { packId, itemId, names, quantity, addToScene, placement } = schema.parse(args);
+    const { packId, itemId, names, quantity, addToScene, placement, dryRun } = schema.parse(args);
     const finalQuantity = quantity || names.length;
 
     this.logger.info('Creating actors from specific compendium entry', {
@@ -134,6 +140,7 @@ export class ActorCreationTools {
       names,
       quantity: finalQuantity,
       addToScene,
+      dryRun,
     });
 
     try {
@@ -155,8 +162,13 @@ export class ActorCreationTools {
           type: placement.type,
           coordinates: placement.coordinates,
         } : undefined,
+        dryRun,
       });
 
+      if (dryRun) {
+        return result;
+      }
+
       this.logger.info('Actor creation completed', {
         totalCreated: result.totalCreated,
         totalRequested: result.totalRequested,
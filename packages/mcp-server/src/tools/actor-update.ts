@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { ActorUpdateFields } from '../systems/types.js';
+
+export interface ActorUpdateToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+}
+
+// Friendly fields mapped by the system adapter; name and img are the same in every system
+const SYSTEM_FIELDS = ['hp', 'maxHp', 'abilities', 'level', 'currency', 'biography'] as const;
+
+export class ActorUpdateTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+
+  constructor({ foundryClient, logger, systemRegistry }: ActorUpdateToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'ActorUpdateTools' });
+    this.systemRegistry = systemRegistry;
+  }
+
+  /**
+   * Tool definitions for editing actors
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'update-actor',
+        description: 'Change an actor\'s name, image, hit points, ability scores, level, currency or biography. Fields are mapped to the game system\'s data and validated first: D&D 5e NPC level sets the CR and character level must be changed on class items; PF2e attributes (as modifiers) and max HP can only be set on NPCs and coins are items; DSA5 hp is LeP, abilities are Eigenschaften (mu, kl, ...) and level is total AP. Use dryRun to preview before/after values. Changes can be undone with undo-change.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            identifier: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            name: {
+              type: 'string',
+              description: 'New actor name',
+            },
+            img: {
+              type: 'string',
+              description: 'Portrait image path or URL',
+            },
+            hp: {
+              type: 'number',
+              description: 'Current hit points (DSA5: LeP)',
+              minimum: 0,
+            },
+            maxHp: {
+              type: 'number',
+              description: 'Maximum hit points',
+              minimum: 1,
+            },
+            abilities: {
+              type: 'object',
+              description: 'Ability scores by key, e.g. {"str": 18, "con": 14} (PF2e: modifiers, e.g. {"str": 4}; DSA5: {"mu": 14})',
+              additionalProperties: { type: 'number' },
+            },
+            level: {
+              type: 'number',
+              description: 'Level (D&D 5e NPCs: challenge rating; DSA5: total adventure points)',
+            },
+            currency: {
+              type: 'object',
+              description: 'Coins by denomination, e.g. {"gp": 150, "sp": 20} (D&D 5e only)',
+              additionalProperties: { type: 'number' },
+            },
+            biography: {
+              type: 'string',
+              description: 'Biography or notes (HTML allowed); replaces the existing text',
+            },
+            rawUpdates: {
+              type: 'object',
+              description: 'Escape hatch: Foundry data paths to set directly, e.g. {"system.attributes.movement.walk": 40}. Paths must start with system., flags. or prototypeToken. and are not checked against the friendly field rules. Requires world modification permission in the module settings.',
+              additionalProperties: true,
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Preview the changes and validation result without applying them (default: false)',
+              default: false,
+            },
+          },
+          required: ['identifier'],
+        },
+      },
+    ];
+  }
+
+  async handleUpdateActor(args: any): Promise<any> {
+    const schema = z.object({
+      identifier: z.string().min(1),
+      name: z.string().min(1).optional(),
+      img: z.string().min(1).optional(),
+      rawUpdates: z.record(z.unknown()).optional(),
+      dryRun: z.boolean().optional().default(false),
+    }).passthrough();
+
+    const { identifier, name, img, rawUpdates, dryRun, ...rest } = schema.parse(args);
+
+    const fields: Record<string, unknown> = {};
+    for (const key of SYSTEM_FIELDS) {
+      if (rest[key] !== undefined) {
+        fields[key] = rest[key];
+      }
+    }
+
+    const unknownFields = Object.keys(rest).filter(key => !(SYSTEM_FIELDS as readonly string[]).includes(key));
+    if (unknownFields.length > 0) {
+      throw new Error(`Unknown field(s): ${unknownFields.join(', ')}. Use rawUpdates for other data paths.`);
+    }
+
+    if (name === undefined && img === undefined && Object.keys(fields).length === 0 && !rawUpdates) {
+      throw new Error('Nothing to update; pass at least one field or rawUpdates');
+    }
+
+    this.logger.info('Updating actor', { identifier, fields: Object.keys(fields), rawPaths: Object.keys(rawUpdates ?? {}), dryRun });
+
+    try {
+      const target = await this.getTarget(identifier);
+      const notes: string[] = [];
+      const updates: Record<string, unknown> = {};
+
+      if (Object.keys(fields).length > 0) {
+        const adapter = this.systemRegistry.getAdapter(target.systemId);
+        if (!adapter) {
+          throw new Error(`Friendly fields are not supported for game system "${target.systemId}"; use rawUpdates instead`);
+        }
+
+        const validated = adapter.getActorUpdateSchema().safeParse(fields);
+        if (!validated.success) {
+          const issues = validated.error.issues.map(issue =>
+            issue.code === 'unrecognized_keys'
+              ? `${issue.keys.join(', ')} cannot be set in ${target.systemId}`
+              : `${issue.path.join('.') || 'fields'}: ${issue.message}`
+          );
+          throw new Error(`Invalid fields for ${target.systemId}: ${issues.join('; ')}`);
+        }
+
+        const plan = adapter.buildActorUpdate(target, validated.data as ActorUpdateFields);
+        Object.assign(updates, plan.updates);
+        notes.push(...plan.notes);
+      }
+
+      if (name !== undefined) updates.name = name;
+      if (img !== undefined) updates.img = img;
+
+      const result = await this.foundryClient.query('foundry-mcp-bridge.update-actor', {
+        actorId: target.actorId,
+        tokenId: target.tokenId,
+        updates,
+        rawUpdates,
+        dryRun,
+      });
+
+      if (!result || (result.success === false && !result.dryRun)) {
+        throw new Error(result?.error || 'Update was rejected');
+      }
+
+      this.logger.debug('Actor updated', { actorId: target.actorId, dryRun });
+
+      return {
+        ...result,
+        ...(notes.length > 0 ? { notes } : {}),
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to update actor', error);
+      throw new Error(`Failed to update actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getTarget(identifier: string): Promise<any> {
+    const target = await this.foundryClient.query('foundry-mcp-bridge.get-hit-point-target', {
+      identifier,
+    });
+
+    if (!target || target.success === false) {
+      throw new Error(target?.error || `Actor "${identifier}" not found`);
+    }
+
+    return target;
+  }
+}
@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+
+export interface ArtGenerationToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  backendComfyUIHandlers?: any; // Access to backend ComfyUI service and job queue
+}
+
+export class ArtGenerationTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private backendComfyUIHandlers: any;
+
+  constructor({ foundryClient, logger, backendComfyUIHandlers }: ArtGenerationToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'ArtGenerationTools' });
+    this.backendComfyUIHandlers = backendComfyUIHandlers;
+  }
+
+  /**
+   * Tool definitions for portrait, token and item art generation
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'generate-actor-art',
+        description: 'Generate a portrait or token image for an existing actor with ComfyUI (async). The actor\'s name, type and biography are used as prompt context. When finished the image is uploaded to Foundry and assigned to the actor portrait and/or prototype token. Returns a job ID usable with check-map-status and cancel-map-job.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            actor: {
+              type: 'string',
+              description: 'Actor ID or name',
+            },
+            style: {
+              type: 'string',
+              enum: ['portrait', 'token'],
+              description: 'portrait: head-and-shoulders painting; token: tightly framed face shown in a round dynamic token ring (default: portrait)',
+              default: 'portrait',
+            },
+            assignTo: {
+              type: 'string',
+              enum: ['portrait', 'token', 'both'],
+              description: 'Where to assign the image: actor portrait (img), prototype token texture, or both (default: both)',
+              default: 'both',
+            },
+            description: {
+              type: 'string',
+              description: 'Extra visual details to include, e.g. "red cloak, scar over left eye"',
+            },
+            workflow: {
+              type: 'string',
+              description: 'ComfyUI workflow name (default: token-portrait)',
+            },
+            quality: {
+              type: 'string',
+              enum: ['low', 'medium', 'high'],
+              description: 'Diffusion quality; higher is slower (default: low)',
+            },
+            seed: {
+              type: 'number',
+              description: 'Seed for a reproducible image (default: random)',
+            },
+          },
+          required: ['actor'],
+        },
+      },
+      {
+        name: 'generate-item-art',
+        description: 'Generate an icon for an item with ComfyUI (async), using its name, type, rarity and description as prompt context, and assign it as the item image. Works for world items or items owned by an actor. Returns a job ID usable with check-map-status and cancel-map-job.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            item: {
+              type: 'string',
+              description: 'Item ID or name',
+            },
+            actor: {
+              type: 'string',
+              description: 'Owning actor ID or name, for items in an actor\'s inventory (default: world items)',
+            },
+            description: {
+              type: 'string',
+              description: 'Extra visual details to include, e.g. "glowing blue runes"',
+            },
+            workflow: {
+              type: 'string',
+              description: 'ComfyUI workflow name (default: item-art)',
+            },
+            quality: {
+              type: 'string',
+              enum: ['low', 'medium', 'high'],
+              description: 'Diffusion quality; higher is slower (default: low)',
+            },
+            seed: {
+              type: 'number',
+              description: 'Seed for a reproducible image (default: random)',
+            },
+          },
+          required: ['item'],
+        },
+      },
+    ];
+  }
+
+  async handleGenerateActorArt(args: any): Promise<any> {
+    const schema = z.object({
+      actor: z.string().min(1),
+      style: z.enum(['portrait', 'token']).optional().default('portrait'),
+      assignTo: z.enum(['portrait', 'token', 'both']).optional().default('both'),
+      description: z.string().optional(),
+      workflow: z.string().min(1).optional().default('token-portrait'),
+      quality: z.enum(['low', 'medium', 'high']).optional(),
+      seed: z.number().int().min(0).optional(),
+    });
+
+    const { actor, style, assignTo, description, workflow, quality, seed } = schema.parse(args);
+
+    this.logger.info('Generating actor art', { actor, style, assignTo, workflow });
+
+    try {
+      const context = await this.getPromptContext({ actorIdentifier: actor });
+
+      const subject = [
+        context.name,
+        ...(context.details || []),
+        context.type && context.type !== 'character' && context.type !== 'npc' ? context.type : null,
+      ].filter(Boolean).join(', ');
+
+      const prompt = [
+        subject,
+        description,
+        context.biography ? this.summarize(context.biography) : null,
+        style === 'token' ? 'close-up of the face, centered, circular framing' : null,
+      ].filter(Boolean).join(', ');
+
+      const job = await this.startJob({
+        prompt,
+        workflow,
+        quality,
+        seed,
+        target: {
+          kind: 'actor',
+          name: context.name,
+          actor_id: context.actorId,
+          assign_to: assignTo,
+          token_ring: style === 'token',
+        },
+      });
+
+      this.logger.debug('Actor art job started', { jobId: job.jobId, actor: context.name });
+
+      return {
+        success: true,
+        jobId: job.jobId,
+        status: job.status,
+        target: { type: 'actor', id: context.actorId, name: context.name },
+        style,
+        assignTo,
+        workflow,
+        prompt,
+        message: 'Image generation started. The image is assigned automatically when complete; use check-map-status with the job ID only if asked.',
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to generate actor art', error);
+      throw new Error(`Failed to generate actor art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleGenerateItemArt(args: any): Promise<any> {
+    const schema = z.object({
+      item: z.string().min(1),
+      actor: z.string().min(1).optional(),
+      description: z.string().optional(),
+      workflow: z.string().min(1).optional().default('item-art'),
+      quality: z.enum(['low', 'medium', 'high']).optional(),
+      seed: z.number().int().min(0).optional(),
+    });
+
+    const { item, actor, description, workflow, quality, seed } = schema.parse(args);
+
+    this.logger.info('Generating item art', { item, actor, workflow });
+
+    try {
+      const context = await this.getPromptContext({ itemIdentifier: item, actorIdentifier: actor });
+
+      const prompt = [
+        context.name,
+        context.rarity && context.rarity !== 'common' ? `${context.rarity} ${context.type}` : context.type,
+        description,
+        context.description ? this.summarize(context.description) : null,
+      ].filter(Boolean).join(', ');
+
+      const job = await this.startJob({
+        prompt,
+        workflow,
+        quality,
+        seed,
+        target: {
+          kind: 'item',
+          name: context.name,
+          item_id: context.itemId,
+          ...(context.actorId ? { actor_id: context.actorId } : {}),
+        },
+      });
+
+      this.logger.debug('Item art job started', { jobId: job.jobId, item: context.name });
+
+      return {
+        success: true,
+        jobId: job.jobId,
+        status: job.status,
+        target: { type: 'item', id: context.itemId, name: context.name, actor: context.actorName },
+        workflow,
+        prompt,
+        message: 'Image generation started. The icon is assigned automatically when complete; use check-map-status with the job ID only if asked.',
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to generate item art', error);
+      throw new Error(`Failed to generate item art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getPromptContext(data: { actorIdentifier?: string | undefined; itemIdentifier?: string | undefined }): Promise<any> {
+    const context = await this.foundryClient.query('foundry-mcp-bridge.get-art-prompt-context', data);
+
+    if (!context || context.success === false) {
+      throw new Error(context?.error || 'Target not found');
+    }
+
+    return context;
+  }
+
+  private async startJob(request: {
+    prompt: string;
+    workflow: string;
+    quality?: string | undefined;
+    seed?: number | undefined;
+    target: Record<string, unknown>;
+  }): Promise<{ jobId: string; status: string }> {
+    if (!this.backendComfyUIHandlers?.generateArt) {
+      throw new Error('Image generation is not available (ComfyUI components not initialized)');
+    }
+
+    return this.backendComfyUIHandlers.generateArt({
+      ...request,
+      // A fresh seed per request so asking again produces a new image rather than the previous job
+      seed: request.seed ?? Math.floor(Math.random() * 1000000000),
+    });
+  }
+
+  /**
+   * Keep the first sentences of long text; diffusion models ignore most of a long prompt anyway
+   */
+  private summarize(text: string): string {
+    const sentences = text.split(/(?<=[.!?])\s+/);
+    let summary = '';
+    for (const sentence of sentences) {
+      if ((summary + sentence).length > 200) break;
+      summary += (summary ? ' ' : '') + sentence;
+    }
+    return summary || text.substring(0, 200);
+  }
+}
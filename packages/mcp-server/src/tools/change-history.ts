@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+
+export interface ChangeHistoryToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export class ChangeHistoryTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: ChangeHistoryToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'ChangeHistoryTools' });
+  }
+
+  /**
+   * Tool definitions for reviewing and undoing recent changes
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'list-recent-changes',
+        description: 'List recent changes made to the world through this bridge (token moves and edits, deleted tokens, journal edits, ownership, conditions, created actors, hit points, walls and lights, combats), newest first. Each change has an ID that can be passed to undo-change. History is kept by the Foundry module for the current session only.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'number',
+              description: 'Maximum number of changes to return (default: 20)',
+              minimum: 1,
+              maximum: 50,
+            },
+            includeUndone: {
+              type: 'boolean',
+              description: 'Also list changes that have already been undone (default: false)',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'undo-change',
+        description: 'Undo a recent change by rolling back every step it made: created documents are deleted, updated fields are restored and deleted documents are recreated with their original IDs. Without a changeId the most recent change that has not been undone is rolled back. Use list-recent-changes first if the user refers to anything but the last change.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            changeId: {
+              type: 'string',
+              description: 'Change ID from list-recent-changes (default: the most recent change)',
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  async handleListRecentChanges(args: any): Promise<any> {
+    const schema = z.object({
+      limit: z.number().int().min(1).max(50).optional(),
+      includeUndone: z.boolean().optional().default(false),
+    });
+
+    const { limit, includeUndone } = schema.parse(args ?? {});
+
+    this.logger.info('Listing recent changes', { limit, includeUndone });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.list-recent-changes', {
+        limit,
+        includeUndone,
+      });
+
+      this.logger.debug('Recent changes listed', { count: result.changes?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to list recent changes', error);
+      throw new Error(`Failed to list recent changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleUndoChange(args: any): Promise<any> {
+    const schema = z.object({
+      changeId: z.string().min(1).optional(),
+    });
+
+    const { changeId } = schema.parse(args ?? {});
+
+    this.logger.info('Undoing change', { changeId });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.undo-change', {
+        transactionId: changeId,
+      });
+
+      this.logger.debug('Change undone', { changeId: result.undone?.id, success: result.success });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to undo change', error);
+      throw new Error(`Failed to undo change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+
+export interface ChatToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export class ChatTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: ChatToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'ChatTools' });
+  }
+
+  /**
+   * Tool definitions for reading and posting chat messages
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'get-chat-messages',
+        description: 'Read the most recent Foundry chat messages, oldest first: speaker, text, and rolls with formula, total and individual dice. Whispered messages are left out unless includeWhispers is set, since they may contain secrets meant for one player.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'number',
+              description: 'Number of recent messages to return (default: 20, max: 200)',
+              minimum: 1,
+              maximum: 200,
+            },
+            includeWhispers: {
+              type: 'boolean',
+              description: 'Include whispered messages and their recipients (default: false)',
+              default: false,
+            },
+            speaker: {
+              type: 'string',
+              description: 'Only messages whose speaker name contains this text',
+            },
+          },
+        },
+      },
+      {
+        name: 'send-chat-message',
+        description: 'Post a message to Foundry chat. With a speaker the message is spoken in character by that token or actor; without one it is GM narration under the alias (default "Narrator"). Use whisperTo to send it privately to specific players ("gm" for the GMs). Plain text line breaks are kept; HTML is allowed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: {
+              type: 'string',
+              description: 'Message text or HTML',
+            },
+            speaker: {
+              type: 'string',
+              description: 'Token on the current scene or world actor (ID or name) to speak as (default: GM narration)',
+            },
+            alias: {
+              type: 'string',
+              description: 'Display name for the speaker, e.g. "Narrator", "Mysterious Voice" (default: the token/actor name, or "Narrator")',
+            },
+            style: {
+              type: 'string',
+              enum: ['ic', 'ooc', 'emote'],
+              description: 'ic: in character speech bubble; ooc: out of character; emote: action in third person, e.g. "grins" (default: ic with a speaker, plain otherwise)',
+            },
+            whisperTo: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'User names or IDs to whisper to; "gm" for all GMs (default: public)',
+            },
+            flavor: {
+              type: 'string',
+              description: 'Short flavor line shown above the message',
+            },
+          },
+          required: ['content'],
+        },
+      },
+    ];
+  }
+
+  async handleGetChatMessages(args: any): Promise<any> {
+    const schema = z.object({
+      limit: z.number().int().min(1).max(200).optional().default(20),
+      includeWhispers: z.boolean().optional().default(false),
+      speaker: z.string().min(1).optional(),
+    });
+
+    const { limit, includeWhispers, speaker } = schema.parse(args ?? {});
+
+    this.logger.info('Getting chat messages', { limit, includeWhispers, speaker });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.get-chat-messages', {
+        limit,
+        includeWhispers,
+        speaker,
+      });
+
+      this.logger.debug('Chat messages retrieved', { count: result.count });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to get chat messages', error);
+      throw new Error(`Failed to get chat messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleSendChatMessage(args: any): Promise<any> {
+    const schema = z.object({
+      content: z.string().min(1),
+      speaker: z.string().min(1).optional(),
+      alias: z.string().min(1).optional(),
+      style: z.enum(['ic', 'ooc', 'emote']).optional(),
+      whisperTo: z.array(z.string().min(1)).optional(),
+      flavor: z.string().optional(),
+    });
+
+    const request = schema.parse(args);
+
+    this.logger.info('Sending chat message', { speaker: request.speaker, alias: request.alias, whisperTo: request.whisperTo });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.send-chat-message', request);
+
+      this.logger.debug('Chat message sent', { messageId: result.messageId });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to send chat message', error);
+      throw new Error(`Failed to send chat message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+
+export interface CombatToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export class CombatTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: CombatToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'CombatTools' });
+  }
+
+  /**
+   * Tool definitions for combat tracker operations
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'start-combat',
+        description: 'Create a combat encounter from the tokens on the active scene. By default all visible tokens with actors are added; pass tokenIds to choose specific combatants. Can optionally roll initiative and begin round 1 immediately.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tokenIds: {
+              type: 'array',
+              description: 'Specific token IDs to add as combatants (default: all tokens on the active scene)',
+              items: {
+                type: 'string',
+              },
+            },
+            includeHidden: {
+              type: 'boolean',
+              description: 'Include hidden tokens when adding all scene tokens (default: false)',
+              default: false,
+            },
+            rollInitiative: {
+              type: 'string',
+              description: 'Roll initiative after creating the encounter: "none", "npcs" (GM-controlled only) or "all"',
+              enum: ['none', 'npcs', 'all'],
+              default: 'none',
+            },
+            startCombat: {
+              type: 'boolean',
+              description: 'Begin the encounter at round 1 right away (default: false)',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'get-combat-state',
+        description: 'Get the current combat encounter: round, turn, whose turn it is, and all combatants in initiative order with hit points and defeated status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            combatId: {
+              type: 'string',
+              description: 'Combat ID (default: the active combat encounter)',
+            },
+          },
+        },
+      },
+      {
+        name: 'roll-initiative',
+        description: 'Roll initiative in the current combat encounter for NPCs, all combatants, combatants who have not rolled yet, or specific combatants',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            combatId: {
+              type: 'string',
+              description: 'Combat ID (default: the active combat encounter)',
+            },
+            scope: {
+              type: 'string',
+              description: 'Which combatants to roll for: "npcs" (NPCs without initiative), "unrolled" (anyone without initiative) or "all" (re-roll everyone)',
+              enum: ['npcs', 'unrolled', 'all'],
+              default: 'npcs',
+            },
+            combatantIds: {
+              type: 'array',
+              description: 'Specific combatant IDs to roll for (overrides scope)',
+              items: {
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+      {
+        name: 'advance-combat',
+        description: 'Move the combat encounter forward or backward by a turn or a full round. Advancing an encounter that has not started begins round 1.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            combatId: {
+              type: 'string',
+              description: 'Combat ID (default: the active combat encounter)',
+            },
+            action: {
+              type: 'string',
+              description: 'Direction and step to take',
+              enum: ['next-turn', 'previous-turn', 'next-round', 'previous-round'],
+              default: 'next-turn',
+            },
+          },
+        },
+      },
+      {
+        name: 'end-combat',
+        description: 'End the combat encounter and return a summary with rounds elapsed, defeated combatants and survivor hit points',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            combatId: {
+              type: 'string',
+              description: 'Combat ID (default: the active combat encounter)',
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  async handleStartCombat(args: any): Promise<any> {
+    const schema = z.object({
+      tokenIds: z.array(z.string()).optional(),
+      includeHidden: z.boolean().optional().default(false),
+      rollInitiative: z.enum(['none', 'npcs', 'all']).optional().default('none'),
+      startCombat: z.boolean().optional().default(false),
+    });
+
+    const { tokenIds, includeHidden, rollInitiative, startCombat } = schema.parse(args);
+
+    this.logger.info('Starting combat', { tokenCount: tokenIds?.length, includeHidden, rollInitiative, startCombat });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.create-combat', {
+        tokenIds,
+        includeHidden,
+        rollInitiative,
+        startCombat,
+      });
+
+      this.logger.debug('Combat created successfully', { combatId: result.combatId, combatants: result.combatants?.length });
+
+      return this.formatCombatState(result);
+
+    } catch (error) {
+      this.logger.error('Failed to start combat', error);
+      throw new Error(`Failed to start combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleGetCombatState(args: any): Promise<any> {
+    const schema = z.object({
+      combatId: z.string().optional(),
+    });
+
+    const { combatId } = schema.parse(args ?? {});
+
+    this.logger.info('Getting combat state', { combatId });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.get-combat-state', {
+        combatId,
+      });
+
+      return this.formatCombatState(result);
+
+    } catch (error) {
+      this.logger.error('Failed to get combat state', error);
+      throw new Error(`Failed to get combat state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleRollInitiative(args: any): Promise<any> {
+    const schema = z.object({
+      combatId: z.string().optional(),
+      scope: z.enum(['npcs', 'unrolled', 'all']).optional().default('npcs'),
+      combatantIds: z.array(z.string()).optional(),
+    });
+
+    const { combatId, scope, combatantIds } = schema.parse(args ?? {});
+
+    this.logger.info('Rolling initiative', { combatId, scope, combatantIds });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.roll-initiative', {
+        combatId,
+        scope,
+        combatantIds,
+      });
+
+      this.logger.debug('Initiative rolled', { rolled: result.rolled?.length });
+
+      return {
+        ...this.formatCombatState(result),
+        rolled: result.rolled,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to roll initiative', error);
+      throw new Error(`Failed to roll initiative: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleAdvanceCombat(args: any): Promise<any> {
+    const schema = z.object({
+      combatId: z.string().optional(),
+      action: z.enum(['next-turn', 'previous-turn', 'next-round', 'previous-round']).optional().default('next-turn'),
+    });
+
+    const { combatId, action } = schema.parse(args ?? {});
+
+    this.logger.info('Advancing combat', { combatId, action });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.advance-combat', {
+        combatId,
+        action,
+      });
+
+      this.logger.debug('Combat advanced', { round: result.round, turn: result.turn });
+
+      return {
+        ...this.formatCombatState(result),
+        action,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to advance combat', error);
+      throw new Error(`Failed to advance combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleEndCombat(args: any): Promise<any> {
+    const schema = z.object({
+      combatId: z.string().optional(),
+    });
+
+    const { combatId } = schema.parse(args ?? {});
+
+    this.logger.info('Ending combat', { combatId });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.end-combat', {
+        combatId,
+      });
+
+      this.logger.debug('Combat ended', { combatId: result.summary?.combatId });
+
+      return {
+        success: true,
+        ended: true,
+        summary: result.summary,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to end combat', error);
+      throw new Error(`Failed to end combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private formatCombatState(state: any): any {
+    return {
+      success: true,
+      combatId: state.combatId,
+      scene: state.sceneName,
+      started: state.started,
+      round: state.round,
+      turn: state.turn,
+      currentCombatant: state.currentCombatant,
+      combatants: (state.combatants || []).map((c: any) => ({
+        id: c.id,
+        name: c.name,
+        tokenId: c.tokenId,
+        initiative: c.initiative,
+        type: c.isNPC ? 'npc' : 'pc',
+        hidden: c.hidden,
+        defeated: c.defeated,
+        isCurrentTurn: c.isCurrentTurn,
+        hitPoints: c.hitPoints,
+      })),
+    };
+  }
+}
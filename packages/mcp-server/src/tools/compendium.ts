@@ -2,25 +2,30 @@ import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
 import { SystemRegistry } from '../systems/system-registry.js';
-import { detectGameSystem, getSystemPaths, getCreatureLevel, getCreatureType, hasSpellcasting, formatSystemError, type GameSystem } from '../utils/system-detection.js';
+import type { SystemAdapter, SystemId } from '../systems/types.js';
+import { detectGameSystem, getCachedSystemId, getSystemPaths, getCreatureLevel, getCreatureType, hasSpellcasting, formatSystemError, type GameSystem } from '../utils/system-detection.js';
 import { GenericFiltersSchema, describeFilters, type GenericFilters } from '../utils/compendium-filters.js';
+import { CreatureIndexCache, queryCreatureIndex, type CachedCreatureIndex } from '../creature-index-cache.js';
 
 export interface CompendiumToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
   systemRegistry?: SystemRegistry;
+  creatureIndexCache?: CreatureIndexCache;
 }
 
 export class CompendiumTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
   private systemRegistry: SystemRegistry | null;
+  private creatureIndexCache: CreatureIndexCache | null;
   private gameSystem: GameSystem | null = null;
 
-  constructor({ foundryClient, logger, systemRegistry }: CompendiumToolsOptions) {
+  constructor({ foundryClient, logger, systemRegistry, creatureIndexCache }: CompendiumToolsOptions) {
     this.foundryClient = foundryClient;
     this.logger = logger.child({ component: 'CompendiumTools' });
     this.systemRegistry = systemRegistry || null;
+    this.creatureIndexCache = creatureIndexCache || null;
   }
 
   /**
@@ -40,13 +45,13 @@ export class CompendiumTools {
     return [
       {
         name: 'search-compendium',
-        description: 'Search through compendium packs by name. IMPORTANT LIMITATIONS: (1) Text search only matches entity NAMES - descriptions and traits are NOT searchable. (2) Filters use name heuristics only (not actual system data) and only work on Actor packs - challengeRating and creatureType filters search for keywords like "ancient", "legendary", "humanoid", etc. in entity names. For accurate filtering by level/CR, traits, or rarity, use list-creatures-by-criteria instead. For best results, use broad name-based searches (e.g., "dragon", "knight") and inspect individual items with get-compendium-item.',
+        description: 'Full-text search through Item and Actor compendium packs. Matches names, descriptions and system traits (damage types, spell schools, PF2e traits, rarity), with word forms stemmed ("slowed" finds "slow") and results ranked by relevance (BM25), so natural queries such as "spells that deal cold damage and slow" work. Each result lists the matched terms and a relevance score. Creature filters (CR/level, type, traits, rarity...) use real system data from the enhanced creature index and keep only matching creatures. The index is built in Foundry on first use. Inspect individual entries with get-compendium-item.',
         inputSchema: {
           type: 'object',
           properties: {
             query: {
               type: 'string',
-              description: 'Search query to find items in compendiums by name only. Use broad, simple terms (e.g., "dragon", "sword", "feat"). Descriptions and traits are NOT searchable.',
+              description: 'Words to find in names, descriptions and traits (e.g., "cold damage slow", "fire resistance ring", "undead that drain life"). Every word counts; entries matching more and rarer words rank first.',
             },
             packType: {
               type: 'string',
@@ -54,7 +59,7 @@ export class CompendiumTools {
             },
             filters: {
               type: 'object',
-              description: 'LIMITED FUNCTIONALITY: Only works on Actor packs using name-based heuristics. challengeRating searches for keywords like "ancient" (CR 15+), "adult" (CR 10+), "captain" (CR 5+). creatureType searches for type keywords in names. Does NOT check actual system data. For accurate filtering, use list-creatures-by-criteria instead.',
+              description: 'Creature filters, checked against the enhanced creature index; only creatures are returned when filters are given. If the enhanced creature index is disabled in the module settings, filters fall back to name keyword heuristics.',
               properties: {
                 challengeRating: {
                   oneOf: [
@@ -155,7 +160,7 @@ export class CompendiumTools {
       },
       {
         name: 'list-creatures-by-criteria',
-        description: 'MULTI-SYSTEM CREATURE DISCOVERY: Get a comprehensive list of creatures matching specific criteria. Supports D&D 5e (Challenge Rating) and Pathfinder 2e (Level) with automatic system detection. Perfect for encounter building - returns minimal data so Claude can use built-in monster knowledge to identify suitable creatures by name, then pull full details only for final selections. Features intelligent pack prioritization and high result limits for complete surveys.',
+        description: 'MULTI-SYSTEM CREATURE DISCOVERY: Get a comprehensive list of creatures matching specific criteria. Supports D&D 5e (Challenge Rating), Pathfinder 2e (Level) and Starfinder (CR or level, subtype, EAC/KAC) with automatic system detection. Perfect for encounter building - returns minimal data so Claude can use built-in monster knowledge to identify suitable creatures by name, then pull full details only for final selections. Searches a server-side copy of the enhanced creature index: results can be sorted and paged with nextCursor, and facets count all matches per CR/level, creature type and size.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -177,12 +182,12 @@ export class CompendiumTools {
             creatureType: {
               type: 'string',
               description: 'Filter by creature type',
-              enum: ['humanoid', 'dragon', 'beast', 'undead', 'fey', 'fiend', 'celestial', 'construct', 'elemental', 'giant', 'monstrosity', 'ooze', 'plant', 'aberration']
+              enum: ['humanoid', 'dragon', 'beast', 'undead', 'fey', 'fiend', 'celestial', 'construct', 'elemental', 'giant', 'monstrosity', 'ooze', 'plant', 'aberration', 'animal', 'magical beast', 'monstrous humanoid', 'outsider', 'vermin']
             },
             size: {
               type: 'string',
-              description: 'Filter by creature size',
-              enum: ['tiny', 'small', 'medium', 'large', 'huge', 'gargantuan']
+              description: 'Filter by creature size (fine, diminutive and colossal are Starfinder only)',
+              enum: ['fine', 'diminutive', 'tiny', 'small', 'medium', 'large', 'huge', 'gargantuan', 'colossal']
             },
             hasSpells: {
               type: 'boolean',
@@ -218,12 +223,174 @@ export class CompendiumTools {
               enum: ['common', 'uncommon', 'rare', 'unique'],
               description: 'Filter by rarity (Pathfinder 2e)'
             },
+            // Starfinder specific filters
+            subtype: {
+              type: 'string',
+              description: 'Filter by creature subtype, e.g. "ysoki", "android", "technological" (Starfinder)'
+            },
+            eac: {
+              oneOf: [
+                { type: 'number', description: 'Exact Energy Armor Class' },
+                {
+                  type: 'object',
+                  properties: {
+                    min: { type: 'number' },
+                    max: { type: 'number' }
+                  },
+                  description: 'EAC range object (e.g., {"min": 15})'
+                }
+              ],
+              description: 'Filter by Energy Armor Class (Starfinder)'
+            },
+            kac: {
+              oneOf: [
+                { type: 'number', description: 'Exact Kinetic Armor Class' },
+                {
+                  type: 'object',
+                  properties: {
+                    min: { type: 'number' },
+                    max: { type: 'number' }
+                  },
+                  description: 'KAC range object (e.g., {"max": 20})'
+                }
+              ],
+              description: 'Filter by Kinetic Armor Class (Starfinder)'
+            },
             limit: {
               type: 'number',
               description: 'Maximum results to return (default: 500 for comprehensive surveys, max: 1000)',
               minimum: 1,
               maximum: 1000,
               default: 500
+            },
+            sortBy: {
+              type: 'string',
+              enum: ['power', 'name', 'hitPoints', 'armorClass'],
+              description: 'Sort field (default: power, i.e. CR or level, then name; armorClass sorts Starfinder creatures by KAC)'
+            },
+            sortOrder: {
+              type: 'string',
+              enum: ['asc', 'desc'],
+              description: 'Sort direction (default: asc)'
+            },
+            cursor: {
+              type: 'string',
+              description: 'nextCursor from the previous result, to get the next page of the same search'
+            },
+            includeFacets: {
+              type: 'boolean',
+              description: 'Count all matches per CR/level, creature type and size (default: true)',
+              default: true
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'list-items-by-criteria',
+        description: 'MULTI-SYSTEM ITEM DISCOVERY: List spells, equipment, consumables and feats from Item compendiums by structured system data, for spell lists, shops and treasure. D&D 5e: spell level, school, components, rarity, attunement, price. Pathfinder 2e: item level / spell rank, traits, traditions, rarity, price. DSA5: spell property (Merkmal), tradition (Verbreitung), price. Uses the enhanced item index, built in Foundry on first use. Returns minimal data; pull details with get-compendium-item.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            types: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Item types (e.g., ["spell"], ["weapon", "armor"], ["feat"]; DSA5: ["spell", "liturgy", "meleeweapon"])'
+            },
+            name: {
+              type: 'string',
+              description: 'Only items whose name contains this text'
+            },
+            rarity: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Rarities (D&D 5e: common, uncommon, rare, veryRare, legendary, artifact; PF2e: common, uncommon, rare, unique)'
+            },
+            price: {
+              type: 'object',
+              properties: {
+                min: { type: 'number' },
+                max: { type: 'number' }
+              },
+              description: 'Price range in gp (DSA5: Silbertaler), e.g. {"max": 50} for a village shop'
+            },
+            // D&D 5e specific filters
+            spellLevel: {
+              oneOf: [
+                { type: 'number', description: 'Exact spell level' },
+                {
+                  type: 'object',
+                  properties: {
+                    min: { type: 'number' },
+                    max: { type: 'number' }
+                  },
+                  description: 'Spell level range (e.g., {"min": 1, "max": 3})'
+                }
+              ],
+              description: 'Spell level, 0 for cantrips (D&D 5e)'
+            },
+            school: {
+              type: 'string',
+              description: 'Spell school, name or abbreviation (e.g., "evocation" or "evo") (D&D 5e)'
+            },
+            components: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Spells must have all of these: vocal, somatic, material, concentration, ritual (or v, s, m, c, r) (D&D 5e)'
+            },
+            attunement: {
+              type: 'boolean',
+              description: 'true: only items that need attunement; false: only items that do not (D&D 5e)'
+            },
+            subtype: {
+              type: 'string',
+              description: 'Item subtype from system.type.value, e.g. "potion", "scroll", "wand", "martialM", "class" (D&D 5e)'
+            },
+            // Pathfinder 2e specific filters
+            level: {
+              oneOf: [
+                { type: 'number', description: 'Exact level' },
+                {
+                  type: 'object',
+                  properties: {
+                    min: { type: 'number' },
+                    max: { type: 'number' }
+                  },
+                  description: 'Level range (e.g., {"min": 1, "max": 3})'
+                }
+              ],
+              description: 'Item level, spell rank or feat level (Pathfinder 2e)'
+            },
+            traits: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Items must have all of these traits, e.g. ["fire", "attack"] (Pathfinder 2e)'
+            },
+            traditions: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Spells on any of these traditions (PF2e: arcane, divine, occult, primal; DSA5: Verbreitung such as "Allgemein", "Elfen")'
+            },
+            category: {
+              type: 'string',
+              description: 'Item category, e.g. feat category "skill" or "ancestry" (Pathfinder 2e)'
+            },
+            // DSA5 specific filters
+            property: {
+              type: 'string',
+              description: 'Spell property (Merkmal) or liturgy aspect, e.g. "Heilung", "Elementar" (DSA5)'
+            },
+            packIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only search these compendium packs'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum results to return (default: 200, max: 1000)',
+              minimum: 1,
+              maximum: 1000,
+              default: 200
             }
           },
           required: []
@@ -450,12 +617,17 @@ export class CompendiumTools {
 
       // Common filters
       creatureType: z.string().optional(), // Accept any string, validate per system
-      size: z.enum(['tiny', 'small', 'medium', 'large', 'huge', 'gargantuan']).optional(),
+      size: z.enum(['fine', 'diminutive', 'tiny', 'small', 'medium', 'large', 'huge', 'gargantuan', 'colossal']).optional(),
 
       // Pathfinder 2e specific
       traits: z.array(z.string()).optional(),
       rarity: z.enum(['common', 'uncommon', 'rare', 'unique']).optional(),
 
+      // Starfinder specific
+      subtype: z.string().optional(),
+      eac: z.union([z.number(), z.object({ min: z.number().optional(), max: z.number().optional() })]).optional(),
+      kac: z.union([z.number(), z.object({ min: z.number().optional(), max: z.number().optional() })]).optional(),
+
       // Spellcasting flags (different names per system)
       hasSpells: z.union([
         z.boolean(),
@@ -473,6 +645,14 @@ export class CompendiumTools {
           return !isNaN(num) && num >= 1 && num <= 1000;
         }).transform(val => parseInt(val, 10))
       ]).optional().default(100),
+
+      sortBy: z.enum(['power', 'name', 'hitPoints', 'armorClass']).optional().default('power'),
+      sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+      cursor: z.string().optional(),
+      includeFacets: z.union([
+        z.boolean(),
+        z.string().refine((val) => ['true', 'false'].includes(val.toLowerCase())).transform(val => val.toLowerCase() === 'true')
+      ]).optional().default(true),
     });
 
     let params;
@@ -496,7 +676,14 @@ export class CompendiumTools {
     });
 
     try {
-      const results = await this.foundryClient.query('foundry-mcp-bridge.listCreaturesByCriteria', params);
+      const cached = await this.getCachedCreatureIndex(gameSystem);
+      if (cached) {
+        return this.listCachedCreatures(cached.index, cached.adapter, params, gameSystem, criteriaDescription);
+      }
+
+      // Enhanced index disabled or unavailable: Foundry searches (no sorting, paging or facets)
+      const { sortBy, sortOrder, cursor, includeFacets, ...criteria } = params;
+      const results = await this.foundryClient.query('foundry-mcp-bridge.listCreaturesByCriteria', criteria);
 
       this.logger.debug('Creature criteria search completed', {
         gameSystem,
@@ -533,6 +720,157 @@ export class CompendiumTools {
     }
   }
 
+  /**
+   * Server-side copy of the enhanced creature index and the adapter to search it with,
+   * or null when Foundry has to search (no adapter, index disabled, older module)
+   */
+  private async getCachedCreatureIndex(gameSystem: GameSystem): Promise<{ index: CachedCreatureIndex; adapter: SystemAdapter } | null> {
+    if (!this.creatureIndexCache || !this.systemRegistry) {
+      return null;
+    }
+
+    const systemId = getCachedSystemId() || gameSystem;
+    const adapter = this.systemRegistry.getAdapter(systemId);
+    if (!adapter) {
+      return null;
+    }
+
+    try {
+      const index = await this.creatureIndexCache.getIndex(systemId as SystemId);
+      return index ? { index, adapter } : null;
+    } catch (error) {
+      this.logger.warn('Server-side creature index unavailable, searching in Foundry', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private listCachedCreatures(index: CachedCreatureIndex, adapter: SystemAdapter, params: any, gameSystem: GameSystem, criteriaDescription: string): any {
+    const { limit, sortBy, sortOrder, cursor, includeFacets, ...criteria } = params;
+    const filters = this.toAdapterFilters(criteria, adapter);
+
+    const result = queryCreatureIndex(index, adapter, { filters, sortBy, sortOrder, limit, cursor, facets: includeFacets });
+
+    this.logger.debug('Creature criteria search completed on cached index', {
+      gameSystem,
+      indexVersion: index.hash,
+      totalFound: result.total,
+      offset: result.offset,
+      returned: result.creatures.length
+    });
+
+    const resultsByPack: Record<string, number> = {};
+    for (const creature of result.creatures) {
+      resultsByPack[creature.packLabel] = (resultsByPack[creature.packLabel] ?? 0) + 1;
+    }
+
+    return {
+      gameSystem,
+      criteriaDescription,
+      creatures: result.creatures.map(creature => adapter.formatCreatureForList(creature)),
+      totalFound: result.total,
+      returned: result.creatures.length,
+      offset: result.offset,
+      nextCursor: result.nextCursor,
+      ...(result.facets ? { facets: result.facets } : {}),
+      criteria: params,
+      searchSummary: {
+        totalIndexedCreatures: index.creatures.length,
+        resultsByPack,
+        sortBy,
+        sortOrder,
+        indexVersion: index.hash,
+        searchMethod: 'server_cached_index'
+      },
+      optimizationNote: result.nextCursor
+        ? 'More matches available: call again with the same criteria and cursor set to nextCursor. Use creature names to identify suitable options, then call get-compendium-item for final details only'
+        : 'Use creature names to identify suitable options, then call get-compendium-item for final details only'
+    };
+  }
+
+  /**
+   * Map tool criteria onto the adapter's filter schema (D&D 5e names the spellcasting flag "spellcaster")
+   */
+  private toAdapterFilters(criteria: Record<string, any>, adapter: SystemAdapter): Record<string, any> {
+    const filters: Record<string, any> = Object.fromEntries(
+      Object.entries(criteria).filter(([, value]) => value !== undefined)
+    );
+
+    const schema = adapter.getFilterSchema();
+    const shape = schema instanceof z.ZodObject ? schema.shape : {};
+    if (filters.hasSpells !== undefined && !('hasSpells' in shape) && 'spellcaster' in shape) {
+      filters.spellcaster = filters.hasSpells;
+      delete filters.hasSpells;
+    }
+
+    const validated = schema.safeParse(filters);
+    if (!validated.success) {
+      const errorDetails = validated.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+      throw new Error(`Invalid ${adapter.getMetadata().displayName} filters: ${errorDetails}`);
+    }
+
+    return validated.data;
+  }
+
+  async handleListItemsByCriteria(args: any): Promise<any> {
+    const gameSystem = await this.getGameSystem();
+
+    const range = z.union([
+      z.number(),
+      z.object({ min: z.number().optional(), max: z.number().optional() }),
+    ]);
+
+    const schema = z.object({
+      types: z.array(z.string()).optional(),
+      name: z.string().optional(),
+      rarity: z.array(z.string()).optional(),
+      price: z.object({ min: z.number().min(0).optional(), max: z.number().min(0).optional() }).optional(),
+      spellLevel: range.optional(),
+      school: z.string().optional(),
+      components: z.array(z.string()).optional(),
+      attunement: z.boolean().optional(),
+      subtype: z.string().optional(),
+      level: range.optional(),
+      traits: z.array(z.string()).optional(),
+      traditions: z.array(z.string()).optional(),
+      category: z.string().optional(),
+      property: z.string().optional(),
+      packIds: z.array(z.string()).optional(),
+      limit: z.number().min(1).max(1000).optional().default(200),
+    });
+
+    const params = schema.parse(args);
+
+    const criteriaDescription = this.describeItemCriteria(params);
+    this.logger.info('Item criteria search', { gameSystem, criteria: criteriaDescription });
+
+    try {
+      const results = await this.foundryClient.query('foundry-mcp-bridge.listItemsByCriteria', params);
+      const items = results.response?.items || [];
+
+      this.logger.debug('Item criteria search completed', {
+        gameSystem,
+        totalFound: results.response?.searchSummary?.totalItemsFound || 0,
+        returned: items.length,
+      });
+
+      return {
+        gameSystem,
+        criteriaDescription,
+        items: items.map((item: any) => this.formatItemListItem(item)),
+        totalFound: results.response?.searchSummary?.totalItemsFound ?? items.length,
+        criteria: params,
+        searchSummary: results.response?.searchSummary,
+        optimizationNote: 'Use item names to pick suitable options, then call get-compendium-item for final details only'
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to list items by criteria', error);
+      throw new Error(`Failed to list items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async handleListCompendiumPacks(args: any): Promise<any> {
     const schema = z.object({
       type: z.string().optional(),
@@ -588,6 +926,12 @@ export class CompendiumTools {
       summary: this.createItemSummary(item),
     };
 
+    // Full-text search ranking
+    if (item.score !== undefined) {
+      formatted.score = item.score;
+      formatted.matchedTerms = item.matchedTerms;
+    }
+
     // Add key stats for actors/creatures to reduce need for detail calls
     if (item.type === 'npc' || item.type === 'character') {
       const stats: any = {};
@@ -698,6 +1042,7 @@ export class CompendiumTools {
       system.description?.content ||
       system.description ||
       system.details?.description ||
+      item.description ||
       '';
 
     return this.truncateText(this.stripHtml(description), 200);
@@ -838,7 +1183,7 @@ export class CompendiumTools {
   private describeCriteria(params: any, gameSystem: GameSystem): string {
     const parts: string[] = [];
 
-    if (gameSystem === 'dnd5e') {
+    if (gameSystem === 'dnd5e' || getCachedSystemId() === 'sfrpg') {
       if (params.challengeRating !== undefined) {
         if (typeof params.challengeRating === 'number') {
           parts.push(`CR ${params.challengeRating}`);
@@ -866,12 +1211,66 @@ export class CompendiumTools {
     if (params.traits && params.traits.length > 0) {
       parts.push(`traits: ${params.traits.join(', ')}`);
     }
+    if (params.subtype) parts.push(`subtype ${params.subtype}`);
+    for (const key of ['eac', 'kac'] as const) {
+      const range = params[key];
+      if (typeof range === 'number') {
+        parts.push(`${key.toUpperCase()} ${range}`);
+      } else if (range) {
+        parts.push(`${key.toUpperCase()} ${range.min ?? 0}-${range.max ?? '∞'}`);
+      }
+    }
     if (params.hasSpells) parts.push('spellcaster');
     if (params.hasLegendaryActions) parts.push('legendary');
 
     return parts.length > 0 ? parts.join(', ') : 'no criteria';
   }
 
+  /**
+   * Compact item entry for list-items-by-criteria; only fields the system indexes are present
+   */
+  private formatItemListItem(item: any): any {
+    const formatted: any = {
+      name: item.name,
+      id: item.id,
+      type: item.type,
+      pack: { id: item.pack, label: item.packLabel }
+    };
+
+    for (const key of ['subtype', 'spellLevel', 'school', 'level', 'rarity', 'category', 'property', 'improvementCost', 'price']) {
+      if (item[key] !== undefined && item[key] !== '') formatted[key] = item[key];
+    }
+    for (const key of ['components', 'traits', 'traditions']) {
+      if (Array.isArray(item[key]) && item[key].length > 0) formatted[key] = item[key];
+    }
+    if (item.attunement && item.attunement !== 'none') formatted.attunement = item.attunement;
+
+    return formatted;
+  }
+
+  private describeItemCriteria(params: any): string {
+    const describeRange = (label: string, value: any) =>
+      typeof value === 'number' ? `${label} ${value}` : `${label} ${value.min ?? 'any'}-${value.max ?? 'any'}`;
+
+    const parts: string[] = [];
+    if (params.types?.length) parts.push(params.types.join('/'));
+    if (params.name) parts.push(`name contains "${params.name}"`);
+    if (params.spellLevel !== undefined) parts.push(describeRange('spell level', params.spellLevel));
+    if (params.level !== undefined) parts.push(describeRange('level', params.level));
+    if (params.school) parts.push(params.school);
+    if (params.components?.length) parts.push(`components: ${params.components.join(', ')}`);
+    if (params.rarity?.length) parts.push(params.rarity.join('/'));
+    if (params.attunement !== undefined) parts.push(params.attunement ? 'requires attunement' : 'no attunement');
+    if (params.subtype) parts.push(params.subtype);
+    if (params.traits?.length) parts.push(`traits: ${params.traits.join(', ')}`);
+    if (params.traditions?.length) parts.push(`traditions: ${params.traditions.join(', ')}`);
+    if (params.category) parts.push(params.category);
+    if (params.property) parts.push(`property: ${params.property}`);
+    if (params.price) parts.push(describeRange('price', params.price));
+
+    return parts.length > 0 ? parts.join(', ') : 'no criteria';
+  }
+
   private extractCompactStats(item: any): any {
     const system = item.system || {};
     const stats: any = {};
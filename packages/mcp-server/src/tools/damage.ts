@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { HitPointChangeResult } from '../systems/types.js';
+
+export interface DamageToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+}
+
+export class DamageTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+
+  constructor({ foundryClient, logger, systemRegistry }: DamageToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'DamageTools' });
+    this.systemRegistry = systemRegistry;
+  }
+
+  /**
+   * Tool definitions for damage and healing operations
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'apply-damage',
+        description: 'Apply damage to a token or actor using the game system\'s rules. D&D 5e applies immunities, resistances, vulnerabilities and temporary HP; PF2e applies immunities, weaknesses and resistances (IWR) and temporary HP; DSA5 reduces TP by armor (RS) before subtracting LeP; Starfinder applies DR or energy resistance and takes damage from Stamina Points before Hit Points. Returns HP before and after and whether the target dropped to zero.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            amount: {
+              type: 'number',
+              description: 'Damage rolled before resistances or armor',
+              minimum: 0,
+            },
+            damageType: {
+              type: 'string',
+              description: 'Damage type, e.g. "fire", "slashing" (D&D 5e/PF2e/Starfinder) or "tp"/"sp" (DSA5: SP bypass armor)',
+            },
+            ignoreResistances: {
+              type: 'boolean',
+              description: 'Skip immunities, resistances, weaknesses and vulnerabilities (default: false)',
+              default: false,
+            },
+            ignoreArmor: {
+              type: 'boolean',
+              description: 'Skip armor reduction for systems that use it, such as DSA5 RS (default: false)',
+              default: false,
+            },
+          },
+          required: ['target', 'amount'],
+        },
+      },
+      {
+        name: 'apply-healing',
+        description: 'Restore hit points (or LeP in DSA5) to a token or actor, capped at maximum. Returns HP before and after.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            amount: {
+              type: 'number',
+              description: 'Hit points to restore',
+              minimum: 0,
+            },
+          },
+          required: ['target', 'amount'],
+        },
+      },
+    ];
+  }
+
+  async handleApplyDamage(args: any): Promise<any> {
+    const schema = z.object({
+      target: z.string().min(1),
+      amount: z.number().min(0),
+      damageType: z.string().optional(),
+      ignoreResistances: z.boolean().optional().default(false),
+      ignoreArmor: z.boolean().optional().default(false),
+    });
+
+    const { target, amount, damageType, ignoreResistances, ignoreArmor } = schema.parse(args);
+
+    this.logger.info('Applying damage', { target, amount, damageType, ignoreResistances, ignoreArmor });
+
+    try {
+      const targetData = await this.getTarget(target);
+      const adapter = this.getAdapter(targetData.systemId);
+
+      const result = adapter.calculateDamage(targetData, {
+        amount,
+        damageType,
+        ignoreResistances,
+        ignoreArmor,
+      });
+
+      await this.applyUpdate(targetData, result);
+
+      this.logger.debug('Damage applied', { target: targetData.name, applied: result.appliedAmount });
+
+      return this.formatResult('damage', targetData, result, damageType);
+
+    } catch (error) {
+      this.logger.error('Failed to apply damage', error);
+      throw new Error(`Failed to apply damage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleApplyHealing(args: any): Promise<any> {
+    const schema = z.object({
+      target: z.string().min(1),
+      amount: z.number().min(0),
+    });
+
+    const { target, amount } = schema.parse(args);
+
+    this.logger.info('Applying healing', { target, amount });
+
+    try {
+      const targetData = await this.getTarget(target);
+      const adapter = this.getAdapter(targetData.systemId);
+
+      const result = adapter.calculateHealing(targetData, amount);
+
+      await this.applyUpdate(targetData, result);
+
+      this.logger.debug('Healing applied', { target: targetData.name, applied: result.appliedAmount });
+
+      return this.formatResult('healing', targetData, result);
+
+    } catch (error) {
+      this.logger.error('Failed to apply healing', error);
+      throw new Error(`Failed to apply healing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getTarget(identifier: string): Promise<any> {
+    const targetData = await this.foundryClient.query('foundry-mcp-bridge.get-hit-point-target', {
+      identifier,
+    });
+
+    if (!targetData || targetData.success === false) {
+      throw new Error(targetData?.error || `Target "${identifier}" not found`);
+    }
+
+    return targetData;
+  }
+
+  private getAdapter(systemId: string) {
+    const adapter = this.systemRegistry.getAdapter(systemId);
+    if (!adapter) {
+      throw new Error(`Damage rules are not supported for game system "${systemId}"`);
+    }
+    return adapter;
+  }
+
+  private async applyUpdate(targetData: any, result: HitPointChangeResult): Promise<void> {
+    // Nothing to write when rules reduced the change to zero
+    if (result.before.value === result.after.value && result.before.temp === result.after.temp) {
+      return;
+    }
+
+    await this.foundryClient.query('foundry-mcp-bridge.apply-hit-point-update', {
+      actorId: targetData.actorId,
+      tokenId: targetData.tokenId,
+      updates: result.updates,
+    });
+  }
+
+  private formatResult(kind: 'damage' | 'healing', targetData: any, result: HitPointChangeResult, damageType?: string): any {
+    return {
+      success: true,
+      target: {
+        name: targetData.name,
+        actorId: targetData.actorId,
+        tokenId: targetData.tokenId,
+      },
+      [kind]: {
+        requested: result.requestedAmount,
+        applied: result.appliedAmount,
+        ...(damageType ? { type: damageType } : {}),
+        adjustments: result.adjustments,
+      },
+      hitPoints: {
+        before: result.before,
+        after: result.after,
+      },
+      droppedToZero: result.droppedToZero,
+    };
+  }
+}
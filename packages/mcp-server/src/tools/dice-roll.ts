@@ -1,26 +1,49 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { CheckRoll, CheckOutcome, SystemAdapter } from '../systems/types.js';
+import { detectGameSystem, getCachedSystemId } from '../utils/system-detection.js';
 
 interface DiceRollToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
+  systemRegistry: SystemRegistry;
 }
 
+const ROLL_MODES = {
+  public: 'publicroll',
+  gm: 'gmroll',
+  blind: 'blindroll',
+  self: 'selfroll',
+} as const;
+
+// How often await-player-rolls checks for new results
+const ROLL_POLL_INTERVAL_MS = 2000;
+
+const DEGREE_LABELS: Record<NonNullable<CheckOutcome['degree']>, string> = {
+  'critical-success': 'Critical Success',
+  'success': 'Success',
+  'failure': 'Failure',
+  'critical-failure': 'Critical Failure',
+};
+
 export class DiceRollTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
+  private systemRegistry: SystemRegistry;
 
   constructor(options: DiceRollToolsOptions) {
     this.foundryClient = options.foundryClient;
     this.logger = options.logger;
+    this.systemRegistry = options.systemRegistry;
   }
 
   getToolDefinitions() {
     return [
       {
         name: 'request-player-rolls',
-        description: 'Request dice rolls from players with interactive buttons. Creates roll buttons in Foundry chat that players can click. VISIBILITY WORKFLOW: Before calling this function, ensure the user has specified whether they want a public or private roll. If they have already specified "public" or "private" in their request (e.g., "public performance check", "private stealth roll"), you can proceed directly. If the visibility is ambiguous or unspecified, ask: "Do you want this to be a PUBLIC roll (visible to all players) or PRIVATE roll (visible to player and GM only)?" and wait for their answer. Supports character-to-player resolution and GM fallback.',
+        description: 'Request dice rolls from players with interactive buttons. Creates roll buttons in Foundry chat that players can click. Returns a roll ID; pass the IDs to await-player-rolls to wait for the results (for a group check, request a roll from each player first, then await them together). VISIBILITY WORKFLOW: Before calling this function, ensure the user has specified whether they want a public or private roll. If they have already specified "public" or "private" in their request (e.g., "public performance check", "private stealth roll"), you can proceed directly. If the visibility is ambiguous or unspecified, ask: "Do you want this to be a PUBLIC roll (visible to all players) or PRIVATE roll (visible to player and GM only)?" and wait for their answer. Supports character-to-player resolution and GM fallback.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -55,14 +78,354 @@ export class DiceRollTools {
               type: 'string',
               description: 'Optional flavor text to describe the roll context',
               default: ''
+            },
+            dc: {
+              type: 'number',
+              description: 'Optional DC; get-roll-results and await-player-rolls report success or failure against it. Not shown to players.'
             }
           },
           required: ['rollType', 'rollTarget', 'targetPlayer', 'isPublic', 'userConfirmedVisibility']
         }
+      },
+      {
+        name: 'roll-dice',
+        description: 'Roll dice on the GM side and get the result immediately, without waiting for a player to click. Either roll a formula ("2d6+3", "4d6kh3", "1d20+@abilities.dex.mod" with an actor) or a system check for a token or actor (D&D 5e ability/skill/save, PF2e skill/save/perception, DSA5 attribute or skill check). Returns the total, each die, and success or degree of success against an optional DC (PF2e critical success/failure, DSA5 quality level). Use for NPC saves, monster checks and GM rolls; use request-player-rolls when a player should roll themselves.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            formula: {
+              type: 'string',
+              description: 'Dice formula in Foundry syntax (required unless check is given)'
+            },
+            actor: {
+              type: 'string',
+              description: 'Token on the current scene or world actor (ID or name) rolling the check; also provides @ roll data for formulas and the chat speaker'
+            },
+            check: {
+              type: 'object',
+              description: 'System check to roll for the actor instead of a formula',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['ability', 'skill', 'save', 'perception', 'initiative'],
+                  description: 'Kind of check (DSA5: ability is an attribute check; there are no saves)'
+                },
+                name: {
+                  type: 'string',
+                  description: 'Ability, skill or save, e.g. "dex", "stealth", "reflex", "Klettern", "MU" (not needed for perception and initiative)'
+                }
+              },
+              required: ['type']
+            },
+            modifier: {
+              type: 'number',
+              description: 'Situational bonus or penalty added to the check (DSA5: Erleichterung/Erschwernis applied to the attributes)'
+            },
+            advantage: {
+              type: 'string',
+              enum: ['advantage', 'disadvantage'],
+              description: 'D&D 5e advantage or disadvantage on the check'
+            },
+            dc: {
+              type: 'number',
+              description: 'Difficulty class to compare the total against (not used for DSA5 checks, which roll under attributes)'
+            },
+            postToChat: {
+              type: 'boolean',
+              description: 'Also post the roll to Foundry chat (default: false)',
+              default: false
+            },
+            rollMode: {
+              type: 'string',
+              enum: ['public', 'gm', 'blind', 'self'],
+              description: 'Chat visibility when posted: public, gm (GM and roller), blind (GM only, hidden from roller), self (default: public)',
+              default: 'public'
+            },
+            flavor: {
+              type: 'string',
+              description: 'Chat flavor text, e.g. "Ogre resists the web" (default: the check name)'
+            }
+          }
+        }
+      },
+      {
+        name: 'await-player-rolls',
+        description: 'Wait until players have clicked the roll buttons from request-player-rolls, then return each result: total, natural d20, dice and success against the DC given in the request. Returns early when all rolls are in; rolls still pending at the timeout are reported as pending.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            rollIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Roll IDs returned by request-player-rolls'
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Maximum time to wait (default: 60, max: 120)',
+              minimum: 5,
+              maximum: 120
+            }
+          },
+          required: ['rollIds']
+        }
+      },
+      {
+        name: 'get-roll-results',
+        description: 'Read the status and results of requested player rolls without waiting: who was asked for what, who has rolled, and the outcome. Without rollIds, lists the most recent roll requests.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            rollIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Roll IDs returned by request-player-rolls (default: recent requests)'
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of recent requests to list when no rollIds are given (default: 20)',
+              minimum: 1,
+              maximum: 100
+            }
+          }
+        }
       }
     ];
   }
 
+  async handleGetRollResults(args: any): Promise<any> {
+    const schema = z.object({
+      rollIds: z.array(z.string().min(1)).optional(),
+      limit: z.number().int().min(1).max(100).optional(),
+    });
+
+    const { rollIds, limit } = schema.parse(args ?? {});
+
+    this.logger.info('Getting roll results', { rollIds, limit });
+
+    try {
+      return await this.fetchRollResults(rollIds, limit);
+
+    } catch (error) {
+      this.logger.error('Failed to get roll results', error);
+      throw new Error(`Failed to get roll results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleAwaitPlayerRolls(args: any): Promise<any> {
+    const schema = z.object({
+      rollIds: z.array(z.string().min(1)).min(1),
+      timeoutSeconds: z.number().min(5).max(120).optional().default(60),
+    });
+
+    const { rollIds, timeoutSeconds } = schema.parse(args);
+
+    this.logger.info('Awaiting player rolls', { rollIds, timeoutSeconds });
+
+    try {
+      const deadline = Date.now() + timeoutSeconds * 1000;
+      let results = await this.fetchRollResults(rollIds);
+
+      while (results.summary.pending > 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, Math.min(ROLL_POLL_INTERVAL_MS, deadline - Date.now())));
+        results = await this.fetchRollResults(rollIds);
+      }
+
+      this.logger.debug('Player rolls awaited', results.summary);
+
+      return {
+        ...results,
+        timedOut: results.summary.pending > 0,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to await player rolls', error);
+      throw new Error(`Failed to await player rolls: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Query roll request states and evaluate finished rolls against their DC with the system adapter
+   */
+  private async fetchRollResults(rollIds?: string[], limit?: number): Promise<any> {
+    const response = await this.foundryClient.query('foundry-mcp-bridge.get-roll-results', { rollIds, limit });
+
+    if (!response || response.success === false) {
+      throw new Error(response?.error || 'Failed to read roll results');
+    }
+
+    const adapter = await this.getAdapter();
+
+    const rolls = (response.rolls || []).map((roll: any) => {
+      if (roll.status !== 'rolled' || !roll.result) {
+        return roll;
+      }
+
+      const dc = roll.dc ?? undefined;
+      const outcome: CheckOutcome | null = dc === undefined
+        ? null
+        : adapter
+          ? adapter.evaluateCheck(null, roll.result, dc)
+          : { success: roll.result.total >= dc, degree: roll.result.total >= dc ? 'success' : 'failure', margin: roll.result.total - dc, notes: [] };
+
+      return {
+        ...roll,
+        ...(outcome ? { outcome: { success: outcome.success, degree: outcome.degree, margin: outcome.margin, notes: outcome.notes } } : {}),
+      };
+    });
+
+    const rolled = rolls.filter((roll: any) => roll.status === 'rolled');
+    const withDc = rolled.filter((roll: any) => roll.outcome);
+
+    return {
+      success: true,
+      rolls,
+      summary: {
+        requested: rolls.length,
+        rolled: rolled.length,
+        pending: rolls.length - rolled.length,
+        ...(withDc.length > 0 ? {
+          succeeded: withDc.filter((roll: any) => roll.outcome.success).map((roll: any) => roll.target),
+          failed: withDc.filter((roll: any) => !roll.outcome.success).map((roll: any) => roll.target),
+        } : {}),
+      },
+      ...(response.notFound ? { notFound: response.notFound } : {}),
+    };
+  }
+
+  async handleRollDice(args: any): Promise<any> {
+    const schema = z.object({
+      formula: z.string().min(1).optional(),
+      actor: z.string().min(1).optional(),
+      check: z.object({
+        type: z.enum(['ability', 'skill', 'save', 'perception', 'initiative']),
+        name: z.string().min(1).optional(),
+      }).optional(),
+      modifier: z.number().optional(),
+      advantage: z.enum(['advantage', 'disadvantage']).optional(),
+      dc: z.number().optional(),
+      postToChat: z.boolean().optional().default(false),
+      rollMode: z.enum(['public', 'gm', 'blind', 'self']).optional().default('public'),
+      flavor: z.string().optional(),
+    }).refine(data => !!data.formula !== !!data.check, {
+      message: 'Provide either formula or check, not both',
+    }).refine(data => !data.check || !!data.actor, {
+      message: 'check requires an actor',
+    });
+
+    const { formula, actor, check, modifier, advantage, dc, postToChat, rollMode, flavor } = schema.parse(args);
+
+    this.logger.info('Rolling dice', { formula, actor, check, dc, postToChat });
+
+    try {
+      const actorData = actor ? await this.getCheckActor(actor) : null;
+      const adapter = await this.getAdapter(actorData?.systemId);
+
+      let checkRoll: CheckRoll | null = null;
+      if (check) {
+        if (!adapter) {
+          throw new Error(`System checks are not supported for game system "${actorData.systemId}"; roll a formula instead`);
+        }
+        checkRoll = adapter.buildCheckRoll(actorData, { ...check, modifier, advantage });
+      }
+
+      const rolled = await this.foundryClient.query('foundry-mcp-bridge.roll-dice', {
+        formula: checkRoll?.formula ?? formula,
+        actorId: actorData?.actorId ?? null,
+        tokenId: actorData?.tokenId ?? null,
+      });
+
+      if (!rolled || rolled.success === false) {
+        throw new Error(rolled?.error || `Failed to evaluate formula "${checkRoll?.formula ?? formula}"`);
+      }
+
+      const outcome: CheckOutcome = adapter
+        ? adapter.evaluateCheck(checkRoll, rolled, dc)
+        : dc === undefined
+          ? { success: null, degree: null, notes: [] }
+          : { success: rolled.total >= dc, degree: rolled.total >= dc ? 'success' : 'failure', margin: rolled.total - dc, notes: [] };
+
+      let messageId: string | null = null;
+      if (postToChat) {
+        const posted = await this.foundryClient.query('foundry-mcp-bridge.post-roll-to-chat', {
+          roll: rolled.roll,
+          flavor: this.buildFlavor(flavor ?? checkRoll?.label, checkRoll, dc, outcome),
+          actorId: actorData?.actorId ?? null,
+          tokenId: actorData?.tokenId ?? null,
+          rollMode: ROLL_MODES[rollMode],
+        });
+        if (!posted || posted.success === false) {
+          throw new Error(posted?.error || 'Failed to post roll to chat');
+        }
+        messageId = posted.messageId ?? null;
+      }
+
+      this.logger.debug('Dice rolled', { formula: rolled.formula, total: rolled.total, degree: outcome.degree });
+
+      return {
+        success: true,
+        ...(actorData ? { actor: { id: actorData.actorId, tokenId: actorData.tokenId, name: actorData.name } } : {}),
+        ...(checkRoll ? { check: { label: checkRoll.label, modifier: checkRoll.modifier, targets: checkRoll.targets, skillValue: checkRoll.skillValue } } : {}),
+        formula: rolled.formula,
+        total: rolled.total,
+        result: rolled.result,
+        dice: rolled.dice,
+        ...(dc !== undefined ? { dc } : {}),
+        outcome: {
+          success: outcome.success,
+          degree: outcome.degree,
+          margin: outcome.margin,
+          qualityLevel: outcome.qualityLevel,
+          natural: outcome.natural,
+        },
+        notes: [...(checkRoll?.notes ?? []), ...outcome.notes],
+        postedToChat: postToChat,
+        ...(messageId ? { messageId } : {}),
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to roll dice', error);
+      throw new Error(`Failed to roll dice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getCheckActor(identifier: string): Promise<any> {
+    const actorData = await this.foundryClient.query('foundry-mcp-bridge.get-check-actor', {
+      identifier,
+    });
+
+    if (!actorData || actorData.success === false) {
+      throw new Error(actorData?.error || `Actor "${identifier}" not found`);
+    }
+
+    return actorData;
+  }
+
+  /**
+   * Adapter for the actor's system, or the world's system for plain formulas (null if unsupported)
+   */
+  private async getAdapter(systemId?: string): Promise<SystemAdapter | null> {
+    if (systemId) {
+      return this.systemRegistry.getAdapter(systemId);
+    }
+
+    try {
+      const gameSystem = await detectGameSystem(this.foundryClient, this.logger);
+      return this.systemRegistry.getAdapter(getCachedSystemId() || gameSystem);
+    } catch {
+      return null;
+    }
+  }
+
+  private buildFlavor(label: string | undefined, checkRoll: CheckRoll | null, dc: number | undefined, outcome: CheckOutcome): string | undefined {
+    const parts: string[] = [];
+    if (label) parts.push(label);
+    if (dc !== undefined && !checkRoll?.targets) parts.push(`DC ${dc}`);
+    if (outcome.degree) {
+      parts.push(outcome.qualityLevel ? `${DEGREE_LABELS[outcome.degree]} (QS ${outcome.qualityLevel})` : DEGREE_LABELS[outcome.degree]);
+    }
+    return parts.length > 0 ? parts.join(' - ') : undefined;
+  }
+
   async handleRequestPlayerRolls(args: any) {
     const schema = z.object({
       rollType: z.enum(['ability', 'skill', 'save', 'attack', 'initiative', 'custom']),
@@ -71,7 +434,8 @@ export class DiceRollTools {
       isPublic: z.boolean(),
       userConfirmedVisibility: z.literal(true),
       rollModifier: z.string().default(''),
-      flavor: z.string().default('')
+      flavor: z.string().default(''),
+      dc: z.number().optional()
     });
 
     try {
@@ -89,7 +453,7 @@ export class DiceRollTools {
       const response = await this.foundryClient.query('foundry-mcp-bridge.request-player-rolls', params);
       
       if (response.success) {
-        return `Roll request sent successfully! ${response.message}`;
+        return `Roll request sent successfully! ${response.message} Roll ID: ${response.rollId}`;
       } else {
         throw new Error(response.error || 'Failed to request player rolls');
       }
@@ -0,0 +1,481 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { SystemAdapter, SystemCreatureIndex, SystemId, EncounterBudget } from '../systems/types.js';
+import { detectGameSystem, getCachedSystemId } from '../utils/system-detection.js';
+import { CreatureIndexCache, toSystemCreatureIndex } from '../creature-index-cache.js';
+
+export interface EncounterToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+  creatureIndexCache?: CreatureIndexCache;
+}
+
+interface EncounterGroup {
+  creature: SystemCreatureIndex;
+  powerLevel: number;
+  quantity: number;
+}
+
+const PlacementSchema = z.object({
+  placement: z.enum(['random', 'grid', 'center']).optional().default('grid'),
+  hidden: z.boolean().optional().default(false),
+});
+
+export class EncounterTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+  private creatureIndexCache: CreatureIndexCache | null;
+
+  constructor({ foundryClient, logger, systemRegistry, creatureIndexCache }: EncounterToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'EncounterTools' });
+    this.systemRegistry = systemRegistry;
+    this.creatureIndexCache = creatureIndexCache || null;
+  }
+
+  /**
+   * Tool definitions for encounter building operations
+   */
+  getToolDefinitions() {
+    const partyLevelsProperty = {
+      type: 'array',
+      description: 'Override party member levels instead of reading player characters from the world (e.g. [3, 3, 4, 4])',
+      items: { type: 'number' },
+    };
+
+    const placeOnSceneProperty = {
+      type: 'object',
+      description: 'Create the creatures from their compendium and place them on the current scene',
+      properties: {
+        placement: {
+          type: 'string',
+          enum: ['random', 'grid', 'center'],
+          description: 'Token placement strategy (default: grid)',
+        },
+        hidden: {
+          type: 'boolean',
+          description: 'Place tokens hidden from players (default: false)',
+        },
+      },
+    };
+
+    return [
+      {
+        name: 'evaluate-encounter',
+        description: 'Rate how difficult a group of creatures is for the current party using the game system\'s encounter budget (D&D 5e XP thresholds: easy/medium/hard/deadly; PF2e XP budget: trivial/low/moderate/severe/extreme; DSA5 threat points: easy/medium/hard/deadly; Starfinder XP by CR against APL: easy/average/challenging/hard/epic). Creatures are identified by the id and pack returned from list-creatures-by-criteria.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            creatures: {
+              type: 'array',
+              description: 'Creatures in the encounter',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Compendium creature ID' },
+                  packId: { type: 'string', description: 'Compendium pack ID (recommended with id)' },
+                  name: { type: 'string', description: 'Creature name (used when id is not given)' },
+                  quantity: { type: 'number', description: 'Number of this creature (default: 1)', minimum: 1 },
+                  powerLevel: { type: 'number', description: 'CR/level override for creatures not in the creature index' },
+                },
+              },
+              minItems: 1,
+            },
+            partyLevels: partyLevelsProperty,
+            placeOnScene: placeOnSceneProperty,
+          },
+          required: ['creatures'],
+        },
+      },
+      {
+        name: 'suggest-encounter',
+        description: 'Propose creature groups from the enhanced creature index that fit a target difficulty for the current party. Returns several options with their XP/threat cost; optionally places the first option on the current scene.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            difficulty: {
+              type: 'string',
+              description: 'Target difficulty (D&D 5e/DSA5: easy, medium, hard, deadly; PF2e: trivial, low, moderate, severe, extreme; Starfinder: easy, average, challenging, hard, epic). Default: medium (moderate for PF2e, average for Starfinder)',
+            },
+            filters: {
+              type: 'object',
+              description: 'System-specific creature filters, same as search-compendium (e.g. {"creatureType": "undead"} or {"traits": ["goblin"]})',
+            },
+            maxCreatures: {
+              type: 'number',
+              description: 'Maximum number of creatures per proposal (default: 6)',
+              minimum: 1,
+              maximum: 20,
+            },
+            proposals: {
+              type: 'number',
+              description: 'Number of proposals to return (default: 3)',
+              minimum: 1,
+              maximum: 10,
+            },
+            partyLevels: partyLevelsProperty,
+            placeOnScene: placeOnSceneProperty,
+          },
+        },
+      },
+    ];
+  }
+
+  async handleEvaluateEncounter(args: any): Promise<any> {
+    const schema = z.object({
+      creatures: z.array(z.object({
+        id: z.string().optional(),
+        packId: z.string().optional(),
+        name: z.string().optional(),
+        quantity: z.number().int().min(1).optional().default(1),
+        powerLevel: z.number().optional(),
+      }).refine(c => c.id || c.name, { message: 'Each creature needs an id or name' })).min(1),
+      partyLevels: z.array(z.number()).optional(),
+      placeOnScene: PlacementSchema.optional(),
+    });
+
+    const { creatures, partyLevels, placeOnScene } = schema.parse(args);
+
+    this.logger.info('Evaluating encounter', { creatureCount: creatures.length, placeOnScene: !!placeOnScene });
+
+    try {
+      const { adapter, systemId } = await this.getAdapter();
+      const party = await this.getPartyLevels(adapter, partyLevels);
+      const index = await this.getCreatureIndex(systemId);
+
+      const groups: EncounterGroup[] = creatures.map(entry => {
+        const creature = index.find(c =>
+          (entry.id && c.id === entry.id && (!entry.packId || c.packName === entry.packId)) ||
+          (!entry.id && entry.name && c.name.toLowerCase() === entry.name.toLowerCase())
+        );
+
+        const powerLevel = entry.powerLevel ?? (creature ? adapter.getPowerLevel(creature) : undefined);
+        if (powerLevel === undefined) {
+          throw new Error(`Could not determine CR/level for "${entry.name || entry.id}"; provide powerLevel or use an id from list-creatures-by-criteria`);
+        }
+
+        return {
+          creature: creature ?? this.createPlaceholderCreature(entry, systemId),
+          powerLevel,
+          quantity: entry.quantity,
+        };
+      });
+
+      const budget = adapter.getEncounterBudget(party.levels);
+      const evaluation = this.evaluateGroups(adapter, groups, party.levels, budget);
+
+      const result: any = {
+        success: true,
+        gameSystem: systemId,
+        party: party.members,
+        budget,
+        ...evaluation,
+      };
+
+      if (placeOnScene) {
+        result.placement = await this.placeGroups(groups, placeOnScene);
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to evaluate encounter', error);
+      throw new Error(`Failed to evaluate encounter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleSuggestEncounter(args: any): Promise<any> {
+    const schema = z.object({
+      difficulty: z.string().optional(),
+      filters: z.record(z.any()).optional(),
+      maxCreatures: z.number().int().min(1).max(20).optional().default(6),
+      proposals: z.number().int().min(1).max(10).optional().default(3),
+      partyLevels: z.array(z.number()).optional(),
+      placeOnScene: PlacementSchema.optional(),
+    });
+
+    const { difficulty, filters, maxCreatures, proposals, partyLevels, placeOnScene } = schema.parse(args ?? {});
+
+    this.logger.info('Suggesting encounter', { difficulty, filters, maxCreatures, proposals });
+
+    try {
+      const { adapter, systemId } = await this.getAdapter();
+      const party = await this.getPartyLevels(adapter, partyLevels);
+      const budget = adapter.getEncounterBudget(party.levels);
+
+      const targetDifficulty = (difficulty || budget.defaultDifficulty).toLowerCase();
+      const targetIndex = budget.thresholds.findIndex(t => t.difficulty === targetDifficulty);
+      if (targetIndex === -1) {
+        throw new Error(`Unknown difficulty "${difficulty}". Valid: ${budget.thresholds.map(t => t.difficulty).join(', ')}`);
+      }
+
+      const minCost = budget.thresholds[targetIndex].value;
+      const maxCost = budget.thresholds[targetIndex + 1]?.value ?? minCost * 1.5;
+
+      const index = await this.getCreatureIndex(systemId);
+      const candidates = index
+        .filter(c => !filters || Object.keys(filters).length === 0 || adapter.matchesFilters(c, filters))
+        .map(c => ({ creature: c, powerLevel: adapter.getPowerLevel(c) }))
+        .filter((c): c is { creature: SystemCreatureIndex; powerLevel: number } => c.powerLevel !== undefined);
+
+      if (candidates.length === 0) {
+        throw new Error('No creatures in the enhanced creature index match the filters');
+      }
+
+      const options = this.buildProposals(adapter, candidates, party.levels, minCost, maxCost, maxCreatures)
+        .slice(0, proposals)
+        .map(groups => ({
+          groups,
+          ...this.evaluateGroups(adapter, groups, party.levels, budget),
+        }));
+
+      const result: any = {
+        success: true,
+        gameSystem: systemId,
+        party: party.members,
+        budget,
+        targetDifficulty,
+        targetRange: { min: minCost, max: maxCost },
+        proposals: options.map(option => ({
+          difficulty: option.difficulty,
+          cost: option.cost,
+          creatures: option.creatures,
+        })),
+      };
+
+      if (options.length === 0) {
+        result.message = 'No combination of matching creatures fits the target difficulty; try different filters or a higher maxCreatures';
+      } else if (placeOnScene) {
+        result.placement = await this.placeGroups(options[0].groups, placeOnScene);
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to suggest encounter', error);
+      throw new Error(`Failed to suggest encounter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getAdapter(): Promise<{ adapter: SystemAdapter; systemId: string }> {
+    const gameSystem = await detectGameSystem(this.foundryClient, this.logger);
+    const systemId = getCachedSystemId() || gameSystem;
+
+    const adapter = this.systemRegistry.getAdapter(systemId);
+    if (!adapter) {
+      throw new Error(`Encounter budgets are not supported for game system "${systemId}"`);
+    }
+
+    return { adapter, systemId };
+  }
+
+  /**
+   * Read levels of player-owned characters (or use the provided override)
+   */
+  private async getPartyLevels(adapter: SystemAdapter, override?: number[]): Promise<{ levels: number[]; members: any[] }> {
+    if (override && override.length > 0) {
+      return {
+        levels: override,
+        members: override.map((level, i) => ({ name: `Party member ${i + 1}`, level })),
+      };
+    }
+
+    const party = await this.foundryClient.query('foundry-mcp-bridge.getPartyCharacters');
+    if (!Array.isArray(party) || party.length === 0) {
+      throw new Error('No player characters found; provide partyLevels instead');
+    }
+
+    const members: Array<{ id: string; name: string; level: number }> = [];
+    for (const character of party) {
+      const actorData = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
+        characterId: character.id,
+      });
+      const stats = adapter.extractCharacterStats(actorData);
+
+      // DSA5 reports its Erfahrungsgrad under experience.level
+      const level = stats.level ?? stats.experience?.level;
+      if (typeof level === 'number' && !isNaN(level)) {
+        members.push({ id: character.id, name: character.name, level });
+      } else {
+        this.logger.warn('Skipping party member without a level', { name: character.name });
+      }
+    }
+
+    if (members.length === 0) {
+      throw new Error('Could not determine levels for any player character; provide partyLevels instead');
+    }
+
+    return { levels: members.map(m => m.level), members };
+  }
+
+  /**
+   * Get the enhanced creature index in the adapter index shape, from the server-side cache when available
+   */
+  private async getCreatureIndex(systemId: string): Promise<SystemCreatureIndex[]> {
+    const cached = await this.creatureIndexCache?.getIndex(systemId as SystemId);
+    if (cached) {
+      return cached.creatures;
+    }
+
+    const entries = await this.foundryClient.query('foundry-mcp-bridge.getEnhancedCreatureIndex');
+    if (!Array.isArray(entries)) {
+      return [];
+    }
+
+    return entries.map((entry: any) => toSystemCreatureIndex(entry, systemId as SystemId));
+  }
+
+  private createPlaceholderCreature(entry: { id?: string | undefined; packId?: string | undefined; name?: string | undefined }, systemId: string): SystemCreatureIndex {
+    return {
+      id: entry.id || '',
+      name: entry.name || entry.id || 'Unknown',
+      type: 'npc',
+      packName: entry.packId || '',
+      packLabel: '',
+      system: systemId as SystemId,
+      systemData: {},
+    };
+  }
+
+  private evaluateGroups(adapter: SystemAdapter, groups: EncounterGroup[], partyLevels: number[], budget: EncounterBudget): any {
+    const powerLevels = groups.flatMap(g => Array(g.quantity).fill(g.powerLevel));
+    const cost = adapter.calculateEncounterCost(powerLevels, partyLevels);
+
+    // Highest threshold reached; anything below the first threshold is trivial
+    const reached = budget.thresholds.filter(t => cost.total >= t.value);
+    const difficulty = reached.length > 0 ? reached[reached.length - 1].difficulty : 'trivial';
+
+    return {
+      difficulty,
+      cost: {
+        total: cost.total,
+        baseTotal: cost.baseTotal,
+        unit: budget.unit,
+        notes: cost.notes,
+      },
+      creatures: groups.map(g => ({
+        id: g.creature.id,
+        name: g.creature.name,
+        packId: g.creature.packName,
+        quantity: g.quantity,
+        powerLevel: g.powerLevel,
+      })),
+    };
+  }
+
+  /**
+   * Build creature mixes whose cost falls in [minCost, maxCost):
+   * uniform groups of one creature and leader-plus-minions combinations
+   */
+  private buildProposals(
+    adapter: SystemAdapter,
+    candidates: Array<{ creature: SystemCreatureIndex; powerLevel: number }>,
+    partyLevels: number[],
+    minCost: number,
+    maxCost: number,
+    maxCreatures: number
+  ): EncounterGroup[][] {
+    const byPowerLevel = new Map<number, SystemCreatureIndex[]>();
+    for (const { creature, powerLevel } of candidates) {
+      const list = byPowerLevel.get(powerLevel) || [];
+      list.push(creature);
+      byPowerLevel.set(powerLevel, list);
+    }
+
+    const pick = (list: SystemCreatureIndex[]) => list[Math.floor(Math.random() * list.length)];
+    const fits = (levels: number[]) => {
+      const total = adapter.calculateEncounterCost(levels, partyLevels).total;
+      return total >= minCost && total < maxCost;
+    };
+
+    const powerLevels = Array.from(byPowerLevel.keys()).sort((a, b) => b - a);
+    const uniform: EncounterGroup[][] = [];
+    const mixed: EncounterGroup[][] = [];
+
+    for (let quantity = 1; quantity <= maxCreatures; quantity++) {
+      const fitting = powerLevels.filter(level => fits(Array(quantity).fill(level)));
+      if (fitting.length > 0) {
+        const level = fitting[Math.floor(Math.random() * fitting.length)];
+        uniform.push([{ creature: pick(byPowerLevel.get(level)!), powerLevel: level, quantity }]);
+      }
+    }
+
+    for (const leaderLevel of powerLevels) {
+      for (const minionLevel of powerLevels.filter(level => level < leaderLevel)) {
+        for (let quantity = 2; quantity < maxCreatures; quantity++) {
+          if (fits([leaderLevel, ...Array(quantity).fill(minionLevel)])) {
+            mixed.push([
+              { creature: pick(byPowerLevel.get(leaderLevel)!), powerLevel: leaderLevel, quantity: 1 },
+              { creature: pick(byPowerLevel.get(minionLevel)!), powerLevel: minionLevel, quantity },
+            ]);
+            break;
+          }
+        }
+      }
+    }
+
+    // Interleave so the first proposals cover both a uniform group and a leader with minions
+    const shuffledMixed = mixed.sort(() => Math.random() - 0.5);
+    const proposals: EncounterGroup[][] = [];
+    while (uniform.length > 0 || shuffledMixed.length > 0) {
+      const next = uniform.length > 0 ? uniform.splice(Math.floor(Math.random() * uniform.length), 1)[0] : undefined;
+      if (next) proposals.push(next);
+      const nextMixed = shuffledMixed.shift();
+      if (nextMixed) proposals.push(nextMixed);
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Create actors from the compendium and place them on the current scene via addActorsToScene
+   */
+  private async placeGroups(groups: EncounterGroup[], options: z.infer<typeof PlacementSchema>): Promise<any> {
+    const actorIds: string[] = [];
+    const errors: string[] = [];
+
+    for (const group of groups) {
+      if (!group.creature.packName || !group.creature.id) {
+        errors.push(`${group.creature.name}: no compendium reference, cannot create actor`);
+        continue;
+      }
+
+      try {
+        const created = await this.foundryClient.query('foundry-mcp-bridge.createActorFromCompendium', {
+          packId: group.creature.packName,
+          itemId: group.creature.id,
+          quantity: group.quantity,
+          addToScene: false,
+        });
+        actorIds.push(...(created.actors || []).map((a: any) => a.id));
+        if (created.errors) {
+          errors.push(...created.errors);
+        }
+      } catch (error) {
+        errors.push(`${group.creature.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (actorIds.length === 0) {
+      return { success: false, tokensCreated: 0, errors };
+    }
+
+    const placed = await this.foundryClient.query('foundry-mcp-bridge.addActorsToScene', {
+      actorIds,
+      placement: options.placement,
+      hidden: options.hidden,
+    });
+
+    return {
+      success: placed.success,
+      actorIds,
+      tokensCreated: placed.tokensCreated,
+      tokenIds: placed.tokenIds,
+      ...(errors.length > 0 || placed.errors ? { errors: [...errors, ...(placed.errors || [])] } : {}),
+    };
+  }
+}
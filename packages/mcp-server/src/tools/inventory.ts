@@ -0,0 +1,470 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { InventoryItemChange, SystemAdapter } from '../systems/types.js';
+
+export interface InventoryToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+}
+
+export class InventoryTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+
+  constructor({ foundryClient, logger, systemRegistry }: InventoryToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'InventoryTools' });
+    this.systemRegistry = systemRegistry;
+  }
+
+  /**
+   * Tool definitions for managing actor inventories
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'add-item-to-actor',
+        description: 'Add an item from a compendium to a character or other actor. Find the item first with search-compendium and pass its pack ID and item ID. Physical items stack onto an existing item with the same name unless equipped is set.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            actor: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            packId: {
+              type: 'string',
+              description: 'Compendium pack ID, e.g. "dnd5e.items"',
+            },
+            itemId: {
+              type: 'string',
+              description: 'Item ID within the pack',
+            },
+            quantity: {
+              type: 'number',
+              description: 'Number of items (default: 1)',
+              minimum: 1,
+            },
+            equipped: {
+              type: 'boolean',
+              description: 'Equip the item after adding it (PF2e: hold weapons and shields, wear armor; DSA5: angelegt)',
+            },
+          },
+          required: ['actor', 'packId', 'itemId'],
+        },
+      },
+      {
+        name: 'update-actor-item',
+        description: 'Change an owned item\'s quantity, equipped state or attunement (PF2e: investment). Use quantityChange to use up or add to a stack, e.g. -1 for a potion drunk; a stack that reaches 0 is removed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            actor: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            item: {
+              type: 'string',
+              description: 'Item ID or exact name on the actor (see search-character-items)',
+            },
+            quantity: {
+              type: 'number',
+              description: 'New quantity',
+              minimum: 0,
+            },
+            quantityChange: {
+              type: 'number',
+              description: 'Amount to add (positive) or remove (negative)',
+            },
+            equipped: {
+              type: 'boolean',
+              description: 'Equip or unequip the item',
+            },
+            attuned: {
+              type: 'boolean',
+              description: 'Attune (D&D 5e) or invest (PF2e) the item',
+            },
+          },
+          required: ['actor', 'item'],
+        },
+      },
+      {
+        name: 'remove-actor-item',
+        description: 'Remove an item (the whole stack) from an actor. Use update-actor-item with quantityChange to remove only part of a stack.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            actor: {
+              type: 'string',
+              description: 'Token ID or name on the current scene, or actor ID or name',
+            },
+            item: {
+              type: 'string',
+              description: 'Item ID or exact name on the actor',
+            },
+          },
+          required: ['actor', 'item'],
+        },
+      },
+      {
+        name: 'transfer-item',
+        description: 'Give an item from one actor to another, e.g. to hand out loot from a defeated monster or a loot pile to the party. Moves the whole stack or part of it; the moved items arrive unequipped and stack onto an item with the same name.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Token or actor that has the item (ID or name)',
+            },
+            to: {
+              type: 'string',
+              description: 'Token or actor that receives the item (ID or name)',
+            },
+            item: {
+              type: 'string',
+              description: 'Item ID or exact name on the giving actor',
+            },
+            quantity: {
+              type: 'number',
+              description: 'How many to give (default: the whole stack)',
+              minimum: 1,
+            },
+          },
+          required: ['from', 'to', 'item'],
+        },
+      },
+    ];
+  }
+
+  async handleAddItemToActor(args: any): Promise<any> {
+    const schema = z.object({
+      actor: z.string().min(1),
+      packId: z.string().min(1),
+      itemId: z.string().min(1),
+      quantity: z.number().int().min(1).optional(),
+      equipped: z.boolean().optional(),
+    });
+
+    const { actor, packId, itemId, quantity, equipped } = schema.parse(args);
+
+    this.logger.info('Adding item to actor', { actor, packId, itemId, quantity, equipped });
+
+    try {
+      return await this.addCompendiumItem({ actor, packId, itemId, quantity, equipped });
+
+    } catch (error) {
+      this.logger.error('Failed to add item to actor', error);
+      throw new Error(`Failed to add item to actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add a compendium item to an actor, stacking physical items onto one with the same name
+   * Also used to deposit generated loot
+   */
+  async addCompendiumItem({ actor, packId, itemId, quantity, equipped }: {
+    actor: string;
+    packId: string;
+    itemId: string;
+    quantity?: number | undefined;
+    equipped?: boolean | undefined;
+  }): Promise<any> {
+    const inventory = await this.getInventory(actor);
+    const adapter = this.getAdapter(inventory.systemId);
+
+    const entry = await this.foundryClient.query('foundry-mcp-bridge.getCompendiumDocumentFull', {
+      packId,
+      documentId: itemId,
+    });
+
+    if (!entry?.fullData || entry.items) {
+      throw new Error(`${entry?.name ?? itemId} in ${packId} is not an item`);
+    }
+
+    const physical = adapter.isInventoryItem(entry.type);
+    if (!physical && (quantity !== undefined || equipped !== undefined)) {
+      throw new Error(`${entry.name} (${entry.type}) is not a physical item; quantity and equipped do not apply`);
+    }
+
+    // Stack onto an item the actor already has
+    const stack = physical && equipped === undefined
+      ? inventory.items.find((item: any) => item.name === entry.name && item.type === entry.type)
+      : undefined;
+
+    if (stack) {
+      const total = adapter.getItemQuantity(stack) + (quantity ?? 1);
+      const plan = adapter.buildItemUpdate(stack, { quantity: total });
+
+      await this.foundryClient.query('foundry-mcp-bridge.update-actor-item', {
+        actorId: inventory.actorId,
+        tokenId: inventory.tokenId,
+        itemId: stack.id,
+        updates: plan.updates,
+      });
+
+      this.logger.debug('Item stacked', { actorId: inventory.actorId, itemId: stack.id, total });
+
+      return {
+        success: true,
+        actor: inventory.name,
+        item: { id: stack.id, name: stack.name, type: stack.type },
+        quantity: total,
+        message: `Added ${quantity ?? 1} ${entry.name} to ${inventory.name} (now ${total})`,
+      };
+    }
+
+    const plan = physical
+      ? adapter.buildItemUpdate({ ...entry, system: entry.fullData.system }, { quantity, equipped })
+      : { updates: {}, notes: [] };
+
+    const result = await this.foundryClient.query('foundry-mcp-bridge.create-actor-item', {
+      actorId: inventory.actorId,
+      tokenId: inventory.tokenId,
+      itemData: entry.fullData,
+      updates: plan.updates,
+      sourceUuid: `Compendium.${packId}.Item.${itemId}`,
+    });
+
+    this.logger.debug('Item added', { actorId: inventory.actorId, itemId: result.itemId });
+
+    return {
+      success: true,
+      actor: inventory.name,
+      item: { id: result.itemId, name: result.itemName, type: entry.type },
+      ...(physical ? { quantity: quantity ?? adapter.getItemQuantity(entry.fullData) } : {}),
+      ...(equipped !== undefined ? { equipped } : {}),
+      ...(plan.notes.length > 0 ? { notes: plan.notes } : {}),
+      message: `Added ${result.itemName} to ${inventory.name}`,
+    };
+  }
+
+  async handleUpdateActorItem(args: any): Promise<any> {
+    const schema = z.object({
+      actor: z.string().min(1),
+      item: z.string().min(1),
+      quantity: z.number().int().min(0).optional(),
+      quantityChange: z.number().int().optional(),
+      equipped: z.boolean().optional(),
+      attuned: z.boolean().optional(),
+    }).refine(data => data.quantity === undefined || data.quantityChange === undefined, {
+      message: 'Use either quantity or quantityChange, not both',
+    });
+
+    const { actor, item, quantity, quantityChange, equipped, attuned } = schema.parse(args);
+
+    if (quantity === undefined && quantityChange === undefined && equipped === undefined && attuned === undefined) {
+      throw new Error('Nothing to change; pass quantity, quantityChange, equipped or attuned');
+    }
+
+    this.logger.info('Updating actor item', { actor, item, quantity, quantityChange, equipped, attuned });
+
+    try {
+      const inventory = await this.getInventory(actor);
+      const adapter = this.getAdapter(inventory.systemId);
+      const owned = this.findItem(inventory, item);
+
+      const change: InventoryItemChange = { equipped, attuned };
+      const current = adapter.getItemQuantity(owned);
+
+      if (quantity !== undefined || quantityChange !== undefined) {
+        if (!adapter.isInventoryItem(owned.type)) {
+          throw new Error(`${owned.name} (${owned.type}) has no quantity`);
+        }
+        change.quantity = quantity ?? current + (quantityChange ?? 0);
+        if (change.quantity < 0) {
+          throw new Error(`${inventory.name} has only ${current} ${owned.name}`);
+        }
+      }
+
+      if (change.quantity === 0) {
+        await this.foundryClient.query('foundry-mcp-bridge.delete-actor-item', {
+          actorId: inventory.actorId,
+          tokenId: inventory.tokenId,
+          itemId: owned.id,
+        });
+
+        this.logger.debug('Item used up and removed', { actorId: inventory.actorId, itemId: owned.id });
+
+        return {
+          success: true,
+          actor: inventory.name,
+          item: { id: owned.id, name: owned.name, type: owned.type },
+          removed: true,
+          message: `${owned.name} was removed from ${inventory.name} (quantity reached 0)`,
+        };
+      }
+
+      const plan = adapter.buildItemUpdate(owned, change);
+
+      const result = await this.foundryClient.query('foundry-mcp-bridge.update-actor-item', {
+        actorId: inventory.actorId,
+        tokenId: inventory.tokenId,
+        itemId: owned.id,
+        updates: plan.updates,
+      });
+
+      this.logger.debug('Item updated', { actorId: inventory.actorId, itemId: owned.id });
+
+      return {
+        success: true,
+        actor: inventory.name,
+        item: { id: owned.id, name: owned.name, type: owned.type },
+        ...(change.quantity !== undefined ? { quantity: { before: current, after: change.quantity } } : {}),
+        ...(equipped !== undefined ? { equipped } : {}),
+        ...(attuned !== undefined ? { attuned } : {}),
+        changes: result.changes,
+        ...(plan.notes.length > 0 ? { notes: plan.notes } : {}),
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to update actor item', error);
+      throw new Error(`Failed to update actor item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleRemoveActorItem(args: any): Promise<any> {
+    const schema = z.object({
+      actor: z.string().min(1),
+      item: z.string().min(1),
+    });
+
+    const { actor, item } = schema.parse(args);
+
+    this.logger.info('Removing actor item', { actor, item });
+
+    try {
+      const inventory = await this.getInventory(actor);
+      const owned = this.findItem(inventory, item);
+
+      await this.foundryClient.query('foundry-mcp-bridge.delete-actor-item', {
+        actorId: inventory.actorId,
+        tokenId: inventory.tokenId,
+        itemId: owned.id,
+      });
+
+      this.logger.debug('Item removed', { actorId: inventory.actorId, itemId: owned.id });
+
+      return {
+        success: true,
+        actor: inventory.name,
+        item: { id: owned.id, name: owned.name, type: owned.type },
+        message: `Removed ${owned.name} from ${inventory.name}`,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to remove actor item', error);
+      throw new Error(`Failed to remove actor item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleTransferItem(args: any): Promise<any> {
+    const schema = z.object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+      item: z.string().min(1),
+      quantity: z.number().int().min(1).optional(),
+    });
+
+    const { from, to, item, quantity } = schema.parse(args);
+
+    this.logger.info('Transferring item', { from, to, item, quantity });
+
+    try {
+      const source = await this.getInventory(from);
+      const target = await this.getInventory(to);
+      const adapter = this.getAdapter(source.systemId);
+      const owned = this.findItem(source, item);
+
+      const physical = adapter.isInventoryItem(owned.type);
+      const available = physical ? adapter.getItemQuantity(owned) : 1;
+      const moved = quantity ?? available;
+
+      if (moved > available) {
+        throw new Error(`${source.name} has only ${available} ${owned.name}`);
+      }
+
+      const stack = physical
+        ? target.items.find((candidate: any) => candidate.name === owned.name && candidate.type === owned.type)
+        : undefined;
+
+      const result = await this.foundryClient.query('foundry-mcp-bridge.transfer-actor-item', {
+        source: { actorId: source.actorId, tokenId: source.tokenId },
+        target: { actorId: target.actorId, tokenId: target.tokenId },
+        itemId: owned.id,
+        ...(moved < available ? { sourceUpdates: adapter.buildItemUpdate(owned, { quantity: available - moved }).updates } : {}),
+        ...(stack
+          ? { stackItemId: stack.id, stackUpdates: adapter.buildItemUpdate(stack, { quantity: adapter.getItemQuantity(stack) + moved }).updates }
+          : { copyUpdates: physical ? this.buildCarriedUpdates(adapter, owned, moved) : {} }),
+      });
+
+      this.logger.debug('Item transferred', { from: source.actorId, to: target.actorId, itemId: owned.id, moved });
+
+      return {
+        success: true,
+        item: owned.name,
+        quantity: moved,
+        from: { name: source.name, remaining: available - moved },
+        to: { name: target.name, total: stack ? adapter.getItemQuantity(stack) + moved : moved, itemId: result.to?.itemId },
+        message: `${source.name} gave ${moved} ${owned.name} to ${target.name}`,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to transfer item', error);
+      throw new Error(`Failed to transfer item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getInventory(identifier: string): Promise<any> {
+    const inventory = await this.foundryClient.query('foundry-mcp-bridge.get-actor-items', { identifier });
+
+    if (!inventory || inventory.success === false) {
+      throw new Error(inventory?.error || `Actor "${identifier}" not found`);
+    }
+
+    return inventory;
+  }
+
+  private getAdapter(systemId: string): SystemAdapter {
+    const adapter = this.systemRegistry.getAdapter(systemId);
+    if (!adapter) {
+      throw new Error(`Inventory management is not supported for game system "${systemId}"`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Find an owned item by ID or exact name (case-insensitive)
+   */
+  private findItem(inventory: any, identifier: string): any {
+    const search = identifier.toLowerCase();
+    const item = inventory.items.find((candidate: any) => candidate.id === identifier) ??
+      inventory.items.find((candidate: any) => candidate.name?.toLowerCase() === search);
+
+    if (!item) {
+      throw new Error(`Item "${identifier}" not found on ${inventory.name}`);
+    }
+    return item;
+  }
+
+  /**
+   * Updates for a copy of an item that changes hands: the moved quantity, unequipped and not attuned
+   */
+  private buildCarriedUpdates(adapter: SystemAdapter, item: any, quantity: number): Record<string, unknown> {
+    const updates = { ...adapter.buildItemUpdate(item, { quantity }).updates };
+
+    // Items without an equipped or attuned state keep their data as is
+    for (const change of [{ equipped: false }, { attuned: false }]) {
+      try {
+        Object.assign(updates, adapter.buildItemUpdate(item, change).updates);
+      } catch {
+        // Not applicable to this item
+      }
+    }
+
+    return updates;
+  }
+}
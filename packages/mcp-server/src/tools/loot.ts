@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { SystemRegistry } from '../systems/system-registry.js';
+import type { SystemAdapter } from '../systems/types.js';
+import { detectGameSystem, getCachedSystemId } from '../utils/system-detection.js';
+import { InventoryTools } from './inventory.js';
+
+export interface LootToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  systemRegistry: SystemRegistry;
+  inventoryTools: InventoryTools;
+}
+
+// Most compendium candidates to pick items from
+const CANDIDATE_LIMIT = 1000;
+
+export class LootTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private systemRegistry: SystemRegistry;
+  private inventoryTools: InventoryTools;
+
+  constructor({ foundryClient, logger, systemRegistry, inventoryTools }: LootToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'LootTools' });
+    this.systemRegistry = systemRegistry;
+    this.inventoryTools = inventoryTools;
+  }
+
+  /**
+   * Tool definitions for treasure generation
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'generate-loot',
+        description: 'Roll treasure for the game system: coins in the system\'s currency plus random items from compendium item packs, filtered by rarity, item level, type and value. D&D 5e uses the DMG individual/hoard tables by CR; PF2e uses party treasure by level with common items up to one level higher; DSA5 scales coins in Silbertaler by experience level; Starfinder rolls credits from wealth by level. Without deposit the loot is only rolled, so it can be reviewed first; deposit "loot-actor" creates a loot pile on the scene, "characters" splits it between the given characters.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            level: {
+              type: 'number',
+              description: 'D&D 5e: CR of the defeated creatures or of the hoard; PF2e/Starfinder: party level; DSA5: experience level (1-7)',
+            },
+            kind: {
+              type: 'string',
+              enum: ['individual', 'hoard'],
+              description: 'individual: what a few creatures carry; hoard: a lair, vault or adventure milestone (default: hoard)',
+            },
+            itemCount: {
+              type: 'number',
+              description: 'Number of items to pick (default: from the treasure rules; individual D&D 5e treasure has none)',
+              minimum: 0,
+              maximum: 20,
+            },
+            rarity: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Item rarities, replacing those for the level (D&D 5e: common, uncommon, rare, veryRare, legendary; PF2e: common, uncommon, rare, unique)',
+            },
+            itemTypes: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only these item types, e.g. ["consumable"] or ["weapon", "armor"]',
+            },
+            maxItemValue: {
+              type: 'number',
+              description: 'Most one item may be worth, in gp (DSA5: Silbertaler, Starfinder: credits)',
+              minimum: 0,
+            },
+            includeCurrency: {
+              type: 'boolean',
+              description: 'Roll coins as well as items (default: true)',
+              default: true,
+            },
+            packIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only pick items from these compendium packs (default: all item packs)',
+            },
+            deposit: {
+              type: 'string',
+              enum: ['none', 'loot-actor', 'characters'],
+              description: 'none: only roll (default); loot-actor: put the loot on a new actor; characters: split it between characters',
+            },
+            lootActorName: {
+              type: 'string',
+              description: 'Name of the loot actor (default: "Treasure")',
+            },
+            placeOnScene: {
+              type: 'boolean',
+              description: 'Place the loot actor as a token in the middle of the current scene (default: true)',
+              default: true,
+            },
+            characters: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Characters to share the loot between when deposit is "characters": items are dealt in turn, coins split evenly',
+            },
+          },
+          required: ['level'],
+        },
+      },
+    ];
+  }
+
+  async handleGenerateLoot(args: any): Promise<any> {
+    const schema = z.object({
+      level: z.number().min(0).max(30),
+      kind: z.enum(['individual', 'hoard']).optional().default('hoard'),
+      itemCount: z.number().int().min(0).max(20).optional(),
+      rarity: z.array(z.string().min(1)).optional(),
+      itemTypes: z.array(z.string().min(1)).optional(),
+      maxItemValue: z.number().min(0).optional(),
+      includeCurrency: z.boolean().optional().default(true),
+      packIds: z.array(z.string().min(1)).optional(),
+      deposit: z.enum(['none', 'loot-actor', 'characters']).optional().default('none'),
+      lootActorName: z.string().min(1).optional().default('Treasure'),
+      placeOnScene: z.boolean().optional().default(true),
+      characters: z.array(z.string().min(1)).optional(),
+    }).refine(data => data.deposit !== 'characters' || (data.characters?.length ?? 0) > 0, {
+      message: 'characters is required when deposit is "characters"',
+    });
+
+    const request = schema.parse(args);
+
+    this.logger.info('Generating loot', { level: request.level, kind: request.kind, deposit: request.deposit });
+
+    try {
+      const { adapter, systemId } = await this.getAdapter();
+
+      const plan = adapter.planTreasure({
+        level: request.level,
+        kind: request.kind,
+        rarities: request.rarity,
+        itemTypes: request.itemTypes,
+        maxItemValue: request.maxItemValue,
+      });
+
+      const notes = [...plan.notes];
+      const currency = request.includeCurrency ? plan.currency : {};
+      const items = await this.pickItems(adapter, plan.itemQuery, request.itemCount ?? plan.itemCount, plan.maxItemValue, request.packIds, notes);
+
+      const loot = {
+        currency,
+        currencyValue: request.includeCurrency ? Math.round(plan.currencyValue * 100) / 100 : 0,
+        items: items.map(item => ({
+          name: item.name,
+          type: item.type,
+          ...(item.value !== undefined ? { value: item.value } : {}),
+          packId: item.pack,
+          itemId: item.id,
+        })),
+        baseCurrency: plan.baseCurrency,
+      };
+
+      if (request.deposit === 'none') {
+        this.logger.debug('Loot rolled', { items: items.length });
+
+        return {
+          success: true,
+          gameSystem: systemId,
+          ...loot,
+          notes,
+          message: 'Loot rolled but not given out. Call again with deposit, or hand items out with add-item-to-actor.',
+        };
+      }
+
+      let recipients: string[];
+      let lootActor: any;
+
+      if (request.deposit === 'loot-actor') {
+        lootActor = await this.foundryClient.query('foundry-mcp-bridge.create-loot-actor', {
+          name: request.lootActorName,
+          type: adapter.getLootActorType(),
+          placeOnScene: request.placeOnScene,
+        });
+        recipients = [lootActor.actorId];
+      } else {
+        recipients = request.characters!;
+      }
+
+      const deposited: any[] = [];
+      const errors: string[] = [];
+
+      // Deal items out in turn
+      for (const [index, item] of items.entries()) {
+        const recipient = recipients[index % recipients.length];
+        try {
+          const result = await this.inventoryTools.addCompendiumItem({ actor: recipient, packId: item.pack, itemId: item.id });
+          deposited.push({ item: item.name, to: result.actor });
+        } catch (error) {
+          errors.push(`${item.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      const coins: any[] = [];
+      for (const [index, recipient] of recipients.entries()) {
+        const share = this.shareCurrency(currency, recipients.length, index);
+        if (Object.keys(share).length === 0) continue;
+
+        try {
+          const name = await this.depositCurrency(adapter, recipient, share, notes);
+          coins.push({ to: name, currency: share });
+        } catch (error) {
+          errors.push(`Coins for ${recipient}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      this.logger.debug('Loot deposited', { recipients: recipients.length, items: deposited.length, errors: errors.length });
+
+      return {
+        success: errors.length === 0,
+        gameSystem: systemId,
+        ...loot,
+        ...(lootActor ? { lootActor: { actorId: lootActor.actorId, name: lootActor.name, tokenId: lootActor.tokenId } } : {}),
+        deposited: { items: deposited, coins },
+        ...(errors.length > 0 ? { errors } : {}),
+        notes,
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to generate loot', error);
+      throw new Error(`Failed to generate loot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getAdapter(): Promise<{ adapter: SystemAdapter; systemId: string }> {
+    const gameSystem = await detectGameSystem(this.foundryClient, this.logger);
+    const systemId = getCachedSystemId() || gameSystem;
+
+    const adapter = this.systemRegistry.getAdapter(systemId);
+    if (!adapter) {
+      throw new Error(`Loot generation is not supported for game system "${systemId}"`);
+    }
+
+    return { adapter, systemId };
+  }
+
+  /**
+   * Pick random distinct compendium items matching the adapter's query and value limit
+   */
+  private async pickItems(
+    adapter: SystemAdapter,
+    query: { types: string[]; fields: string[]; filters: any[] },
+    count: number,
+    maxItemValue: number | undefined,
+    packIds: string[] | undefined,
+    notes: string[]
+  ): Promise<Array<{ id: string; name: string; type: string; pack: string; value: number | undefined }>> {
+    if (count === 0 || query.types.length === 0) {
+      return [];
+    }
+
+    const search = await this.foundryClient.query('foundry-mcp-bridge.search-compendium-items', {
+      types: query.types,
+      fields: query.fields,
+      filters: query.filters,
+      packIds,
+      limit: CANDIDATE_LIMIT,
+    });
+
+    const candidates = (search?.items ?? [])
+      .map((entry: any) => ({ ...entry, value: adapter.getItemValue(entry) }))
+      .filter((entry: any) => maxItemValue === undefined || (entry.value !== undefined && entry.value <= maxItemValue));
+
+    const picked: any[] = [];
+    while (picked.length < count && candidates.length > 0) {
+      const [item] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+      picked.push(item);
+    }
+
+    if (picked.length < count) {
+      notes.push(`Only ${picked.length} of ${count} items found in the compendiums for these filters`);
+    }
+
+    return picked;
+  }
+
+  /**
+   * One recipient's share of the coins; the first recipients get the remainder
+   */
+  private shareCurrency(currency: Record<string, number>, recipients: number, index: number): Record<string, number> {
+    const share: Record<string, number> = {};
+    for (const [denomination, amount] of Object.entries(currency)) {
+      const coins = Math.floor(amount / recipients) + (index < amount % recipients ? 1 : 0);
+      if (coins > 0) {
+        share[denomination] = coins;
+      }
+    }
+    return share;
+  }
+
+  /**
+   * Add coins to an actor as actor data or coin items, depending on the system
+   * @returns The recipient's name
+   */
+  private async depositCurrency(adapter: SystemAdapter, recipient: string, currency: Record<string, number>, notes: string[]): Promise<string> {
+    const target = await this.foundryClient.query('foundry-mcp-bridge.get-hit-point-target', { identifier: recipient });
+    if (!target || target.success === false) {
+      throw new Error(target?.error || `Actor "${recipient}" not found`);
+    }
+
+    const deposit = adapter.buildCurrencyDeposit(target, currency);
+
+    if (Object.keys(deposit.updates).length > 0) {
+      await this.foundryClient.query('foundry-mcp-bridge.update-actor', {
+        actorId: target.actorId,
+        tokenId: target.tokenId,
+        updates: deposit.updates,
+      });
+    }
+
+    for (const coin of deposit.items) {
+      const search = await this.foundryClient.query('foundry-mcp-bridge.search-compendium-items', {
+        types: [coin.type],
+        names: [coin.name],
+        limit: 1,
+      });
+
+      const source = search?.items?.[0];
+      if (!source) {
+        notes.push(`No "${coin.name}" item found in the compendiums; give ${target.name} ${coin.quantity} ${coin.name} by hand`);
+        continue;
+      }
+
+      await this.inventoryTools.addCompendiumItem({ actor: target.actorId, packId: source.pack, itemId: source.id, quantity: coin.quantity });
+    }
+
+    return target.name;
+  }
+}
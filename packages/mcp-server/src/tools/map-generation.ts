@@ -47,7 +47,7 @@ export class MapGenerationTools {
     return [
       {
         name: 'generate-map',
-        description: 'Start AI map generation using D&D Battlemaps SDXL (async)',
+        description: 'Start AI map generation using D&D Battlemaps SDXL (async). Use list-map-workflows to see other ComfyUI workflows that can be selected with the workflow parameter.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -69,6 +69,11 @@ export class MapGenerationTools {
               type: 'number',
               default: 70,
               description: 'Pixels per 5ft square for Foundry scene setup'
+            },
+            workflow: {
+              type: 'string',
+              default: 'battlemap',
+              description: 'ComfyUI workflow name (built-in: battlemap, token-portrait, item-art, handout-illustration; more can be added as JSON files)'
             }
           },
           required: ['prompt', 'scene_name']
@@ -139,10 +144,35 @@ export class MapGenerationTools {
           },
           required: ['scene_identifier']
         }
+      },
+      {
+        name: 'list-map-workflows',
+        description: 'List the ComfyUI workflows available to generate-map, including custom workflow JSON files from the workflows directory',
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        }
       }
     ];
   }
 
+  async listMapWorkflows(): Promise<any> {
+    try {
+      const workflows = this.backendComfyUIHandlers?.listWorkflows?.() ?? [];
+      if (workflows.length === 0) {
+        return 'No ComfyUI workflows available. Map generation may not be initialized.';
+      }
+
+      const lines = workflows.map((workflow: any) =>
+        `- ${workflow.name} (${workflow.source}): ${workflow.description || 'No description'}`
+      );
+      return ['Available ComfyUI workflows:', ...lines].join('\n');
+    } catch (error: any) {
+      this.logger.error('Failed to list map workflows', { error });
+      return `Error: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
   async listScenes(input: any): Promise<any> {
     const safeInput = input ?? {};
     try {
@@ -195,12 +225,14 @@ export class MapGenerationTools {
       const size = typeof safeInput.size === 'string' ? safeInput.size : 'medium';
       const gridSizeRaw = typeof safeInput.grid_size === 'number' ? safeInput.grid_size : Number(safeInput.grid_size);
       const gridSize = Number.isFinite(gridSizeRaw) ? gridSizeRaw : 70;
+      const workflow = typeof safeInput.workflow === 'string' && safeInput.workflow.trim() ? safeInput.workflow.trim() : 'battlemap';
 
       const params = {
         prompt,
         scene_name: sceneName,
         size,
         grid_size: gridSize,
+        workflow,
       } as const;
 
       const response = await this.foundryClient.query('foundry-mcp-bridge.generate-map', params);
@@ -216,6 +248,7 @@ export class MapGenerationTools {
         `Prompt: ${params.prompt}`,
         `Size: ${params.size} (${this.getSizePixels(params.size)})`,
         `Grid size: ${params.grid_size}px`,
+        `Workflow: ${params.workflow}`,
         '',
         `Generation time: ${estimatedTime}`,
         '',
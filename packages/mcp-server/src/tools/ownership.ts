@@ -55,6 +55,11 @@ export class OwnershipTools {
               description: 'Required confirmation for bulk operations affecting multiple actors/players',
               default: false,
             },
+            dryRun: {
+              type: 'boolean',
+              description: 'Preview the ownership changes (current and new level per actor and player) without applying them. Bulk previews do not need confirmation. Default: false',
+              default: false,
+            },
           },
           required: ['actorIdentifier', 'playerIdentifier', 'permissionLevel'],
         },
@@ -127,9 +132,9 @@ export class OwnershipTools {
    * Assign actor ownership permissions
    */
   private async assignActorOwnership(args: any) {
-    const { actorIdentifier, playerIdentifier, permissionLevel, confirmBulkOperation = false } = args;
+    const { actorIdentifier, playerIdentifier, permissionLevel, confirmBulkOperation = false, dryRun = false } = args;
     
-    this.logger.info(`Assigning ${permissionLevel} ownership of "${actorIdentifier}" to "${playerIdentifier}"`);
+    this.logger.info(`Assigning ${permissionLevel} ownership of "${actorIdentifier}" to "${playerIdentifier}"`, { dryRun });
 
     // Validate permission level
     const validatedLevel = ownershipLevelSchema.parse(permissionLevel);
@@ -141,7 +146,7 @@ export class OwnershipTools {
 
     // Check for bulk operations
     const isBulkOperation = actors.length > 1 || players.length > 1;
-    if (isBulkOperation && !confirmBulkOperation) {
+    if (isBulkOperation && !confirmBulkOperation && !dryRun) {
       return {
         success: false,
         error: `Bulk operation detected: ${actors.length} actors × ${players.length} players = ${actors.length * players.length} ownership changes. Please set confirmBulkOperation to true to proceed.`,
@@ -161,6 +166,7 @@ export class OwnershipTools {
             actorId: actor.id,
             userId: player.id,
             permission: numericLevel,
+            dryRun,
           });
           
           results.push({
@@ -170,6 +176,7 @@ export class OwnershipTools {
             success: result.success,
             message: result.message,
             error: result.error,
+            ...(dryRun ? { changes: result.changes } : {}),
           });
         } catch (error) {
           results.push({
@@ -186,6 +193,15 @@ export class OwnershipTools {
     const successCount = results.filter(r => r.success).length;
     const failureCount = results.length - successCount;
 
+    if (dryRun) {
+      return {
+        success: successCount > 0,
+        dryRun: true,
+        message: `Dry run: ${successCount} ownership assignment(s) would be made${failureCount > 0 ? `, ${failureCount} would fail` : ''}. Nothing was changed.`,
+        results,
+      };
+    }
+
     return {
       success: successCount > 0,
       message: `${successCount} ownership assignments completed${failureCount > 0 ? `, ${failureCount} failed` : ''}`,
@@ -148,6 +148,11 @@ export class QuestCreationTools {
             newPageName: {
               type: 'string',
               description: 'If provided (without pageId), creates a new page with this name instead of updating an existing one.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Return the page content before and after the update without saving it (default: false)',
+              default: false
             }
           },
           required: ['journalId', 'newContent', 'updateType']
@@ -309,7 +314,8 @@ export class QuestCreationTools {
         newContent: z.string().min(1, 'New content is required'),
         updateType: z.enum(['progress', 'completion', 'failure', 'modification']),
         pageId: z.string().optional(),
-        newPageName: z.string().optional()
+        newPageName: z.string().optional(),
+        dryRun: z.boolean().optional().default(false)
       });
 
       const request = requestSchema.parse(args);
@@ -324,8 +330,13 @@ export class QuestCreationTools {
           journalId: request.journalId,
           content: formattedContent,
           newPageName: request.newPageName,
+          dryRun: request.dryRun,
         });
 
+        if (request.dryRun && result?.dryRun) {
+          return result;
+        }
+
         if (!result || result.error || !result.success) {
           throw new Error(result?.error || 'Failed to create new journal page');
         }
@@ -384,12 +395,17 @@ export class QuestCreationTools {
         journalId: request.journalId,
         content: updatedContent,
         pageId: request.pageId,
+        dryRun: request.dryRun,
       });
 
       if (!result) {
         throw new Error('Failed to update quest journal: No response from Foundry');
       }
 
+      if (request.dryRun && result.dryRun) {
+        return result;
+      }
+
       if (result.error) {
         throw new Error(`Failed to update quest journal: ${result.error}`);
       }
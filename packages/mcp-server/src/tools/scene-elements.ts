@@ -0,0 +1,495 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+
+export interface SceneElementToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+const WALL_TYPES = ['wall', 'door', 'secret-door', 'window', 'invisible', 'terrain', 'ethereal'] as const;
+const DOOR_STATES = ['closed', 'open', 'locked'] as const;
+const ELEMENT_TYPES = ['walls', 'lights', 'sounds'] as const;
+
+const unitsSchema = z.enum(['pixels', 'grid']).optional().default('pixels');
+
+const wallSchema = z.object({
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+  type: z.enum(WALL_TYPES).optional(),
+  doorState: z.enum(DOOR_STATES).optional(),
+  direction: z.enum(['both', 'left', 'right']).optional(),
+});
+
+const lightSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  bright: z.number().min(0).optional(),
+  dim: z.number().min(0).optional(),
+  color: z.string().optional(),
+  alpha: z.number().min(0).max(1).optional(),
+  angle: z.number().min(0).max(360).optional(),
+  animation: z.string().optional(),
+  enabled: z.boolean().optional(),
+  walls: z.boolean().optional(),
+});
+
+const soundSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  path: z.string().min(1),
+  radius: z.number().min(0),
+  volume: z.number().min(0).max(1).optional(),
+  easing: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+  walls: z.boolean().optional(),
+});
+
+const UNITS_PROPERTY = {
+  type: 'string',
+  enum: ['pixels', 'grid'],
+  description: 'Coordinate units: "pixels" (canvas coordinates, including scene padding) or "grid" (grid squares from the top-left corner of the map, fractions allowed). Default: pixels',
+  default: 'pixels',
+};
+
+const SCENE_ID_PROPERTY = {
+  type: 'string',
+  description: 'Scene ID (default: the currently active scene)',
+};
+
+export class SceneElementTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: SceneElementToolsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'SceneElementTools' });
+  }
+
+  /**
+   * Tool definitions for scene wall, door, light and sound operations
+   */
+  getToolDefinitions() {
+    return [
+      {
+        name: 'list-scene-elements',
+        description: 'List walls, doors, ambient lights and ambient sounds on a scene. Coordinates are returned in both pixels and grid units, along with the grid size so positions can be related to tokens.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            elementType: {
+              type: 'string',
+              enum: ['walls', 'doors', 'lights', 'sounds', 'all'],
+              description: 'Which elements to list (default: all)',
+              default: 'all',
+            },
+          },
+        },
+      },
+      {
+        name: 'create-walls',
+        description: 'Create walls, doors, windows and other wall segments on a scene. Each segment runs from (x1, y1) to (x2, y2). Types: wall (blocks everything), door, secret-door, window (blocks movement only, muffles sound), invisible (blocks movement only), terrain (limited sight/light/sound), ethereal (blocks vision but not movement).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            units: UNITS_PROPERTY,
+            walls: {
+              type: 'array',
+              description: 'Wall segments to create',
+              items: {
+                type: 'object',
+                properties: {
+                  x1: { type: 'number', description: 'Start X' },
+                  y1: { type: 'number', description: 'Start Y' },
+                  x2: { type: 'number', description: 'End X' },
+                  y2: { type: 'number', description: 'End Y' },
+                  type: {
+                    type: 'string',
+                    enum: WALL_TYPES,
+                    description: 'Wall type (default: wall)',
+                  },
+                  doorState: {
+                    type: 'string',
+                    enum: DOOR_STATES,
+                    description: 'Initial state for doors (default: closed)',
+                  },
+                  direction: {
+                    type: 'string',
+                    enum: ['both', 'left', 'right'],
+                    description: 'Restrict the wall to one side (default: both)',
+                  },
+                },
+                required: ['x1', 'y1', 'x2', 'y2'],
+              },
+              minItems: 1,
+            },
+          },
+          required: ['walls'],
+        },
+      },
+      {
+        name: 'create-lights',
+        description: 'Place ambient light sources on a scene, such as torches, braziers or magical glows. Radii are in scene distance units (e.g. feet).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            units: UNITS_PROPERTY,
+            lights: {
+              type: 'array',
+              description: 'Lights to create',
+              items: {
+                type: 'object',
+                properties: {
+                  x: { type: 'number', description: 'X position' },
+                  y: { type: 'number', description: 'Y position' },
+                  bright: { type: 'number', description: 'Bright light radius in scene distance units' },
+                  dim: { type: 'number', description: 'Dim light radius in scene distance units' },
+                  color: { type: 'string', description: 'Light color as hex, e.g. "#ff9933"' },
+                  alpha: { type: 'number', description: 'Color intensity from 0 to 1' },
+                  angle: { type: 'number', description: 'Emission angle in degrees (360 for all directions)' },
+                  animation: { type: 'string', description: 'Animation type, e.g. "torch", "pulse", "flame"' },
+                  enabled: { type: 'boolean', description: 'Whether the light is lit (default: true)' },
+                  walls: { type: 'boolean', description: 'Whether walls block the light (default: true)' },
+                },
+                required: ['x', 'y'],
+              },
+              minItems: 1,
+            },
+          },
+          required: ['lights'],
+        },
+      },
+      {
+        name: 'create-sounds',
+        description: 'Place ambient sound sources on a scene, such as a waterfall or tavern chatter. The audio path must be a file already available to Foundry.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            units: UNITS_PROPERTY,
+            sounds: {
+              type: 'array',
+              description: 'Sounds to create',
+              items: {
+                type: 'object',
+                properties: {
+                  x: { type: 'number', description: 'X position' },
+                  y: { type: 'number', description: 'Y position' },
+                  path: { type: 'string', description: 'Audio file path, e.g. "sounds/drums.wav"' },
+                  radius: { type: 'number', description: 'Audible radius in scene distance units' },
+                  volume: { type: 'number', description: 'Volume from 0 to 1 (default: 0.5)' },
+                  easing: { type: 'boolean', description: 'Fade volume with distance (default: true)' },
+                  enabled: { type: 'boolean', description: 'Whether the sound plays (default: true)' },
+                  walls: { type: 'boolean', description: 'Whether walls block the sound (default: true)' },
+                },
+                required: ['x', 'y', 'path', 'radius'],
+              },
+              minItems: 1,
+            },
+          },
+          required: ['sounds'],
+        },
+      },
+      {
+        name: 'update-scene-elements',
+        description: 'Update existing walls, lights or sounds by ID. Only the fields given are changed; for example set enabled: false on lights to put out torches, or change a wall\'s type. Moving a wall requires all four of x1, y1, x2, y2.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            units: UNITS_PROPERTY,
+            elementType: {
+              type: 'string',
+              enum: ELEMENT_TYPES,
+              description: 'Type of the elements being updated',
+            },
+            updates: {
+              type: 'array',
+              description: 'Changes to apply, each with the element ID and any fields accepted by create-walls, create-lights or create-sounds',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Element ID from list-scene-elements' },
+                },
+                required: ['id'],
+                additionalProperties: true,
+              },
+              minItems: 1,
+            },
+          },
+          required: ['elementType', 'updates'],
+        },
+      },
+      {
+        name: 'delete-scene-elements',
+        description: 'Delete walls, lights or sounds from a scene by ID.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            elementType: {
+              type: 'string',
+              enum: ELEMENT_TYPES,
+              description: 'Type of the elements being deleted',
+            },
+            ids: {
+              type: 'array',
+              description: 'Element IDs from list-scene-elements',
+              items: { type: 'string' },
+              minItems: 1,
+            },
+          },
+          required: ['elementType', 'ids'],
+        },
+      },
+      {
+        name: 'set-door-state',
+        description: 'Open, close or lock one or more doors. Use list-scene-elements with elementType "doors" to find door IDs.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sceneId: SCENE_ID_PROPERTY,
+            wallIds: {
+              type: 'array',
+              description: 'Door wall IDs',
+              items: { type: 'string' },
+              minItems: 1,
+            },
+            state: {
+              type: 'string',
+              enum: DOOR_STATES,
+              description: 'New door state',
+            },
+          },
+          required: ['wallIds', 'state'],
+        },
+      },
+    ];
+  }
+
+  async handleListSceneElements(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      elementType: z.enum(['walls', 'doors', 'lights', 'sounds', 'all']).optional().default('all'),
+    });
+
+    const { sceneId, elementType } = schema.parse(args);
+
+    this.logger.info('Listing scene elements', { sceneId, elementType });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.list-scene-elements', {
+        sceneId,
+        elementType,
+      });
+
+      this.logger.debug('Scene elements retrieved', {
+        walls: result.walls?.length,
+        lights: result.lights?.length,
+        sounds: result.sounds?.length,
+      });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to list scene elements', error);
+      throw new Error(`Failed to list scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleCreateWalls(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      units: unitsSchema,
+      walls: z.array(wallSchema).min(1),
+    });
+
+    const { sceneId, units, walls } = schema.parse(args);
+
+    this.logger.info('Creating walls', { sceneId, units, count: walls.length });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.create-walls', {
+        sceneId,
+        units,
+        walls,
+      });
+
+      this.logger.debug('Walls created', { count: result.created?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to create walls', error);
+      throw new Error(`Failed to create walls: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleCreateLights(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      units: unitsSchema,
+      lights: z.array(lightSchema).min(1),
+    });
+
+    const { sceneId, units, lights } = schema.parse(args);
+
+    this.logger.info('Creating lights', { sceneId, units, count: lights.length });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.create-lights', {
+        sceneId,
+        units,
+        lights,
+      });
+
+      this.logger.debug('Lights created', { count: result.created?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to create lights', error);
+      throw new Error(`Failed to create lights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleCreateSounds(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      units: unitsSchema,
+      sounds: z.array(soundSchema).min(1),
+    });
+
+    const { sceneId, units, sounds } = schema.parse(args);
+
+    this.logger.info('Creating sounds', { sceneId, units, count: sounds.length });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.create-sounds', {
+        sceneId,
+        units,
+        sounds,
+      });
+
+      this.logger.debug('Sounds created', { count: result.created?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to create sounds', error);
+      throw new Error(`Failed to create sounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleUpdateSceneElements(args: any): Promise<any> {
+    const updateSchemas = {
+      walls: wallSchema.partial(),
+      lights: lightSchema.partial(),
+      sounds: soundSchema.partial(),
+    };
+
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      units: unitsSchema,
+      elementType: z.enum(ELEMENT_TYPES),
+      updates: z.array(z.object({ id: z.string().min(1) }).passthrough()).min(1),
+    });
+
+    const { sceneId, units, elementType, updates } = schema.parse(args);
+
+    // Validate the fields against the element type, keeping only known ones
+    const validatedUpdates = updates.map(({ id, ...fields }) => ({
+      id,
+      ...updateSchemas[elementType].parse(fields),
+    }));
+
+    if (elementType === 'walls') {
+      for (const update of validatedUpdates as Array<Record<string, unknown>>) {
+        const coords = ['x1', 'y1', 'x2', 'y2'].filter(key => update[key] !== undefined);
+        if (coords.length > 0 && coords.length < 4) {
+          throw new Error(`Wall ${update.id}: moving a wall requires all of x1, y1, x2, y2`);
+        }
+      }
+    }
+
+    this.logger.info('Updating scene elements', { sceneId, elementType, count: updates.length });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.update-scene-elements', {
+        sceneId,
+        units,
+        elementType,
+        updates: validatedUpdates,
+      });
+
+      this.logger.debug('Scene elements updated', { elementType, count: result.updated?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to update scene elements', error);
+      throw new Error(`Failed to update scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleDeleteSceneElements(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      elementType: z.enum(ELEMENT_TYPES),
+      ids: z.array(z.string().min(1)).min(1),
+    });
+
+    const { sceneId, elementType, ids } = schema.parse(args);
+
+    this.logger.info('Deleting scene elements', { sceneId, elementType, count: ids.length });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.delete-scene-elements', {
+        sceneId,
+        elementType,
+        ids,
+      });
+
+      this.logger.debug('Scene elements deleted', { elementType, count: result.deletedCount });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to delete scene elements', error);
+      throw new Error(`Failed to delete scene elements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleSetDoorState(args: any): Promise<any> {
+    const schema = z.object({
+      sceneId: z.string().optional(),
+      wallIds: z.array(z.string().min(1)).min(1),
+      state: z.enum(DOOR_STATES),
+    });
+
+    const { sceneId, wallIds, state } = schema.parse(args);
+
+    this.logger.info('Setting door state', { sceneId, wallIds, state });
+
+    try {
+      const result = await this.foundryClient.query('foundry-mcp-bridge.set-door-state', {
+        sceneId,
+        wallIds,
+        state,
+      });
+
+      this.logger.debug('Door state set', { state, count: result.doors?.length });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Failed to set door state', error);
+      throw new Error(`Failed to set door state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
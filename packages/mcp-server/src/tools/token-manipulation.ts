@@ -105,6 +105,11 @@ export class TokenManipulationTools {
                 },
               },
             },
+            dryRun: {
+              type: 'boolean',
+              description: 'Validate the update and return the before/after values of each changed field without applying it (default: false)',
+              default: false,
+            },
           },
           required: ['tokenId', 'updates'],
         },
@@ -123,6 +128,11 @@ export class TokenManipulationTools {
               },
               minItems: 1,
             },
+            dryRun: {
+              type: 'boolean',
+              description: 'List the tokens that would be deleted without deleting them (default: false)',
+              default: false,
+            },
           },
           required: ['tokenIds'],
         },
@@ -224,18 +234,24 @@ export class TokenManipulationTools {
         elevation: z.number().optional(),
         lockRotation: z.boolean().optional(),
       }),
+      dryRun: z.boolean().optional().default(false),
     });
 
-    const { tokenId, updates } = schema.parse(args);
+    const { tokenId, updates, dryRun } = schema.parse(args);
 
-    this.logger.info('Updating token', { tokenId, updates });
+    this.logger.info('Updating token', { tokenId, updates, dryRun });
 
     try {
       const result = await this.foundryClient.query('foundry-mcp-bridge.update-token', {
         tokenId,
         updates,
+        dryRun,
       });
 
+      if (dryRun) {
+        return result;
+      }
+
       this.logger.debug('Token updated successfully', { tokenId, result });
 
       return {
@@ -254,17 +270,23 @@ export class TokenManipulationTools {
   async handleDeleteTokens(args: any): Promise<any> {
     const schema = z.object({
       tokenIds: z.array(z.string()).min(1),
+      dryRun: z.boolean().optional().default(false),
     });
 
-    const { tokenIds } = schema.parse(args);
+    const { tokenIds, dryRun } = schema.parse(args);
 
-    this.logger.info('Deleting tokens', { count: tokenIds.length, tokenIds });
+    this.logger.info('Deleting tokens', { count: tokenIds.length, tokenIds, dryRun });
 
     try {
       const result = await this.foundryClient.query('foundry-mcp-bridge.delete-tokens', {
         tokenIds,
+        dryRun,
       });
 
+      if (dryRun) {
+        return result;
+      }
+
       this.logger.debug('Tokens deleted successfully', {
         deleted: result.deletedCount,
         requested: tokenIds.length,
@@ -99,6 +99,13 @@ export function getDefaultComfyUIDir(): string {
   return `${appDataDir}/ComfyUI-headless`;
 }
 
+/**
+ * Get the default directory for custom ComfyUI workflow JSON files
+ */
+export function getDefaultWorkflowsDir(): string {
+  return `${getAppDataDir()}/workflows`;
+}
+
 /**
  * Get platform-specific spawn options for running a hidden background process
  */
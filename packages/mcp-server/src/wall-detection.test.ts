@@ -0,0 +1,121 @@
+/**
+ * Wall Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { decodePngToGrayscale, otsuThreshold, detectWalls } from './wall-detection.js';
+
+/**
+ * Encode an 8-bit PNG (color type 0 gray or 2 RGB); the decoder does not check CRCs, so they are left zero
+ */
+function encodePng(width: number, height: number, pixel: (x: number, y: number) => number[], colorType: 0 | 2 = 0): Buffer {
+  const channels = colorType === 2 ? 3 : 1;
+  const raw = Buffer.alloc((width * channels + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (width * channels + 1);
+    raw[rowStart] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      pixel(x, y).forEach((value, channel) => {
+        raw[rowStart + 1 + x * channels + channel] = value;
+      });
+    }
+  }
+
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = colorType;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * White 80x80 map with a black filled rectangle from (left, top) to (right, bottom), exclusive
+ */
+function rectangleMap(left: number, top: number, right: number, bottom: number): Buffer {
+  return encodePng(80, 80, (x, y) => [x >= left && x < right && y >= top && y < bottom ? 0 : 255]);
+}
+
+/**
+ * Walls as sorted "x1,y1-x2,y2" strings, independent of tracing direction and start point
+ */
+function segments(walls: Array<{ c: number[] }>): string[] {
+  return walls.map(({ c: [x1, y1, x2, y2] }) => {
+    const swap = x2 < x1 || (x2 === x1 && y2 < y1);
+    return swap ? `${x2},${y2}-${x1},${y1}` : `${x1},${y1}-${x2},${y2}`;
+  }).sort();
+}
+
+describe('decodePngToGrayscale', () => {
+  it('decodes grayscale pixels', () => {
+    const image = decodePngToGrayscale(encodePng(2, 2, (x, y) => [x * 100 + y * 10]));
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(2);
+    expect(Array.from(image.data)).toEqual([0, 100, 10, 110]);
+  });
+
+  it('converts RGB to luminance', () => {
+    const image = decodePngToGrayscale(encodePng(3, 1, x => [[255, 0, 0], [0, 255, 0], [255, 255, 255]][x], 2));
+    expect(Array.from(image.data)).toEqual([76, 150, 255]);
+  });
+
+  it('rejects data that is not a PNG', () => {
+    expect(() => decodePngToGrayscale(Buffer.from('GIF89a not a png'))).toThrow('Image is not a PNG');
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('splits a two-tone image between the tones', () => {
+    const data = new Uint8Array(100).map((_, i) => (i < 30 ? 20 : 220));
+    const threshold = otsuThreshold(data);
+    expect(threshold).toBeGreaterThanOrEqual(20);
+    expect(threshold).toBeLessThan(220);
+  });
+});
+
+describe('detectWalls', () => {
+  it('outlines a filled rectangle with four walls on the snap grid', () => {
+    // Grid 20px with half-square snapping: 10px cells, the rectangle covers cells 2-5
+    const result = detectWalls(rectangleMap(20, 20, 60, 60), { gridSize: 20 });
+
+    expect(result.truncated).toBe(false);
+    expect(result.wallCells).toBe(16);
+    expect(segments(result.walls)).toEqual(['20,20-20,60', '20,20-60,20', '20,60-60,60', '60,20-60,60']);
+    expect(result.walls.every(wall => wall.movement === 20 && wall.sight === 20)).toBe(true);
+  });
+
+  it('scales image coordinates onto a larger scene', () => {
+    // The 80px image is stretched over a 160px scene with 40px grid squares
+    const result = detectWalls(rectangleMap(20, 20, 60, 60), { gridSize: 40, sceneWidth: 160, sceneHeight: 160 });
+    expect(segments(result.walls)).toEqual(['120,40-120,120', '40,120-120,120', '40,40-120,40', '40,40-40,120']);
+  });
+
+  it('skips walls along the map edge', () => {
+    const result = detectWalls(rectangleMap(0, 0, 40, 40), { gridSize: 20 });
+    expect(segments(result.walls)).toEqual(['0,40-40,40', '40,0-40,40']);
+  });
+
+  it('ignores specks smaller than the minimum region', () => {
+    const result = detectWalls(rectangleMap(30, 30, 40, 40), { gridSize: 20 });
+    expect(result.walls).toEqual([]);
+  });
+
+  it('returns no walls when there are more than maxWalls', () => {
+    const result = detectWalls(rectangleMap(20, 20, 60, 60), { gridSize: 20, maxWalls: 3 });
+    expect(result.truncated).toBe(true);
+    expect(result.walls).toEqual([]);
+  });
+});
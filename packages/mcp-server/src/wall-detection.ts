@@ -0,0 +1,575 @@
+/**
+ * Wall Detection for Generated Battlemaps
+ *
+ * CPU-only extraction of wall segments from a generated map image:
+ * decode PNG -> grayscale -> blur -> Otsu threshold -> morphological opening ->
+ * occupancy on a snap grid -> contour tracing -> Douglas-Peucker simplification.
+ *
+ * Contours are traced along the snap grid, so every wall endpoint lands on a grid
+ * vertex (half a grid square by default, matching Foundry's wall snapping).
+ */
+
+import { inflateSync } from 'zlib';
+
+export interface WallDetectionOptions {
+  /** Scene grid size in scene pixels */
+  gridSize: number;
+  /** Scene width/height in pixels if the image is scaled onto the scene (default: image size) */
+  sceneWidth?: number;
+  sceneHeight?: number;
+  /** Snap points per grid square side (default: 2, i.e. half squares) */
+  snapDivisions?: number;
+  /** Fraction of a snap cell that must be wall pixels for the cell to count as wall (default: 0.5) */
+  cellFillThreshold?: number;
+  /** Wall regions smaller than this many snap cells are discarded as noise (default: 2) */
+  minRegionCells?: number;
+  /** Simplification tolerance in snap cells (default: 0.75) */
+  simplifyTolerance?: number;
+  /** Upper bound on returned walls; noisy images return nothing rather than thousands of walls (default: 1500) */
+  maxWalls?: number;
+}
+
+export interface DetectedWall {
+  /** Wall coordinates [x1, y1, x2, y2] in scene pixels, relative to the map image (excluding scene padding) */
+  c: [number, number, number, number];
+  movement: number;
+  sight: number;
+  light: number;
+  sound: number;
+}
+
+export interface WallDetectionResult {
+  walls: DetectedWall[];
+  imageWidth: number;
+  imageHeight: number;
+  threshold: number;
+  wallCells: number;
+  truncated: boolean;
+}
+
+interface GrayscaleImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+type Point = [number, number];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Foundry CONST.WALL_SENSE_TYPES.NORMAL / WALL_MOVEMENT_TYPES.NORMAL
+const NORMAL_RESTRICTION = 20;
+
+/**
+ * Decode a non-interlaced 8 or 16 bit PNG into luminance values
+ */
+export function decodePngToGrayscale(buffer: Buffer): GrayscaleImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Image is not a PNG');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  const idatChunks: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'IDAT') {
+      idatChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error('PNG is missing its IHDR chunk');
+  }
+  if (interlace !== 0) {
+    throw new Error('Interlaced PNGs are not supported');
+  }
+  if (bitDepth !== 8 && bitDepth !== 16) {
+    throw new Error(`Unsupported PNG bit depth: ${bitDepth}`);
+  }
+
+  const channelsByColorType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByColorType[colorType];
+  if (!channels || (colorType === 3 && (!palette || bitDepth !== 8))) {
+    throw new Error(`Unsupported PNG color type: ${colorType}`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bytesPerPixel = channels * bytesPerSample;
+  const stride = width * bytesPerPixel;
+  const raw = inflateSync(Buffer.concat(idatChunks));
+
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  const data = new Uint8Array(width * height);
+  let previous = new Uint8Array(stride);
+  let current = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    const filter = raw[rowStart];
+
+    for (let i = 0; i < stride; i++) {
+      const value = raw[rowStart + 1 + i];
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 0: current[i] = value; break;
+        case 1: current[i] = value + left; break;
+        case 2: current[i] = value + up; break;
+        case 3: current[i] = value + ((left + up) >> 1); break;
+        case 4: current[i] = value + paethPredictor(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type: ${filter}`);
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      const p = x * bytesPerPixel;
+      // Use the high byte of 16-bit samples
+      const sample = (channel: number) => current[p + channel * bytesPerSample];
+      let luminance: number;
+
+      if (colorType === 2 || colorType === 6) {
+        luminance = 0.299 * sample(0) + 0.587 * sample(1) + 0.114 * sample(2);
+      } else if (colorType === 3) {
+        const entry = sample(0) * 3;
+        luminance = 0.299 * palette![entry] + 0.587 * palette![entry + 1] + 0.114 * palette![entry + 2];
+      } else {
+        luminance = sample(0);
+      }
+
+      data[y * width + x] = Math.round(luminance);
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return { width, height, data };
+}
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Separable box blur to suppress floor texture before thresholding
+ */
+function boxBlur(image: GrayscaleImage, radius: number): Uint8Array {
+  const { width, height, data } = image;
+  if (radius < 1) {
+    return data;
+  }
+
+  const horizontal = new Uint8Array(data.length);
+  const output = new Uint8Array(data.length);
+  const size = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) {
+      sum += data[y * width + Math.min(width - 1, Math.max(0, x))];
+    }
+    for (let x = 0; x < width; x++) {
+      horizontal[y * width + x] = Math.round(sum / size);
+      const add = Math.min(width - 1, x + radius + 1);
+      const remove = Math.max(0, x - radius);
+      sum += data[y * width + add] - data[y * width + remove];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) {
+      sum += horizontal[Math.min(height - 1, Math.max(0, y)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      output[y * width + x] = Math.round(sum / size);
+      const add = Math.min(height - 1, y + radius + 1);
+      const remove = Math.max(0, y - radius);
+      sum += horizontal[add * width + x] - horizontal[remove * width + x];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Otsu's method: the threshold that maximises between-class variance
+ */
+export function otsuThreshold(data: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i++) {
+    histogram[data[i]]++;
+  }
+
+  const total = data.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) {
+    sumAll += i * histogram[i];
+  }
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Binary erosion or dilation with a square structuring element
+ */
+function morph(mask: Uint8Array, width: number, height: number, radius: number, erode: boolean): Uint8Array {
+  const target = erode ? 0 : 1;
+  const horizontal = new Uint8Array(mask.length);
+  const output = new Uint8Array(mask.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 1 - target;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        if (mask[y * width + k] === target) {
+          value = target;
+          break;
+        }
+      }
+      horizontal[y * width + x] = value;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let value = 1 - target;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        if (horizontal[k * width + x] === target) {
+          value = target;
+          break;
+        }
+      }
+      output[y * width + x] = value;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Clear 4-connected wall regions smaller than minCells
+ */
+function removeSmallRegions(cells: Uint8Array, columns: number, rows: number, minCells: number): void {
+  const visited = new Uint8Array(cells.length);
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+
+    const region: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % columns;
+      const y = Math.floor(index / columns);
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < columns - 1 ? index + 1 : -1,
+        y > 0 ? index - columns : -1,
+        y < rows - 1 ? index + columns : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && cells[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    if (region.length < minCells) {
+      for (const index of region) {
+        cells[index] = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Trace closed contours along the boundaries between wall and open cells.
+ * Edges are directed with the wall on the right, so each region's outline
+ * (including holes such as room interiors) forms its own loop.
+ */
+function traceContours(cells: Uint8Array, columns: number, rows: number): Point[][] {
+  const vertexColumns = columns + 1;
+  const vertexKey = (x: number, y: number) => y * vertexColumns + x;
+  const outgoing = new Map<number, Point[]>();
+
+  const isWall = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < columns && y < rows && cells[y * columns + x] === 1;
+
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const key = vertexKey(x1, y1);
+    const list = outgoing.get(key);
+    if (list) {
+      list.push([x2, y2]);
+    } else {
+      outgoing.set(key, [[x2, y2]]);
+    }
+  };
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      if (!isWall(x, y)) continue;
+      if (!isWall(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!isWall(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!isWall(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!isWall(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const contours: Point[][] = [];
+
+  for (const [startKey, startEdges] of outgoing) {
+    while (startEdges.length > 0) {
+      const start: Point = [startKey % vertexColumns, Math.floor(startKey / vertexColumns)];
+      const contour: Point[] = [start];
+      let previous = start;
+      let current = startEdges.pop()!;
+
+      while (current[0] !== start[0] || current[1] !== start[1]) {
+        contour.push(current);
+        const edges = outgoing.get(vertexKey(current[0], current[1]));
+        if (!edges || edges.length === 0) break;
+
+        // At diagonal pinch points prefer the right turn so touching regions stay separate
+        const dx = current[0] - previous[0];
+        const dy = current[1] - previous[1];
+        let choice = 0;
+        if (edges.length > 1) {
+          const rightTurn = edges.findIndex(e => e[0] - current[0] === -dy && e[1] - current[1] === dx);
+          choice = rightTurn >= 0 ? rightTurn : 0;
+        }
+
+        previous = current;
+        current = edges.splice(choice, 1)[0];
+      }
+
+      if (contour.length >= 4) {
+        contours.push(contour);
+      }
+    }
+  }
+
+  return contours;
+}
+
+function perpendicularDistance(point: Point, start: Point, end: Point): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) {
+    return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  }
+  return Math.abs(dy * point[0] - dx * point[1] + end[0] * start[1] - end[1] * start[0]) / length;
+}
+
+/**
+ * Douglas-Peucker simplification of an open polyline; keeps original (grid) vertices
+ */
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) {
+    return points;
+  }
+
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) {
+    return [points[0], points[points.length - 1]];
+  }
+
+  const left = simplifyPolyline(points.slice(0, index + 1), tolerance);
+  const right = simplifyPolyline(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Simplify a closed contour by splitting it at the vertex farthest from its start
+ */
+function simplifyContour(contour: Point[], tolerance: number): Point[] {
+  let farthest = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < contour.length; i++) {
+    const distance = Math.hypot(contour[i][0] - contour[0][0], contour[i][1] - contour[0][1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  }
+
+  const first = simplifyPolyline(contour.slice(0, farthest + 1), tolerance);
+  const second = simplifyPolyline([...contour.slice(farthest), contour[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+/**
+ * Detect walls in a generated battlemap image
+ */
+export function detectWalls(imageBuffer: Buffer, options: WallDetectionOptions): WallDetectionResult {
+  const image = decodePngToGrayscale(imageBuffer);
+  const { width, height } = image;
+
+  const sceneWidth = options.sceneWidth ?? width;
+  const sceneHeight = options.sceneHeight ?? height;
+  const snapDivisions = Math.max(1, Math.round(options.snapDivisions ?? 2));
+  const cellFillThreshold = options.cellFillThreshold ?? 0.5;
+  const minRegionCells = options.minRegionCells ?? 2;
+  const simplifyTolerance = options.simplifyTolerance ?? 0.75;
+  const maxWalls = options.maxWalls ?? 1500;
+
+  // Snap cell size in scene pixels, and the same cell measured in image pixels
+  const cellScenePixels = options.gridSize / snapDivisions;
+  const cellImageWidth = cellScenePixels * (width / sceneWidth);
+  const cellImageHeight = cellScenePixels * (height / sceneHeight);
+  const columns = Math.max(1, Math.floor(width / cellImageWidth));
+  const rows = Math.max(1, Math.floor(height / cellImageHeight));
+
+  // Blur and threshold; walls are the minority class, whether drawn dark or light
+  const blurRadius = Math.max(1, Math.round(Math.min(cellImageWidth, cellImageHeight) / 25));
+  const blurred = boxBlur(image, blurRadius);
+  const threshold = otsuThreshold(blurred);
+
+  let mask: Uint8Array = new Uint8Array(blurred.length);
+  let darkCount = 0;
+  for (let i = 0; i < blurred.length; i++) {
+    if (blurred[i] <= threshold) {
+      mask[i] = 1;
+      darkCount++;
+    }
+  }
+  if (darkCount > blurred.length / 2) {
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = mask[i] ? 0 : 1;
+    }
+  }
+
+  // Opening removes grid lines and thin details narrower than the wall strokes
+  const openingRadius = Math.max(1, Math.round(Math.min(cellImageWidth, cellImageHeight) / 10));
+  mask = morph(morph(mask, width, height, openingRadius, true), width, height, openingRadius, false);
+
+  // Occupancy per snap cell
+  const cells = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor(row * cellImageHeight);
+    const y1 = Math.min(height, Math.floor((row + 1) * cellImageHeight));
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.floor(column * cellImageWidth);
+      const x1 = Math.min(width, Math.floor((column + 1) * cellImageWidth));
+      let filled = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          filled += mask[y * width + x];
+        }
+      }
+      const area = (y1 - y0) * (x1 - x0);
+      cells[row * columns + column] = area > 0 && filled / area >= cellFillThreshold ? 1 : 0;
+    }
+  }
+
+  removeSmallRegions(cells, columns, rows, minRegionCells);
+
+  const wallCells = cells.reduce((sum, cell) => sum + cell, 0);
+  const walls: DetectedWall[] = [];
+
+  for (const contour of traceContours(cells, columns, rows)) {
+    const points = simplifyContour(contour, simplifyTolerance);
+
+    for (let i = 0; i < points.length; i++) {
+      const [x1, y1] = points[i];
+      const [x2, y2] = points[(i + 1) % points.length];
+
+      // The map edge needs no wall
+      const onVerticalEdge = x1 === x2 && (x1 === 0 || x1 === columns);
+      const onHorizontalEdge = y1 === y2 && (y1 === 0 || y1 === rows);
+      if (onVerticalEdge || onHorizontalEdge || (x1 === x2 && y1 === y2)) continue;
+
+      walls.push({
+        c: [
+          Math.round(x1 * cellScenePixels),
+          Math.round(y1 * cellScenePixels),
+          Math.round(x2 * cellScenePixels),
+          Math.round(y2 * cellScenePixels)
+        ],
+        movement: NORMAL_RESTRICTION,
+        sight: NORMAL_RESTRICTION,
+        light: NORMAL_RESTRICTION,
+        sound: NORMAL_RESTRICTION
+      });
+    }
+  }
+
+  const truncated = walls.length > maxWalls;
+
+  return {
+    walls: truncated ? [] : walls,
+    imageWidth: width,
+    imageHeight: height,
+    threshold,
+    wallCells,
+    truncated
+  };
+}
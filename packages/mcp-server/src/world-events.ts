@@ -0,0 +1,105 @@
+/**
+ * World change events pushed by the Foundry module when documents are created, updated or deleted.
+ *
+ * The backend relays them to the stdio wrapper, which turns them into MCP notifications:
+ * resources/updated for subscribed URIs, resources/list_changed when documents come and go,
+ * and a logging message describing the change.
+ */
+
+export interface WorldEvent {
+  hook: string;
+  action: 'create' | 'update' | 'delete';
+  documentType: string;
+  id: string;
+  uuid: string;
+  name: string | null;
+  parentId?: string | undefined;
+  actorId?: string | undefined;
+  changed?: string[] | undefined;
+  values?: Record<string, unknown> | undefined;
+  userId: string | null;
+  timestamp: number;
+}
+
+export interface WorldEventNotification {
+  type: 'world-event';
+  event: WorldEvent;
+  uris: string[];
+  listChanged: boolean;
+  message: string;
+}
+
+/**
+ * Resource URIs (see resources.ts) whose content is affected by an event
+ */
+export function resourceUrisForEvent(event: WorldEvent): string[] {
+  switch (event.documentType) {
+    case 'Actor':
+      // Synthetic token actors have a parent and no world-level resource of their own
+      return event.parentId ? ['foundry://scene/active'] : [`foundry://actor/${event.id}`];
+
+    case 'Token':
+      return [
+        'foundry://scene/active',
+        ...(event.actorId && event.changed?.some(path => path === 'delta' || path.startsWith('delta.'))
+          ? [`foundry://actor/${event.actorId}`]
+          : []),
+      ];
+
+    case 'JournalEntry':
+      return [`foundry://journal/${event.id}`];
+
+    case 'JournalEntryPage':
+      return event.parentId
+        ? [`foundry://journal/${event.parentId}/page/${event.id}`, `foundry://journal/${event.parentId}`]
+        : [];
+
+    case 'Combat':
+      return ['foundry://scene/active'];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether the event adds, removes or renames a listed resource
+ */
+export function changesResourceList(event: WorldEvent): boolean {
+  if (!['Actor', 'JournalEntry', 'JournalEntryPage'].includes(event.documentType)) {
+    return false;
+  }
+  if (event.documentType === 'Actor' && event.parentId) {
+    return false;
+  }
+  return event.action !== 'update' || !!event.changed?.includes('name');
+}
+
+/**
+ * One-line description for logging notifications, e.g. "Actor Goblin updated: system.attributes.hp.value = 3"
+ */
+export function describeWorldEvent(event: WorldEvent): string {
+  const label = `${event.documentType} ${event.name ?? event.id}`;
+  const verb = event.action === 'create' ? 'created' : event.action === 'delete' ? 'deleted' : 'updated';
+
+  if (event.action !== 'update' || !event.changed?.length) {
+    return `${label} ${verb}`;
+  }
+
+  const details = event.changed.slice(0, 6).map(path =>
+    event.values && path in event.values ? `${path} = ${JSON.stringify(event.values[path])}` : path
+  );
+  const more = event.changed.length > 6 ? ` (+${event.changed.length - 6} more)` : '';
+
+  return `${label} ${verb}: ${details.join(', ')}${more}`;
+}
+
+export function buildWorldEventNotification(event: WorldEvent): WorldEventNotification {
+  return {
+    type: 'world-event',
+    event,
+    uris: resourceUrisForEvent(event),
+    listChanged: changesResourceList(event),
+    message: describeWorldEvent(event),
+  };
+}